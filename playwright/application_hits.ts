@@ -0,0 +1,45 @@
+import { normalizeDateToIso, normalizeTimeRange } from './entry_utils';
+import type { ApplicationHit, RepresentativeEntry } from './types';
+
+// 申込状況から読んだ当選・当選確定を保存する形にする。日付や時間を読めない行は落とす
+export function toApplicationHits(hits: RepresentativeEntry[], fixed: RepresentativeEntry[]): ApplicationHit[] {
+  const records = [
+    ...hits.map(entry => toApplicationHit(entry, 'won')),
+    ...fixed.map(entry => toApplicationHit(entry, 'confirmed')),
+  ].filter((record): record is ApplicationHit => record !== null);
+
+  const seen = new Set<string>();
+  return records.filter(record => {
+    const key = JSON.stringify(record);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function toApplicationHit(entry: RepresentativeEntry, status: ApplicationHit['status']): ApplicationHit | null {
+  const date = normalizeDateToIso(entry.date);
+  // 申込状況の時間は「18:00 ～ 21:00」の形。～ は NFKC で ~ になり normalizeTimeRange が区切りとして読まないので先に置き換える
+  const timeRange = normalizeTimeRange(entry.time.replace(/[~～]/g, '-'));
+  const facility = normalizeSpaces(entry.gymName);
+  if (!date || !timeRange || !facility) {
+    return null;
+  }
+
+  return {
+    date,
+    startTime: timeRange.start.padStart(5, '0'),
+    endTime: timeRange.end.padStart(5, '0'),
+    facility,
+    booth: normalizeSpaces(entry.room),
+    accountName: normalizeSpaces(entry.accountName) || null,
+    accountId: normalizeSpaces(entry.accountId) || null,
+    status,
+  };
+}
+
+function normalizeSpaces(value?: string): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim();
+}
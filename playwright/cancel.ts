@@ -0,0 +1,98 @@
+import { pathToFileURL } from 'node:url';
+import { type Browser } from '@playwright/test';
+
+import {
+  fetchWinCancellationRun,
+  logEarlyReturn,
+  reportAccountLoginSuccess,
+  reportWinCancellation,
+} from './util';
+import { loadEnv } from './env';
+import { runLoginPage } from './page/login_page';
+import { runRequestCancelPage } from './page/request_cancel_page';
+import {
+  ensureRequestStatusPage,
+  getRequestStatusIndexUrl,
+  REQUEST_STATUS_FILTERS,
+  resolveAccountName,
+} from './page/request_status_page';
+import { selectWinsToCancel, toWinCancellationWins } from './win_cancellation';
+import { launchChromium } from './browser';
+
+export const HEADLESS = false;
+
+loadEnv();
+
+// 余った当選の取り消し。実行が scanning なら当選を読んで送るだけ、confirmed なら代表者が確定した枠を取り消す
+export async function main(): Promise<void> {
+  let browser: Browser | null = null;
+
+  const run = await fetchWinCancellationRun();
+  if (!run) {
+    throw new Error('Win cancellation run could not be loaded.');
+  }
+
+  try {
+    browser = await launchChromium({ headless: HEADLESS });
+    const context = await browser.newContext({
+      locale: 'ja-JP',
+      timezoneId: 'Asia/Tokyo',
+    });
+    const page = await context.newPage();
+    const requestStatusUrl = getRequestStatusIndexUrl();
+
+    await page.goto(requestStatusUrl, { waitUntil: 'domcontentloaded' });
+    await runLoginPage(page);
+    await reportAccountLoginSuccess();
+
+    await page.goto(requestStatusUrl, { waitUntil: 'domcontentloaded' });
+    const accountName = await resolveAccountName(page);
+    const wins = toWinCancellationWins(
+      await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[0], undefined, {
+        captureScreenshots: false,
+        includeDetailUrl: true,
+      }),
+    );
+
+    if (run.status === 'scanning') {
+      await reportWinCancellation({ phase: 'scan', accountName, wins });
+      logEarlyReturn(`Win cancellation scan: wins=${wins.length}`);
+      return;
+    }
+
+    const targets = selectWinsToCancel(wins, run.cancelUrls);
+    const cancelled: string[] = [];
+    const failed: Array<{ detailUrl: string; error: string }> = [];
+
+    for (const win of targets) {
+      try {
+        await runRequestCancelPage(page, win.detailUrl);
+        cancelled.push(win.detailUrl);
+        console.log(`🗑️ 取り消し 施設:${win.gymName} 部屋:${win.room} 日付:${win.date} 時間:${win.time}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed.push({ detailUrl: win.detailUrl, error: message });
+        logEarlyReturn(`Failed to cancel win (${win.detailUrl}): ${message}`);
+      }
+    }
+
+    await reportWinCancellation({ phase: 'cancel', cancelled, failed });
+    logEarlyReturn(`Win cancellation: cancelled=${cancelled.length}, failed=${failed.length}`);
+  } catch (error) {
+    logEarlyReturn(`Win cancellation failed: ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  } finally {
+    await browser?.close();
+  }
+}
+
+const executedDirectly = process.argv[1]
+  ? import.meta.url === pathToFileURL(process.argv[1]).href
+  : false;
+
+if (executedDirectly) {
+  main().catch(error => {
+    console.error('Fatal error during win cancellation', error);
+    process.exitCode = 1;
+  });
+}
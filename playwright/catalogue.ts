@@ -0,0 +1,54 @@
+import { pathToFileURL } from 'node:url';
+import { type Browser } from '@playwright/test';
+
+import { logEarlyReturn, saveFacilityCatalogue } from './util';
+import { loadEnv } from './env';
+import { scrapeFacilityCatalogue } from './page/facility_catalogue_page';
+import { launchChromium } from './browser';
+import { getSiteAdapter } from './site';
+
+export const HEADLESS = false;
+
+loadEnv();
+
+// 施設検索の結果から施設・室場の一覧を読み取り、探索対象の施設を選ぶための施設一覧を更新する（ログイン不要）
+export async function main(): Promise<void> {
+  let browser: Browser | null = null;
+
+  try {
+    browser = await launchChromium({ headless: HEADLESS });
+    const context = await browser.newContext({
+      locale: 'ja-JP',
+      timezoneId: 'Asia/Tokyo',
+    });
+    const page = await context.newPage();
+    const site = getSiteAdapter();
+
+    const facilities = await scrapeFacilityCatalogue(page, site);
+    if (facilities.length === 0) {
+      logEarlyReturn(`Facility catalogue scrape found no facilities for ${site.id}; keeping the previous catalogue.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const saved = await saveFacilityCatalogue(site.id, facilities);
+    if (!saved) {
+      process.exitCode = 1;
+      return;
+    }
+    console.log(`Facility catalogue refreshed for ${site.id}: facilities=${facilities.length}`);
+  } finally {
+    await browser?.close();
+  }
+}
+
+const executedDirectly = process.argv[1]
+  ? import.meta.url === pathToFileURL(process.argv[1]).href
+  : false;
+
+if (executedDirectly) {
+  main().catch(error => {
+    console.error('Fatal error during facility catalogue refresh', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,89 @@
+import type { Page } from '@playwright/test';
+
+import type { RepresentativeEntry } from './types';
+import { buildSiteUrl } from './site';
+
+export type EntryFailureKind =
+  | 'selector_timeout'
+  | 'lottery_limit'
+  | 'service_hours'
+  | 'session_expired'
+  | 'slot_unavailable'
+  | 'not_confirmed'
+  | 'unknown';
+
+export type EntryFailure = {
+  kind: EntryFailureKind;
+  message: string;
+};
+
+export type FailedEntry = {
+  entry: RepresentativeEntry;
+  failure: EntryFailure;
+  screenshotPath?: string;
+};
+
+export const ENTRY_FAILURE_LABELS: Record<EntryFailureKind, string> = {
+  selector_timeout: '画面の表示待ちでタイムアウト',
+  lottery_limit: '抽選数が利用制限に該当',
+  service_hours: 'サービス利用時間外',
+  session_expired: 'ログインセッション切れ',
+  slot_unavailable: '対象の枠が見つからない',
+  not_confirmed: '申込完了を確認できない',
+  unknown: '不明なエラー',
+};
+
+// リトライで回復が見込めるもの。利用制限・時間外・枠なしは何度やっても同じなので即失敗にする
+const RETRYABLE_KINDS: EntryFailureKind[] = ['selector_timeout', 'session_expired', 'unknown'];
+
+const SLOT_UNAVAILABLE_PATTERNS = [
+  '希望する時間帯に一致するスロットを取得できませんでした',
+  '希望する日付の抽選枠を比較ページで見つけられませんでした',
+  'に一致する行が見つかりませんでした',
+  '対象の行位置を特定できませんでした',
+];
+
+export function isRetryableFailure(failure: EntryFailure): boolean {
+  return RETRYABLE_KINDS.includes(failure.kind);
+}
+
+export function classifyEntryError(error: unknown, page?: Page | null): EntryFailure {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (message.includes('抽選数が利用制限に該当します')) {
+    return { kind: 'lottery_limit', message };
+  }
+  if (message.includes('サービス利用時間外です')) {
+    return { kind: 'service_hours', message };
+  }
+  if (page && isOnLoginPage(page)) {
+    return { kind: 'session_expired', message };
+  }
+  if (SLOT_UNAVAILABLE_PATTERNS.some(pattern => message.includes(pattern))) {
+    return { kind: 'slot_unavailable', message };
+  }
+  if ((error instanceof Error && error.name === 'TimeoutError') || /Timeout \d+ms exceeded/.test(message)) {
+    return { kind: 'selector_timeout', message };
+  }
+  return { kind: 'unknown', message };
+}
+
+// チェックポイントに保存した失敗情報を EntryFailure に戻す
+export function restoreEntryFailure(value: { kind: string; message: string } | null): EntryFailure {
+  if (value && value.kind in ENTRY_FAILURE_LABELS) {
+    return { kind: value.kind as EntryFailureKind, message: value.message };
+  }
+  return { kind: 'unknown', message: value?.message ?? '' };
+}
+
+export function formatEntryFailure(failure: EntryFailure): string {
+  return ENTRY_FAILURE_LABELS[failure.kind];
+}
+
+function isOnLoginPage(page: Page): boolean {
+  try {
+    return page.url().startsWith(buildSiteUrl('Login'));
+  } catch {
+    return false;
+  }
+}
@@ -3,15 +3,30 @@ import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { type Browser, type Page } from '@playwright/test';
 
-import { cleanupJobCredentials, logEarlyReturn, saveApplicationHits, uploadApplicationImage } from './util';
+import {
+  logEarlyReturn,
+  reportAccountLoginSuccess,
+  reportWinConfirmations,
+  saveApplicationHits,
+  sendLineNotification,
+  uploadApplicationImage,
+} from './util';
+import { toApplicationHits } from './application_hits';
 import { loadEnv } from './env';
 import { runLoginPage } from './page/login_page';
+import { readWinConfirmDeadline, runRequestConfirmPage } from './page/request_confirm_page';
 import type { RepresentativeEntry } from './types';
-import { ensureRequestStatusPage, REQUEST_STATUS_FILTERS, REQUEST_STATUS_INDEX_URL } from './page/request_status_page';
+import {
+  ensureRequestStatusPage,
+  getRequestStatusIndexUrl,
+  REQUEST_STATUS_FILTERS,
+  resolveAccountName,
+  type RequestStatusEntry,
+} from './page/request_status_page';
+import { formatWinConfirmationReminder, type WinConfirmationFailure } from './win_confirmation';
 import { launchChromium } from './browser';
 
 export const HEADLESS = false;
-export const HIT_STATUS_URL = REQUEST_STATUS_INDEX_URL;
 const REQUEST_STATUS_SCREENSHOT_PREFIX = 'request-status-page';
 
 loadEnv();
@@ -28,16 +43,27 @@ export async function main(): Promise<void> {
       // viewport: { width: 3000, height: 1080 },
     });
     page = await context.newPage();
+    const hitStatusUrl = getRequestStatusIndexUrl();
 
-    await page.goto(HIT_STATUS_URL, { waitUntil: 'domcontentloaded' });
+    await page.goto(hitStatusUrl, { waitUntil: 'domcontentloaded' });
     await runLoginPage(page);
-    await cleanupJobCredentials();
+    await reportAccountLoginSuccess();
     await page.waitForTimeout(1_000);
 
     const screenshotPaths: string[] = [];
-    await page.goto(HIT_STATUS_URL, { waitUntil: 'domcontentloaded' });
-    const hits = await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[0], screenshotPaths);
-    await page.goto(HIT_STATUS_URL, { waitUntil: 'domcontentloaded' });
+    // groups/{groupId}.autoConfirmWins。hit-worker.yml が hit-targets の autoConfirmWins から渡す
+    const autoConfirmWins = process.env.PLAYWRIGHT_AUTO_CONFIRM_WINS === 'true';
+    await page.goto(hitStatusUrl, { waitUntil: 'domcontentloaded' });
+    let hits = await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[0], screenshotPaths, {
+      includeDetailUrl: autoConfirmWins,
+    });
+    if (autoConfirmWins && hits.length > 0) {
+      // 当選確定にした分は下の当選確定の一覧に入るので、当選としては残さない
+      const confirmed = await confirmWins(page, hits);
+      hits = hits.filter(hit => !confirmed.includes(hit));
+    }
+    // 当選確定した分はここで当選確定として読み直す
+    await page.goto(hitStatusUrl, { waitUntil: 'domcontentloaded' });
     const fixed = await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[2], screenshotPaths);
 
     const timestamp = Date.now().toString();
@@ -58,6 +84,50 @@ export async function main(): Promise<void> {
   }
 }
 
+// 当選を1件ずつ当選確定にし、できなかった分は期限のリマインダーを送る。当選確定にできた当選を返す
+async function confirmWins(page: Page, hits: RequestStatusEntry[]): Promise<RequestStatusEntry[]> {
+  const accountName = await resolveAccountName(page);
+  const confirmed: RequestStatusEntry[] = [];
+  const failures: WinConfirmationFailure[] = [];
+
+  for (const hit of hits) {
+    if (!hit.detailUrl) {
+      failures.push({ entry: hit, error: '申込の詳細ページが見つかりませんでした', deadline: null });
+      continue;
+    }
+
+    try {
+      await runRequestConfirmPage(page, hit.detailUrl);
+      confirmed.push(hit);
+      console.log(`✅ 当選確定 施設:${hit.gymName} 部屋:${hit.room} 日付:${hit.date} 時間:${hit.time}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push({ entry: hit, error: message, deadline: await readWinConfirmDeadline(page) });
+      logEarlyReturn(`Failed to confirm win (${hit.detailUrl}): ${message}`);
+    }
+  }
+
+  await reportWinConfirmations({
+    accountName,
+    confirmed,
+    failed: failures.map(({ entry, error, deadline }) => ({ ...entry, error, deadline })),
+  });
+  logEarlyReturn(`Win confirmation: confirmed=${confirmed.length}, failed=${failures.length}`);
+
+  if (failures.length === 0) {
+    return confirmed;
+  }
+
+  try {
+    await sendLineNotification(
+      formatWinConfirmationReminder(`${process.env.PLAYWRIGHT_GROUP_ID}/${accountName || process.env.SERVICE_USER}`, failures),
+    );
+  } catch {
+    // LINE通知失敗は抽選状況の確認を失敗扱いにしない
+  }
+  return confirmed;
+}
+
 async function persistHitSummary(
   hits: RepresentativeEntry[],
   fixed: RepresentativeEntry[],
@@ -70,14 +140,14 @@ async function persistHitSummary(
     return;
   }
 
-  const lines = buildStandardizedHitLines(hits, fixed);
-  if (lines.length === 0) {
-    logEarlyReturn('No standardized hit lines to save.');
+  const records = toApplicationHits(hits, fixed);
+  if (records.length === 0) {
+    logEarlyReturn('No hit records to save.');
     return;
   }
 
-  const saved = await saveApplicationHits({ groupId, timestamp, applicationId, hits: lines });
-  logEarlyReturn(`Saved standardized hit lines: ${saved ? lines.length : 0}/${lines.length}`);
+  const saved = await saveApplicationHits({ groupId, timestamp, applicationId, hits: records });
+  logEarlyReturn(`Saved hit records: ${saved ? records.length : 0}/${records.length}`);
 }
 
 async function uploadRequestStatusScreenshots(
@@ -140,37 +210,6 @@ function buildApplicationId(timestamp: string): string {
   return timestamp;
 }
 
-function buildStandardizedHitLines(hits: RepresentativeEntry[], fixed: RepresentativeEntry[]): string[] {
-  return Array.from(new Set([...hits, ...fixed].map(entry => formatHitLine(entry))));
-}
-
-function formatHitLine(entry: RepresentativeEntry): string {
-  const normalize = (value?: string) => (value ?? '').replace(/\s+/g, ' ').trim() || '-';
-  const normalizeOptional = (value?: string) => (value ?? '').replace(/\s+/g, ' ').trim();
-  const normalizeDate = (value?: string) => {
-    const normalized = normalize(value);
-    const match = normalized.match(/(?:\d{4}年)?\s*(\d{1,2})月\s*(\d{1,2})日/);
-    if (!match) {
-      return normalized;
-    }
-    return `${Number(match[1])}月${Number(match[2])}日`;
-  };
-  const normalizeTime = (value?: string) => {
-    const normalized = normalize(value);
-    return normalized.replace(/(^|[^0-9])(\d{1,2}):([0-5]\d)(?=[^0-9]|$)/g, (_, prefix: string, hour: string, minute: string) => {
-      return `${prefix}${Number(hour)}:${minute}`;
-    });
-  };
-  return [
-    normalizeDate(entry.date),
-    normalizeTime(entry.time),
-    normalize(entry.gymName),
-    normalize(entry.room),
-    normalizeOptional(entry.accountName),
-    normalizeOptional(entry.accountId),
-  ].join('\t');
-}
-
 const executedDirectly = process.argv[1]
   ? import.meta.url === pathToFileURL(process.argv[1]).href
   : false;
@@ -3,24 +3,48 @@ import { promises as fs } from 'node:fs';
 import path from 'node:path';
 import { type Browser, type Page } from '@playwright/test';
 
-import { captureScreenshot, cleanupJobCredentials, fetchJob, fetchRepresentativeEntries, logEarlyReturn, logPhase, sendLineNotification, updateJobProgress } from './util';
-import type { RepresentativeEntry } from './types';
+import { captureScreenshot, cleanupJobCredentials, fetchJob, fetchRepresentativeEntries, isJobCancellationRequested, logEarlyReturn, logPhase, reportAccountLoginSuccess, reportAccountQuotaUsage, reportJobResult, saveJobCheckpoint, sendLineNotification, updateJobProgress } from './util';
+import type { JobResult, RepresentativeEntry, ReservationCheckpointEntry } from './types';
 import { runLoginPage } from './page/login_page';
 import { loadEnv } from './env';
 import { launchChromium } from './browser';
 import { runLotRequestPage } from './page/lot_request_page';
-import { runConfirmationPage } from './page/confirmation_page';
+import { runConfirmationPage, waitForConfirmationPage } from './page/confirmation_page';
 import { runSearchPage } from './page/search_page';
 import { runFacilitySearchPage } from './page/facility_search_page';
 import { runFacilityAvailabilityPage } from './page/facility_availability';
 import { runFacilityAvailabilityComparisonPage } from './page/facility_availability_comparison';
-import { buildReservationPlan } from './reservation_plan';
-import { entriesConflictWithExistingRequest, formatEntryLabel } from './entry_utils';
+import {
+  buildDirectUrlEntry,
+  buildFirstComeReservationPlan,
+  buildQuotaUsageReports,
+  buildReservationPlan,
+  refreshReservationPlanRequestStatus,
+  resolveDirectLotRequestUrl,
+} from './reservation_plan';
+import { buildSiteUrl, getSiteAdapter } from './site';
+import { entriesAreEquivalent, entriesConflictWithExistingRequest, formatEntryLabel } from './entry_utils';
+import { classifyEntryError, formatEntryFailure, isRetryableFailure, restoreEntryFailure, type EntryFailure, type FailedEntry } from './entry_failure';
 
 // Placeholder configuration values. Replace with the real ones when wiring this up.
 export const HEADLESS = false;
-export const CANCEL_URL = 'https://yoyaku.harp.lg.jp/sapporo/RequestStatuses/Index?t=1&p=1&s=10';
 const LOG_FILE_PATH = path.resolve(process.cwd(), 'log.txt');
+const INITIAL_PAGE_PATH = 'RequestStatuses/Index?t=1&p=1&s=10';
+const MAX_ENTRY_ATTEMPTS = 2;
+const UNRESOLVED_ENTRY_FAILURE: EntryFailure = {
+  kind: 'slot_unavailable',
+  message: '代表者指定の条件に合う抽選枠が見つかりませんでした。',
+};
+
+type DryRunEntry = {
+  entry: RepresentativeEntry;
+  reason: string;
+};
+
+type SkippedEntry = {
+  entry: RepresentativeEntry;
+  reason: string;
+};
 
 loadEnv();
 
@@ -28,12 +52,19 @@ export async function main(): Promise<void> {
   let browser: Browser | null = null;
   let page: Page | null = null;
   const successEntries: RepresentativeEntry[] = [];
-  const failedEntries: RepresentativeEntry[] = [];
-  let skippedCount = 0;
+  const failedEntries: FailedEntry[] = [];
+  const dryRunEntries: DryRunEntry[] = [];
+  let dryRun = false;
+  const skippedEntries: SkippedEntry[] = [];
+  const processedRecords: ReservationCheckpointEntry[] = [];
   let cancelledCount = 0;
+  let cancelRequested = false;
   let expectedEntryTotal: number | null = null;
   let totalEntries = 0;
   let screenshotCaptured = false;
+  // 申込状況で見えていた枠。終了時に今回の申込分を足して残り枠を更新する
+  let quotaBaseEntries: RepresentativeEntry[] | null = null;
+  let firstCome = false;
 
   const ensureScreenshot = async (): Promise<void> => {
     if (screenshotCaptured || !page) {
@@ -47,12 +78,27 @@ export async function main(): Promise<void> {
     }
   };
 
+  const recordOutcome = (record: ReservationCheckpointEntry): void => {
+    processedRecords.push(record);
+    if (record.outcome === 'success') {
+      successEntries.push(record.entry);
+    } else if (record.outcome === 'dry_run') {
+      dryRunEntries.push({ entry: record.entry, reason: record.reason ?? '' });
+    } else {
+      failedEntries.push({
+        entry: record.entry,
+        failure: restoreEntryFailure(record.failure),
+        screenshotPath: record.screenshotPath ?? undefined,
+      });
+    }
+  };
+
   const syncResultCounts = (): void => {
     const expected = expectedEntryTotal ?? (totalEntries || null);
     if (expected === null) {
       return;
     }
-    const recorded = successEntries.length + failedEntries.length + skippedCount + cancelledCount;
+    const recorded = successEntries.length + dryRunEntries.length + failedEntries.length + skippedEntries.length + cancelledCount;
     if (recorded >= expected) {
       return;
     }
@@ -81,42 +127,109 @@ export async function main(): Promise<void> {
     } else {
       logPhase('job', 'Expected entry count is not available.');
     }
+    dryRun = job?.dryRun === true || process.env.DRY_RUN === 'true';
+    if (dryRun) {
+      logPhase('job', 'Dry run enabled; entries will stop before 申込確定.');
+    }
+    firstCome = job?.mode === 'first_come';
+    if (firstCome) {
+      logPhase('job', 'First-come mode; booking open frames left after the lottery.');
+    }
+    const lotRequestSettings = job?.lotRequest;
+    if (lotRequestSettings) {
+      logPhase('job', `Lot request settings: sport=${lotRequestSettings.sport}, participants=${lotRequestSettings.participants}, extraFields=${lotRequestSettings.extraFields.length}`);
+    }
 
-    logPhase('login', `Navigating to initial page: ${CANCEL_URL}`);
-    await page.goto(CANCEL_URL, { waitUntil: 'domcontentloaded' });
+    const cancelUrl = buildSiteUrl(INITIAL_PAGE_PATH);
+    logPhase('login', `Navigating to initial page (${getSiteAdapter().label}): ${cancelUrl}`);
+    await page.goto(cancelUrl, { waitUntil: 'domcontentloaded' });
     await runLoginPage(page);
+    await reportAccountLoginSuccess();
     logPhase('login', 'Cleaning up job credentials after login attempt.');
     await cleanupJobCredentials();
     await new Promise((resolve) => setTimeout(resolve, 1_000));
 
-    // 代表が予約して欲しい枠
-    logPhase('representative', 'Fetching representative entries.');
-    const requestedRepresentativeEntries = await fetchRepresentativeEntries();
+    // 代表が予約して欲しい枠（再試行ジョブでは指定された枠だけ）。抽選応募URLがあれば、まだ申し込んでいないURLを代表者リストの前に足す
+    const lotRequestUrls = job?.targetEntries || firstCome ? [] : job?.lotRequestUrls ?? [];
+    const pendingLotRequestUrls = lotRequestUrls.filter(url => !job?.submittedLotRequestUrls?.includes(url));
+    if (pendingLotRequestUrls.length < lotRequestUrls.length) {
+      logPhase('representative', `Lot request URLs already submitted by earlier jobs: ${lotRequestUrls.length - pendingLotRequestUrls.length}`);
+    }
+    if (firstCome) {
+      logPhase('representative', 'Skipping representative entries for first-come booking.');
+    } else if (job?.targetEntries) {
+      logPhase('representative', `Using target entries from job: ${job.targetEntries.length}`);
+    } else {
+      logPhase('representative', `Fetching representative entries (lot request URLs from job: ${pendingLotRequestUrls.length}).`);
+    }
+    const requestedRepresentativeEntries = firstCome
+      ? []
+      : job?.targetEntries ?? [...pendingLotRequestUrls.map(buildDirectUrlEntry), ...(await fetchRepresentativeEntries())];
     logPhase('representative', `Fetched representative entries: ${requestedRepresentativeEntries.length}`);
 
-    const reservationPlan = await buildReservationPlan(page, requestedRepresentativeEntries, jobEntryCount);
+    // 先着の空き枠はすぐ埋まるので、再開はせず毎回探し直す
+    const checkpoint = firstCome ? undefined : job?.checkpoint;
+    const firstComePlan = firstCome
+      ? await buildFirstComeReservationPlan(page, jobEntryCount, {
+          scoring: job?.candidateScoring,
+          seekRules: job?.seekRules,
+          seekFacilities: job?.seekFacilities,
+        })
+      : null;
+    const firstComeUrls = new Map(firstComePlan?.candidates.map(candidate => [candidate.entry, candidate.availabilityUrl]));
+    const reservationPlan = checkpoint
+      ? await refreshReservationPlanRequestStatus(page, checkpoint.plan)
+      : firstComePlan
+        ? firstComePlan.plan
+        : await buildReservationPlan(page, requestedRepresentativeEntries, jobEntryCount, {
+          allocationId: job?.allocationId,
+          scoring: job?.candidateScoring,
+          seekRules: job?.seekRules,
+          seekFacilities: job?.seekFacilities,
+        });
+    if (checkpoint) {
+      logPhase('resume', `Resuming from checkpoint: planned=${checkpoint.plan.entries.length}, processed=${checkpoint.processed.length}`);
+      // スクリーンショットは前回のジョブブランチにあるので引き継がない
+      checkpoint.processed.forEach(record => recordOutcome({ ...record, screenshotPath: null }));
+    } else if (!firstCome) {
+      await saveJobCheckpoint({ plan: reservationPlan, processed: [] });
+    }
     const representativeEntries = reservationPlan.entries;
     const requestStatusEntries = reservationPlan.requestStatusEntries;
-    failedEntries.push(...reservationPlan.failedEntries);
+    quotaBaseEntries = firstCome ? null : requestStatusEntries;
+    failedEntries.push(...reservationPlan.failedEntries.map(entry => ({ entry, failure: UNRESOLVED_ENTRY_FAILURE })));
     console.log('応募先の枠: ', representativeEntries);
 
     totalEntries = reservationPlan.totalEntries;
-    if (expectedEntryTotal === null) {
+    // 先着は件数に満たなくても探索で補わないので、見つかった数を期待件数にする
+    if (expectedEntryTotal === null || (firstCome && !checkpoint)) {
       expectedEntryTotal = totalEntries;
     }
     await updateJobProgress(`${Math.min(failedEntries.length, totalEntries)}/${totalEntries}件`);
 
     const entriesQueuedForThisRun: RepresentativeEntry[] = [];
     const pendingEntries = representativeEntries.filter(entry => {
+      // 再開時: 前回の実行で処理済みの枠は飛ばす（スキップとしては数えない）
+      if (processedRecords.some(record => entriesAreEquivalent(record.entry, entry))) {
+        entriesQueuedForThisRun.push(entry);
+        return false;
+      }
+
+      const directLotRequestUrl = resolveDirectLotRequestUrl(entry);
+      if (directLotRequestUrl && job?.submittedLotRequestUrls?.includes(directLotRequestUrl)) {
+        skippedEntries.push({ entry, reason: '前回までのジョブで申込済みのURL' });
+        return false;
+      }
+
       const alreadyRequested = requestStatusEntries.some(requested => entriesConflictWithExistingRequest(requested, entry));
       if (alreadyRequested) {
-        skippedCount += 1;
+        skippedEntries.push({ entry, reason: '既に申込済みの枠と重複' });
         return false;
       }
 
       const alreadyQueued = entriesQueuedForThisRun.some(queuedEntry => entriesConflictWithExistingRequest(queuedEntry, entry));
       if (alreadyQueued) {
-        skippedCount += 1;
+        skippedEntries.push({ entry, reason: '同じ実行内の他の枠と重複' });
         return false;
       }
 
@@ -124,41 +237,85 @@ export async function main(): Promise<void> {
       return true;
     });
 
-    let processedCount = skippedCount + failedEntries.length;
-    logPhase('reservation', `Pending entries: ${pendingEntries.length}; skipped entries: ${skippedCount}`);
+    let processedCount = skippedEntries.length + failedEntries.length + successEntries.length + dryRunEntries.length;
+    logPhase('reservation', `Pending entries: ${pendingEntries.length}; skipped entries: ${skippedEntries.length}`);
     await updateJobProgress(`${Math.min(processedCount, totalEntries)}/${totalEntries}件`);
 
     for (let index = 0; index < pendingEntries.length; index += 1) {
       const entry = pendingEntries[index];
+      if (await isJobCancellationRequested()) {
+        cancelRequested = true;
+        cancelledCount += pendingEntries.length - index;
+        logPhase('cancel', `Cancellation requested; stopping with ${pendingEntries.length - index} entries left.`);
+        break;
+      }
       logPhase('reservation', `Processing representative entry ${index + 1}/${pendingEntries.length}: ${entry.gymName} / ${entry.room} / ${entry.date} ${entry.time}`);
 
-      try {
-        logPhase('reservation', 'Running search page.');
-        await runSearchPage(page, entry);
-        logPhase('reservation', 'Running facility search page.');
-        await runFacilitySearchPage(page, entry.room);
-        logPhase('reservation', 'Running availability comparison page.');
-        await runFacilityAvailabilityComparisonPage(page, entry);
-        logPhase('reservation', 'Running facility availability page.');
-        await runFacilityAvailabilityPage(page, entry);
-        logPhase('reservation', 'Running lot request page.');
-        await runLotRequestPage(page, requestStatusEntries);
-        logPhase('reservation', 'Running confirmation page.');
-        const confirmed = await runConfirmationPage(page);
-        if (confirmed) {
-          successEntries.push(entry);
-          logPhase('reservation', `Entry succeeded: ${formatEntryLabel(entry)}`);
-        } else {
-          failedEntries.push(entry);
-          logPhase('reservation', `Entry not confirmed: ${formatEntryLabel(entry)}`);
+      for (let attempt = 1; attempt <= MAX_ENTRY_ATTEMPTS; attempt += 1) {
+        try {
+          const firstComeUrl = firstComeUrls.get(entry);
+          const directLotRequestUrl = resolveDirectLotRequestUrl(entry);
+          if (firstComeUrl) {
+            logPhase('reservation', `Opening first-come availability page: ${firstComeUrl}`);
+            await page.goto(firstComeUrl, { waitUntil: 'domcontentloaded' });
+            await runFacilityAvailabilityPage(page, entry, 'first_come');
+          } else if (directLotRequestUrl) {
+            logPhase('reservation', `Opening lot request URL directly: ${directLotRequestUrl}`);
+            await page.goto(directLotRequestUrl, { waitUntil: 'domcontentloaded' });
+          } else {
+            logPhase('reservation', 'Running search page.');
+            await runSearchPage(page, entry);
+            logPhase('reservation', 'Running facility search page.');
+            await runFacilitySearchPage(page, entry.room);
+            logPhase('reservation', 'Running availability comparison page.');
+            await runFacilityAvailabilityComparisonPage(page, entry);
+            logPhase('reservation', 'Running facility availability page.');
+            await runFacilityAvailabilityPage(page, entry);
+          }
+          logPhase('reservation', 'Running lot request page.');
+          const reservationKind = firstComeUrl ? 'first_come' : 'lottery';
+          await runLotRequestPage(page, requestStatusEntries, lotRequestSettings, reservationKind);
+          if (dryRun) {
+            logPhase('reservation', 'Dry run: waiting for confirmation page without submitting.');
+            await waitForConfirmationPage(page, reservationKind);
+            const reason = firstComeUrl ? '抽選後に残った空き枠（先着）' : describeEntrySource(entry, requestedRepresentativeEntries);
+            recordOutcome({ entry, outcome: 'dry_run', reason, failure: null, screenshotPath: null });
+            logPhase('reservation', `Dry run: would apply for ${formatEntryLabel(entry)} (${reason})`);
+          } else {
+            logPhase('reservation', 'Running confirmation page.');
+            const confirmed = await runConfirmationPage(page, reservationKind);
+            if (confirmed) {
+              recordOutcome({ entry, outcome: 'success', reason: null, failure: null, screenshotPath: null });
+              logPhase('reservation', `Entry succeeded: ${formatEntryLabel(entry)}`);
+            } else {
+              recordOutcome({
+                entry,
+                outcome: 'failed',
+                reason: null,
+                failure: { kind: 'not_confirmed', message: '申込完了メッセージを確認できませんでした。' },
+                screenshotPath: null,
+              });
+              logPhase('reservation', `Entry not confirmed: ${formatEntryLabel(entry)}`);
+            }
+          }
+          break;
+        } catch (entryError) {
+          const failure = classifyEntryError(entryError, page);
+          const stackTrace = entryError instanceof Error && entryError.stack ? `\nStacktrace:\n${entryError.stack}` : '';
+          logEarlyReturn(
+            `Entry failed [${failure.kind}] attempt ${attempt}/${MAX_ENTRY_ATTEMPTS} (${entry.gymName} / ${entry.room} / ${entry.date} ${entry.time}): ${failure.message}${stackTrace}`,
+          );
+          if (attempt < MAX_ENTRY_ATTEMPTS && isRetryableFailure(failure)) {
+            await recoverBeforeRetry(page, failure);
+            continue;
+          }
+          const screenshotPath = await captureScreenshot(page, 'debug').catch(() => null);
+          recordOutcome({ entry, outcome: 'failed', reason: null, failure, screenshotPath });
+          break;
         }
-      } catch (entryError) {
-        failedEntries.push(entry);
-        const errorMessage = entryError instanceof Error ? entryError.message : String(entryError);
-        const stackTrace = entryError instanceof Error && entryError.stack ? `\nStacktrace:\n${entryError.stack}` : '';
-        logEarlyReturn(
-          `Entry failed (${entry.gymName} / ${entry.room} / ${entry.date} ${entry.time}): ${errorMessage}${stackTrace}`,
-        );
+      }
+      if (!firstCome) {
+        await saveJobCheckpoint({ plan: reservationPlan, processed: processedRecords });
       }
 
       if (index < pendingEntries.length - 1) {
@@ -170,16 +327,19 @@ export async function main(): Promise<void> {
     }
 
     syncResultCounts();
-    logPhase('summary', `Result counts success=${successEntries.length}, failed=${failedEntries.length}, skipped=${skippedCount}, cancelled=${cancelledCount}`);
-    if (successEntries.length > 0 || failedEntries.length > 0 || cancelledCount > 0) {
+    logPhase('summary', `Result counts success=${successEntries.length}, dryRun=${dryRunEntries.length}, failed=${failedEntries.length}, skipped=${skippedEntries.length}, cancelled=${cancelledCount}`);
+    if (successEntries.length > 0 || dryRunEntries.length > 0 || failedEntries.length > 0 || cancelledCount > 0) {
       console.log('Reservation results summary');
       successEntries.forEach(entry => {
         console.log('SUCCESS', formatEntryLabel(entry));
       });
-      failedEntries.forEach(entry => {
-        console.log('FAILED', formatEntryLabel(entry));
+      dryRunEntries.forEach(({ entry, reason }) => {
+        console.log('DRY_RUN', formatEntryLabel(entry), reason);
+      });
+      failedEntries.forEach(({ entry, failure }) => {
+        console.log('FAILED', formatEntryLabel(entry), failure.kind, failure.message);
       });
-      console.log(`Skipped entries: ${skippedCount}`);
+      console.log(`Skipped entries: ${skippedEntries.length}`);
       if (cancelledCount > 0) {
         console.log(`Cancelled entries: ${cancelledCount}`);
       }
@@ -196,10 +356,16 @@ export async function main(): Promise<void> {
     syncResultCounts();
     await ensureScreenshot();
     await browser?.close();
-    await persistLogFile(successEntries, failedEntries, skippedCount, cancelledCount);
+    const jobResult = buildJobResult(successEntries, failedEntries, skippedEntries, dryRunEntries, cancelledCount);
+    await reportJobResult(jobResult);
+    const limitReachedEntries = failedEntries.filter(({ failure }) => failure.kind === 'lottery_limit').map(({ entry }) => entry);
+    if (quotaBaseEntries && (successEntries.length > 0 || limitReachedEntries.length > 0)) {
+      await reportAccountQuotaUsage(buildQuotaUsageReports(quotaBaseEntries, successEntries, limitReachedEntries));
+    }
+    await persistLogFile(jobResult, dryRun, cancelRequested, firstCome);
     try {
       await sendLineNotification(
-        `${process.env.PLAYWRIGHT_GROUP_ID}/${process.env.SERVICE_USER}: 成功${successEntries.length}件 失敗${failedEntries.length}件 スキップ${skippedCount}件 キャンセル${cancelledCount}件`,
+        `${process.env.PLAYWRIGHT_GROUP_ID}/${process.env.SERVICE_USER}: ${firstCome ? '[先着] ' : ''}${formatResultSummary(jobResult, dryRun)}`,
       );
     } catch {
       // LINE通知失敗は本処理結果を失敗扱いにしない
@@ -207,39 +373,79 @@ export async function main(): Promise<void> {
   }
 }
 
-function formatSuccessSummary(entry: RepresentativeEntry): string {
-  const gym = entry.gymName || '施設未指定';
-  const room = entry.room || '部屋未指定';
-  const date = entry.date || '日付未指定';
-  const time = entry.time || '時間未指定';
-  return `${date} ${time}に${gym}の${room}を予約しました。`;
+async function recoverBeforeRetry(page: Page, failure: EntryFailure): Promise<void> {
+  if (failure.kind === 'session_expired') {
+    logPhase('reservation', 'Session expired; logging in again before retry.');
+    await page.goto(buildSiteUrl(INITIAL_PAGE_PATH), { waitUntil: 'domcontentloaded' });
+    await runLoginPage(page);
+    return;
+  }
+  logPhase('reservation', `Retrying entry after ${failure.kind}.`);
+  await page.waitForTimeout(5_000);
+}
+
+function describeEntrySource(entry: RepresentativeEntry, requestedEntries: RepresentativeEntry[]): string {
+  if (resolveDirectLotRequestUrl(entry)) {
+    return '登録された抽選応募URL';
+  }
+  if (requestedEntries.some(requested => entriesAreEquivalent(requested, entry))) {
+    return '代表者リストで指定された枠';
+  }
+  return '空き枠の探索で応募数が少ない枠として選定';
 }
 
-async function persistLogFile(
+function buildJobResult(
   successEntries: RepresentativeEntry[],
-  failedEntries: RepresentativeEntry[],
-  skippedCount: number,
+  failedEntries: FailedEntry[],
+  skippedEntries: SkippedEntry[],
+  dryRunEntries: DryRunEntry[],
   cancelledCount: number,
-): Promise<void> {
-  const summaryLine = `成功${successEntries.length}件 失敗${failedEntries.length}件 スキップ${skippedCount}件 キャンセル${cancelledCount}件`;
-  const detailLines = failedEntries.length > 0
-    ? failedEntries.map(entry => `失敗: ${formatEntryLabel(entry)}`)
-    : successEntries.length > 0
-      ? successEntries.map(entry => formatSuccessSummary(entry))
-      : ['失敗はありませんでした。'];
-  const skipMessage = skippedCount > 0 ? '一部の候補は既に予約済みのためスキップしました。' : undefined;
-  const cancelMessage = cancelledCount > 0 ? 'ログイン不可などの理由で処理できなかった枠をキャンセルとして計上しました。' : undefined;
-  const logLines = [summaryLine, '', ...detailLines];
-  if (skipMessage) {
-    logLines.push(skipMessage);
+): JobResult {
+  return {
+    counts: {
+      success: successEntries.length,
+      failed: failedEntries.length,
+      skipped: skippedEntries.length,
+      cancelled: cancelledCount,
+      dryRun: dryRunEntries.length,
+    },
+    entries: [
+      ...failedEntries.map(({ entry, failure, screenshotPath }) => ({
+        entry,
+        outcome: 'failed' as const,
+        reason: formatEntryFailure(failure),
+        screenshotPath: screenshotPath ?? null,
+      })),
+      ...successEntries.map(entry => ({ entry, outcome: 'success' as const, reason: null, screenshotPath: null })),
+      ...dryRunEntries.map(({ entry, reason }) => ({ entry, outcome: 'dry_run' as const, reason, screenshotPath: null })),
+      ...skippedEntries.map(({ entry, reason }) => ({ entry, outcome: 'skipped' as const, reason, screenshotPath: null })),
+    ],
+  };
+}
+
+function formatResultSummary({ counts }: JobResult, dryRun: boolean): string {
+  return dryRun
+    ? `[ドライラン] 申込予定${counts.dryRun}件 失敗${counts.failed}件 スキップ${counts.skipped}件 キャンセル${counts.cancelled}件`
+    : `成功${counts.success}件 失敗${counts.failed}件 スキップ${counts.skipped}件 キャンセル${counts.cancelled}件`;
+}
+
+// 枠ごとの結果は reportJobResult で送るので、log.txt（ジョブの message）は要約だけにする
+async function persistLogFile(result: JobResult, dryRun: boolean, cancelRequested: boolean, firstCome: boolean): Promise<void> {
+  const logLines = [formatResultSummary(result, dryRun)];
+  if (firstCome) {
+    logLines.push('抽選後に残った空き枠を先着で予約しました。');
+  }
+  if (dryRun) {
+    logLines.push('申込確定の直前で停止しました。実際の申込は行っていません。');
   }
-  if (cancelMessage) {
-    logLines.push(cancelMessage);
+  if (cancelRequested) {
+    logLines.push('キャンセルが要求されたため、残りの枠は処理せずに終了しました。');
+  } else if (result.counts.cancelled > 0) {
+    logLines.push('ログイン不可などの理由で処理できなかった枠をキャンセルとして計上しました。');
   }
-  const logContent = logLines.join('<br>');
 
   try {
-    await fs.writeFile(LOG_FILE_PATH, logContent, 'utf8');
+    await fs.writeFile(LOG_FILE_PATH, logLines.join('\n'), 'utf8');
   } catch (logError) {
     console.error('Failed to write log file', logError);
   }
@@ -1,14 +1,19 @@
 import type { Page } from '@playwright/test';
 import { captureScreenshot, logEarlyReturn } from '../util';
-
-const TARGET_URL = 'https://yoyaku.harp.lg.jp/sapporo/LotRequests/InsertConfirm';
+import { buildSiteUrl } from '../site';
+import type { ReservationKind } from '../types';
 
 const CANCELLATION_KEYWORDS = ['取消料', 'キャンセル料'];
 
-export async function runConfirmationPage(page: Page): Promise<boolean> {
-  await page.waitForURL((url) => url.toString().startsWith(TARGET_URL), {
+export async function waitForConfirmationPage(page: Page, kind: ReservationKind = 'lottery'): Promise<void> {
+  const targetUrl = buildSiteUrl(kind === 'first_come' ? 'Reservations/InsertConfirm' : 'LotRequests/InsertConfirm');
+  await page.waitForURL((url) => url.toString().startsWith(targetUrl), {
     timeout: 10_000,
   });
+}
+
+export async function runConfirmationPage(page: Page, kind: ReservationKind = 'lottery'): Promise<boolean> {
+  await waitForConfirmationPage(page, kind);
 
   const acknowledgeCheckbox = page.locator('span', { hasText: '注意事項を確認しました' }).first();
   await acknowledgeCheckbox.waitFor({ state: 'visible', timeout: 10_000 });
@@ -1,11 +1,18 @@
 import type { Locator, Page } from '@playwright/test';
 import { throwLoggedError, waitForTutorial } from '../util';
-import { RepresentativeEntry } from '../types';
+import { RepresentativeEntry, type ReservationKind } from '../types';
+import { buildSiteUrl } from '../site';
 
-const TARGET_URL = 'https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Index';
+// 先着で予約できる枠のボタン。title は「2026年11月7日 13時から17時 空き」の形（抽選申込可・予約ありは対象外）
+export const FIRST_COME_FRAME_TITLE_PATTERN = /(空き|予約申込可)$/;
 
-export async function runFacilityAvailabilityPage(page: Page, entry: RepresentativeEntry): Promise<void> {
-  await page.waitForURL((url) => url.toString().startsWith(TARGET_URL), {
+export async function runFacilityAvailabilityPage(
+  page: Page,
+  entry: RepresentativeEntry,
+  kind: ReservationKind = 'lottery',
+): Promise<void> {
+  const targetUrl = buildSiteUrl('FacilityAvailability/Index');
+  await page.waitForURL((url) => url.toString().startsWith(targetUrl), {
     timeout: 10_000,
   });
   await waitForTutorial(page);
@@ -13,7 +20,9 @@ export async function runFacilityAvailabilityPage(page: Page, entry: Representat
 
   const [room, booth] = splitRoomAndBooth(entry.room);
   const matchingRowIndex = await getMatchingRow(page, room, booth);
-  const lotterySlots = await getLotterySlots(page, matchingRowIndex);
+  const lotterySlots = kind === 'first_come'
+    ? await getFirstComeSlots(page, matchingRowIndex)
+    : await getLotterySlots(page, matchingRowIndex);
 
   const entryRange = parseEntryTime(entry.time);
   if (!entryRange) {
@@ -33,7 +42,7 @@ export async function runFacilityAvailabilityPage(page: Page, entry: Representat
   await confirmButton.waitFor({ state: 'visible', timeout: 10_000 });
   await confirmButton.click();
 
-  const applyButton = page.locator('span', { hasText: '抽選申込へ' }).first();
+  const applyButton = page.locator('span', { hasText: kind === 'first_come' ? '予約申込へ' : '抽選申込へ' }).first();
   await applyButton.waitFor({ state: 'visible', timeout: 10_000 });
   await applyButton.click();
 
@@ -161,6 +170,23 @@ async function getLotterySlots(page: Page, matchingRowIndex: number): Promise<Ar
   return lotterySlots;
 }
 
+async function getFirstComeSlots(page: Page, matchingRowIndex: number): Promise<Array<Locator>> {
+  const targetRow = page.locator('table.AvailabilityFrames_gridTable tr').nth(matchingRowIndex);
+  const frameButtons = targetRow.locator('button.AvailabilityFrameSet_frame_content:not(.is-lot):not([disabled])');
+  const frameCount = await frameButtons.count();
+  const firstComeSlots: Array<Locator> = [];
+
+  for (let i = 0; i < frameCount; i += 1) {
+    const button = frameButtons.nth(i);
+    const title = (await button.getAttribute('title'))?.trim() ?? '';
+    if (FIRST_COME_FRAME_TITLE_PATTERN.test(title)) {
+      firstComeSlots.push(button);
+    }
+  }
+
+  return firstComeSlots;
+}
+
 function splitRoomAndBooth(room: string): [string, string | undefined] {
   const segments = room.split('/').map(part => part.trim()).filter(Boolean);
   if (segments.length === 0) {
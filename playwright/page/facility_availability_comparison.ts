@@ -2,12 +2,13 @@ import type { Locator, Page } from '@playwright/test';
 
 import type { RepresentativeEntry } from '../types';
 import { deriveUdParam, throwLoggedError, waitForTutorial } from '../util';
+import { buildSiteUrl, getSiteAdapter } from '../site';
 
-const COMPARISON_URL_PREFIX = 'https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Comparison';
 const COMPARISON_TABLE_ROWS = 'table.AvailabilityFrames_gridTable tr';
 
 export async function runFacilityAvailabilityComparisonPage(page: Page, entry: RepresentativeEntry): Promise<void> {
-  await page.waitForURL(url => url.toString().startsWith(COMPARISON_URL_PREFIX), {
+  const comparisonUrlPrefix = buildSiteUrl('FacilityAvailability/Comparison');
+  await page.waitForURL(url => url.toString().startsWith(comparisonUrlPrefix), {
     timeout: 10_000,
   });
 
@@ -236,7 +237,7 @@ async function resolveSlotDate(link: Locator): Promise<string | undefined> {
   }
 
   try {
-    const url = new URL(href, 'https://yoyaku.harp.lg.jp');
+    const url = new URL(href, getSiteAdapter().origin);
     const dateParam = url.searchParams.get('d');
     return dateParam ?? undefined;
   } catch {
@@ -0,0 +1,116 @@
+import type { Page } from '@playwright/test';
+
+import { buildLotSearchUrl, buildSiteUrl, getSiteAdapter, type SiteAdapter } from '../site';
+import type { CatalogueFacility } from '../types';
+import { logEarlyReturn, waitForTutorial } from '../util';
+
+// 1ページずつ送るので上限を決めておく（施設一覧が数十ページになることはない）
+const MAX_RESULT_PAGES = 30;
+
+// 検索結果の室場1件分。href は室場ごとの空き状況ページへのリンク
+export type ScrapedRoomLink = {
+  href: string;
+  roomName: string;
+  facilityName: string;
+};
+
+// 利用目的で絞った施設検索の結果を全ページ見て、施設と室場のコードを集める
+export async function scrapeFacilityCatalogue(page: Page, site: SiteAdapter = getSiteAdapter()): Promise<CatalogueFacility[]> {
+  await page.goto(buildLotSearchUrl(site), { waitUntil: 'domcontentloaded' });
+  await waitForTutorial(page);
+
+  const searchButton = page.getByRole('button', { name: '検索', exact: true });
+  await searchButton.waitFor({ state: 'visible', timeout: 10_000 });
+  await searchButton.click();
+  await page.waitForURL(url => url.toString().startsWith(buildSiteUrl('FacilitySearch', site)), { timeout: 10_000 });
+
+  const links: ScrapedRoomLink[] = [];
+  for (let pageIndex = 0; pageIndex < MAX_RESULT_PAGES; pageIndex += 1) {
+    await page.waitForFunction(() => document.querySelectorAll('[id^="room-"]').length > 0, undefined, { timeout: 10_000 });
+    links.push(...(await collectRoomLinks(page)));
+
+    const nextButton = page.getByRole('button', { name: /次のページ|Next page/ });
+    if ((await nextButton.count()) === 0 || !(await nextButton.first().isEnabled())) {
+      break;
+    }
+    await nextButton.first().click();
+    await page.waitForTimeout(1_500);
+  }
+
+  const schoolFacilityCodes = site.schoolFacilityGroups.flat().map(facility => facility.fc);
+  return buildCatalogueFacilities(links, site.origin, schoolFacilityCodes);
+}
+
+async function collectRoomLinks(page: Page): Promise<ScrapedRoomLink[]> {
+  return page.locator('[id^="room-"]').evaluateAll(rooms =>
+    rooms.flatMap(room => {
+      const link = room.querySelector<HTMLAnchorElement>('a[href*="FacilityAvailability"]');
+      if (!link) {
+        return [];
+      }
+
+      // 室場の外側で最初に見つかる見出しを施設名とみなす
+      let facilityName = '';
+      for (let parent = room.parentElement; parent && !facilityName; parent = parent.parentElement) {
+        const heading = Array.from(parent.querySelectorAll('a.h-ctDeep, .headline, h2, h3')).find(element => !room.contains(element));
+        facilityName = heading?.textContent?.trim() ?? '';
+      }
+
+      return [{
+        href: link.getAttribute('href') ?? '',
+        roomName: (link.getAttribute('title') ?? link.textContent ?? '').trim(),
+        facilityName,
+      }];
+    }),
+  );
+}
+
+// 空き状況ページのURLから施設コードと室場コードを取り出す（…/FacilityAvailability/Index/{lg}/{fc}?rc={室場} または tg[0].fc= / tg[0].r[0]= の形）
+export function parseFacilityRoomCodes(href: string, origin: string): { facilityCode: string; roomCode: string } | null {
+  let url: URL;
+  try {
+    url = new URL(href, origin);
+  } catch {
+    return null;
+  }
+
+  const params = Array.from(url.searchParams.entries());
+  const facilityCode = params.find(([key]) => /(^|\.)fc$/.test(key))?.[1]
+    ?? url.pathname.match(/\/FacilityAvailability\/Index\/(?:[^/]+\/)?([0-9A-Za-z]+)\/?$/)?.[1];
+  const roomCode = params.find(([key]) => /(^|\.)(rc|r\[0\])$/.test(key))?.[1];
+
+  if (!facilityCode || !roomCode) {
+    return null;
+  }
+  return { facilityCode, roomCode };
+}
+
+// 学校開放の室場は施設名に「学校」が入る。名前で判別できない分はサイト既定の学校の施設コードで補う
+export function buildCatalogueFacilities(
+  links: ScrapedRoomLink[],
+  origin: string,
+  schoolFacilityCodes: string[] = [],
+): CatalogueFacility[] {
+  const facilities = new Map<string, CatalogueFacility>();
+
+  for (const link of links) {
+    const codes = parseFacilityRoomCodes(link.href, origin);
+    if (!codes) {
+      logEarlyReturn(`[catalogue] 施設・室場のコードを読み取れないリンクを飛ばします: ${link.href}`);
+      continue;
+    }
+
+    const facility = facilities.get(codes.facilityCode) ?? {
+      code: codes.facilityCode,
+      name: link.facilityName,
+      category: link.facilityName.includes('学校') || schoolFacilityCodes.includes(codes.facilityCode) ? 'school' : 'gym',
+      rooms: [],
+    };
+    if (!facility.rooms.some(room => room.code === codes.roomCode)) {
+      facility.rooms.push({ code: codes.roomCode, name: link.roomName });
+    }
+    facilities.set(codes.facilityCode, facility);
+  }
+
+  return [...facilities.values()].sort((lhs, rhs) => lhs.code.localeCompare(rhs.code));
+}
@@ -1,6 +1,6 @@
 import type { Page } from '@playwright/test';
+import { buildSiteUrl } from '../site';
 
-const FACILITY_URL_PREFIX = 'https://yoyaku.harp.lg.jp/sapporo/FacilitySearch';
 const ROOM_SELECTOR = '[id^="room-"]';
 const MATCH_SUBSTRING = 'trip_origin';
 const SLOT_SELECTOR = '.v-input__slot';
@@ -12,7 +12,8 @@ type RoomInfo = {
 
 
 export async function runFacilitySearchPage(page: Page, roomName: string): Promise<void> {
-  await page.waitForURL(url => url.toString().startsWith(FACILITY_URL_PREFIX), {
+  const facilityUrlPrefix = buildSiteUrl('FacilitySearch');
+  await page.waitForURL(url => url.toString().startsWith(facilityUrlPrefix), {
     timeout: 10_000,
   });
 
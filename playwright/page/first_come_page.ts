@@ -0,0 +1,158 @@
+import type { Page } from '@playwright/test';
+
+import { DEFAULT_CANDIDATE_SCORING_SETTINGS, selectScoredCandidates } from '../../src/lib/sites/candidate-scoring';
+import { entriesConflictWithExistingRequest, formatJapaneseDateFromIso, getNextMonthYearMonth } from '../entry_utils';
+import { DEFAULT_SEEK_SLOT_RULES, entryMatchesSeekSlotRules } from '../seek_slot_rules';
+import { buildComparisonUrl, buildSiteUrl, getSiteAdapter, resolveComparisonFacilityGroups } from '../site';
+import type { CandidateScoringSettings, RepresentativeEntry, SeekFacility, SeekSlotRules } from '../types';
+import { logEarlyReturn, waitForTutorial } from '../util';
+import { FIRST_COME_FRAME_TITLE_PATTERN } from './facility_availability';
+import { buildAbsoluteUrl, processWithConcurrency, shuffleInPlace } from './seek_lot_compare_page';
+
+const JST_TIMEZONE = 'Asia/Tokyo';
+const DETAIL_PAGE_CONCURRENCY = 5;
+
+// 先着で予約できる枠と、その枠を選ぶ空き状況ページのURL
+export type FirstComeCandidate = {
+  entry: RepresentativeEntry;
+  availabilityUrl: string;
+};
+
+export type FirstComeSeekOptions = {
+  blockedEntries?: RepresentativeEntry[];
+  scoring?: CandidateScoringSettings;
+  rules?: SeekSlotRules;
+  facilities?: SeekFacility[];
+};
+
+// 抽選の結果が出た後に残った枠は、同じ比較画面に抽選ではない空き枠として出る。体育館・学校の両方を今月と翌月分見て回る
+export async function runFirstComeSeekPage(
+  page: Page,
+  desiredCount: number,
+  options: FirstComeSeekOptions = {},
+): Promise<FirstComeCandidate[]> {
+  if (desiredCount <= 0) {
+    return [];
+  }
+
+  const site = getSiteAdapter();
+  const comparisonUrlPrefix = buildSiteUrl('FacilityAvailability/Comparison', site);
+  const searchMonths = [...new Set([resolveCurrentYearMonth(), getNextMonthYearMonth(JST_TIMEZONE)])];
+  const comparisonUrls = (['gym', 'school'] as const).flatMap(category =>
+    resolveComparisonFacilityGroups(category, options.facilities, site).facilityGroups.flatMap(facilities =>
+      searchMonths.map(month => `${buildComparisonUrl(facilities, site)}${month}`),
+    ),
+  );
+
+  const rules = options.rules ?? DEFAULT_SEEK_SLOT_RULES;
+  const blockedEntries = options.blockedEntries ?? [];
+  const scouted = await scoutFirstComeCandidates(page, comparisonUrls, comparisonUrlPrefix);
+  const candidates = scouted.filter(({ entry }) =>
+    entryMatchesSeekSlotRules(entry, rules)
+    && !blockedEntries.some(blockedEntry => entriesConflictWithExistingRequest(blockedEntry, entry)),
+  );
+  console.log(`🔎 先着の空き枠 見つかった件数:${scouted.length} 条件に合う件数:${candidates.length}`);
+
+  // 応募数はないので、応募数以外の重み（曜日・時間帯・距離など）で並べる
+  const selected = selectScoredCandidates(
+    candidates.map(candidate => ({ ...candidate, count: 0 })),
+    desiredCount,
+    options.scoring ?? DEFAULT_CANDIDATE_SCORING_SETTINGS,
+    entriesConflictWithExistingRequest,
+  );
+
+  return selected.map(({ entry, availabilityUrl }) => {
+    console.log(`🎉 採用 先着 施設:${entry.gymName} 部屋:${entry.room} 日付:${entry.date} 時間:${entry.time}`);
+    return { entry: { ...entry, date: formatJapaneseDateFromIso(entry.date) }, availabilityUrl };
+  });
+}
+
+async function scoutFirstComeCandidates(
+  page: Page,
+  comparisonUrls: string[],
+  comparisonUrlPrefix: string,
+): Promise<FirstComeCandidate[]> {
+  const candidates: FirstComeCandidate[] = [];
+
+  for (const url of comparisonUrls) {
+    await page.goto(url, { waitUntil: 'domcontentloaded' });
+    await page.waitForURL(url => url.toString().startsWith(comparisonUrlPrefix), { timeout: 10_000 });
+    await waitForTutorial(page);
+    await new Promise(resolve => setTimeout(resolve, 2_000));
+
+    // 抽選（is-lot）以外で、リンクになっている日が空き枠のある日
+    const dayLinks = page.locator('a.AvailabilityFrames_dayFrame_content[href]:not(.is-lot)');
+    const hrefs = (await dayLinks.evaluateAll(links => links.map(link => link.getAttribute('href') ?? '')))
+      .filter(Boolean)
+      .map(buildAbsoluteUrl);
+    if (hrefs.length === 0) {
+      logEarlyReturn(`[runFirstComeSeekPage] 空き枠のある日が見つかりませんでした: ${url}`);
+      continue;
+    }
+
+    shuffleInPlace(hrefs);
+    await processWithConcurrency(hrefs, DETAIL_PAGE_CONCURRENCY, async availabilityUrl => {
+      const detailPage = await page.context().newPage();
+      try {
+        await detailPage.goto(availabilityUrl, { waitUntil: 'domcontentloaded' });
+        const entries = await collectFirstComeEntries(detailPage);
+        candidates.push(...entries.map(entry => ({ entry, availabilityUrl })));
+      } catch (error) {
+        logEarlyReturn(
+          `[runFirstComeSeekPage] 空き状況ページの確認に失敗したため見送ります: ${availabilityUrl} ${error instanceof Error ? error.message : String(error)}`,
+        );
+      } finally {
+        await detailPage.close();
+      }
+    });
+  }
+
+  return candidates;
+}
+
+async function collectFirstComeEntries(page: Page): Promise<RepresentativeEntry[]> {
+  await page.waitForURL(url => url.toString().startsWith(buildSiteUrl('FacilityAvailability/Index')), { timeout: 10_000 });
+  await waitForTutorial(page);
+  await page.locator('table.AvailabilityFrames_gridTable').first().waitFor({ state: 'visible', timeout: 10_000 });
+
+  const gymName = (await page.locator('a.h-ctDeep.headline').innerText()).trim();
+  const roomName = (await page.locator('button.SearchForm_simple_condition span.InputContainer').innerText()).trim();
+  const frames = await page
+    .locator('button.AvailabilityFrameSet_frame_content:not(.is-lot):not([disabled])')
+    .evaluateAll(buttons => buttons.map(button => ({
+      title: button.getAttribute('title') ?? '',
+      booth: button.closest('tr')?.querySelector('th .v-btn__content')?.textContent?.trim() ?? '',
+    })));
+
+  return frames.flatMap(({ title, booth }) => {
+    const frame = parseFirstComeFrameTitle(title);
+    if (!frame) {
+      return [];
+    }
+    return [{ gymName, room: booth ? `${roomName} / ${booth}` : roomName, date: frame.date, time: frame.time }];
+  });
+}
+
+// 「2026年11月7日 13時から17時 空き」→ { date: '2026-11-07', time: '13:00-17:00' }。先着で取れない枠は null
+export function parseFirstComeFrameTitle(title: string): { date: string; time: string } | null {
+  const normalized = title.normalize('NFKC').trim();
+  if (!FIRST_COME_FRAME_TITLE_PATTERN.test(normalized)) {
+    return null;
+  }
+
+  const match = normalized.match(/(\d{4})年(\d{1,2})月(\d{1,2})日\s*(\d{1,2})時(?:(\d{1,2})分)?から(\d{1,2})時(?:(\d{1,2})分)?/);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, startHour, startMinute, endHour, endMinute] = match;
+  return {
+    date: `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`,
+    time: `${Number(startHour)}:${(startMinute ?? '0').padStart(2, '0')}-${Number(endHour)}:${(endMinute ?? '0').padStart(2, '0')}`,
+  };
+}
+
+function resolveCurrentYearMonth(): string {
+  const jstTimestamp = new Date(new Date().toLocaleString('en-US', { timeZone: JST_TIMEZONE }));
+  return `${jstTimestamp.getFullYear()}-${String(jstTimestamp.getMonth() + 1).padStart(2, '0')}`;
+}
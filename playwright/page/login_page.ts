@@ -1,7 +1,6 @@
 import type { Page } from '@playwright/test';
 import { captureScreenshot, logEarlyReturn, logPhase, throwLoggedError } from '../util';
-
-const LOGIN_URL = 'https://yoyaku.harp.lg.jp/sapporo/Login';
+import { buildSiteUrl } from '../site';
 
 export async function runLoginPage(page: Page): Promise<void> {
   logPhase('login', `Start login flow from ${page.url()}`);
@@ -24,7 +23,8 @@ export async function runLoginPage(page: Page): Promise<void> {
   }
 
   logPhase('login', 'Waiting for login page navigation.');
-  await page.waitForURL(current => current.toString().startsWith(LOGIN_URL), {
+  const loginUrl = buildSiteUrl('Login');
+  await page.waitForURL(current => current.toString().startsWith(loginUrl), {
     timeout: 10_000,
   });
   logPhase('login', `Login page loaded: ${page.url()}`);
@@ -68,7 +68,7 @@ async function submitLoginForm(page: Page): Promise<void> {
 }
 
 function isLoginPage(url: string): boolean {
-  return url.startsWith(LOGIN_URL);
+  return url.startsWith(buildSiteUrl('Login'));
 }
 
 async function waitForUrlToLeaveLoginPage(page: Page): Promise<void> {
@@ -1,15 +1,18 @@
 import type { Page } from '@playwright/test';
 import { captureScreenshot, throwLoggedError } from '../util';
-import type { RepresentativeEntry } from '../types';
-
-export const LOT_REQUEST_URL = 'https://yoyaku.harp.lg.jp/sapporo/LotRequests/';
+import type { LotRequestSettings, RepresentativeEntry, ReservationKind } from '../types';
+import { buildSiteUrl, getSiteAdapter } from '../site';
 
 export async function runLotRequestPage(
   page: Page,
   entries: RepresentativeEntry[],
+  settings?: LotRequestSettings,
+  kind: ReservationKind = 'lottery',
 ): Promise<void> {
+  // 先着の予約も入力項目は抽選申込と同じで、URLだけが Reservations/ になる
+  const lotRequestUrl = buildSiteUrl(kind === 'first_come' ? 'Reservations/' : 'LotRequests/');
   try {
-    await page.waitForURL((url) => url.toString().startsWith(LOT_REQUEST_URL), {
+    await page.waitForURL((url) => url.toString().startsWith(lotRequestUrl), {
       timeout: 10_000,
       waitUntil: 'domcontentloaded',
     });
@@ -25,7 +28,8 @@ export async function runLotRequestPage(
   const targetInput = sportInput.first();
   await targetInput.click();
   await targetInput.fill('');
-  await targetInput.type('バドミントン', { delay: 50 });
+  const sport = settings?.sport ?? getSiteAdapter().sport;
+  await targetInput.type(sport, { delay: 50 });
 
   const listId = await targetInput.getAttribute('aria-controls');
   if (!listId) {
@@ -34,16 +38,26 @@ export async function runLotRequestPage(
 
   const optionList = page.locator(`#${listId}`);
   await optionList.waitFor({ state: 'visible', timeout: 10_000 });
-  const badmintonOption = optionList.locator('[role="option"]', { hasText: 'バドミントン' }).first();
-  await badmintonOption.waitFor({ state: 'visible', timeout: 10_000 });
-  await badmintonOption.click();
+  const sportOption = optionList.locator('[role="option"]', { hasText: sport }).first();
+  await sportOption.waitFor({ state: 'visible', timeout: 10_000 });
+  await sportOption.click();
 
   // await new Promise(resolve => setTimeout(resolve, 3_000));
   const participantsInput = page.getByLabel('利用人数');
   await participantsInput.waitFor({ state: 'visible', timeout: 10_000 });
-  await participantsInput.fill('20');
-
+  await participantsInput.fill(String(settings?.participants ?? 20));
 
+  for (const field of settings?.extraFields ?? []) {
+    const fieldInput = page.getByLabel(field.label, { exact: true }).first();
+    const visible = await fieldInput
+      .waitFor({ state: 'visible', timeout: 5_000 })
+      .then(() => true)
+      .catch(() => false);
+    if (!visible) {
+      throwLoggedError(`[runLotRequestPage:No.5] 入力項目が見つかりませんでした: ${field.label}`);
+    }
+    await fieldInput.fill(field.value);
+  }
 
   const confirmButton = page.getByRole('button', { name: '確認' });
   await confirmButton.waitFor({ state: 'visible', timeout: 10_000 });
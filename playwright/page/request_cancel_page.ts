@@ -0,0 +1,35 @@
+import type { Page } from '@playwright/test';
+import { captureScreenshot, logEarlyReturn } from '../util';
+import { openRequestDetailPage } from './request_status_page';
+
+const CANCEL_BUTTON_PATTERN = /^(申込取消|取消|取り消す|当選辞退|辞退する)$/;
+const CONFIRM_BUTTON_PATTERN = /^(はい|OK|取消する|取り消す|辞退する)$/;
+const CANCELLED_MESSAGE_PATTERN = /(取り?消しました|取消しました|辞退しました)/;
+
+// 申込状況の詳細ページから当選を取り消す。確認ダイアログはサイトのダイアログとブラウザの confirm のどちらでも進める
+export async function runRequestCancelPage(page: Page, detailUrl: string): Promise<void> {
+  await openRequestDetailPage(page, detailUrl);
+
+  const cancelButton = page.getByRole('button', { name: CANCEL_BUTTON_PATTERN }).first();
+  await cancelButton.waitFor({ state: 'visible', timeout: 10_000 });
+
+  page.once('dialog', dialog => {
+    void dialog.accept();
+  });
+  await cancelButton.click();
+
+  const confirmButton = page.locator('.v-dialog--active').getByRole('button', { name: CONFIRM_BUTTON_PATTERN }).first();
+  try {
+    await confirmButton.waitFor({ state: 'visible', timeout: 5_000 });
+    await confirmButton.click();
+  } catch {
+    logEarlyReturn('[runRequestCancelPage] 確認ダイアログが出なかったため、そのまま完了を待ちます。');
+  }
+
+  try {
+    await page.getByText(CANCELLED_MESSAGE_PATTERN).first().waitFor({ state: 'visible', timeout: 10_000 });
+  } catch (error) {
+    await captureScreenshot(page, 'debug').catch(() => '');
+    throw new Error(`取り消しの完了を確認できませんでした: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,45 @@
+import type { Page } from '@playwright/test';
+import { captureScreenshot, logEarlyReturn } from '../util';
+import { parseWinConfirmDeadline } from '../win_confirmation';
+import { openRequestDetailPage } from './request_status_page';
+
+const CONFIRM_BUTTON_PATTERN = /^(当選確定|確定する|利用確定)$/;
+const DIALOG_CONFIRM_BUTTON_PATTERN = /^(はい|OK|確定する)$/;
+const CONFIRMED_MESSAGE_PATTERN = /(確定しました|確定を受け付けました)/;
+
+// 申込状況の詳細ページから当選を当選確定にする。確認ダイアログはサイトのダイアログとブラウザの confirm のどちらでも進める
+export async function runRequestConfirmPage(page: Page, detailUrl: string): Promise<void> {
+  await openRequestDetailPage(page, detailUrl);
+
+  const confirmButton = page.getByRole('button', { name: CONFIRM_BUTTON_PATTERN }).first();
+  await confirmButton.waitFor({ state: 'visible', timeout: 10_000 });
+
+  page.once('dialog', dialog => {
+    void dialog.accept();
+  });
+  await confirmButton.click();
+
+  const dialogButton = page.locator('.v-dialog--active').getByRole('button', { name: DIALOG_CONFIRM_BUTTON_PATTERN }).first();
+  try {
+    await dialogButton.waitFor({ state: 'visible', timeout: 5_000 });
+    await dialogButton.click();
+  } catch {
+    logEarlyReturn('[runRequestConfirmPage] 確認ダイアログが出なかったため、そのまま完了を待ちます。');
+  }
+
+  try {
+    await page.getByText(CONFIRMED_MESSAGE_PATTERN).first().waitFor({ state: 'visible', timeout: 10_000 });
+  } catch (error) {
+    await captureScreenshot(page, 'debug').catch(() => '');
+    throw new Error(`当選確定の完了を確認できませんでした: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// 詳細ページに出ている確定の期限。見つからなければ null
+export async function readWinConfirmDeadline(page: Page): Promise<string | null> {
+  try {
+    return parseWinConfirmDeadline(await page.locator('body').innerText());
+  } catch {
+    return null;
+  }
+}
@@ -1,11 +1,9 @@
 import type { Page } from '@playwright/test';
-import { captureScreenshot, logEarlyReturn } from '../util';
+import { captureScreenshot, logEarlyReturn, waitForTutorial } from '../util';
 import type { RepresentativeEntry } from '../types';
 import { getNextMonthYearMonth } from '../entry_utils';
+import { buildSiteUrl } from '../site';
 
-export const REQUEST_STATUS_URL =
-  'https://yoyaku.harp.lg.jp/sapporo/RequestStatuses/';
-export const REQUEST_STATUS_INDEX_URL = `${REQUEST_STATUS_URL}Index?t=0&p=1&s=20`;
 const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
 const JST_TIMEZONE = 'Asia/Tokyo';
 const ACCOUNT_NAME_CANDIDATES: { selector: string; allowPlainText: boolean }[] = [
@@ -31,7 +29,6 @@ const ACCOUNT_NAME_BLOCKLIST = new Set([
   '特定商取引法に基づく表示',
   '閉じる',
 ]);
-const REQUEST_STATUS_URL_WITHOUT_TRAILING_SLASH = REQUEST_STATUS_URL.replace(/\/$/, '');
 
 export type RequestStatusFilter = {
   ja: string;
@@ -42,8 +39,18 @@ export type RequestStatusFilter = {
 export type RequestStatusPageOptions = {
   targetYearMonth?: string;
   captureScreenshots?: boolean;
+  // 取り消しで申込の詳細ページを開くときだけ detailUrl を付ける
+  includeDetailUrl?: boolean;
 };
 
+export type RequestStatusEntry = RepresentativeEntry & {
+  detailUrl?: string;
+};
+
+export function getRequestStatusIndexUrl(): string {
+  return buildSiteUrl('RequestStatuses/Index?t=0&p=1&s=20');
+}
+
 export const REQUEST_STATUS_FILTERS: RequestStatusFilter[] = [
   { ja: '当選', icon: 'lottery', needScreenshot: true },
   { ja: '抽選待ち', icon: 'lottery_wait', needScreenshot: false },
@@ -166,7 +173,7 @@ function pickAccountNameFromText(source: string, allowPlainText = false): string
   return plainName;
 }
 
-async function resolveAccountName(page: Page): Promise<string> {
+export async function resolveAccountName(page: Page): Promise<string> {
   for (const candidate of ACCOUNT_NAME_CANDIDATES) {
     const locator = page.locator(candidate.selector);
     const count = await locator.count();
@@ -205,9 +212,9 @@ export async function ensureRequestStatusPage(
   filter: RequestStatusFilter,
   screenshotPaths?: string[],
   options: RequestStatusPageOptions = {},
-): Promise<RepresentativeEntry[]> {
+): Promise<RequestStatusEntry[]> {
   if (!isRequestStatusUrl(page.url())) {
-    await page.goto(REQUEST_STATUS_INDEX_URL, { waitUntil: 'domcontentloaded' });
+    await page.goto(getRequestStatusIndexUrl(), { waitUntil: 'domcontentloaded' });
   } else {
     await page.waitForLoadState('domcontentloaded', { timeout: 5_000 }).catch(() => {
       logEarlyReturn('Request status page did not reach domcontentloaded within 5000ms; continuing with current DOM.');
@@ -251,12 +258,13 @@ export async function ensureRequestStatusPage(
     return [];
   }
 
-  const results: RepresentativeEntry[] = [];
+  const results: RequestStatusEntry[] = [];
   const targetMonthCursor = resolveTargetMonth(options.targetYearMonth);
 
   for (let index = 0; index < itemsCount; index += 1) {
     const item = listItems.nth(index);
-    const linkTextRaw = (await item.locator('a').innerText()).replace(/\s+/g, ' ').trim();
+    const link = item.locator('a');
+    const linkTextRaw = (await link.innerText()).replace(/\s+/g, ' ').trim();
     const parsedLocation = parseRoomAndBooth(linkTextRaw);
 
     const statusIcon = item
@@ -306,12 +314,27 @@ export async function ensureRequestStatusPage(
       accountName,
       accountId,
     });
+
+    if (options.includeDetailUrl) {
+      const href = await link.getAttribute('href');
+      if (href) {
+        results[results.length - 1].detailUrl = new URL(href, page.url()).toString();
+      }
+    }
   }
   return results;
 }
 
+// 当選の取り消し・確定で使う申込の詳細ページ（ensureRequestStatusPage の includeDetailUrl で取ったURL）
+export async function openRequestDetailPage(page: Page, detailUrl: string): Promise<void> {
+  await page.goto(detailUrl, { waitUntil: 'domcontentloaded' });
+  await page.waitForURL(url => url.toString().startsWith(buildSiteUrl('RequestStatuses/')), { timeout: 10_000 });
+  await waitForTutorial(page);
+}
+
 function isRequestStatusUrl(url: string): boolean {
-  return url === REQUEST_STATUS_URL_WITHOUT_TRAILING_SLASH || url.startsWith(REQUEST_STATUS_URL);
+  const requestStatusUrl = buildSiteUrl('RequestStatuses/');
+  return url === requestStatusUrl.replace(/\/$/, '') || url.startsWith(requestStatusUrl);
 }
 
 function resolveTargetMonth(targetYearMonth?: string): { year: number; monthIndex: number; label: string } {
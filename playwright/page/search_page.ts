@@ -2,17 +2,17 @@ import type { Page } from '@playwright/test';
 
 import type { RepresentativeEntry } from '../types';
 import { deriveUdParam, throwLoggedError } from '../util';
+import { buildLotSearchUrl } from '../site';
 const SEARCH_INPUT_SELECTOR = '#input-43';
 
-const LOT_SEARCH_URL = 'https://yoyaku.harp.lg.jp/sapporo/?u%5B0%5D=28&u%5B1%5D=76&ud=';
-
 export async function runSearchPage(page: Page, entry: RepresentativeEntry): Promise<void> {
   const udParam = deriveUdParam(entry.date);
   if (!udParam) {
     throwLoggedError(`[runSearchPage:No.1] 日付の形式が不正なため検索を続行できません: ${entry.date}`);
   }
-  await page.goto(`${LOT_SEARCH_URL}${udParam}`, { waitUntil: 'domcontentloaded' });
-  await page.waitForURL(url => url.toString().startsWith(LOT_SEARCH_URL), {
+  const lotSearchUrl = buildLotSearchUrl();
+  await page.goto(`${lotSearchUrl}${udParam}`, { waitUntil: 'domcontentloaded' });
+  await page.waitForURL(url => url.toString().startsWith(lotSearchUrl), {
     timeout: 10_000,
   });
 
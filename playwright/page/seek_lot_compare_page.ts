@@ -1,10 +1,20 @@
 import type { Locator, Page } from '@playwright/test';
 
-import type { RepresentativeEntry } from '../types';
+import { DEFAULT_CANDIDATE_SCORING_SETTINGS, selectScoredCandidates } from '../../src/lib/sites/candidate-scoring';
+import { DEFAULT_SEEK_SLOT_RULES, entryMatchesSeekSlotRules, UNRESTRICTED_SEEK_SLOT_RULES } from '../seek_slot_rules';
+import type { CandidateScoringSettings, RepresentativeEntry, SeekFacility, SeekSlotRules } from '../types';
 import { runSeekLotPage } from './seek_lot_page';
-import { logEarlyReturn, throwLoggedError, waitForTutorial } from '../util';
 import {
-  compareEntriesForStableOrder,
+  fetchSeekLotCache,
+  logEarlyReturn,
+  saveSeekLotCache,
+  throwLoggedError,
+  waitForTutorial,
+  type SeekLotCacheKey,
+} from '../util';
+import { buildComparisonUrl, buildSiteUrl, getSiteAdapter, resolveComparisonFacilityGroups } from '../site';
+import {
+  entriesAreEquivalent,
   entriesConflictWithExistingRequest,
   entryMatchesSeekFilter,
   formatJapaneseDateFromIso,
@@ -15,23 +25,26 @@ import {
   type SeekLotFilter,
 } from '../entry_utils';
 
-const GYM_URLS = [
-  'https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Comparison?tg%5B0%5D.lg=011002&tg%5B0%5D.fc=0004&tg%5B0%5D.r%5B0%5D=001&tg%5B1%5D.lg=011002&tg%5B1%5D.fc=0040&tg%5B1%5D.r%5B0%5D=002&tg%5B1%5D.r%5B1%5D=001&tg%5B2%5D.lg=011002&tg%5B2%5D.fc=0005&tg%5B2%5D.r%5B0%5D=001&tg%5B3%5D.lg=011002&tg%5B3%5D.fc=0010&tg%5B3%5D.r%5B0%5D=001&tg%5B3%5D.r%5B1%5D=002&tg%5B4%5D.lg=011002&tg%5B4%5D.fc=0020&tg%5B4%5D.r%5B0%5D=001&tg%5B4%5D.r%5B1%5D=002&tg%5B5%5D.lg=011002&tg%5B5%5D.fc=0030&tg%5B5%5D.r%5B0%5D=001&tg%5B5%5D.r%5B1%5D=002&d='
-];
-const SCHOOL_URLS = [
-  'https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Comparison?tg%5B0%5D.lg=011002&tg%5B0%5D.fc=0202&tg%5B0%5D.r%5B0%5D=050&tg%5B1%5D.lg=011002&tg%5B1%5D.fc=0214&tg%5B1%5D.r%5B0%5D=050&tg%5B2%5D.lg=011002&tg%5B2%5D.fc=0217&tg%5B2%5D.r%5B0%5D=050&tg%5B3%5D.lg=011002&tg%5B3%5D.fc=0230&tg%5B3%5D.r%5B0%5D=050&tg%5B4%5D.lg=011002&tg%5B4%5D.fc=0231&tg%5B4%5D.r%5B0%5D=050&tg%5B5%5D.lg=011002&tg%5B5%5D.fc=0242&tg%5B5%5D.r%5B0%5D=050&tg%5B6%5D.lg=011002&tg%5B6%5D.fc=0285&tg%5B6%5D.r%5B0%5D=050&tg%5B7%5D.lg=011002&tg%5B7%5D.fc=0292&tg%5B7%5D.r%5B0%5D=050&tg%5B8%5D.lg=011002&tg%5B8%5D.fc=0302&tg%5B8%5D.r%5B0%5D=050&tg%5B9%5D.lg=011002&tg%5B9%5D.fc=0305&tg%5B9%5D.r%5B0%5D=050&d=',
-  'https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Comparison?tg%5B0%5D.lg=011002&tg%5B0%5D.fc=0337&tg%5B0%5D.r%5B0%5D=050&tg%5B1%5D.lg=011002&tg%5B1%5D.fc=0338&tg%5B1%5D.r%5B0%5D=050&tg%5B2%5D.lg=011002&tg%5B2%5D.fc=0340&tg%5B2%5D.r%5B0%5D=050&tg%5B3%5D.lg=011002&tg%5B3%5D.fc=0341&tg%5B3%5D.r%5B0%5D=050&tg%5B4%5D.lg=011002&tg%5B4%5D.fc=0342&tg%5B4%5D.r%5B0%5D=050&tg%5B5%5D.lg=011002&tg%5B5%5D.fc=0344&tg%5B5%5D.r%5B0%5D=050&tg%5B6%5D.lg=011002&tg%5B6%5D.fc=0361&tg%5B6%5D.r%5B0%5D=050&tg%5B7%5D.lg=011002&tg%5B7%5D.fc=0366&tg%5B7%5D.r%5B0%5D=050&tg%5B8%5D.lg=011002&tg%5B8%5D.fc=0391&tg%5B8%5D.r%5B0%5D=050&d='
-];
-
 const JST_TIMEZONE = 'Asia/Tokyo';
 const DETAIL_PAGE_CONCURRENCY = 10;
 
 type SeekLotCandidate = { count: number; entry: RepresentativeEntry };
 
+// complete は比較画面と詳細ページをすべて読めたとき true（キャッシュしてよいか）
+type ScoutedLotCandidates = { candidates: SeekLotCandidate[]; complete: boolean };
+
 export type SeekLotCompareOptions = {
   filter?: SeekLotFilter;
   blockedEntries?: RepresentativeEntry[];
   excludedEntries?: RepresentativeEntry[];
+  // グループの割り振り用。別アカウントに配るので、同じ施設・日時の別の部屋も候補に残す
+  allowSharedSlots?: boolean;
+  // 候補の並べ方。指定がなければ応募数の少ない順
+  scoring?: CandidateScoringSettings;
+  // 候補にする曜日・時間帯と除外する面・施設。指定がなければ以前の固定ルール
+  rules?: SeekSlotRules;
+  // グループが選んだ探索対象の施設。なければサイト既定の施設
+  facilities?: SeekFacility[];
 };
 
 export async function runSeekLotComparePage(
@@ -46,14 +59,17 @@ export async function runSeekLotComparePage(
   const normalizedFilter = resolveNormalizedFilter(options.filter);
   const blockedEntries = options.blockedEntries ?? [];
   const excludedEntries = options.excludedEntries ?? [];
-  const candidates: SeekLotCandidate[] = [];
   const now = new Date();
   const jstTimestamp = new Date(now.toLocaleString('en-US', { timeZone: JST_TIMEZONE }));
   const searchMonth = normalizedFilter.dateIso
     ? normalizedFilter.dateIso.slice(0, 7)
     : getNextMonthYearMonth(JST_TIMEZONE);
   const isFirstHalf = jstTimestamp.getDate() <= 15;
-  const chosenUrlBase = isFirstHalf ? GYM_URLS : SCHOOL_URLS;
+  const site = getSiteAdapter();
+  const facilityGroupKind = isFirstHalf ? 'gym' : 'school';
+  const { facilityGroups, facilitySetId } = resolveComparisonFacilityGroups(facilityGroupKind, options.facilities, site);
+  const chosenUrlBase = facilityGroups.map(facilities => buildComparisonUrl(facilities, site));
+  const comparisonUrlPrefix = buildSiteUrl('FacilityAvailability/Comparison', site);
   const selectedUrls = searchMonth
     ? chosenUrlBase.map(url => `${url}${searchMonth}`)
     : chosenUrlBase;
@@ -64,9 +80,74 @@ export async function runSeekLotComparePage(
     );
   }
 
+  const cacheKey: SeekLotCacheKey = {
+    siteId: site.id,
+    yearMonth: searchMonth,
+    facilityGroupKind,
+    ...(facilitySetId ? { facilitySetId } : {}),
+  };
+  const cachedCandidates = await fetchSeekLotCache(cacheKey);
+  let scoutedCandidates: SeekLotCandidate[];
+
+  if (cachedCandidates) {
+    console.log(`♻️ 探索結果のキャッシュを使います 件数:${cachedCandidates.length}`);
+    scoutedCandidates = cachedCandidates.filter(({ entry }) => entryMatchesSeekFilter(entry, normalizedFilter));
+  } else {
+    const scouted = await scoutLotCandidates(page, selectedUrls, comparisonUrlPrefix, normalizedFilter);
+    scoutedCandidates = scouted.candidates;
+    // 条件付き探索は一部の枠しか見ていないので、全件を見たときだけ保存する。
+    // 読めなかったページがある結果や0件の結果は、同じキーの他のジョブが TTL の間使い続けるので保存しない
+    if (!normalizedFilter.dateIso && !normalizedFilter.timeRange) {
+      if (scouted.complete && scoutedCandidates.length > 0) {
+        await saveSeekLotCache(cacheKey, scoutedCandidates);
+      } else {
+        logEarlyReturn(`[runSeekLotComparePage] 探索結果が不完全なためキャッシュしません: 件数=${scoutedCandidates.length}`);
+      }
+    }
+  }
+
+  const rules = options.rules ?? DEFAULT_SEEK_SLOT_RULES;
+  const allowedCandidates = scoutedCandidates.filter(({ entry }) => entryMatchesSeekSlotRules(entry, rules));
+  if (allowedCandidates.length < scoutedCandidates.length) {
+    console.log(`  曜日・時間帯・除外設定で外した枠: ${scoutedCandidates.length - allowedCandidates.length}件`);
+  }
+
+  const candidates = allowedCandidates.filter(candidate => {
+    if (isBlockedEntry(candidate.entry, blockedEntries) || isExcludedEntry(candidate.entry, excludedEntries)) {
+      logRejected(candidate.entry, candidate.count);
+      return false;
+    }
+    return true;
+  });
+
+  const selectedCandidates = selectBestCandidates(
+    candidates,
+    desiredCount,
+    options.allowSharedSlots === true,
+    options.scoring ?? DEFAULT_CANDIDATE_SCORING_SETTINGS,
+  );
+  selectedCandidates.forEach(({ count, entry }) => logAdopted(entry, count));
+  
+  return selectedCandidates
+    .map(({ entry }) => ({
+      ...entry,
+      date: formatJapaneseDateFromIso(entry.date),
+    }));
+}
+
+// 比較画面から抽選の詳細ページを開き、条件に合う枠と応募数を集める（グループごとの除外設定はキャッシュを共有するためここではかけない）
+async function scoutLotCandidates(
+  page: Page,
+  selectedUrls: string[],
+  comparisonUrlPrefix: string,
+  normalizedFilter: NormalizedSeekLotFilter,
+): Promise<ScoutedLotCandidates> {
+  const candidates: SeekLotCandidate[] = [];
+  let complete = true;
+
   for (const url of selectedUrls) {
     await page.goto(url, { waitUntil: 'domcontentloaded' });
-    await page.waitForURL(url => url.toString().startsWith('https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Comparison'), {
+    await page.waitForURL(url => url.toString().startsWith(comparisonUrlPrefix), {
       timeout: 10_000,
     });
 
@@ -79,6 +160,7 @@ export async function runSeekLotComparePage(
       .catch(() => false);
     if (!hasLotteryLinks) {
       logEarlyReturn(`[runSeekLotComparePage] 抽選枠リンクが見つかりませんでした: ${url}`);
+      complete = false;
       continue;
     }
     await new Promise(resolve => setTimeout(resolve, 2_000));
@@ -118,19 +200,12 @@ export async function runSeekLotComparePage(
       const detailPage = await page.context().newPage();
       try {
         await detailPage.goto(targetUrl, { waitUntil: 'domcontentloaded' });
-        const seekLots = await runSeekLotPage(detailPage, targetUrl, normalizedFilter);
+        const seekLots = await runSeekLotPage(detailPage, targetUrl, normalizedFilter, UNRESTRICTED_SEEK_SLOT_RULES);
         if (seekLots?.length) {
-          seekLots
-            .filter(({ entry }) => entryMatchesSeekFilter(entry, normalizedFilter))
-            .forEach(candidate => {
-              if (isBlockedEntry(candidate.entry, blockedEntries) || isExcludedEntry(candidate.entry, excludedEntries)) {
-                logRejected(candidate.entry, candidate.count);
-                return;
-              }
-              candidates.push(candidate);
-            });
+          candidates.push(...seekLots.filter(({ entry }) => entryMatchesSeekFilter(entry, normalizedFilter)));
         }
       } catch (error) {
+        complete = false;
         logEarlyReturn(
           `[runSeekLotComparePage] 詳細ページの探索に失敗したため見送ります: ${targetUrl} ${error instanceof Error ? error.message : String(error)}`,
         );
@@ -147,14 +222,7 @@ export async function runSeekLotComparePage(
     console.log(`✅ 詳細チェック完了 ${formatCurrentJst()} 件数:${targetCount}`);
   }
 
-  const selectedCandidates = selectBestCandidates(candidates, desiredCount);
-  selectedCandidates.forEach(({ count, entry }) => logAdopted(entry, count));
-  
-  return selectedCandidates
-    .map(({ entry }) => ({
-      ...entry,
-      date: formatJapaneseDateFromIso(entry.date),
-    }));
+  return { candidates, complete };
 }
 
 function resolveNormalizedFilter(filter?: SeekLotFilter): NormalizedSeekLotFilter {
@@ -167,12 +235,12 @@ function resolveNormalizedFilter(filter?: SeekLotFilter): NormalizedSeekLotFilte
   return normalizedFilter;
 }
 
-function buildAbsoluteUrl(href: string): string {
+export function buildAbsoluteUrl(href: string): string {
   try {
-    return new URL(href, 'https://yoyaku.harp.lg.jp').toString();
+    return new URL(href, getSiteAdapter().origin).toString();
   } catch (error) {
     console.warn('Failed to build absolute URL for lot link', href, error);
-    return 'https://yoyaku.harp.lg.jp';
+    return getSiteAdapter().origin;
   }
 }
 
@@ -200,34 +268,14 @@ function isExcludedEntry(entry: RepresentativeEntry, excludedEntries: Representa
   return excludedEntries.some(excludedEntry => entriesConflictWithExistingRequest(excludedEntry, entry));
 }
 
-function selectBestCandidates(candidates: SeekLotCandidate[], desiredCount: number): SeekLotCandidate[] {
-  const selected: SeekLotCandidate[] = [];
-  const sortedCandidates = candidates
-    .filter(candidate => Number.isFinite(candidate.count))
-    .sort(compareCandidates);
-
-  for (const candidate of sortedCandidates) {
-    const alreadySelected = selected.some(selectedCandidate => entriesConflictWithExistingRequest(selectedCandidate.entry, candidate.entry));
-    if (alreadySelected) {
-      logRejected(candidate.entry, candidate.count);
-      continue;
-    }
-
-    selected.push(candidate);
-    if (selected.length >= desiredCount) {
-      break;
-    }
-  }
-
-  return selected;
-}
-
-function compareCandidates(lhs: SeekLotCandidate, rhs: SeekLotCandidate): number {
-  const countDiff = lhs.count - rhs.count;
-  if (countDiff !== 0) {
-    return countDiff;
-  }
-  return compareEntriesForStableOrder(lhs.entry, rhs.entry);
+function selectBestCandidates(
+  candidates: SeekLotCandidate[],
+  desiredCount: number,
+  allowSharedSlots: boolean,
+  scoring: CandidateScoringSettings,
+): SeekLotCandidate[] {
+  const conflicts = allowSharedSlots ? entriesAreEquivalent : entriesConflictWithExistingRequest;
+  return selectScoredCandidates(candidates, desiredCount, scoring, conflicts);
 }
 
 async function resolveComparisonLinkDate(link: Locator): Promise<string | undefined> {
@@ -246,7 +294,7 @@ async function resolveComparisonLinkDate(link: Locator): Promise<string | undefi
   }
 
   try {
-    const url = new URL(href, 'https://yoyaku.harp.lg.jp');
+    const url = new URL(href, getSiteAdapter().origin);
     const dateParam = url.searchParams.get('d') ?? url.searchParams.get('ud');
     return normalizeDateToIso(dateParam) ?? undefined;
   } catch {
@@ -254,7 +302,7 @@ async function resolveComparisonLinkDate(link: Locator): Promise<string | undefi
   }
 }
 
-async function processWithConcurrency<T>(items: T[], limit: number, handler: (item: T, index: number) => Promise<void>): Promise<void> {
+export async function processWithConcurrency<T>(items: T[], limit: number, handler: (item: T, index: number) => Promise<void>): Promise<void> {
   if (items.length === 0 || limit <= 0) {
     return;
   }
@@ -268,7 +316,7 @@ async function processWithConcurrency<T>(items: T[], limit: number, handler: (it
   await Promise.all(workers);
 }
 
-function shuffleInPlace<T>(array: T[]): void {
+export function shuffleInPlace<T>(array: T[]): void {
   for (let i = array.length - 1; i > 0; i--) {
     const j = Math.floor(Math.random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
@@ -1,16 +1,24 @@
 import type { Page } from '@playwright/test';
 
-import type { RepresentativeEntry } from '../types';
+import type { RepresentativeEntry, SeekSlotRules } from '../types';
 import { waitForTutorial } from '../util';
-import JapaneseHolidays from 'japanese-holidays';
+import { buildSiteUrl } from '../site';
 import { entryMatchesSeekFilter, type NormalizedSeekLotFilter } from '../entry_utils';
+import {
+  boothMatchesSeekSlotRules,
+  DEFAULT_SEEK_SLOT_RULES,
+  facilityMatchesSeekSlotRules,
+  slotStartMatchesSeekSlotRules,
+} from '../seek_slot_rules';
 
 export async function runSeekLotPage(
   page: Page,
   url: string,
   filter?: NormalizedSeekLotFilter,
+  rules: SeekSlotRules = DEFAULT_SEEK_SLOT_RULES,
 ): Promise<{count: number, entry: RepresentativeEntry}[] | undefined> {
-    await page.waitForURL(url => url.toString().startsWith('https://yoyaku.harp.lg.jp/sapporo/FacilityAvailability/Index'), {timeout: 10_000,});
+    const availabilityUrl = buildSiteUrl('FacilityAvailability/Index');
+    await page.waitForURL(url => url.toString().startsWith(availabilityUrl), {timeout: 10_000,});
     await waitForTutorial(page);
     await new Promise(resolve => setTimeout(resolve, 1_000));
 
@@ -43,12 +51,7 @@ export async function runSeekLotPage(
       }
       const endTime = toHourMinute(endTimeRaw);
       const startHour = Number(startTimeRaw.split(':')[0]);
-      const jsDate = getDate(date);
-      const isHoliday = Boolean(JapaneseHolidays.isHoliday(jsDate, true));
-      const isWeekday = !isHoliday && jsDate.getDay() >= 1 && jsDate.getDay() <= 5;
-
-      // Skip weekday slots that start before 18:00
-      if (isWeekday && startHour < 18) {
+      if (!slotStartMatchesSeekSlotRules(date, startHour, rules)) {
         continue;
       }
 
@@ -75,6 +78,9 @@ export async function runSeekLotPage(
         continue;
       }
       const gymName = await page.locator('a.h-ctDeep.headline').innerText();
+      if (!facilityMatchesSeekSlotRules(gymName, rules)) {
+        continue;
+      }
       const roomName = await page.locator('button.SearchForm_simple_condition span.InputContainer').innerText();
       const boothName = await slot.evaluate(el => {
         const tr = el.closest('tr');
@@ -84,7 +90,7 @@ export async function runSeekLotPage(
           ?.trim();
         return name ?? '';
       });
-      if (boothName === '全面') {
+      if (!boothMatchesSeekSlotRules(boothName, rules)) {
         continue;
       }
       const boothSuffix = boothName ? ` / ${boothName}` : '';
@@ -118,9 +124,4 @@ function toHourMinute(value: string): string {
   const normalizedHour = String(Number(hour));
   return `${normalizedHour}:${minute}`;
 }
-
-function getDate(isoDate: string): Date {
-  const [year, month, day] = isoDate.split('-').map(Number);
-  return new Date(year!, month! - 1, day!);
-}
   
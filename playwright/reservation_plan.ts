@@ -3,6 +3,7 @@ import type { Page } from '@playwright/test';
 import {
   buildSeekFilterForRepresentativeEntry,
   entriesAreEquivalent,
+  entriesConflictWithExistingRequest,
   formatEntryLabel,
   formatSeekLotFilterLabel,
   getNextMonthYearMonth,
@@ -11,12 +12,17 @@ import {
   normalizeTimeRange,
   type SeekLotFilter,
 } from './entry_utils';
-import { ensureRequestStatusPage, REQUEST_STATUS_FILTERS, REQUEST_STATUS_INDEX_URL } from './page/request_status_page';
-import { runSeekLotComparePage } from './page/seek_lot_compare_page';
-import type { RepresentativeEntry } from './types';
-import { logEarlyReturn, logPhase, updateJobProgress } from './util';
+import { buildSiteUrl } from './site';
+import { ensureRequestStatusPage, getRequestStatusIndexUrl, REQUEST_STATUS_FILTERS } from './page/request_status_page';
+import { runFirstComeSeekPage, type FirstComeCandidate } from './page/first_come_page';
+import { runSeekLotComparePage, type SeekLotCompareOptions } from './page/seek_lot_compare_page';
+import { resolveAllocatedEntries } from './slot_allocation';
+import type { CandidateScoringSettings, RepresentativeEntry, SeekFacility, SeekSlotRules } from './types';
+import { logEarlyReturn, logPhase, reportAccountQuotaUsage, updateJobProgress, type AccountQuotaUsageReport } from './util';
 
 const JST_TIMEZONE = 'Asia/Tokyo';
+// URL指定の枠は日時が分からないので、施設名の代わりにこの名前を入れ、部屋の欄にURLを持たせる（再開・再試行でもそのまま使える）
+const DIRECT_URL_ENTRY_GYM_NAME = '抽選応募URL指定';
 
 type PartialEntryGroup = {
   filter: SeekLotFilter;
@@ -35,18 +41,36 @@ export type ReservationPlan = {
   totalEntries: number;
 };
 
+// ジョブに写したグループ設定
+export type ReservationPlanOptions = {
+  allocationId?: string;
+  scoring?: CandidateScoringSettings;
+  seekRules?: SeekSlotRules;
+  seekFacilities?: SeekFacility[];
+};
+
 export async function buildReservationPlan(
   page: Page,
   representativeEntries: RepresentativeEntry[],
   jobEntryCount: number | null,
+  options: ReservationPlanOptions = {},
 ): Promise<ReservationPlan> {
+  const { allocationId, scoring, seekRules, seekFacilities } = options;
   const requestedEntries = limitRepresentativeEntries(representativeEntries, jobEntryCount);
+  // URL指定の枠は利用月が分からないので、既定の対象月（翌月）の申込状況も読む
   const requestStatusEntries = await fetchExistingRequestEntries(
     page,
-    collectRequestStatusTargetMonths(requestedEntries, jobEntryCount !== null),
+    collectRequestStatusTargetMonths(
+      requestedEntries,
+      jobEntryCount !== null || requestedEntries.some(entry => resolveDirectLotRequestUrl(entry) !== null),
+    ),
   );
+  await reportAccountQuotaUsage(buildQuotaUsageReports(requestStatusEntries, [], []));
 
-  const resolved = await resolveRepresentativeEntries(page, requestedEntries, requestStatusEntries);
+  const resolved = await resolveRepresentativeEntries(page, requestedEntries, requestStatusEntries, {
+    rules: seekRules,
+    facilities: seekFacilities,
+  });
   let entries = resolved.entries;
 
   if (resolved.unresolvedEntries.length > 0) {
@@ -56,12 +80,34 @@ export async function buildReservationPlan(
   if (jobEntryCount !== null) {
     const additionalEntryCount = Math.max(jobEntryCount - requestedEntries.length, 0);
     if (additionalEntryCount > 0) {
-      logPhase('representative', `Seeking additional entries: ${additionalEntryCount}`);
-      await updateJobProgress('追加分の探索中...');
-      const additionalEntries = await runSeekLotComparePage(page, additionalEntryCount, {
-        blockedEntries: requestStatusEntries,
-        excludedEntries: entries,
-      });
+      const allocatedEntries = allocationId
+        ? await resolveAllocatedEntries(page, {
+            allocationId,
+            representativeEntries: requestedEntries,
+            scoring,
+            seekRules,
+            seekFacilities,
+          })
+        : null;
+      let additionalEntries: RepresentativeEntry[];
+
+      if (allocatedEntries) {
+        // 他のアカウントと枠が重ならないよう、足りなくても自分では探索し直さない
+        additionalEntries = allocatedEntries
+          .filter(entry => ![...requestStatusEntries, ...entries].some(existing => entriesConflictWithExistingRequest(existing, entry)))
+          .slice(0, additionalEntryCount);
+        logPhase('allocation', `Allocated entries usable for this account: ${additionalEntries.length}/${allocatedEntries.length}`);
+      } else {
+        logPhase('representative', `Seeking additional entries: ${additionalEntryCount}`);
+        await updateJobProgress('追加分の探索中...');
+        additionalEntries = await runSeekLotComparePage(page, additionalEntryCount, {
+          blockedEntries: requestStatusEntries,
+          excludedEntries: entries,
+          scoring,
+          rules: seekRules,
+          facilities: seekFacilities,
+        });
+      }
       entries = [...entries, ...additionalEntries];
       logPhase('representative', `Additional entries found: ${additionalEntries.length}`);
     }
@@ -80,6 +126,56 @@ export async function buildReservationPlan(
   };
 }
 
+// 再開時。チェックポイントの申込状況は前回のジョブが読んだ時点のものなので、その後に入った申込を拾い直す
+export async function refreshReservationPlanRequestStatus(page: Page, plan: ReservationPlan): Promise<ReservationPlan> {
+  const requestStatusEntries = await fetchExistingRequestEntries(page, collectRequestStatusTargetMonths(plan.entries, true));
+  await reportAccountQuotaUsage(buildQuotaUsageReports(requestStatusEntries, [], []));
+  logPhase('resume', `Refreshed request status entries: ${plan.requestStatusEntries.length} -> ${requestStatusEntries.length}`);
+
+  return { ...plan, requestStatusEntries };
+}
+
+export function buildDirectUrlEntry(lotRequestUrl: string): RepresentativeEntry {
+  return { gymName: DIRECT_URL_ENTRY_GYM_NAME, room: lotRequestUrl, date: '', time: '' };
+}
+
+// URL指定の枠ならそのURLを返す。今のサイトの抽選申込フォーム以外は開かない
+export function resolveDirectLotRequestUrl(entry: RepresentativeEntry): string | null {
+  if (entry.gymName !== DIRECT_URL_ENTRY_GYM_NAME || !entry.room.startsWith(buildSiteUrl('LotRequests/Insert/'))) {
+    return null;
+  }
+  return entry.room;
+}
+
+// 先着予約のジョブ。代表者リストは使わず、グループの探索条件に合う空き枠をジョブの件数まで選ぶ（抽選の申込上限とは別なので残り枠は送らない）
+export async function buildFirstComeReservationPlan(
+  page: Page,
+  jobEntryCount: number | null,
+  options: ReservationPlanOptions = {},
+): Promise<{ plan: ReservationPlan; candidates: FirstComeCandidate[] }> {
+  const desiredCount = jobEntryCount ?? 1;
+  const requestStatusEntries = await fetchExistingRequestEntries(page, collectRequestStatusTargetMonths([], true));
+
+  await updateJobProgress('先着の空き枠を探索中...');
+  const candidates = await runFirstComeSeekPage(page, desiredCount, {
+    blockedEntries: requestStatusEntries,
+    scoring: options.scoring,
+    rules: options.seekRules,
+    facilities: options.seekFacilities,
+  });
+  logPhase('first-come', `First-come entries found: ${candidates.length}/${desiredCount}`);
+
+  return {
+    plan: {
+      entries: candidates.map(candidate => candidate.entry),
+      failedEntries: [],
+      requestStatusEntries,
+      totalEntries: candidates.length,
+    },
+    candidates,
+  };
+}
+
 function limitRepresentativeEntries(
   entries: RepresentativeEntry[],
   jobEntryCount: number | null,
@@ -97,6 +193,7 @@ async function resolveRepresentativeEntries(
   page: Page,
   entries: RepresentativeEntry[],
   blockedEntries: RepresentativeEntry[],
+  seekOptions: Pick<SeekLotCompareOptions, 'rules' | 'facilities'>,
 ): Promise<ResolvedRepresentativeEntries> {
   const resolvedEntries: RepresentativeEntry[] = [];
   const unresolvedEntries: RepresentativeEntry[] = [];
@@ -116,6 +213,7 @@ async function resolveRepresentativeEntries(
         filter: group.filter,
         blockedEntries,
         excludedEntries: resolvedEntries,
+        ...seekOptions,
       });
 
       resolvedEntries.push(...resolved);
@@ -150,7 +248,8 @@ function groupPartialEntries(
   const groups = new Map<string, PartialEntryGroup>();
 
   for (const entry of entries) {
-    if (isCompleteEntry(entry)) {
+    // URL指定の枠（再試行で渡された分）は探索せずそのまま申し込む
+    if (isCompleteEntry(entry) || resolveDirectLotRequestUrl(entry)) {
       completeEntries.push(entry);
       continue;
     }
@@ -189,7 +288,7 @@ async function fetchExistingRequestEntries(page: Page, targetYearMonths: string[
   logPhase('request-status', `Fetching already requested entries for months: ${targetYearMonths.join(', ')}`);
   for (const targetYearMonth of targetYearMonths) {
     for (const filter of REQUEST_STATUS_FILTERS) {
-      await page.goto(REQUEST_STATUS_INDEX_URL, { waitUntil: 'domcontentloaded' });
+      await page.goto(getRequestStatusIndexUrl(), { waitUntil: 'domcontentloaded' });
       const filteredEntries = await ensureRequestStatusPage(page, filter, undefined, {
         targetYearMonth,
         captureScreenshots: false,
@@ -207,6 +306,44 @@ async function fetchExistingRequestEntries(page: Page, targetYearMonths: string[
   return entries;
 }
 
+// 申込状況（当選・抽選待ち・当選確定）の件数を利用月ごとに数え、今回申し込めた枠と上限で断られた枠を反映する
+export function buildQuotaUsageReports(
+  requestStatusEntries: RepresentativeEntry[],
+  successEntries: RepresentativeEntry[],
+  limitReachedEntries: RepresentativeEntry[],
+): AccountQuotaUsageReport[] {
+  const usages = new Map<string, AccountQuotaUsageReport>();
+  // 既定の対象月は必ず申込状況を見ているので、0件でも送る
+  const defaultYearMonth = getDefaultSearchYearMonth();
+  const resolveUsage = (entry: RepresentativeEntry): AccountQuotaUsageReport | null => {
+    // URL指定の枠は日付が分からないので既定の対象月に数える
+    const yearMonth = normalizeDateToIso(entry.date)?.slice(0, 7) ?? (resolveDirectLotRequestUrl(entry) ? defaultYearMonth : null);
+    if (!yearMonth) {
+      return null;
+    }
+    const usage = usages.get(yearMonth) ?? { yearMonth, used: 0, exhausted: false };
+    usages.set(yearMonth, usage);
+    return usage;
+  };
+
+  usages.set(defaultYearMonth, { yearMonth: defaultYearMonth, used: 0, exhausted: false });
+
+  [...requestStatusEntries, ...successEntries].forEach(entry => {
+    const usage = resolveUsage(entry);
+    if (usage) {
+      usage.used += 1;
+    }
+  });
+  limitReachedEntries.forEach(entry => {
+    const usage = resolveUsage(entry);
+    if (usage) {
+      usage.exhausted = true;
+    }
+  });
+
+  return [...usages.values()];
+}
+
 function selectUnresolvedFailures(
   unresolvedEntries: RepresentativeEntry[],
   resolvedEntryCount: number,
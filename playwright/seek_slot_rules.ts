@@ -0,0 +1,24 @@
+import JapaneseHolidays from 'japanese-holidays';
+
+import {
+  entryMatchesSeekSlotRules as entryMatchesRules,
+  slotStartMatchesSeekSlotRules as slotStartMatchesRules,
+} from '../src/lib/sites/seek-slot-rules';
+import type { RepresentativeEntry, SeekSlotRules } from './types';
+
+// 判定は src/lib/sites/seek-slot-rules.ts（代表者ページのプレビューと共通）。ここでは playwright/ の japanese-holidays を渡すだけ
+export {
+  boothMatchesSeekSlotRules,
+  DEFAULT_SEEK_SLOT_RULES,
+  facilityMatchesSeekSlotRules,
+  UNRESTRICTED_SEEK_SLOT_RULES,
+} from '../src/lib/sites/seek-slot-rules';
+
+// isoDate は YYYY-MM-DD
+export function slotStartMatchesSeekSlotRules(isoDate: string, startHour: number, rules: SeekSlotRules): boolean {
+  return slotStartMatchesRules(isoDate, startHour, rules, JapaneseHolidays);
+}
+
+export function entryMatchesSeekSlotRules(entry: RepresentativeEntry, rules: SeekSlotRules): boolean {
+  return entryMatchesRules(entry, rules, JapaneseHolidays);
+}
@@ -0,0 +1,106 @@
+import { buildFacilitySetId } from '../src/lib/sites/facility-set-id';
+import type { SeekFacility } from './types';
+import { throwLoggedError } from './util';
+
+// 比較画面の1施設分（fc=施設コード, rooms=室場コード）
+export type FacilityRoomCodes = {
+  fc: string;
+  rooms: string[];
+};
+
+export type SiteAdapter = {
+  id: string;
+  label: string;
+  origin: string;
+  basePath: string;
+  // 施設予約URLの tg[n].lg= に入る自治体コード
+  lgCode: string;
+  // 抽選検索画面の u[n]= （利用目的の分類）
+  lotSearchUnits: string[];
+  // 比較画面1ページに並べる施設のまとまり
+  gymFacilityGroups: FacilityRoomCodes[][];
+  schoolFacilityGroups: FacilityRoomCodes[][];
+  sport: string;
+};
+
+export const DEFAULT_SITE_ID = 'sapporo';
+// 比較画面1ページに並べる施設数（既定の施設のまとまりと同じくらい）
+const COMPARISON_PAGE_FACILITY_LIMIT = 10;
+
+const SAPPORO_SITE: SiteAdapter = {
+  id: 'sapporo',
+  label: '札幌市',
+  origin: 'https://yoyaku.harp.lg.jp',
+  basePath: '/sapporo',
+  lgCode: '011002',
+  lotSearchUnits: ['28', '76'],
+  gymFacilityGroups: [
+    [
+      { fc: '0004', rooms: ['001'] },
+      { fc: '0040', rooms: ['002', '001'] },
+      { fc: '0005', rooms: ['001'] },
+      { fc: '0010', rooms: ['001', '002'] },
+      { fc: '0020', rooms: ['001', '002'] },
+      { fc: '0030', rooms: ['001', '002'] },
+    ],
+  ],
+  schoolFacilityGroups: [
+    ['0202', '0214', '0217', '0230', '0231', '0242', '0285', '0292', '0302', '0305'].map(fc => ({ fc, rooms: ['050'] })),
+    ['0337', '0338', '0340', '0341', '0342', '0344', '0361', '0366', '0391'].map(fc => ({ fc, rooms: ['050'] })),
+  ],
+  sport: 'バドミントン',
+};
+
+// 同じharpプラットフォームの自治体を追加する場合はここに登録する。
+// id は groups/{groupId}.siteId および src/lib/sites/facility-sites.ts と揃えること。
+export const SITE_ADAPTERS: Record<string, SiteAdapter> = {
+  [SAPPORO_SITE.id]: SAPPORO_SITE,
+};
+
+export function getSiteAdapter(): SiteAdapter {
+  const siteId = (process.env.PLAYWRIGHT_SITE_ID ?? '').trim() || DEFAULT_SITE_ID;
+  const site = SITE_ADAPTERS[siteId];
+  if (!site) {
+    throwLoggedError(`[site] Unknown PLAYWRIGHT_SITE_ID: ${siteId}`);
+  }
+  return site;
+}
+
+export function buildSiteUrl(pathWithQuery: string, site: SiteAdapter = getSiteAdapter()): string {
+  return `${site.origin}${site.basePath}/${pathWithQuery.replace(/^\//, '')}`;
+}
+
+export function buildLotSearchUrl(site: SiteAdapter = getSiteAdapter()): string {
+  const unitParams = site.lotSearchUnits.map((unit, index) => `u%5B${index}%5D=${unit}`);
+  return `${buildSiteUrl('', site)}?${[...unitParams, 'ud='].join('&')}`;
+}
+
+// 末尾の d= に対象年月（YYYY-MM）を付けて使う
+export function buildComparisonUrl(facilities: FacilityRoomCodes[], site: SiteAdapter = getSiteAdapter()): string {
+  const params = facilities.flatMap((facility, index) => [
+    `tg%5B${index}%5D.lg=${site.lgCode}`,
+    `tg%5B${index}%5D.fc=${facility.fc}`,
+    ...facility.rooms.map((room, roomIndex) => `tg%5B${index}%5D.r%5B${roomIndex}%5D=${room}`),
+  ]);
+  return `${buildSiteUrl('FacilityAvailability/Comparison', site)}?${[...params, 'd='].join('&')}`;
+}
+
+// グループが選んだ施設があればそれを、なければサイト既定の施設のまとまりを比較画面に並べる
+export function resolveComparisonFacilityGroups(
+  category: SeekFacility['category'],
+  seekFacilities: SeekFacility[] = [],
+  site: SiteAdapter = getSiteAdapter(),
+): { facilityGroups: FacilityRoomCodes[][]; facilitySetId?: string } {
+  const selected = seekFacilities.filter(facility => facility.category === category && facility.rooms.length > 0);
+  if (selected.length === 0) {
+    return { facilityGroups: category === 'gym' ? site.gymFacilityGroups : site.schoolFacilityGroups };
+  }
+
+  const facilityGroups: FacilityRoomCodes[][] = [];
+  for (let index = 0; index < selected.length; index += COMPARISON_PAGE_FACILITY_LIMIT) {
+    facilityGroups.push(
+      selected.slice(index, index + COMPARISON_PAGE_FACILITY_LIMIT).map(facility => ({ fc: facility.code, rooms: facility.rooms })),
+    );
+  }
+  return { facilityGroups, facilitySetId: buildFacilitySetId(selected) };
+}
@@ -0,0 +1,154 @@
+import type { Page } from '@playwright/test';
+
+import { entriesShareApplicationSlot } from './entry_utils';
+import { runSeekLotComparePage } from './page/seek_lot_compare_page';
+import type { CandidateScoringSettings, RepresentativeEntry, SeekFacility, SeekSlotRules } from './types';
+import {
+  claimSlotAllocation,
+  fetchSlotAllocation,
+  logEarlyReturn,
+  logPhase,
+  submitSlotAllocation,
+  updateJobProgress,
+  type SlotAllocationClaim,
+} from './util';
+
+const ALLOCATION_POLL_INTERVAL_MS = 15_000;
+// 探索担当のワーカーが詳細ページを見終わるまで待つ。超えたら各自で探索する
+const ALLOCATION_WAIT_TIMEOUT_MS = 20 * 60 * 1000;
+// アカウントごとの既存の申込と重なって使えない枠が出るので、必要数より多めに探す
+const ALLOCATION_CANDIDATE_MARGIN = 1.5;
+
+export type SlotAllocationRequest = {
+  allocationId: string;
+  // 全アカウント共通で応募する代表者リストの枠。追加分はこれと重ならない枠から選ぶ
+  representativeEntries: RepresentativeEntry[];
+  scoring?: CandidateScoringSettings;
+  seekRules?: SeekSlotRules;
+  seekFacilities?: SeekFacility[];
+};
+
+export type SlotAssignment = {
+  userId: string;
+  entries: RepresentativeEntry[];
+};
+
+// 割り振られた追加分の枠を返す。割り振りが使えないときは null を返し、呼び出し側が従来どおり自分で探索する
+export async function resolveAllocatedEntries(
+  page: Page,
+  request: SlotAllocationRequest,
+): Promise<RepresentativeEntry[] | null> {
+  const claim = await claimSlotAllocation(request.allocationId);
+  if (!claim) {
+    return null;
+  }
+
+  if (claim.claimed) {
+    return planSlotAllocation(page, request, claim);
+  }
+
+  logPhase('allocation', `Waiting for slot allocation (status=${claim.status}).`);
+  await updateJobProgress('応募枠の割り振り待ち...');
+  const deadline = Date.now() + ALLOCATION_WAIT_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const allocation = await fetchSlotAllocation(request.allocationId);
+    if (!allocation) {
+      return null;
+    }
+    if (allocation.status === 'ready') {
+      logPhase('allocation', `Allocated entries received: ${allocation.entries.length}`);
+      return allocation.entries;
+    }
+    if (allocation.status === 'failed') {
+      logEarlyReturn('Slot allocation failed; falling back to seeking entries for this account.');
+      return null;
+    }
+    await page.waitForTimeout(ALLOCATION_POLL_INTERVAL_MS);
+
+    // 探索担当のワーカーが落ちて担当の期限が切れていれば、ここで引き継ぐ
+    const takeover = await claimSlotAllocation(request.allocationId);
+    if (takeover?.claimed) {
+      logPhase('allocation', 'Taking over slot allocation planning after the previous planner expired.');
+      return planSlotAllocation(page, request, takeover);
+    }
+  }
+
+  logEarlyReturn('Timed out waiting for slot allocation; falling back to seeking entries for this account.');
+  return null;
+}
+
+async function planSlotAllocation(
+  page: Page,
+  request: SlotAllocationRequest,
+  claim: SlotAllocationClaim,
+): Promise<RepresentativeEntry[] | null> {
+  const userId = (process.env.SERVICE_USER ?? '').trim();
+  const plannerId = claim.plannerId ?? '';
+
+  logPhase('allocation', `Planning slot allocation for ${claim.accounts.length} accounts.`);
+  await updateJobProgress('グループ全体の応募枠を探索中...');
+
+  try {
+    const slotCounts = claim.accounts.map(account => ({
+      userId: account.userId,
+      slotCount: Math.max(account.entryCount - request.representativeEntries.length, 0),
+    }));
+    const totalSlotCount = slotCounts.reduce((sum, account) => sum + account.slotCount, 0);
+    const candidates = await runSeekLotComparePage(page, Math.ceil(totalSlotCount * ALLOCATION_CANDIDATE_MARGIN), {
+      excludedEntries: request.representativeEntries,
+      allowSharedSlots: true,
+      scoring: request.scoring,
+      rules: request.seekRules,
+      facilities: request.seekFacilities,
+    });
+    const assignments = assignSlotsToAccounts(slotCounts, candidates);
+
+    // 担当を引き継がれていたら、他のワーカーの割り振りと重なるので自分の結果は使わない
+    if (!(await submitSlotAllocation(request.allocationId, plannerId, { assignments }))) {
+      logEarlyReturn('Slot allocation was not accepted; falling back to seeking entries for this account.');
+      return null;
+    }
+    logPhase('allocation', `Slot allocation planned: candidates=${candidates.length}, needed=${totalSlotCount}`);
+    return assignments.find(assignment => assignment.userId === userId)?.entries ?? [];
+  } catch (error) {
+    await submitSlotAllocation(request.allocationId, plannerId, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+// 候補（並び順の設定で上位のものから）を優先順位の高いアカウントから1件ずつ順番に配る。
+// 1アカウントは同じ施設・日時に2件申し込めないので、自分の枠と重なる候補は次のアカウントに回す
+export function assignSlotsToAccounts(
+  accounts: Array<{ userId: string; slotCount: number }>,
+  candidates: RepresentativeEntry[],
+): SlotAssignment[] {
+  const assignments: SlotAssignment[] = accounts.map(account => ({ userId: account.userId, entries: [] }));
+  const remainingCandidates = [...candidates];
+  let assignedInRound = true;
+
+  while (assignedInRound && remainingCandidates.length > 0) {
+    assignedInRound = false;
+
+    accounts.forEach((account, index) => {
+      const assignment = assignments[index];
+      if (assignment.entries.length >= account.slotCount) {
+        return;
+      }
+
+      const candidateIndex = remainingCandidates.findIndex(
+        candidate => !assignment.entries.some(entry => entriesShareApplicationSlot(entry, candidate)),
+      );
+      if (candidateIndex < 0) {
+        return;
+      }
+
+      assignment.entries.push(...remainingCandidates.splice(candidateIndex, 1));
+      assignedInRound = true;
+    });
+  }
+
+  return assignments;
+}
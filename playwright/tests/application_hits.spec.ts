@@ -0,0 +1,38 @@
+import { expect, test } from '@playwright/test';
+import { toApplicationHits } from '../application_hits';
+
+test('toApplicationHits stores 当選 and 当選確定 entries as typed records', () => {
+  const entry = {
+    gymName: '札幌市中央体育館',
+    room: 'A面',
+    date: '2026年11月07日(土)',
+    time: '9:00 ～ 12:00',
+    accountName: '札幌  太郎',
+    accountId: 'user-1',
+  };
+
+  expect(
+    toApplicationHits([entry, entry, { ...entry, time: '時間未定' }], [{ ...entry, room: '', accountName: '', accountId: '' }]),
+  ).toEqual([
+    {
+      date: '2026-11-07',
+      startTime: '09:00',
+      endTime: '12:00',
+      facility: '札幌市中央体育館',
+      booth: 'A面',
+      accountName: '札幌 太郎',
+      accountId: 'user-1',
+      status: 'won',
+    },
+    {
+      date: '2026-11-07',
+      startTime: '09:00',
+      endTime: '12:00',
+      facility: '札幌市中央体育館',
+      booth: '',
+      accountName: null,
+      accountId: null,
+      status: 'confirmed',
+    },
+  ]);
+});
@@ -0,0 +1,116 @@
+import { expect, test } from '@playwright/test';
+import {
+  DEFAULT_CANDIDATE_SCORING_SETTINGS,
+  rankCandidates,
+  selectScoredCandidates,
+  type ScoringCandidate,
+} from '../../src/lib/sites/candidate-scoring';
+import { entriesConflictWithExistingRequest } from '../entry_utils';
+import type { CandidateScoringSettings } from '../types';
+
+const candidate = (date: string, time: string, count: number, gymName = '中央体育館') => ({
+  count,
+  entry: { gymName, room: '競技場A', date, time },
+});
+
+type CandidateScoringCase = {
+  title: string;
+  settings: CandidateScoringSettings;
+  candidates: ScoringCandidate[];
+  limit: number;
+  // 選ばれる順の candidates のインデックス
+  expected: number[];
+};
+
+const withWeights = (weights: Partial<CandidateScoringSettings['weights']>, settings: Partial<CandidateScoringSettings> = {}) => ({
+  ...DEFAULT_CANDIDATE_SCORING_SETTINGS,
+  ...settings,
+  weights: { applicants: 0, distance: 0, weekday: 0, evening: 0, weekend: 0, spread: 0, ...weights },
+});
+
+const CASES: CandidateScoringCase[] = [
+  {
+    title: 'keeps the applicant-count order by default',
+    settings: DEFAULT_CANDIDATE_SCORING_SETTINGS,
+    candidates: [
+      candidate('2099-01-12', '09:00-12:00', 3),
+      candidate('2099-01-10', '09:00-12:00', 1),
+      candidate('2099-01-10', '09:00-12:00', 0),
+      candidate('2099-01-11', '18:00-21:00', 1),
+    ],
+    limit: 3,
+    expected: [2, 3, 0],
+  },
+  {
+    // 2099-01-05 は月曜
+    title: 'prefers weekday evenings and spreads dates when weighted',
+    settings: withWeights({ applicants: 1, evening: 3, spread: 2 }),
+    candidates: [
+      candidate('2099-01-05', '09:00-12:00', 0),
+      candidate('2099-01-05', '18:00-21:00', 2),
+      candidate('2099-01-06', '18:00-21:00', 2),
+      candidate('2099-01-13', '18:00-21:00', 2),
+    ],
+    limit: 2,
+    expected: [1, 3],
+  },
+  {
+    title: 'prefers nearer facilities and scores unknown facilities as far',
+    settings: withWeights(
+      { applicants: 1, distance: 5 },
+      { gymDistancesKm: [{ gymName: '中央体育館', km: 2 }, { gymName: '北区体育館', km: 10 }] },
+    ),
+    candidates: [
+      candidate('2099-01-10', '09:00-12:00', 0, '北区体育館'),
+      candidate('2099-01-10', '13:00-16:00', 3),
+      candidate('2099-01-11', '09:00-12:00', 0, '東区体育館'),
+    ],
+    limit: 3,
+    expected: [1, 0, 2],
+  },
+  {
+    // 2099-01-07 は水曜、01-10 と 01-11 は土日
+    title: 'prefers the chosen weekdays and weekends',
+    settings: withWeights({ applicants: 1, weekday: 3, weekend: 2 }, { preferredWeekdays: [3] }),
+    candidates: [
+      candidate('2099-01-05', '09:00-12:00', 0),
+      candidate('2099-01-07', '09:00-12:00', 2),
+      candidate('2099-01-10', '09:00-12:00', 1),
+      candidate('2099-01-11', '09:00-12:00', 5),
+    ],
+    limit: 3,
+    expected: [1, 2, 3],
+  },
+  {
+    // 申込状況などから読んだ日本語の日付・時間も同じに扱う
+    title: 'reads Japanese dates and times',
+    settings: withWeights({ applicants: 1, weekend: 2, evening: 3 }),
+    candidates: [
+      candidate('2099年1月5日(月)', '9時〜12時', 0),
+      candidate('2099年1月10日(土)', '9:00〜12:00', 1),
+      candidate('2099年1月6日(火)', '18時〜21時', 2),
+    ],
+    limit: 3,
+    expected: [2, 1, 0],
+  },
+];
+
+for (const { title, settings, candidates, limit, expected } of CASES) {
+  test(`selectScoredCandidates ${title}`, () => {
+    const selected = selectScoredCandidates(candidates, limit, settings, entriesConflictWithExistingRequest);
+
+    expect(selected.map(item => candidates.indexOf(item))).toEqual(expected);
+  });
+}
+
+test('rankCandidates keeps the worker order and skips slots the same account cannot apply twice', () => {
+  const candidates = [
+    candidate('2099-01-10', '09:00-12:00', 2),
+    candidate('2099-01-10', '09:00-12:00', 0, '中央 体育館'),
+    candidate('2099-01-11', '09:00-12:00', 1),
+  ];
+  const ranked = rankCandidates(candidates, 3, DEFAULT_CANDIDATE_SCORING_SETTINGS);
+
+  expect(ranked.map(item => candidates.findIndex(candidate => candidate.entry === item.entry))).toEqual([1, 2]);
+  expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+});
@@ -0,0 +1,20 @@
+import { expect, test } from '@playwright/test';
+import { classifyEntryError, isRetryableFailure } from '../entry_failure';
+
+test('classifyEntryError recognises the site error messages as non-retryable', () => {
+  const limit = classifyEntryError(new Error('[runFacilityAvailabilityPage:No.3] エラー検知: 抽選数が利用制限に該当します。'));
+  const hours = classifyEntryError(new Error('[runFacilityAvailabilityPage:No.3] エラー検知: サービス利用時間外です。'));
+  const slot = classifyEntryError(new Error('[runFacilityAvailabilityPage:No.3] 希望する時間帯に一致するスロットを取得できませんでした。'));
+
+  expect([limit.kind, hours.kind, slot.kind]).toEqual(['lottery_limit', 'service_hours', 'slot_unavailable']);
+  expect([limit, hours, slot].some(isRetryableFailure)).toBe(false);
+});
+
+test('classifyEntryError treats Playwright timeouts as retryable', () => {
+  const timeoutError = new Error('locator.waitFor: Timeout 10000ms exceeded.');
+  timeoutError.name = 'TimeoutError';
+  const failure = classifyEntryError(timeoutError);
+
+  expect(failure.kind).toBe('selector_timeout');
+  expect(isRetryableFailure(failure)).toBe(true);
+});
@@ -0,0 +1,41 @@
+import { expect, test } from '@playwright/test';
+import { buildCatalogueFacilities, parseFacilityRoomCodes } from '../page/facility_catalogue_page';
+import { buildFacilitySetId } from '../../src/lib/sites/facility-set-id';
+import { getSiteAdapter, resolveComparisonFacilityGroups } from '../site';
+
+const origin = 'https://yoyaku.harp.lg.jp';
+
+test('parseFacilityRoomCodes reads facility and room codes from availability links', () => {
+  expect(parseFacilityRoomCodes('/sapporo/FacilityAvailability/Index/011002/0004?rc=001', origin)).toEqual({ facilityCode: '0004', roomCode: '001' });
+  expect(parseFacilityRoomCodes('/sapporo/FacilityAvailability?tg%5B0%5D.fc=0202&tg%5B0%5D.r%5B0%5D=050', origin)).toEqual({ facilityCode: '0202', roomCode: '050' });
+  expect(parseFacilityRoomCodes('/sapporo/FacilityAvailability/Index/011002/0004', origin)).toBeNull();
+});
+
+test('buildCatalogueFacilities groups rooms per facility and classifies schools', () => {
+  const facilities = buildCatalogueFacilities([
+    { href: '/sapporo/FacilityAvailability/Index/011002/0040?rc=002', roomName: 'B面', facilityName: '北区体育館' },
+    { href: '/sapporo/FacilityAvailability/Index/011002/0040?rc=001', roomName: 'A面', facilityName: '北区体育館' },
+    { href: '/sapporo/FacilityAvailability/Index/011002/0040?rc=001', roomName: 'A面', facilityName: '北区体育館' },
+    { href: '/sapporo/FacilityAvailability/Index/011002/0337?rc=050', roomName: '体育館', facilityName: '学校開放（北区）' },
+    { href: '/sapporo/FacilityAvailability/Index/011002/0202?rc=050', roomName: '体育館', facilityName: '開放施設' },
+  ], origin, ['0202']);
+
+  expect(facilities).toEqual([
+    { code: '0040', name: '北区体育館', category: 'gym', rooms: [{ code: '002', name: 'B面' }, { code: '001', name: 'A面' }] },
+    { code: '0202', name: '開放施設', category: 'school', rooms: [{ code: '050', name: '体育館' }] },
+    { code: '0337', name: '学校開放（北区）', category: 'school', rooms: [{ code: '050', name: '体育館' }] },
+  ]);
+});
+
+test('resolveComparisonFacilityGroups uses selected facilities and falls back to the site defaults', () => {
+  const site = getSiteAdapter();
+  expect(resolveComparisonFacilityGroups('gym', [], site)).toEqual({ facilityGroups: site.gymFacilityGroups });
+
+  const selected = Array.from({ length: 11 }, (_, index) => ({ code: String(300 + index).padStart(4, '0'), category: 'school' as const, rooms: ['050'] }));
+  const resolved = resolveComparisonFacilityGroups('school', [...selected, { code: '0004', category: 'gym', rooms: ['001'] }], site);
+  expect(resolved.facilityGroups.map(group => group.length)).toEqual([10, 1]);
+  expect(resolved.facilitySetId).toBe(buildFacilitySetId(selected));
+  // 室場や施設の並び順が違っても同じキャッシュを使う
+  expect(buildFacilitySetId([{ code: '0040', rooms: ['002', '001'] }, { code: '0004', rooms: ['001'] }]))
+    .toBe(buildFacilitySetId([{ code: '0004', rooms: ['001'] }, { code: '0040', rooms: ['001', '002'] }]));
+});
@@ -0,0 +1,9 @@
+import { expect, test } from '@playwright/test';
+import { parseFirstComeFrameTitle } from '../page/first_come_page';
+
+test('parseFirstComeFrameTitle reads open frames and ignores lottery or booked ones', () => {
+  expect(parseFirstComeFrameTitle('2026年11月7日 13時から17時 空き')).toEqual({ date: '2026-11-07', time: '13:00-17:00' });
+  expect(parseFirstComeFrameTitle('2026年11月9日 18時30分から21時 予約申込可')).toEqual({ date: '2026-11-09', time: '18:30-21:00' });
+  expect(parseFirstComeFrameTitle('2026年11月7日 9時から12時 抽選申込可')).toBeNull();
+  expect(parseFirstComeFrameTitle('2026年11月7日 13時から17時 予約あり')).toBeNull();
+});
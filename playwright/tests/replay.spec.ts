@@ -0,0 +1,145 @@
+import { expect, test } from '@playwright/test';
+import { runConfirmationPage } from '../page/confirmation_page';
+import { runFacilityAvailabilityPage } from '../page/facility_availability';
+import { runLoginPage } from '../page/login_page';
+import { runLotRequestPage } from '../page/lot_request_page';
+import { ensureRequestStatusPage, REQUEST_STATUS_FILTERS } from '../page/request_status_page';
+import { runSearchPage } from '../page/search_page';
+import { runSeekLotPage } from '../page/seek_lot_page';
+import type { RepresentativeEntry } from '../types';
+import { routeSiteToSnapshots, startReplaySiteServer, type ReplaySiteServer } from './replay/site_server';
+
+const SITE_URL = 'https://yoyaku.harp.lg.jp/sapporo';
+const FACILITY_AVAILABILITY_URL = `${SITE_URL}/FacilityAvailability/Index`;
+
+const ENTRY: RepresentativeEntry = {
+  gymName: '中央体育館',
+  room: '体育館 / A面',
+  date: '2026-11-07',
+  time: '18:00-21:00',
+};
+
+let server: ReplaySiteServer;
+
+test.beforeAll(async () => {
+  process.env.SERVICE_USER = 'replay-user';
+  process.env.SERVICE_PASS = 'replay-pass';
+  server = await startReplaySiteServer();
+});
+
+test.afterAll(async () => {
+  await server?.close();
+});
+
+test.beforeEach(async ({ page }) => {
+  await routeSiteToSnapshots(page, server);
+});
+
+test('runLoginPage submits the login form and leaves the login page', async ({ page }) => {
+  await page.goto(`${SITE_URL}/Login`, { waitUntil: 'domcontentloaded' });
+  await runLoginPage(page);
+
+  expect(page.url()).toBe(`${SITE_URL}/`);
+});
+
+test('runSearchPage picks the facility from the #input-43 combobox and searches', async ({ page }) => {
+  await runSearchPage(page, ENTRY);
+
+  await page.waitForURL(url => url.pathname === '/sapporo/FacilitySearch');
+  const params = new URL(page.url()).searchParams;
+  expect(params.get('k')).toBe('札幌市中央体育館');
+  expect(params.get('ud')).toBe('2026-11-07');
+});
+
+test('runFacilityAvailabilityPage selects the booth slot and moves to the lot request page', async ({ page }) => {
+  await page.goto(FACILITY_AVAILABILITY_URL, { waitUntil: 'domcontentloaded' });
+  await runFacilityAvailabilityPage(page, ENTRY);
+
+  await page.waitForURL(`${SITE_URL}/LotRequests/Insert`);
+});
+
+test('runFacilityAvailabilityPage surfaces the lottery limit error', async ({ page }) => {
+  await page.goto(`${FACILITY_AVAILABILITY_URL}?fixtureError=limit`, { waitUntil: 'domcontentloaded' });
+
+  await expect(runFacilityAvailabilityPage(page, ENTRY)).rejects.toThrow('抽選数が利用制限に該当します。');
+});
+
+test('runSeekLotPage collects lottery counts and skips weekday daytime and 全面 slots', async ({ page }) => {
+  await page.goto(FACILITY_AVAILABILITY_URL, { waitUntil: 'domcontentloaded' });
+  const results = await runSeekLotPage(page, FACILITY_AVAILABILITY_URL);
+
+  expect(results).toEqual([
+    { count: 2, entry: { gymName: '札幌市中央体育館', room: '体育館 / A面', date: '2026-11-07', time: '9:00-12:00' } },
+    { count: 5, entry: { gymName: '札幌市中央体育館', room: '体育館 / A面', date: '2026-11-07', time: '18:00-21:00' } },
+    { count: 3, entry: { gymName: '札幌市中央体育館', room: '体育館 / B面', date: '2026-11-09', time: '18:00-21:00' } },
+  ]);
+});
+
+test('runLotRequestPage fills the sport and participants and confirms', async ({ page }) => {
+  await page.goto(`${SITE_URL}/LotRequests/Insert`, { waitUntil: 'domcontentloaded' });
+  await runLotRequestPage(page, [ENTRY]);
+
+  await page.waitForURL(url => url.pathname === '/sapporo/LotRequests/InsertConfirm');
+  const params = new URL(page.url()).searchParams;
+  expect(params.get('sport')).toBe('バドミントン');
+  expect(params.get('participants')).toBe('20');
+});
+
+test('runLotRequestPage uses the sport and participants from the job settings', async ({ page }) => {
+  await page.goto(`${SITE_URL}/LotRequests/Insert`, { waitUntil: 'domcontentloaded' });
+  await runLotRequestPage(page, [ENTRY], { sport: 'バレーボール', participants: 12, extraFields: [] });
+
+  await page.waitForURL(url => url.pathname === '/sapporo/LotRequests/InsertConfirm');
+  const params = new URL(page.url()).searchParams;
+  expect(params.get('sport')).toBe('バレーボール');
+  expect(params.get('participants')).toBe('12');
+});
+
+test('runConfirmationPage acknowledges the notes and submits', async ({ page }) => {
+  await page.goto(`${SITE_URL}/LotRequests/InsertConfirm`, { waitUntil: 'domcontentloaded' });
+
+  await expect(runConfirmationPage(page)).resolves.toBe(true);
+  await expect(page.getByText('抽選申込を受け付けました。')).toBeVisible();
+});
+
+test('ensureRequestStatusPage reads 当選 entries for the target month', async ({ page }) => {
+  const entries = await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[0], undefined, {
+    targetYearMonth: '2026-11',
+    captureScreenshots: false,
+  });
+
+  expect(entries).toEqual([
+    {
+      gymName: '札幌市中央体育館',
+      room: 'A面',
+      date: '2026年11月07日(土)',
+      time: '18:00 ～ 21:00',
+      accountName: '札幌 太郎',
+      accountId: 'replay-user',
+    },
+  ]);
+});
+
+test('ensureRequestStatusPage adds the detail page URL when asked', async ({ page }) => {
+  const entries = await ensureRequestStatusPage(page, REQUEST_STATUS_FILTERS[0], undefined, {
+    targetYearMonth: '2026-11',
+    captureScreenshots: false,
+    includeDetailUrl: true,
+  });
+
+  expect(entries.map(entry => entry.detailUrl)).toEqual([`${SITE_URL}/RequestStatuses/Detail/20261001-1`]);
+});
+
+test('ensureRequestStatusPage splits a trailing booth from 当選確定 entries', async ({ page }) => {
+  const resolvedFilter = REQUEST_STATUS_FILTERS.find(filter => filter.icon === 'lottery_resolved');
+  expect(resolvedFilter).toBeDefined();
+
+  const entries = await ensureRequestStatusPage(page, resolvedFilter!, undefined, {
+    targetYearMonth: '2026-11',
+    captureScreenshots: false,
+  });
+
+  expect(entries.map(entry => [entry.gymName, entry.room, entry.time])).toEqual([
+    ['札幌市東区体育館', '体育館', '09:00 ～ 12:00'],
+  ]);
+});
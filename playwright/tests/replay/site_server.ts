@@ -0,0 +1,83 @@
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { Page } from '@playwright/test';
+
+const SITE_ORIGIN = 'https://yoyaku.harp.lg.jp';
+const SNAPSHOT_DIR = path.join(__dirname, 'snapshots');
+
+// 本番サイトのパス -> snapshots/ 配下のHTMLファイル
+export const DEFAULT_SNAPSHOTS: Record<string, string> = {
+  '/sapporo/': 'search.html',
+  '/sapporo/Login': 'login.html',
+  '/sapporo/FacilityAvailability/Index': 'facility_availability.html',
+  '/sapporo/LotRequests/Insert': 'lot_request.html',
+  '/sapporo/LotRequests/InsertConfirm': 'insert_confirm.html',
+  '/sapporo/RequestStatuses/Index': 'request_status.html',
+};
+
+export type ReplaySiteServer = {
+  origin: string;
+  close: () => Promise<void>;
+};
+
+export async function startReplaySiteServer(): Promise<ReplaySiteServer> {
+  const server = http.createServer(async (request, response) => {
+    const fileName = decodeURIComponent(new URL(request.url ?? '/', 'http://localhost').pathname).replace(/^\/+/, '');
+    const filePath = path.join(SNAPSHOT_DIR, fileName);
+    if (!fileName || !filePath.startsWith(`${SNAPSHOT_DIR}${path.sep}`)) {
+      response.writeHead(404).end();
+      return;
+    }
+
+    try {
+      const body = await readFile(filePath);
+      response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(body);
+    } catch {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end(`snapshot not found: ${fileName}`);
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    origin: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+    }),
+  };
+}
+
+/**
+ * yoyaku.harp.lg.jp 宛てのリクエストをローカルのスナップショットへ差し替える。
+ * page.url() は本番URLのままなので、各ページモジュールのURL判定はそのまま動く。
+ */
+export async function routeSiteToSnapshots(
+  page: Page,
+  server: ReplaySiteServer,
+  overrides: Record<string, string> = {},
+): Promise<void> {
+  const snapshots = { ...DEFAULT_SNAPSHOTS, ...overrides };
+
+  await page.route(`${SITE_ORIGIN}/**`, async route => {
+    const requestUrl = new URL(route.request().url());
+    const fileName = snapshots[requestUrl.pathname];
+    if (!fileName) {
+      await route.fulfill({
+        status: 404,
+        contentType: 'text/plain; charset=utf-8',
+        body: `no snapshot registered for ${requestUrl.pathname}`,
+      });
+      return;
+    }
+
+    const response = await fetch(`${server.origin}/${encodeURIComponent(fileName)}`);
+    await route.fulfill({
+      status: response.status,
+      contentType: response.headers.get('content-type') ?? 'text/html; charset=utf-8',
+      body: await response.text(),
+    });
+  });
+}
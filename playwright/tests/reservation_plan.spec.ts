@@ -0,0 +1,29 @@
+import { expect, test } from '@playwright/test';
+import { buildDirectUrlEntry, buildQuotaUsageReports, resolveDirectLotRequestUrl } from '../reservation_plan';
+import { buildSiteUrl } from '../site';
+
+const entry = (date: string) => ({ gymName: '中央体育館', room: '競技場', date, time: '09:00～12:00' });
+
+test('buildQuotaUsageReports counts requested and new entries per month and marks limit rejections', () => {
+  const reports = buildQuotaUsageReports(
+    [entry('2099年1月5日'), entry('2099/01/12')],
+    [entry('2099-01-20')],
+    [entry('2099-02-03')],
+  );
+
+  expect(reports.find(report => report.yearMonth === '2099-01')).toEqual({ yearMonth: '2099-01', used: 3, exhausted: false });
+  expect(reports.find(report => report.yearMonth === '2099-02')).toEqual({ yearMonth: '2099-02', used: 0, exhausted: true });
+  // 既定の対象月（翌月）は0件でも送る
+  expect(reports.some(report => report.used === 0 && !report.exhausted)).toBe(true);
+});
+
+test('lot request URL entries open only the current site form and count toward the default month', () => {
+  const directEntry = buildDirectUrlEntry(buildSiteUrl('LotRequests/Insert/abc123/0010'));
+  expect(resolveDirectLotRequestUrl(directEntry)).toBe(directEntry.room);
+  expect(resolveDirectLotRequestUrl({ ...directEntry, room: 'https://example.com/LotRequests/Insert/abc123/0010' })).toBeNull();
+  expect(resolveDirectLotRequestUrl({ ...directEntry, gymName: '中央体育館' })).toBeNull();
+
+  const reports = buildQuotaUsageReports([], [directEntry], []);
+  expect(reports).toHaveLength(1);
+  expect(reports[0].used).toBe(1);
+});
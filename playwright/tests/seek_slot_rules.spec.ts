@@ -0,0 +1,53 @@
+import { expect, test } from '@playwright/test';
+import { DEFAULT_SEEK_SLOT_RULES, entryMatchesSeekSlotRules } from '../seek_slot_rules';
+import type { SeekSlotRules } from '../types';
+
+const entry = (date: string, time: string, room = '体育館 / A面', gymName = '札幌市中央体育館') => ({ gymName, room, date, time });
+
+type SeekSlotRulesCase = {
+  title: string;
+  rules: SeekSlotRules;
+  expectations: Array<[ReturnType<typeof entry>, boolean]>;
+};
+
+const GROUP_RULES: SeekSlotRules = {
+  weekdayStartHours: { from: 9, to: 13 },
+  holidayStartHours: { from: 13, to: 24 },
+  excludedBooths: ['半面'],
+  excludedFacilities: ['北区'],
+};
+
+const CASES: SeekSlotRulesCase[] = [
+  {
+    title: 'keeps the previous weekday-evening and 全面 rules by default',
+    rules: DEFAULT_SEEK_SLOT_RULES,
+    expectations: [
+      [entry('2026-11-02', '9:00-12:00'), false],
+      [entry('2026-11-02', '18:00-21:00'), true],
+      // 2026-11-03 は文化の日
+      [entry('2026-11-03', '9:00-12:00'), true],
+      [entry('2026-11-07', '18:00-21:00', '体育館 / 全面'), false],
+    ],
+  },
+  {
+    title: 'applies group start hours and excluded booths and facilities',
+    rules: GROUP_RULES,
+    expectations: [
+      [entry('2026-11-02', '9:00-12:00'), true],
+      [entry('2026-11-02', '18:00-21:00'), false],
+      [entry('2026-11-07', '9:00-12:00'), false],
+      [entry('2026-11-07', '13:00-16:00', '体育館 / 半面'), false],
+      [entry('2026-11-07', '13:00-16:00', '体育館 / 全面', '札幌市北区体育館'), false],
+      [entry('2026-11-07', '13:00-16:00', '体育館 / 全面'), true],
+      [entry('2026-11-07', '13:00-16:00', '体育館'), true],
+    ],
+  },
+];
+
+for (const { title, rules, expectations } of CASES) {
+  test(`entryMatchesSeekSlotRules ${title}`, () => {
+    for (const [candidate, expected] of expectations) {
+      expect(entryMatchesSeekSlotRules(candidate, rules), JSON.stringify(candidate)).toBe(expected);
+    }
+  });
+}
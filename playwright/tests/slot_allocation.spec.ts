@@ -0,0 +1,19 @@
+import { expect, test } from '@playwright/test';
+import { assignSlotsToAccounts } from '../slot_allocation';
+
+const entry = (room: string, time: string) => ({ gymName: '中央体育館', room, date: '2099-01-10', time });
+
+test('assignSlotsToAccounts deals candidates in priority order without giving one account the same slot twice', () => {
+  const candidates = [entry('競技場A', '09:00～12:00'), entry('競技場B', '09:00～12:00'), entry('競技場A', '13:00～16:00')];
+
+  const assignments = assignSlotsToAccounts(
+    [
+      { userId: 'first', slotCount: 2 },
+      { userId: 'second', slotCount: 2 },
+    ],
+    candidates,
+  );
+
+  expect(assignments[0]).toEqual({ userId: 'first', entries: [candidates[0], candidates[2]] });
+  expect(assignments[1]).toEqual({ userId: 'second', entries: [candidates[1]] });
+});
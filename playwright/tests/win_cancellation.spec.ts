@@ -0,0 +1,29 @@
+import { expect, test } from '@playwright/test';
+import { selectWinsToCancel, toWinCancellationWins } from '../win_cancellation';
+
+const DETAIL_URL = 'https://yoyaku.harp.lg.jp/sapporo/RequestStatuses/Detail';
+
+test('toWinCancellationWins keeps only wins with a detail page', () => {
+  const wins = toWinCancellationWins([
+    { gymName: '札幌市中央体育館', room: 'A面', date: '2026年11月07日(土)', time: '18:00 ～ 21:00', accountName: '札幌 太郎', detailUrl: `${DETAIL_URL}/20261001-1` },
+    { gymName: '札幌市中央体育館', room: 'B面', date: '2026年11月07日(土)', time: '18:00 ～ 21:00' },
+  ]);
+
+  expect(wins).toEqual([
+    { gymName: '札幌市中央体育館', room: 'A面', date: '2026年11月07日(土)', time: '18:00 ～ 21:00', detailUrl: `${DETAIL_URL}/20261001-1` },
+  ]);
+});
+
+test('selectWinsToCancel only touches confirmed wins that are still held', () => {
+  const wins = ['20261001-1', '20261001-4'].map(id => ({
+    gymName: '札幌市中央体育館',
+    room: 'A面',
+    date: '2026年11月07日(土)',
+    time: '18:00 ～ 21:00',
+    detailUrl: `${DETAIL_URL}/${id}`,
+  }));
+
+  const targets = selectWinsToCancel(wins, [`${DETAIL_URL}/20261001-4`, `${DETAIL_URL}/20261001-9`]);
+
+  expect(targets.map(win => win.detailUrl)).toEqual([`${DETAIL_URL}/20261001-4`]);
+});
@@ -0,0 +1,27 @@
+import { expect, test } from '@playwright/test';
+import { formatWinConfirmationReminder, parseWinConfirmDeadline } from '../win_confirmation';
+
+test('parseWinConfirmDeadline reads the deadline shown on the request detail page', () => {
+  expect(parseWinConfirmDeadline('申込番号 20261001-1\n確定期限：2026年10月25日(日) 23:59\n場所：札幌市中央体育館')).toBe(
+    '2026年10月25日(日) 23:59',
+  );
+  expect(parseWinConfirmDeadline('期限 ２０２６年１０月２５日')).toBe('2026年10月25日');
+  expect(parseWinConfirmDeadline('当選しました')).toBeNull();
+});
+
+test('formatWinConfirmationReminder lists every win that still needs confirming', () => {
+  const entry = { gymName: '札幌市中央体育館', room: 'A面', date: '2026年11月07日(土)', time: '18:00 ～ 21:00' };
+
+  expect(
+    formatWinConfirmationReminder('group-1/札幌 太郎', [
+      { entry, error: 'timeout', deadline: '2026年10月25日(日) 23:59' },
+      { entry: { ...entry, room: 'B面' }, error: 'timeout', deadline: null },
+    ]),
+  ).toBe(
+    [
+      'group-1/札幌 太郎: 当選確定できなかった当選が2件あります。期限までにサイトで当選確定してください。',
+      '・2026年11月07日(土) 18:00 ～ 21:00 札幌市中央体育館 A面（期限: 2026年10月25日(日) 23:59）',
+      '・2026年11月07日(土) 18:00 ～ 21:00 札幌市中央体育館 B面（期限: サイトで確認）',
+    ].join('\n'),
+  );
+});
@@ -1,3 +1,6 @@
+import type { CandidateScoringSettings } from '../src/lib/sites/candidate-scoring';
+import type { SeekSlotRules } from '../src/lib/sites/seek-slot-rules';
+
 export type RepresentativeEntry = {
   gymName: string;
   room: string;
@@ -7,7 +10,119 @@ export type RepresentativeEntry = {
   accountId?: string;
 };
 
+export type LotRequestSettings = {
+  sport: string;
+  participants: number;
+  extraFields: Array<{ label: string; value: string }>;
+};
+
+// 追加分の探索で候補の枠を並べる基準（グループ設定をジョブに写したもの）。点数の計算と一緒に代表者ページと共通
+export type { CandidateScoringSettings };
+
+// 空き枠探索で候補にする枠の条件（グループ設定をジョブに写したもの）。判定と一緒に代表者ページと共通
+export type { SeekSlotRules };
+
+// 空き枠探索で比較画面に並べる施設（施設一覧からグループが選んだもの）
+export type SeekFacility = {
+  code: string;
+  category: 'gym' | 'school';
+  rooms: string[];
+};
+
+// 施設サイトから読み取った施設と室場（facilityCatalogues/{siteId}）
+export type CatalogueFacility = {
+  code: string;
+  name: string;
+  category: SeekFacility['category'];
+  rooms: Array<{ code: string; name: string }>;
+};
+
+// lottery=抽選応募（既定）、first_come=抽選後に残った空き枠を先着で予約
+export type ReservationKind = 'lottery' | 'first_come';
+
 export type Job = {
   jobId: string;
+  mode?: ReservationKind;
   entryCount?: number;
+  dryRun?: boolean;
+  lotRequest?: LotRequestSettings;
+  candidateScoring?: CandidateScoringSettings;
+  seekRules?: SeekSlotRules;
+  seekFacilities?: SeekFacility[];
+  // 抽選申込フォームのURL（groups/{groupId}.urls）。あれば検索を通らずに直接申し込む
+  lotRequestUrls?: string[];
+  // lotRequestUrls のうち、同じアカウントで前回までのジョブで申し込めたURL。日付や時間が無く申込状況と照合できないので、これで飛ばす
+  submittedLotRequestUrls?: string[];
+  targetEntries?: RepresentativeEntry[];
+  checkpoint?: ReservationCheckpoint;
+  // グループでまとめて枠を割り振る場合の割り振りID（groups/{groupId}/slotAllocations）
+  allocationId?: string;
+};
+
+export type ReservationCheckpointEntry = {
+  entry: RepresentativeEntry;
+  outcome: 'success' | 'failed' | 'dry_run';
+  reason: string | null;
+  failure: { kind: string; message: string } | null;
+  screenshotPath: string | null;
+};
+
+// 組み立て済みの応募計画と処理済みの枠。ジョブ再開時はここから続きを処理する
+export type ReservationCheckpoint = {
+  plan: {
+    entries: RepresentativeEntry[];
+    failedEntries: RepresentativeEntry[];
+    requestStatusEntries: RepresentativeEntry[];
+    totalEntries: number;
+  };
+  processed: ReservationCheckpointEntry[];
+};
+
+export type JobEntryOutcome = 'success' | 'failed' | 'skipped' | 'dry_run';
+
+export type JobResultEntry = {
+  entry: RepresentativeEntry;
+  outcome: JobEntryOutcome;
+  reason: string | null;
+  screenshotPath: string | null;
+};
+
+export type JobResult = {
+  counts: {
+    success: number;
+    failed: number;
+    skipped: number;
+    cancelled: number;
+    dryRun: number;
+  };
+  entries: JobResultEntry[];
+};
+
+// 余った当選の取り消し。scanning は当選を読むだけ、confirmed は代表者が確定した枠を取り消す
+export type WinCancellationRun = {
+  status: 'scanning' | 'confirmed';
+  cancelUrls: string[];
+};
+
+export type WinCancellationWin = {
+  gymName: string;
+  room: string;
+  date: string;
+  time: string;
+  detailUrl: string;
+};
+
+// groups/{groupId}/applications/{applicationId}.hits の1件。src/lib/api/application-hits.ts と形を揃えること
+export type ApplicationHit = {
+  // YYYY-MM-DD
+  date: string;
+  // HH:MM
+  startTime: string;
+  endTime: string;
+  facility: string;
+  booth: string;
+  accountName: string | null;
+  accountId: string | null;
+  // won: 当選、confirmed: 当選確定
+  status: 'won' | 'confirmed';
 };
@@ -1,7 +1,20 @@
 import type { Page } from '@playwright/test';
 import https from 'node:https';
 
-import type { Job, RepresentativeEntry } from './types';
+import type {
+  ApplicationHit,
+  CandidateScoringSettings,
+  CatalogueFacility,
+  Job,
+  JobResult,
+  LotRequestSettings,
+  RepresentativeEntry,
+  ReservationCheckpoint,
+  SeekFacility,
+  SeekSlotRules,
+  WinCancellationRun,
+  WinCancellationWin,
+} from './types';
 import { normalizeDateToIso } from './entry_utils';
 
 const SCREENSHOT_QUALITY = 60;
@@ -107,10 +120,50 @@ export async function fetchJob(): Promise<Job | null> {
 
     const payload = (await response.json()) as Partial<Job>;
     const entryCount = typeof payload.entryCount === 'number' ? payload.entryCount : undefined;
+    const dryRun = payload.dryRun === true;
+    const mode = payload.mode === 'first_come' ? 'first_come' : 'lottery';
+    const lotRequest = parseLotRequestSettings(payload.lotRequest);
+    const candidateScoring = parseCandidateScoringSettings(payload.candidateScoring);
+    const seekRules = parseSeekSlotRules(payload.seekRules);
+    const seekFacilities = Array.isArray(payload.seekFacilities)
+      ? payload.seekFacilities.filter(
+          (facility): facility is SeekFacility =>
+            typeof facility?.code === 'string'
+            && (facility?.category === 'gym' || facility?.category === 'school')
+            && Array.isArray(facility?.rooms)
+            && facility.rooms.every(room => typeof room === 'string'),
+        )
+      : undefined;
+    const lotRequestUrls = Array.isArray(payload.lotRequestUrls)
+      ? payload.lotRequestUrls.filter((url): url is string => typeof url === 'string' && url !== '')
+      : undefined;
+    const submittedLotRequestUrls = Array.isArray(payload.submittedLotRequestUrls)
+      ? payload.submittedLotRequestUrls.filter((url): url is string => typeof url === 'string' && url !== '')
+      : undefined;
+    const targetEntries = Array.isArray(payload.targetEntries)
+      ? payload.targetEntries.filter(
+          (entry): entry is RepresentativeEntry =>
+            typeof entry?.gymName === 'string' && typeof entry?.room === 'string' && typeof entry?.date === 'string' && typeof entry?.time === 'string',
+        )
+      : undefined;
+
+    const checkpoint = parseReservationCheckpoint(payload.checkpoint);
+    const allocationId = typeof payload.allocationId === 'string' && payload.allocationId ? payload.allocationId : undefined;
 
     return {
       jobId,
+      mode,
       entryCount,
+      dryRun,
+      lotRequest,
+      candidateScoring,
+      seekRules,
+      seekFacilities: seekFacilities?.length ? seekFacilities : undefined,
+      lotRequestUrls: lotRequestUrls?.length ? lotRequestUrls : undefined,
+      submittedLotRequestUrls: submittedLotRequestUrls?.length ? submittedLotRequestUrls : undefined,
+      targetEntries: targetEntries?.length ? targetEntries : undefined,
+      checkpoint,
+      allocationId,
     } satisfies Job;
   } catch (error) {
     logEarlyReturn(`Failed to fetch job: ${error instanceof Error ? error.message : String(error)}`);
@@ -118,6 +171,95 @@ export async function fetchJob(): Promise<Job | null> {
   }
 }
 
+function parseLotRequestSettings(value: unknown): LotRequestSettings | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const record = value as Record<string, unknown>;
+  const sport = typeof record.sport === 'string' ? record.sport.trim() : '';
+  const participants = Number(record.participants);
+  if (!sport || !Number.isInteger(participants) || participants <= 0) {
+    logEarlyReturn(`Invalid lotRequest settings on job; falling back to site defaults: ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  const extraFields = Array.isArray(record.extraFields)
+    ? record.extraFields.filter(
+        (field): field is { label: string; value: string } =>
+          typeof field?.label === 'string' && typeof field?.value === 'string' && field.label.trim() !== '',
+      )
+    : [];
+
+  return { sport, participants, extraFields };
+}
+
+// サーバー側で保存時に検証済みなので、ここでは形だけ確認する
+function parseCandidateScoringSettings(value: unknown): CandidateScoringSettings | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { weights, preferredWeekdays, gymDistancesKm } = value as Partial<CandidateScoringSettings>;
+  const weightValues = weights ? Object.values(weights) : [];
+  if (
+    weightValues.length === 0
+    || weightValues.some(weight => typeof weight !== 'number' || !Number.isFinite(weight))
+    || !Array.isArray(preferredWeekdays)
+    || !Array.isArray(gymDistancesKm)
+  ) {
+    logEarlyReturn(`Invalid candidateScoring settings on job; falling back to applicant counts: ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  return value as CandidateScoringSettings;
+}
+
+// サーバー側で保存時に検証済みなので、ここでは形だけ確認する
+function parseSeekSlotRules(value: unknown): SeekSlotRules | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { weekdayStartHours, holidayStartHours, excludedBooths, excludedFacilities } = value as Partial<SeekSlotRules>;
+  const isHourRange = (range: unknown) =>
+    typeof (range as SeekSlotRules['weekdayStartHours'] | undefined)?.from === 'number'
+    && typeof (range as SeekSlotRules['weekdayStartHours'] | undefined)?.to === 'number';
+  if (
+    !isHourRange(weekdayStartHours)
+    || !isHourRange(holidayStartHours)
+    || !Array.isArray(excludedBooths)
+    || !Array.isArray(excludedFacilities)
+  ) {
+    logEarlyReturn(`Invalid seekRules on job; falling back to default seek rules: ${JSON.stringify(value)}`);
+    return undefined;
+  }
+
+  return value as SeekSlotRules;
+}
+
+// サーバー側で保存時に検証済みなので、ここでは形だけ確認する
+function parseReservationCheckpoint(value: unknown): ReservationCheckpoint | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { plan, processed } = value as Partial<ReservationCheckpoint>;
+  if (
+    !plan
+    || !Array.isArray(plan.entries)
+    || !Array.isArray(plan.failedEntries)
+    || !Array.isArray(plan.requestStatusEntries)
+    || typeof plan.totalEntries !== 'number'
+    || !Array.isArray(processed)
+  ) {
+    logEarlyReturn('Invalid checkpoint on job; building a new reservation plan.');
+    return undefined;
+  }
+
+  return { plan, processed };
+}
+
 export async function updateJobProgress(progress: string): Promise<void> {
   const jobId = process.env.JOB_ID;
   const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
@@ -153,6 +295,108 @@ export async function updateJobProgress(progress: string): Promise<void> {
   }
 }
 
+// UI からキャンセルされると jobs/{jobId}.status が cancelling になる。取得に失敗した場合は続行する
+export async function isJobCancellationRequested(): Promise<boolean> {
+  const jobId = process.env.JOB_ID;
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!jobId || !apiBaseUrl || !apiToken) {
+    return false;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/jobs?jobId=${jobId}`;
+    const response = await fetch(endpoint, {
+      headers: {
+        API_TOKEN: apiToken,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to check job status (status ${response.status}): ${text}`);
+      return false;
+    }
+
+    const payload = (await response.json()) as { status?: unknown };
+    return payload.status === 'cancelling';
+  } catch (error) {
+    logEarlyReturn(`Failed to check job status: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+export async function reportJobResult(result: JobResult): Promise<void> {
+  const jobId = process.env.JOB_ID;
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!jobId) {
+    logEarlyReturn('JOB_ID is not set; skipping job result report.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping job result report.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/jobs/result`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ jobId, result }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report job result (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to report job result: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function saveJobCheckpoint(checkpoint: ReservationCheckpoint): Promise<void> {
+  const jobId = process.env.JOB_ID;
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!jobId) {
+    logEarlyReturn('JOB_ID is not set; skipping checkpoint save.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping checkpoint save.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/jobs/checkpoint`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ jobId, checkpoint }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to save checkpoint (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to save checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 export async function cleanupJobCredentials(): Promise<void> {
   const jobId = process.env.JOB_ID;
   const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
@@ -188,6 +432,519 @@ export async function cleanupJobCredentials(): Promise<void> {
   }
 }
 
+// groups/{groupId}/accounts に登録されたアカウントで動いている場合だけ、ログイン成功日時を記録する
+export async function reportAccountLoginSuccess(): Promise<void> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const accountId = (process.env.PLAYWRIGHT_ACCOUNT_ID ?? '').trim();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !accountId) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID or PLAYWRIGHT_ACCOUNT_ID is not set; skipping login report.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping login report.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/accounts/login`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ groupId, accountId }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report account login (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to report account login: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export type AccountVerificationReport = {
+  ok: boolean;
+  accountName?: string;
+  error?: string;
+};
+
+export async function reportAccountVerification(report: AccountVerificationReport): Promise<void> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const rowIndex = Number((process.env.PLAYWRIGHT_ROW_INDEX ?? '').trim());
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !Number.isInteger(rowIndex)) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID or PLAYWRIGHT_ROW_INDEX is not set; skipping verification report.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping verification report.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/accounts/verify`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({
+        groupId,
+        rowIndex,
+        accountId: process.env.PLAYWRIGHT_ACCOUNT_ID || null,
+        userId: process.env.SERVICE_USER ?? '',
+        ...report,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report account verification (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to report account verification: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function resolveWinCancellationTarget(): { groupId: string; runId: string; rowIndex: number } | null {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const runId = (process.env.PLAYWRIGHT_CANCEL_RUN_ID ?? '').trim();
+  const rowIndex = Number((process.env.PLAYWRIGHT_ROW_INDEX ?? '').trim());
+  return groupId && runId && Number.isInteger(rowIndex) ? { groupId, runId, rowIndex } : null;
+}
+
+export async function fetchWinCancellationRun(): Promise<WinCancellationRun | null> {
+  const target = resolveWinCancellationTarget();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!target || !apiBaseUrl || !apiToken) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, PLAYWRIGHT_CANCEL_RUN_ID, PLAYWRIGHT_ROW_INDEX, API_BASE_URL or API_TOKEN missing; skipping win cancellation fetch.');
+    return null;
+  }
+
+  try {
+    const query = new URLSearchParams({ groupId: target.groupId, runId: target.runId });
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/win-cancellations?${query.toString()}`;
+    const response = await fetch(endpoint, {
+      headers: {
+        API_TOKEN: apiToken,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to fetch win cancellation run (status ${response.status}): ${text}`);
+      return null;
+    }
+
+    const payload = (await response.json()) as { status?: unknown; cancelUrls?: unknown };
+    return {
+      status: payload.status === 'confirmed' ? 'confirmed' : 'scanning',
+      cancelUrls: Array.isArray(payload.cancelUrls)
+        ? payload.cancelUrls.filter((url): url is string => typeof url === 'string')
+        : [],
+    };
+  } catch (error) {
+    logEarlyReturn(`Failed to fetch win cancellation run: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+export type WinCancellationReport =
+  | { phase: 'scan'; accountName: string; wins: WinCancellationWin[] }
+  | { phase: 'cancel'; cancelled: string[]; failed: Array<{ detailUrl: string; error: string }> };
+
+export async function reportWinCancellation(report: WinCancellationReport): Promise<boolean> {
+  const target = resolveWinCancellationTarget();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!target || !apiBaseUrl || !apiToken) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, PLAYWRIGHT_CANCEL_RUN_ID, PLAYWRIGHT_ROW_INDEX, API_BASE_URL or API_TOKEN missing; skipping win cancellation report.');
+    return false;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/win-cancellations`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({
+        ...target,
+        accountId: process.env.PLAYWRIGHT_ACCOUNT_ID || null,
+        ...report,
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report win cancellation (status ${response.status}): ${text}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logEarlyReturn(`Failed to report win cancellation: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+export type WinConfirmationReport = {
+  accountName: string;
+  confirmed: RepresentativeEntry[];
+  failed: Array<RepresentativeEntry & { error: string; deadline: string | null }>;
+};
+
+// 抽選状況の確認で当選確定を試した結果を送る（アカウントごとに最新の1回分だけ残る）
+export async function reportWinConfirmations(report: WinConfirmationReport): Promise<void> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const rowIndex = Number((process.env.PLAYWRIGHT_ROW_INDEX ?? '').trim());
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !Number.isInteger(rowIndex)) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID or PLAYWRIGHT_ROW_INDEX is not set; skipping win confirmation report.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping win confirmation report.');
+    return;
+  }
+
+  const toEntry = (entry: RepresentativeEntry) => ({
+    gymName: entry.gymName,
+    room: entry.room,
+    date: entry.date,
+    time: entry.time,
+  });
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/win-confirmations`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({
+        groupId,
+        rowIndex,
+        accountId: process.env.PLAYWRIGHT_ACCOUNT_ID || null,
+        accountName: report.accountName,
+        confirmed: report.confirmed.map(toEntry),
+        failed: report.failed.map(entry => ({ ...toEntry(entry), error: entry.error, deadline: entry.deadline })),
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report win confirmations (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to report win confirmations: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export type AccountQuotaUsageReport = {
+  yearMonth: string;
+  used: number;
+  exhausted: boolean;
+};
+
+// 申込状況で数えた利用月ごとの申込件数を送る。ジョブ API はこれを見て応募数を残り枠までに抑える
+export async function reportAccountQuotaUsage(usages: AccountQuotaUsageReport[]): Promise<void> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const userId = (process.env.SERVICE_USER ?? '').trim();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !userId || usages.length === 0) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, SERVICE_USER or usages missing; skipping quota report.');
+    return;
+  }
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping quota report.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/accounts/quota`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ groupId, userId, usages }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to report account quota usage (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to report account quota usage: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export type SlotAllocationAccount = {
+  userId: string;
+  entryCount: number;
+};
+
+export type SlotAllocationClaim = {
+  claimed: boolean;
+  status: string;
+  accounts: SlotAllocationAccount[];
+  // claimed のときだけ。結果を書き込むときに送る
+  plannerId?: string;
+};
+
+// 最初に呼んだワーカー（または担当の期限切れ後に呼んだワーカー）だけ claimed=true になり、グループ全体の枠探索を担当する
+export async function claimSlotAllocation(allocationId: string): Promise<SlotAllocationClaim | null> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !apiBaseUrl || !apiToken) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, API_BASE_URL or API_TOKEN missing; skipping slot allocation claim.');
+    return null;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/allocations/claim`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ groupId, allocationId }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to claim slot allocation (status ${response.status}): ${text}`);
+      return null;
+    }
+
+    const payload = (await response.json()) as Partial<SlotAllocationClaim>;
+    const plannerId = typeof payload.plannerId === 'string' && payload.plannerId ? payload.plannerId : undefined;
+    return {
+      claimed: payload.claimed === true && plannerId !== undefined,
+      status: typeof payload.status === 'string' ? payload.status : 'pending',
+      plannerId,
+      accounts: Array.isArray(payload.accounts)
+        ? payload.accounts.filter(
+            (account): account is SlotAllocationAccount =>
+              typeof account?.userId === 'string' && typeof account?.entryCount === 'number',
+          )
+        : [],
+    };
+  } catch (error) {
+    logEarlyReturn(`Failed to claim slot allocation: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+// 書き込めたら true。担当を他のワーカーに引き継がれていた場合などは false
+export async function submitSlotAllocation(
+  allocationId: string,
+  plannerId: string,
+  result: { assignments: Array<{ userId: string; entries: RepresentativeEntry[] }> } | { error: string },
+): Promise<boolean> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !apiBaseUrl || !apiToken) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, API_BASE_URL or API_TOKEN missing; skipping slot allocation submit.');
+    return false;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/allocations`;
+    const response = await fetch(endpoint, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ groupId, allocationId, plannerId, ...result }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to submit slot allocation (status ${response.status}): ${text}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logEarlyReturn(`Failed to submit slot allocation: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
+
+export async function fetchSlotAllocation(
+  allocationId: string,
+): Promise<{ status: string; entries: RepresentativeEntry[] } | null> {
+  const groupId = (process.env.PLAYWRIGHT_GROUP_ID ?? process.env.GROUP_ID ?? '').trim();
+  const userId = (process.env.SERVICE_USER ?? '').trim();
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!groupId || !userId || !apiBaseUrl || !apiToken) {
+    logEarlyReturn('PLAYWRIGHT_GROUP_ID, SERVICE_USER, API_BASE_URL or API_TOKEN missing; skipping slot allocation fetch.');
+    return null;
+  }
+
+  try {
+    const query = new URLSearchParams({ groupId, allocationId, userId });
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/allocations?${query.toString()}`;
+    const response = await fetch(endpoint, {
+      headers: {
+        API_TOKEN: apiToken,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to fetch slot allocation (status ${response.status}): ${text}`);
+      return null;
+    }
+
+    const payload = (await response.json()) as { status?: unknown; entries?: unknown };
+    return {
+      status: typeof payload.status === 'string' ? payload.status : 'pending',
+      entries: Array.isArray(payload.entries)
+        ? payload.entries.filter(
+            (entry): entry is RepresentativeEntry =>
+              typeof entry?.gymName === 'string' && typeof entry?.room === 'string' && typeof entry?.date === 'string' && typeof entry?.time === 'string',
+          )
+        : [],
+    };
+  } catch (error) {
+    logEarlyReturn(`Failed to fetch slot allocation: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+export type SeekLotCacheKey = {
+  siteId: string;
+  yearMonth: string;
+  facilityGroupKind: 'gym' | 'school';
+  facilitySetId?: string;
+};
+
+export type SeekLotCacheCandidate = {
+  count: number;
+  entry: RepresentativeEntry;
+};
+
+// 鮮度内のキャッシュがなければ null（詳細ページを見て回る）
+export async function fetchSeekLotCache(key: SeekLotCacheKey): Promise<SeekLotCacheCandidate[] | null> {
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping seek lot cache fetch.');
+    return null;
+  }
+
+  try {
+    const query = new URLSearchParams({
+      siteId: key.siteId,
+      yearMonth: key.yearMonth,
+      facilityGroupKind: key.facilityGroupKind,
+      ...(key.facilitySetId ? { facilitySetId: key.facilitySetId } : {}),
+    });
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/seek-lot-cache?${query.toString()}`;
+    const response = await fetch(endpoint, {
+      headers: {
+        API_TOKEN: apiToken,
+      },
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to fetch seek lot cache (status ${response.status}): ${text}`);
+      return null;
+    }
+
+    const payload = (await response.json()) as { candidates?: unknown };
+    return Array.isArray(payload.candidates)
+      ? payload.candidates.filter(
+          (candidate): candidate is SeekLotCacheCandidate =>
+            typeof candidate?.count === 'number' &&
+            typeof candidate?.entry?.gymName === 'string' &&
+            typeof candidate?.entry?.room === 'string' &&
+            typeof candidate?.entry?.date === 'string' &&
+            typeof candidate?.entry?.time === 'string',
+        )
+      : null;
+  } catch (error) {
+    logEarlyReturn(`Failed to fetch seek lot cache: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+export async function saveSeekLotCache(key: SeekLotCacheKey, candidates: SeekLotCacheCandidate[]): Promise<void> {
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping seek lot cache save.');
+    return;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/seek-lot-cache`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({
+        ...key,
+        candidates: candidates
+          .filter(({ count }) => Number.isFinite(count))
+          .map(({ count, entry }) => ({
+            count,
+            entry: { gymName: entry.gymName, room: entry.room, date: entry.date, time: entry.time },
+          })),
+      }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to save seek lot cache (status ${response.status}): ${text}`);
+    }
+  } catch (error) {
+    logEarlyReturn(`Failed to save seek lot cache: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 type UploadApplicationImageParams = {
   groupId: string;
   timestamp: string;
@@ -249,7 +1006,7 @@ type SaveApplicationHitsParams = {
   groupId: string;
   timestamp: string;
   applicationId?: string;
-  hits: string[];
+  hits: ApplicationHit[];
 };
 
 export async function saveApplicationHits({
@@ -437,3 +1194,35 @@ function postJson(options: https.RequestOptions, payload: string): Promise<void>
     request.end();
   });
 }
+
+export async function saveFacilityCatalogue(siteId: string, facilities: CatalogueFacility[]): Promise<boolean> {
+  const apiBaseUrl = process.env.API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL;
+  const apiToken = process.env.API_TOKEN;
+
+  if (!apiBaseUrl || !apiToken) {
+    logEarlyReturn('API_BASE_URL or API_TOKEN missing; skipping facility catalogue save.');
+    return false;
+  }
+
+  try {
+    const endpoint = `${apiBaseUrl.replace(/\/?$/, '')}/api/internal/facility-catalogue`;
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        API_TOKEN: apiToken,
+      },
+      body: JSON.stringify({ siteId, facilities }),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      logEarlyReturn(`Failed to save facility catalogue (status ${response.status}): ${text}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    logEarlyReturn(`Failed to save facility catalogue: ${error instanceof Error ? error.message : String(error)}`);
+    return false;
+  }
+}
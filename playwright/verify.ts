@@ -0,0 +1,67 @@
+import { pathToFileURL } from 'node:url';
+import { type Browser } from '@playwright/test';
+
+import { logEarlyReturn, reportAccountLoginSuccess, reportAccountVerification } from './util';
+import { loadEnv } from './env';
+import { runLoginPage } from './page/login_page';
+import { getRequestStatusIndexUrl, resolveAccountName } from './page/request_status_page';
+import { launchChromium } from './browser';
+import { buildSiteUrl } from './site';
+
+export const HEADLESS = false;
+
+loadEnv();
+
+// 抽選状況の確認と同じアカウントでログインだけ試し、ログインできたかと画面上のアカウント名を記録する
+export async function main(): Promise<void> {
+  let browser: Browser | null = null;
+
+  try {
+    browser = await launchChromium({ headless: HEADLESS });
+    const context = await browser.newContext({
+      locale: 'ja-JP',
+      timezoneId: 'Asia/Tokyo',
+    });
+    const page = await context.newPage();
+    const requestStatusUrl = getRequestStatusIndexUrl();
+
+    await page.goto(requestStatusUrl, { waitUntil: 'domcontentloaded' });
+    await runLoginPage(page);
+
+    // ログインリンクが見つからなかった場合も runLoginPage は続行するので、ログイン後の画面で確かめる
+    await page.goto(requestStatusUrl, { waitUntil: 'domcontentloaded' });
+    if (page.url().startsWith(buildSiteUrl('Login'))) {
+      await reportAccountVerification({ ok: false, error: 'ログイン画面に戻されました' });
+      logEarlyReturn('Account verification failed: redirected to login page.');
+      return;
+    }
+
+    const accountName = await resolveAccountName(page);
+    if (!accountName) {
+      await reportAccountVerification({ ok: false, error: 'ログイン後のアカウント名を取得できませんでした' });
+      logEarlyReturn('Account verification failed: account name not found.');
+      return;
+    }
+
+    await reportAccountLoginSuccess();
+    await reportAccountVerification({ ok: true, accountName });
+    logEarlyReturn(`Account verification succeeded: ${accountName}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await reportAccountVerification({ ok: false, error: `ログインに失敗しました: ${message}` });
+    logEarlyReturn(`Account verification failed: ${message}`);
+  } finally {
+    await browser?.close();
+  }
+}
+
+const executedDirectly = process.argv[1]
+  ? import.meta.url === pathToFileURL(process.argv[1]).href
+  : false;
+
+if (executedDirectly) {
+  main().catch(error => {
+    console.error('Fatal error during account verification', error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,17 @@
+import type { RequestStatusEntry } from './page/request_status_page';
+import type { WinCancellationWin } from './types';
+
+// 詳細ページのURLが取れなかった当選は取り消せないので送らない
+export function toWinCancellationWins(entries: RequestStatusEntry[]): WinCancellationWin[] {
+  return entries.flatMap(entry =>
+    entry.detailUrl
+      ? [{ gymName: entry.gymName, room: entry.room, date: entry.date, time: entry.time, detailUrl: entry.detailUrl }]
+      : [],
+  );
+}
+
+// 代表者が確定した URL のうち、今も当選のまま残っている枠だけを取り消す（他アカウントの分や、もう当選でない枠は触らない）
+export function selectWinsToCancel(wins: WinCancellationWin[], cancelUrls: string[]): WinCancellationWin[] {
+  const confirmedUrls = new Set(cancelUrls);
+  return wins.filter(win => confirmedUrls.has(win.detailUrl));
+}
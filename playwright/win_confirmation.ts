@@ -0,0 +1,27 @@
+import type { RepresentativeEntry } from './types';
+
+export type WinConfirmationFailure = {
+  entry: RepresentativeEntry;
+  error: string;
+  deadline: string | null;
+};
+
+// 「確定期限：2026年10月25日(日) 23:59」などから期限の部分だけを取り出す
+export function parseWinConfirmDeadline(text: string): string | null {
+  const normalized = text.normalize('NFKC').replace(/\s+/g, ' ');
+  const match = normalized.match(
+    /(?:確定|手続き?|支払い?)?期限\s*[:：]?\s*(\d{4}年\s*\d{1,2}月\s*\d{1,2}日(?:\s*\([^)]*\))?(?:\s*\d{1,2}:\d{2})?)/,
+  );
+  return match ? match[1].trim() : null;
+}
+
+// 当選確定できなかった当選の期限リマインダー（LINE）
+export function formatWinConfirmationReminder(label: string, failures: WinConfirmationFailure[]): string {
+  const lines = failures.map(({ entry, deadline }) =>
+    `・${entry.date} ${entry.time} ${entry.gymName} ${entry.room}（期限: ${deadline ?? 'サイトで確認'}）`,
+  );
+  return [
+    `${label}: 当選確定できなかった当選が${failures.length}件あります。期限までにサイトで当選確定してください。`,
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { importGroupAccounts } from "@/lib/api/group-accounts";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { decodeHitTargetsFromRawIds } from "@/lib/api/hit-targets";
+
+type ImportGroupAccountsRequestBody = {
+  groupId?: unknown;
+};
+
+// 旧形式の ids（CSV）をアカウントとして取り込む。ids 自体は残すので、取り込み後に不要なら空で保存する
+export async function POST(request: NextRequest) {
+  let body: ImportGroupAccountsRequestBody;
+
+  try {
+    body = (await request.json()) as ImportGroupAccountsRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const rows = decodeHitTargetsFromRawIds(groupId, access.group.ids);
+    const imported = await importGroupAccounts(groupId, rows);
+
+    return NextResponse.json({ imported, total: rows.length }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to import group accounts", error);
+    return NextResponse.json({ error: "Failed to import accounts" }, { status: 500 });
+  }
+}
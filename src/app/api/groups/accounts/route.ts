@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  createGroupAccount,
+  deleteGroupAccount,
+  listGroupAccounts,
+  parseGroupAccountInput,
+  updateGroupAccount,
+} from "@/lib/api/group-accounts";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+
+type GroupAccountRequestBody = {
+  groupId?: unknown;
+  accountId?: unknown;
+  account?: unknown;
+};
+
+async function readRequestBody(request: NextRequest): Promise<GroupAccountRequestBody | null> {
+  try {
+    return (await request.json()) as GroupAccountRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload", error);
+    return null;
+  }
+}
+
+async function verifyRepresentative(groupId: string): Promise<NextResponse | null> {
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    return null;
+  } catch (error) {
+    console.error("Failed to verify group representative for accounts", error);
+    return NextResponse.json({ error: "Failed to verify permissions" }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const groupId = request.nextUrl.searchParams.get("groupId")?.trim() ?? "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return NextResponse.json({ accounts: await listGroupAccounts(groupId) }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to list group accounts", error);
+    return NextResponse.json({ error: "Failed to list accounts" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const input = parseGroupAccountInput(body.account);
+
+  if (!groupId || !input) {
+    return NextResponse.json({ error: "Missing groupId or account.userId" }, { status: 400 });
+  }
+
+  if (!input.password) {
+    return NextResponse.json({ error: "account.password is required" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const accountId = await createGroupAccount(groupId, input);
+    return NextResponse.json({ accountId }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create group account", error);
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+  const input = parseGroupAccountInput(body.account);
+
+  if (!groupId || !accountId || !input) {
+    return NextResponse.json({ error: "Missing groupId, accountId or account.userId" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const updated = await updateGroupAccount(groupId, accountId, input);
+    if (!updated) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to update group account", error);
+    return NextResponse.json({ error: "Failed to update account" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const accountId = typeof body.accountId === "string" ? body.accountId.trim() : "";
+
+  if (!groupId || !accountId) {
+    return NextResponse.json({ error: "Missing groupId or accountId" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    await deleteGroupAccount(groupId, accountId);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to delete group account", error);
+    return NextResponse.json({ error: "Failed to delete account" }, { status: 500 });
+  }
+}
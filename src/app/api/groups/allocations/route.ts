@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { createSlotAllocation, parseSlotAllocationAccounts } from '@/lib/api/slot-allocations';
+import { getGroupDocument } from '@/lib/firebase';
+
+// 一括実行の前に呼び、返した allocationId を各ジョブ（POST /api/jobs）に付けて出す
+export async function POST(request: NextRequest) {
+  let body: { groupId?: string; accounts?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const accounts = parseSlotAllocationAccounts(body?.accounts);
+
+  if (!groupId || !accounts) {
+    return NextResponse.json({ error: 'Missing groupId or accounts' }, { status: 400 });
+  }
+
+  try {
+    const group = await getGroupDocument(groupId);
+
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const allocationId = await createSlotAllocation(groupId, accounts);
+    return NextResponse.json({ allocationId }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to create slot allocation', error);
+    return NextResponse.json({ error: 'Failed to create slot allocation' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 
+import { parseApplicationHits } from "@/lib/api/application-hits";
 import { isAuthorizedRequest } from "@/lib/api/auth";
 import { getFirestoreRestDocument, patchFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
 
@@ -48,14 +49,14 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: "hits must be an array" }, { status: 400 });
   }
 
-  const hits = Array.from(
-    new Set(
-      rawHits
-        .filter((value): value is string => typeof value === "string")
-        .map((value) => value.trim())
-        .filter((value) => value.length > 0),
-    ),
-  );
+  const hits = parseApplicationHits(rawHits);
+  // 1件も読めないときは、保存済みの当選を空で上書きしないよう断る（当選なしは空の配列で送る）
+  if (rawHits.length > 0 && hits.length === 0) {
+    return NextResponse.json({ error: "No valid hits" }, { status: 400 });
+  }
+  if (hits.length < rawHits.length) {
+    console.warn(`Dropped ${rawHits.length - hits.length} invalid or duplicate application hits`);
+  }
 
   try {
     const documentPath = `groups/${groupId}/applications/${applicationId}`;
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import {
+  buildWinCancellationPlan,
+  confirmWinCancellationRun,
+  getWinCancellationRun,
+} from "@/lib/api/win-cancellations";
+import { getJobRunner } from "@/lib/runner";
+import { resolveWinCancelRules } from "@/lib/sites/win-cancel-rules";
+
+type ConfirmWinCancellationRequestBody = {
+  groupId?: unknown;
+  runId?: unknown;
+  cancelUrls?: unknown;
+};
+
+// 代表者が確認した取り消し予定（cancelUrls）が今の予定と同じときだけ、サイト上で取り消す
+export async function POST(request: NextRequest) {
+  let body: ConfirmWinCancellationRequestBody;
+
+  try {
+    body = (await request.json()) as ConfirmWinCancellationRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload for win cancellation confirmation", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const runId = typeof body.runId === "string" ? body.runId.trim() : "";
+  const cancelUrls = Array.isArray(body.cancelUrls)
+    ? body.cancelUrls.filter((url): url is string => typeof url === "string")
+    : null;
+
+  if (!groupId || !runId || !cancelUrls) {
+    return NextResponse.json({ error: "Missing groupId, runId or cancelUrls" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const run = await getWinCancellationRun(access.group.id, runId);
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    if (run.status !== "scanning") {
+      return NextResponse.json({ error: "この取り消しはすでに実行しています。" }, { status: 409 });
+    }
+
+    if (run.accounts.filter((account) => account.scannedAt).length < run.total) {
+      return NextResponse.json({ error: "まだ当選を読み終えていないアカウントがあります。" }, { status: 409 });
+    }
+
+    const plannedUrls = buildWinCancellationPlan(run.accounts, resolveWinCancelRules(access.group.winCancelRules))
+      .filter((item) => item.action === "cancel")
+      .map((item) => item.detailUrl);
+    if (plannedUrls.length === 0) {
+      return NextResponse.json({ error: "取り消す当選がありません。" }, { status: 400 });
+    }
+
+    const confirmedUrls = new Set(cancelUrls);
+    if (confirmedUrls.size !== plannedUrls.length || plannedUrls.some((url) => !confirmedUrls.has(url))) {
+      return NextResponse.json({ error: "取り消す当選が変わりました。もう一度確認してください。" }, { status: 409 });
+    }
+
+    if (!(await confirmWinCancellationRun(access.group.id, run, plannedUrls))) {
+      return NextResponse.json({ error: "この取り消しはすでに実行しています。" }, { status: 409 });
+    }
+    await getJobRunner().dispatchWinCancellation(access.group.id, run.id);
+    return NextResponse.json({ ok: true, total: plannedUrls.length }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to confirm win cancellation", error);
+    return NextResponse.json({ error: "Failed to confirm win cancellation" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { loadGroupHitTargets } from "@/lib/api/hit-targets";
+import {
+  buildWinCancellationPlan,
+  createWinCancellationRun,
+  getLatestWinCancellationRun,
+} from "@/lib/api/win-cancellations";
+import { getJobRunner } from "@/lib/runner";
+import { resolveWinCancelRules } from "@/lib/sites/win-cancel-rules";
+
+type WinCancellationRequestBody = {
+  groupId?: unknown;
+};
+
+// 最新の実行と、今の条件で取り消す予定の当選（ドライランのプレビュー）を返す
+export async function GET(request: NextRequest) {
+  const groupId = request.nextUrl.searchParams.get("groupId")?.trim() ?? "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const run = await getLatestWinCancellationRun(access.group.id);
+    const rules = resolveWinCancelRules(access.group.winCancelRules);
+    const plan = run ? buildWinCancellationPlan(run.accounts, rules) : [];
+    return NextResponse.json({ run, plan, rules }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to load win cancellation preview", error);
+    return NextResponse.json({ error: "Failed to load win cancellation preview" }, { status: 500 });
+  }
+}
+
+// 各アカウントの当選を読み直す（取り消しはしない）
+export async function POST(request: NextRequest) {
+  let body: WinCancellationRequestBody;
+
+  try {
+    body = (await request.json()) as WinCancellationRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload for win cancellation", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const hitTargets = await loadGroupHitTargets(access.group.id, access.group.ids);
+    if (hitTargets.length === 0) {
+      return NextResponse.json({ error: "有効なアカウントがありません。先に登録してください。" }, { status: 400 });
+    }
+
+    const runId = await createWinCancellationRun(access.group.id, hitTargets.length);
+    await getJobRunner().dispatchWinCancellation(access.group.id, runId);
+    return NextResponse.json({ ok: true, runId, total: hitTargets.length }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to dispatch win cancellation scan", error);
+    return NextResponse.json({ error: "Failed to start win cancellation scan" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getFacilityCatalogue, resolveSeekFacilities } from "@/lib/api/facility-catalogue";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+
+// 代表者ページで探索する施設を選ぶための施設一覧と、グループが選んでいる施設
+export async function GET(request: NextRequest) {
+  const groupId = request.nextUrl.searchParams.get("groupId")?.trim() ?? "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const catalogue = await getFacilityCatalogue(resolveFacilitySite(access.group.siteId).id);
+    return NextResponse.json(
+      { catalogue, selected: resolveSeekFacilities(access.group.seekFacilities) },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("Failed to fetch facility catalogue", error);
+    return NextResponse.json({ error: "Failed to fetch facility catalogue" }, { status: 500 });
+  }
+}
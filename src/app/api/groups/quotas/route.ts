@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getAccountQuotaSummary } from '@/lib/api/account-quotas';
+import { getGroupDocument } from '@/lib/firebase';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
+
+const MAX_USER_IDS = 50;
+
+// 一括実行の画面で CSV の各行の残り枠を出すために使う。ID は URL に残さないよう POST で受け取る
+export async function POST(request: NextRequest) {
+  let body: { groupId?: string; userIds?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const userIds = Array.isArray(body?.userIds)
+    ? [...new Set(body.userIds.filter((userId): userId is string => typeof userId === 'string' && userId.trim() !== '').map(userId => userId.trim()))]
+    : null;
+
+  if (!groupId || !userIds) {
+    return NextResponse.json({ error: 'Missing groupId or userIds' }, { status: 400 });
+  }
+
+  if (userIds.length > MAX_USER_IDS) {
+    return NextResponse.json({ error: `userIds must be ${MAX_USER_IDS} or fewer` }, { status: 400 });
+  }
+
+  try {
+    const group = await getGroupDocument(groupId);
+
+    if (!group) {
+      return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+    }
+
+    const site = resolveFacilitySite(group.siteId);
+    const quotas = await Promise.all(userIds.map(userId => getAccountQuotaSummary(groupId, userId, site)));
+    return NextResponse.json({ quotas }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to fetch account quotas', error);
+    return NextResponse.json({ error: 'Failed to fetch account quotas' }, { status: 500 });
+  }
+}
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  createApplicationSchedule,
+  deleteApplicationSchedule,
+  listApplicationSchedules,
+  parseApplicationScheduleInput,
+  updateApplicationSchedule,
+} from "@/lib/api/application-schedules";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+
+type ApplicationScheduleRequestBody = {
+  groupId?: unknown;
+  scheduleId?: unknown;
+  schedule?: unknown;
+};
+
+const INVALID_SCHEDULE_MESSAGE = "schedule must have dayOfMonth (1-31), time (09:00-22:59) and entryCount (1-20)";
+
+async function readRequestBody(request: NextRequest): Promise<ApplicationScheduleRequestBody | null> {
+  try {
+    return (await request.json()) as ApplicationScheduleRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload", error);
+    return null;
+  }
+}
+
+async function verifyRepresentative(groupId: string): Promise<NextResponse | null> {
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+    return null;
+  } catch (error) {
+    console.error("Failed to verify group representative for schedules", error);
+    return NextResponse.json({ error: "Failed to verify permissions" }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const groupId = request.nextUrl.searchParams.get("groupId")?.trim() ?? "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    return NextResponse.json({ schedules: await listApplicationSchedules(groupId) }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to list application schedules", error);
+    return NextResponse.json({ error: "Failed to list schedules" }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const input = parseApplicationScheduleInput(body.schedule);
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  if (!input) {
+    return NextResponse.json({ error: INVALID_SCHEDULE_MESSAGE }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    const scheduleId = await createApplicationSchedule(groupId, input);
+    return NextResponse.json({ scheduleId }, { status: 201 });
+  } catch (error) {
+    console.error("Failed to create application schedule", error);
+    return NextResponse.json({ error: "Failed to create schedule" }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const scheduleId = typeof body.scheduleId === "string" ? body.scheduleId.trim() : "";
+  const input = parseApplicationScheduleInput(body.schedule);
+
+  if (!groupId || !scheduleId) {
+    return NextResponse.json({ error: "Missing groupId or scheduleId" }, { status: 400 });
+  }
+
+  if (!input) {
+    return NextResponse.json({ error: INVALID_SCHEDULE_MESSAGE }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    await updateApplicationSchedule(groupId, scheduleId, input);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to update application schedule", error);
+    return NextResponse.json({ error: "Failed to update schedule" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const body = await readRequestBody(request);
+  if (!body) {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+  const scheduleId = typeof body.scheduleId === "string" ? body.scheduleId.trim() : "";
+
+  if (!groupId || !scheduleId) {
+    return NextResponse.json({ error: "Missing groupId or scheduleId" }, { status: 400 });
+  }
+
+  const denied = await verifyRepresentative(groupId);
+  if (denied) {
+    return denied;
+  }
+
+  try {
+    await deleteApplicationSchedule(groupId, scheduleId);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to delete application schedule", error);
+    return NextResponse.json({ error: "Failed to delete schedule" }, { status: 500 });
+  }
+}
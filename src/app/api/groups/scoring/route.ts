@@ -0,0 +1,75 @@
+import JapaneseHolidays from "japanese-holidays";
+import { NextRequest, NextResponse } from "next/server";
+
+import { resolveQuotaYearMonth } from "@/lib/api/account-quotas";
+import { resolveSeekFacilities } from "@/lib/api/facility-catalogue";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { getLatestSeekLotCache, type SeekLotFacilityGroupKind } from "@/lib/api/seek-lot-cache";
+import { parseCandidateScoringSettings, rankCandidates } from "@/lib/sites/candidate-scoring";
+import { buildFacilitySetId } from "@/lib/sites/facility-set-id";
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+import { entryMatchesSeekSlotRules, resolveSeekSlotRules } from "@/lib/sites/seek-slot-rules";
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const PREVIEW_CANDIDATE_COUNT = 20;
+
+// 代表者画面のプレビュー用。保存前の設定で、最後に探索した翌月分の枠を並べ直して返す
+export async function POST(request: NextRequest) {
+  let body: { groupId?: unknown; settings?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error("Invalid JSON payload", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === "string" ? body.groupId.trim() : "";
+  const settings = parseCandidateScoringSettings(body?.settings);
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  if (!settings) {
+    return NextResponse.json({ error: "Invalid settings" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const facilityGroupKind = resolveFacilityGroupKind();
+    const seekFacilities = resolveSeekFacilities(access.group.seekFacilities).filter(
+      (facility) => facility.category === facilityGroupKind,
+    );
+    const cache = await getLatestSeekLotCache({
+      siteId: resolveFacilitySite(access.group.siteId).id,
+      yearMonth: resolveQuotaYearMonth(),
+      facilityGroupKind,
+      ...(seekFacilities.length > 0 ? { facilitySetId: buildFacilitySetId(seekFacilities) } : {}),
+    });
+
+    // キャッシュは除外設定をかける前の全件なので、ワーカーと同じくグループの設定で絞ってから並べる
+    const seekRules = resolveSeekSlotRules(access.group.seekRules);
+    const candidates = (cache?.candidates ?? []).filter(({ entry }) => entryMatchesSeekSlotRules(entry, seekRules, JapaneseHolidays));
+
+    return NextResponse.json(
+      {
+        scoutedAt: cache?.scoutedAt ?? null,
+        candidates: rankCandidates(candidates, PREVIEW_CANDIDATE_COUNT, settings),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error("Failed to preview candidate scoring", error);
+    return NextResponse.json({ error: "Failed to preview candidate scoring" }, { status: 500 });
+  }
+}
+
+// ワーカーと同じく、月の前半は体育館・後半は学校の探索結果を見る
+function resolveFacilityGroupKind(now = new Date()): SeekLotFacilityGroupKind {
+  return new Date(now.getTime() + JST_OFFSET_MS).getUTCDate() <= 15 ? "gym" : "school";
+}
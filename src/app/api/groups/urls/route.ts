@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { patchFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+import { buildLotRequestUrlPrefix, parseLotRequestUrls } from "@/lib/sites/lot-request-urls";
+
+type SaveUrlsRequestBody = {
+  groupId?: unknown;
+  urls?: unknown;
+};
+
+export async function POST(request: NextRequest) {
+  let body: SaveUrlsRequestBody;
+
+  try {
+    body = (await request.json()) as SaveUrlsRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  if (!Array.isArray(body.urls)) {
+    return NextResponse.json({ error: "urls must be an array" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    // 予約サイトはグループの設定から決める（クライアントの判定は信用しない）
+    const site = resolveFacilitySite(access.group.siteId);
+    const urls = parseLotRequestUrls(body.urls, site);
+    if (!urls) {
+      return NextResponse.json(
+        { error: `URLは必ず ${buildLotRequestUrlPrefix(site)} で始まる必要があります。` },
+        { status: 400 },
+      );
+    }
+
+    await patchFirestoreRestDocument(`groups/${groupId}`, { urls }, ["urls"]);
+    return NextResponse.json({ urls }, { status: 200 });
+  } catch (error) {
+    console.error("Failed to save lot request urls", error);
+    return NextResponse.json({ error: "Failed to save urls" }, { status: 500 });
+  }
+}
@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 
-import { decodeHitTargetsFromRawIds } from "@/lib/api/hit-targets";
+import { loadGroupHitTargets } from "@/lib/api/hit-targets";
 import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
-import { dispatchHitWorkflow } from "@/lib/github/dispatch";
+import { getJobRunner } from "@/lib/runner";
 
 type HitTestRequestBody = {
   groupId?: unknown;
@@ -30,12 +30,12 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: access.error }, { status: access.status });
     }
 
-    const hitTargets = decodeHitTargetsFromRawIds(access.group.id, access.group.ids);
+    const hitTargets = await loadGroupHitTargets(access.group.id, access.group.ids);
     if (hitTargets.length === 0) {
-      return NextResponse.json({ error: "ids が未設定です。先に保存してください。" }, { status: 400 });
+      return NextResponse.json({ error: "有効なアカウントがありません。先に登録してください。" }, { status: 400 });
     }
 
-    await dispatchHitWorkflow(access.group.id);
+    await getJobRunner().dispatchHitCheck(access.group.id);
     return NextResponse.json({ ok: true }, { status: 202 });
   } catch (error) {
     console.error("Failed to dispatch hit test workflow", error);
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { loadGroupHitTargets } from "@/lib/api/hit-targets";
+import { getGroupRepresentativeAccess } from "@/lib/api/group-representative-access";
+import { getJobRunner } from "@/lib/runner";
+
+type VerifyAccountsRequestBody = {
+  groupId?: unknown;
+};
+
+export async function POST(request: NextRequest) {
+  let body: VerifyAccountsRequestBody;
+
+  try {
+    body = (await request.json()) as VerifyAccountsRequestBody;
+  } catch (error) {
+    console.error("Invalid JSON payload for account verification", error);
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const groupId = typeof body.groupId === "string" ? body.groupId.trim() : "";
+
+  if (!groupId) {
+    return NextResponse.json({ error: "Missing groupId" }, { status: 400 });
+  }
+
+  try {
+    const access = await getGroupRepresentativeAccess(groupId);
+    if (!access.ok) {
+      return NextResponse.json({ error: access.error }, { status: access.status });
+    }
+
+    const hitTargets = await loadGroupHitTargets(access.group.id, access.group.ids);
+    if (hitTargets.length === 0) {
+      return NextResponse.json({ error: "有効なアカウントがありません。先に登録してください。" }, { status: 400 });
+    }
+
+    await getJobRunner().dispatchAccountVerification(access.group.id);
+    return NextResponse.json({ ok: true, total: hitTargets.length }, { status: 202 });
+  } catch (error) {
+    console.error("Failed to dispatch account verification workflow", error);
+    return NextResponse.json({ error: "Failed to start account verification" }, { status: 500 });
+  }
+}
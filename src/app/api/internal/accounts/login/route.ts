@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { markGroupAccountLoginSucceeded } from '@/lib/api/group-accounts';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string; accountId?: string };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = body?.groupId?.trim();
+  const accountId = body?.accountId?.trim();
+
+  if (!groupId || !accountId) {
+    return NextResponse.json({ error: 'Missing groupId or accountId' }, { status: 400 });
+  }
+
+  try {
+    const recorded = await markGroupAccountLoginSucceeded(groupId, accountId);
+    if (!recorded) {
+      return NextResponse.json({ error: 'Account not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to record account login', error);
+    return NextResponse.json({ error: 'Failed to record account login' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { parseAccountQuotaReports, saveAccountQuotaUsages } from '@/lib/api/account-quotas';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string; userId?: string; usages?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const userId = typeof body?.userId === 'string' ? body.userId.trim() : '';
+  const reports = parseAccountQuotaReports(body?.usages);
+
+  if (!groupId || !userId || !reports) {
+    return NextResponse.json({ error: 'Missing groupId, userId or usages' }, { status: 400 });
+  }
+
+  try {
+    await saveAccountQuotaUsages(groupId, userId, reports);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save account quota usage', error);
+    return NextResponse.json({ error: 'Failed to save account quota usage' }, { status: 500 });
+  }
+}
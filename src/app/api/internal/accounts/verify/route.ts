@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { parseAccountVerificationInput, saveAccountVerification } from '@/lib/api/account-verifications';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string } & Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const input = parseAccountVerificationInput(body);
+
+  if (!groupId || !input) {
+    return NextResponse.json({ error: 'Missing groupId, userId, rowIndex or ok' }, { status: 400 });
+  }
+
+  try {
+    await saveAccountVerification(groupId, input);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save account verification', error);
+    return NextResponse.json({ error: 'Failed to save account verification' }, { status: 500 });
+  }
+}
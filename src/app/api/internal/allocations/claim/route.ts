@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { claimSlotAllocationPlanner } from '@/lib/api/slot-allocations';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string; allocationId?: string };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const allocationId = typeof body?.allocationId === 'string' ? body.allocationId.trim() : '';
+
+  if (!groupId || !allocationId) {
+    return NextResponse.json({ error: 'Missing groupId or allocationId' }, { status: 400 });
+  }
+
+  try {
+    const claim = await claimSlotAllocationPlanner(groupId, allocationId);
+
+    if (!claim) {
+      return NextResponse.json({ error: 'Allocation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        claimed: claim.claimed,
+        status: claim.allocation.status,
+        accounts: claim.allocation.accounts,
+        // 担当になったワーカーだけが結果の書き込みに使う
+        ...(claim.claimed ? { plannerId: claim.allocation.plannerId } : {}),
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('Failed to claim slot allocation', error);
+    return NextResponse.json({ error: 'Failed to claim slot allocation' }, { status: 500 });
+  }
+}
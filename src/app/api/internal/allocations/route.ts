@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import {
+  completeSlotAllocation,
+  findSlotAllocationEntries,
+  getSlotAllocation,
+  parseSlotAllocationAssignments,
+} from '@/lib/api/slot-allocations';
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const groupId = request.nextUrl.searchParams.get('groupId')?.trim();
+  const allocationId = request.nextUrl.searchParams.get('allocationId')?.trim();
+  const userId = request.nextUrl.searchParams.get('userId')?.trim();
+
+  if (!groupId || !allocationId || !userId) {
+    return NextResponse.json({ error: 'Missing groupId, allocationId or userId' }, { status: 400 });
+  }
+
+  try {
+    const allocation = await getSlotAllocation(groupId, allocationId);
+
+    if (!allocation) {
+      return NextResponse.json({ error: 'Allocation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        status: allocation.status,
+        entries: allocation.status === 'ready' ? findSlotAllocationEntries(allocation, userId) : [],
+        error: allocation.error,
+      },
+      { status: 200 },
+    );
+  } catch (error) {
+    console.error('Failed to fetch slot allocation', error);
+    return NextResponse.json({ error: 'Failed to fetch slot allocation' }, { status: 500 });
+  }
+}
+
+// 探索を担当したワーカーが割り振り結果（または失敗理由）を書き込む
+export async function PATCH(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string; allocationId?: string; plannerId?: string; assignments?: unknown; error?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const allocationId = typeof body?.allocationId === 'string' ? body.allocationId.trim() : '';
+  const plannerId = typeof body?.plannerId === 'string' ? body.plannerId.trim() : '';
+  const planError = typeof body?.error === 'string' && body.error.trim() ? body.error.trim() : null;
+  const assignments = planError ? null : parseSlotAllocationAssignments(body?.assignments);
+
+  if (!groupId || !allocationId || !plannerId || (!planError && !assignments)) {
+    return NextResponse.json({ error: 'Missing groupId, allocationId, plannerId, or assignments' }, { status: 400 });
+  }
+
+  try {
+    const allocation = await getSlotAllocation(groupId, allocationId);
+
+    if (!allocation) {
+      return NextResponse.json({ error: 'Allocation not found' }, { status: 404 });
+    }
+
+    const completed = await completeSlotAllocation(
+      groupId,
+      allocationId,
+      plannerId,
+      planError ? { error: planError } : { assignments: assignments ?? [] },
+    );
+    if (!completed) {
+      return NextResponse.json({ error: 'Allocation is not being planned by this worker' }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save slot allocation', error);
+    return NextResponse.json({ error: 'Failed to save slot allocation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { convertLegacyHitLine } from '@/lib/api/application-hits';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import {
+  listFirestoreRestCollection,
+  patchFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from '@/lib/firebase/firestore-rest';
+
+type MigrateSummary = {
+  updated: string[];
+  skipped: number;
+  failed: Array<{ path: string; error: string }>;
+};
+
+// 抽選状況を確認した日時。created_at がなければドキュメントID先頭のタイムスタンプを使う
+function resolveCreatedAtMs(document: FirestoreRestDocument): number | null {
+  const createdAt = document.data.created_at;
+  if (typeof createdAt === 'string') {
+    const parsed = Date.parse(createdAt);
+    if (!Number.isNaN(parsed)) {
+      return parsed;
+    }
+  }
+
+  const match = document.id.match(/^(\d+)(?:[-_].+)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const value = Number(match[1]);
+  return value < 1_000_000_000_000 ? value * 1000 : value;
+}
+
+async function migrateApplication(
+  summary: MigrateSummary,
+  document: FirestoreRestDocument,
+  documentPath: string,
+): Promise<void> {
+  const rawHits = document.data.hits;
+  if (!Array.isArray(rawHits) || !rawHits.some(value => typeof value === 'string')) {
+    summary.skipped += 1;
+    return;
+  }
+
+  const createdAtMs = resolveCreatedAtMs(document);
+  if (createdAtMs === null) {
+    summary.failed.push({ path: documentPath, error: '抽選状況を確認した日時が分からないため日付の年を決められません' });
+    return;
+  }
+
+  const hits: unknown[] = [];
+  const unreadable: string[] = [];
+  for (const value of rawHits) {
+    if (typeof value !== 'string') {
+      hits.push(value);
+      continue;
+    }
+    if (!value.trim()) {
+      continue;
+    }
+
+    const hit = convertLegacyHitLine(value, createdAtMs);
+    if (hit) {
+      hits.push(hit);
+    } else {
+      unreadable.push(value);
+    }
+  }
+
+  // 読めない行があるドキュメントは書き換えずに残す（行を消さない）
+  if (unreadable.length > 0) {
+    summary.failed.push({ path: documentPath, error: `読めない行があります: ${unreadable.join(' | ')}` });
+    return;
+  }
+
+  try {
+    await patchFirestoreRestDocument(documentPath, { hits }, ['hits'], { currentUpdateTime: document.updateTime });
+    summary.updated.push(documentPath);
+  } catch (error) {
+    console.error(`Failed to migrate hits for ${documentPath}`, error);
+    summary.failed.push({
+      path: documentPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// groups/*/applications/*.hits のタブ区切りの文字列を ApplicationHit に書き換える。何度実行してもよい
+async function migrateAllApplicationHits(): Promise<MigrateSummary> {
+  const summary: MigrateSummary = { updated: [], skipped: 0, failed: [] };
+  const groupDocuments = await listFirestoreRestCollection('groups');
+
+  for (const groupDocument of groupDocuments) {
+    const applicationDocuments = await listFirestoreRestCollection(`groups/${groupDocument.id}/applications`);
+    for (const applicationDocument of applicationDocuments) {
+      await migrateApplication(
+        summary,
+        applicationDocument,
+        `groups/${groupDocument.id}/applications/${applicationDocument.id}`,
+      );
+    }
+  }
+
+  return summary;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await migrateAllApplicationHits();
+    return NextResponse.json(summary, { status: summary.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error('Failed to migrate application hits', error);
+    return NextResponse.json({ error: 'Failed to migrate application hits' }, { status: 500 });
+  }
+}
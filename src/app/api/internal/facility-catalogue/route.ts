@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { parseCatalogueFacilities, saveFacilityCatalogue } from '@/lib/api/facility-catalogue';
+import { isFacilitySiteId } from '@/lib/sites/facility-sites';
+
+// 施設一覧の更新ジョブ（playwright/catalogue.ts）が読み取った施設・室場で置き換える
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { siteId?: unknown; facilities?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const siteId = body?.siteId;
+  const facilities = parseCatalogueFacilities(body?.facilities);
+
+  if (!isFacilitySiteId(siteId)) {
+    return NextResponse.json({ error: 'Unknown siteId' }, { status: 400 });
+  }
+
+  // 読み取りに失敗して空になった一覧で上書きしない
+  if (!facilities || facilities.length === 0) {
+    return NextResponse.json({ error: 'Missing or invalid facilities' }, { status: 400 });
+  }
+
+  try {
+    await saveFacilityCatalogue(siteId, facilities);
+    return NextResponse.json({ ok: true, count: facilities.length }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save facility catalogue', error);
+    return NextResponse.json({ error: 'Failed to save facility catalogue' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import {
+  listFirestoreRestCollection,
+  patchFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from '@/lib/firebase/firestore-rest';
+import {
+  decryptGroupIds,
+  encryptGroupIds,
+  getActiveGroupIdsKeyId,
+  readGroupIdsKeyId,
+} from '@/lib/security/group-ids-crypto';
+
+type ReencryptSummary = {
+  activeKeyId: string;
+  updated: string[];
+  skipped: number;
+  failed: Array<{ path: string; error: string }>;
+};
+
+async function reencryptField(
+  summary: ReencryptSummary,
+  document: FirestoreRestDocument,
+  documentPath: string,
+  fieldName: string,
+): Promise<void> {
+  const rawValue = document.data[fieldName];
+  if (typeof rawValue !== 'string' || !rawValue.trim()) {
+    summary.skipped += 1;
+    return;
+  }
+
+  const keyId = readGroupIdsKeyId(rawValue);
+  if (keyId === summary.activeKeyId) {
+    summary.skipped += 1;
+    return;
+  }
+
+  try {
+    const plainText = keyId ? decryptGroupIds(rawValue.trim()) : rawValue;
+    await patchFirestoreRestDocument(
+      documentPath,
+      { [fieldName]: encryptGroupIds(plainText) },
+      [fieldName],
+      { currentUpdateTime: document.updateTime },
+    );
+    summary.updated.push(documentPath);
+  } catch (error) {
+    console.error(`Failed to re-encrypt ${fieldName} for ${documentPath}`, error);
+    summary.failed.push({
+      path: documentPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// groups/*.ids と groups/*/accounts/*.password を現在の鍵（GROUP_IDS_ACTIVE_KEY_ID）で暗号化し直す。
+// 平文のまま残っているものも暗号化する
+async function reencryptAllGroupIds(): Promise<ReencryptSummary> {
+  const activeKeyId = getActiveGroupIdsKeyId();
+  const summary: ReencryptSummary = { activeKeyId, updated: [], skipped: 0, failed: [] };
+  const groupDocuments = await listFirestoreRestCollection('groups');
+
+  for (const groupDocument of groupDocuments) {
+    await reencryptField(summary, groupDocument, `groups/${groupDocument.id}`, 'ids');
+
+    const accountDocuments = await listFirestoreRestCollection(`groups/${groupDocument.id}/accounts`);
+    for (const accountDocument of accountDocuments) {
+      await reencryptField(
+        summary,
+        accountDocument,
+        `groups/${groupDocument.id}/accounts/${accountDocument.id}`,
+        'password',
+      );
+    }
+  }
+
+  return summary;
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await reencryptAllGroupIds();
+    return NextResponse.json(summary, { status: summary.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error('Failed to re-encrypt group ids', error);
+    return NextResponse.json({ error: 'Failed to re-encrypt group ids' }, { status: 500 });
+  }
+}
@@ -3,22 +3,30 @@ import { NextRequest, NextResponse } from 'next/server';
 import { isAuthorizedRequest } from '@/lib/api/auth';
 import {
   buildHitTargetDescriptors,
-  decodeHitTargetsFromRawIds,
+  loadGroupHitTargets,
   type HitTarget,
   type HitTargetDescriptor,
 } from '@/lib/api/hit-targets';
 import { getFirestoreRestDocument, listFirestoreRestCollection } from '@/lib/firebase/firestore-rest';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
 
-async function collectAllHitTargetDescriptors(): Promise<HitTargetDescriptor[]> {
+// 1グループのアカウントが読めなくても他のグループは確認する。読めなかったグループは failedGroupIds で返す
+async function collectAllHitTargetDescriptors(): Promise<{ descriptors: HitTargetDescriptor[]; failedGroupIds: string[] }> {
   const descriptors: HitTargetDescriptor[] = [];
+  const failedGroupIds: string[] = [];
   const groupDocuments = await listFirestoreRestCollection('groups');
 
   for (const groupDocument of groupDocuments) {
     const groupId = groupDocument.id;
-    descriptors.push(...buildHitTargetDescriptors(groupId, groupDocument.data.ids));
+    try {
+      descriptors.push(...(await buildHitTargetDescriptors(groupId, groupDocument.data.ids)));
+    } catch (error) {
+      console.error(`Failed to build hit targets for group ${groupId}`, error);
+      failedGroupIds.push(groupId);
+    }
   }
 
-  return descriptors;
+  return { descriptors, failedGroupIds };
 }
 
 async function collectHitTargetDescriptorsByGroupId(groupId: string): Promise<HitTargetDescriptor[]> {
@@ -30,14 +38,26 @@ async function collectHitTargetDescriptorsByGroupId(groupId: string): Promise<Hi
   return buildHitTargetDescriptors(groupId, document.data.ids);
 }
 
-async function resolveGroupTarget(groupId: string, rowIndex: number): Promise<HitTarget | null> {
+async function resolveGroupTarget(
+  groupId: string,
+  rowIndex: number,
+): Promise<(HitTarget & { siteId: string; autoConfirmWins: boolean }) | null> {
   const document = await getFirestoreRestDocument(`groups/${groupId}`);
   if (!document) {
     return null;
   }
 
-  const entries = decodeHitTargetsFromRawIds(groupId, document.data.ids);
-  return entries[rowIndex] ?? null;
+  const entries = await loadGroupHitTargets(groupId, document.data.ids);
+  const target = entries[rowIndex];
+  if (!target) {
+    return null;
+  }
+
+  return {
+    ...target,
+    siteId: resolveFacilitySite(document.data.siteId).id,
+    autoConfirmWins: document.data.autoConfirmWins === true,
+  };
 }
 
 export async function GET(request: NextRequest) {
@@ -57,10 +77,13 @@ export async function GET(request: NextRequest) {
         return NextResponse.json({ error: 'groupId is required when rowIndex is provided' }, { status: 400 });
       }
 
-      const descriptors = hasGroupId
-        ? await collectHitTargetDescriptorsByGroupId(groupId)
+      const { descriptors, failedGroupIds } = hasGroupId
+        ? { descriptors: await collectHitTargetDescriptorsByGroupId(groupId), failedGroupIds: [] }
         : await collectAllHitTargetDescriptors();
-      return NextResponse.json({ total: descriptors.length, targets: descriptors }, { status: 200 });
+      return NextResponse.json(
+        { total: descriptors.length, targets: descriptors, failedGroupIds },
+        { status: failedGroupIds.length > 0 ? 207 : 200 },
+      );
     }
 
     if (!groupId || !rowIndexRaw) {
@@ -78,7 +101,14 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json(
-      { groupId: selected.groupId, userId: selected.userId, password: selected.password },
+      {
+        groupId: selected.groupId,
+        userId: selected.userId,
+        password: selected.password,
+        accountId: selected.accountId ?? null,
+        siteId: selected.siteId,
+        autoConfirmWins: selected.autoConfirmWins,
+      },
       { status: 200 },
     );
   } catch (error) {
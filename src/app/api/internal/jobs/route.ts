@@ -1,7 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { isAuthorizedRequest } from '@/lib/api/auth';
+import { resolveSeekFacilities } from '@/lib/api/facility-catalogue';
 import { createDispatchedJob, patchJobDocument } from '@/lib/api/job-store';
+import { getGroupDocument } from '@/lib/firebase';
+import { resolveCandidateScoringSettings } from '@/lib/sites/candidate-scoring';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
+import { resolveLotRequestSettings } from '@/lib/sites/lot-request-settings';
+import { resolveLotRequestUrls } from '@/lib/sites/lot-request-urls';
+import { resolveSeekSlotRules } from '@/lib/sites/seek-slot-rules';
 
 export async function POST(request: NextRequest) {
   if (!isAuthorizedRequest(request)) {
@@ -27,6 +34,13 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'entryCount must be an integer' }, { status: 400 });
   }
 
+  const group = await getGroupDocument(groupId);
+  if (!group) {
+    return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+  }
+
+  const site = resolveFacilitySite(group.siteId);
+
   try {
     const jobId = await createDispatchedJob({
       userId,
@@ -34,6 +48,12 @@ export async function POST(request: NextRequest) {
       entryCount,
       groupId,
       label,
+      siteId: site.id,
+      lotRequest: resolveLotRequestSettings(group.lotRequest),
+      candidateScoring: resolveCandidateScoringSettings(group.candidateScoring),
+      seekRules: resolveSeekSlotRules(group.seekRules),
+      seekFacilities: resolveSeekFacilities(group.seekFacilities),
+      lotRequestUrls: resolveLotRequestUrls(group.urls, site),
       message: 'Job created',
       progress: '準備！(2分) + 1件あたり30秒程',
     });
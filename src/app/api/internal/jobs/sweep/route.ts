@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { sweepExpiredJobCredentials } from '@/lib/api/job-store';
+
+const DEFAULT_CREDENTIAL_TTL_MINUTES = 30;
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { maxAgeMinutes?: number } = {};
+
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch (error) {
+    console.error('Invalid JSON payload for credential sweep', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const maxAgeMinutes = body.maxAgeMinutes ?? Number(process.env.JOB_CREDENTIAL_TTL_MINUTES ?? DEFAULT_CREDENTIAL_TTL_MINUTES);
+
+  if (!Number.isFinite(maxAgeMinutes) || maxAgeMinutes <= 0) {
+    return NextResponse.json({ error: 'maxAgeMinutes must be a positive number' }, { status: 400 });
+  }
+
+  try {
+    const jobIds = await sweepExpiredJobCredentials(maxAgeMinutes);
+    return NextResponse.json({ cleared: jobIds.length, jobIds }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to sweep job credentials', error);
+    return NextResponse.json({ error: 'Failed to sweep credentials' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { runDueApplicationSchedules } from '@/lib/api/application-schedules';
+import { isAuthorizedRequest } from '@/lib/api/auth';
+
+// application-scheduler.yml（または cron）から定期的に呼ばれ、実行時刻を過ぎた予定をジョブにする
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const runs = await runDueApplicationSchedules();
+    return NextResponse.json({ runs }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to run application schedules', error);
+    return NextResponse.json({ error: 'Failed to run application schedules' }, { status: 500 });
+  }
+}
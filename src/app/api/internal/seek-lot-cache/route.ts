@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import {
+  getFreshSeekLotCache,
+  parseSeekLotCacheCandidates,
+  parseSeekLotCacheKey,
+  saveSeekLotCache,
+} from '@/lib/api/seek-lot-cache';
+
+// 鮮度切れ・未作成のときは 404。ワーカーは詳細ページを見て回ってから POST で保存し直す
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const key = parseSeekLotCacheKey({
+    siteId: searchParams.get('siteId'),
+    yearMonth: searchParams.get('yearMonth'),
+    facilityGroupKind: searchParams.get('facilityGroupKind'),
+    facilitySetId: searchParams.get('facilitySetId'),
+  });
+
+  if (!key) {
+    return NextResponse.json({ error: 'Missing or invalid siteId, yearMonth or facilityGroupKind' }, { status: 400 });
+  }
+
+  try {
+    const cache = await getFreshSeekLotCache(key);
+
+    if (!cache) {
+      return NextResponse.json({ error: 'No fresh cache' }, { status: 404 });
+    }
+
+    return NextResponse.json(cache, { status: 200 });
+  } catch (error) {
+    console.error('Failed to fetch seek lot cache', error);
+    return NextResponse.json({ error: 'Failed to fetch seek lot cache' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: {
+    siteId?: unknown;
+    yearMonth?: unknown;
+    facilityGroupKind?: unknown;
+    facilitySetId?: unknown;
+    candidates?: unknown;
+  };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const key = parseSeekLotCacheKey(body ?? {});
+  const candidates = parseSeekLotCacheCandidates(body?.candidates);
+
+  if (!key || !candidates) {
+    return NextResponse.json({ error: 'Missing or invalid cache key or candidates' }, { status: 400 });
+  }
+
+  try {
+    await saveSeekLotCache(key, candidates);
+    return NextResponse.json({ ok: true, count: candidates.length }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save seek lot cache', error);
+    return NextResponse.json({ error: 'Failed to save seek lot cache' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import {
+  getWinCancellationRun,
+  parseWinCancellationResultInput,
+  parseWinCancellationScanInput,
+  saveWinCancellationResult,
+  saveWinCancellationScan,
+} from '@/lib/api/win-cancellations';
+
+// ワーカー（playwright/cancel.ts）が実行の状態と、確定した取り消し対象を読む
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const groupId = request.nextUrl.searchParams.get('groupId')?.trim() ?? '';
+  const runId = request.nextUrl.searchParams.get('runId')?.trim() ?? '';
+
+  if (!groupId || !runId) {
+    return NextResponse.json({ error: 'groupId and runId are required' }, { status: 400 });
+  }
+
+  try {
+    const run = await getWinCancellationRun(groupId, runId);
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ status: run.status, cancelUrls: run.cancelUrls }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to load win cancellation run', error);
+    return NextResponse.json({ error: 'Failed to load win cancellation run' }, { status: 500 });
+  }
+}
+
+// phase=scan は読んだ当選、phase=cancel は取り消した結果を保存する
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: unknown; runId?: unknown; phase?: unknown } & Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const runId = typeof body?.runId === 'string' ? body.runId.trim() : '';
+
+  if (!groupId || !runId) {
+    return NextResponse.json({ error: 'groupId and runId are required' }, { status: 400 });
+  }
+
+  try {
+    const run = await getWinCancellationRun(groupId, runId);
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    if (body.phase === 'scan') {
+      const input = parseWinCancellationScanInput(body);
+      if (!input) {
+        return NextResponse.json({ error: 'Missing rowIndex or wins' }, { status: 400 });
+      }
+      // 確定した後に読み直した当選で、代表者が見た一覧を書き換えない
+      if (run.status !== 'scanning') {
+        return NextResponse.json({ error: 'Run is already confirmed' }, { status: 409 });
+      }
+
+      await saveWinCancellationScan(groupId, runId, input);
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+
+    if (body.phase === 'cancel') {
+      const input = parseWinCancellationResultInput(body);
+      if (!input) {
+        return NextResponse.json({ error: 'Missing rowIndex, cancelled or failed' }, { status: 400 });
+      }
+      if (run.status !== 'confirmed') {
+        return NextResponse.json({ error: 'Run is not confirmed' }, { status: 409 });
+      }
+
+      await saveWinCancellationResult(groupId, runId, input);
+      return NextResponse.json({ ok: true }, { status: 200 });
+    }
+
+    return NextResponse.json({ error: 'phase must be scan or cancel' }, { status: 400 });
+  } catch (error) {
+    console.error('Failed to save win cancellation report', error);
+    return NextResponse.json({ error: 'Failed to save win cancellation report' }, { status: 500 });
+  }
+}
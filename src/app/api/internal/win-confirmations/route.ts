@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { parseWinConfirmationInput, saveWinConfirmation } from '@/lib/api/win-confirmations';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { groupId?: string } & Record<string, unknown>;
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const groupId = typeof body?.groupId === 'string' ? body.groupId.trim() : '';
+  const input = parseWinConfirmationInput(body);
+
+  if (!groupId || !input) {
+    return NextResponse.json({ error: 'Missing groupId, rowIndex, confirmed or failed' }, { status: 400 });
+  }
+
+  try {
+    await saveWinConfirmation(groupId, input);
+    return NextResponse.json({ ok: true }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to save win confirmations', error);
+    return NextResponse.json({ error: 'Failed to save win confirmations' }, { status: 500 });
+  }
+}
@@ -1,10 +1,10 @@
 import { NextResponse } from 'next/server';
 
-import { getLatestWorkflowInfo } from '@/lib/github/dispatch';
+import { getJobRunner } from '@/lib/runner';
 
 export async function GET() {
   try {
-    const { actionsUrl, jobUrl } = await getLatestWorkflowInfo();
+    const { actionsUrl, jobUrl } = await getJobRunner().getLatestRunInfo();
     return NextResponse.json(
       { actions_url: actionsUrl ?? null, job_url: jobUrl ?? null },
       { status: 200 },
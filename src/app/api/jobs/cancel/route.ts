@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { CANCELLING_JOB_STATUS, getJobDocument, requestJobCancellation } from '@/lib/api/job-store';
+
+const MAX_CANCEL_ATTEMPTS = 3;
+
+export async function POST(request: NextRequest) {
+  let body: { jobId?: string };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { jobId } = body;
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Missing jobId' }, { status: 400 });
+  }
+
+  // 実行中のジョブは進捗の更新で updateTime が変わるので、前提条件で弾かれたら読み直して数回だけやり直す
+  for (let attempt = 1; attempt <= MAX_CANCEL_ATTEMPTS; attempt += 1) {
+    let status: unknown;
+    let updateTime: string | undefined;
+
+    try {
+      const document = await getJobDocument(jobId);
+
+      if (!document) {
+        return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      }
+
+      status = (document.data as { status?: unknown } | undefined)?.status;
+      updateTime = document.updateTime;
+    } catch (error) {
+      console.error('Failed to fetch job for cancellation', error);
+      return NextResponse.json({ error: 'Failed to fetch job' }, { status: 500 });
+    }
+
+    if (status === CANCELLING_JOB_STATUS) {
+      return NextResponse.json({ jobId, status }, { status: 200 });
+    }
+
+    if (status !== 'pending') {
+      return NextResponse.json({ error: 'Job is no longer running' }, { status: 409 });
+    }
+
+    try {
+      if (await requestJobCancellation(jobId, updateTime)) {
+        return NextResponse.json({ jobId, status: CANCELLING_JOB_STATUS }, { status: 200 });
+      }
+    } catch (error) {
+      console.error('Failed to cancel job', error);
+      return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json({ error: 'Job was updated while cancelling; try again' }, { status: 409 });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { parseJobCheckpoint } from '@/lib/api/job-checkpoint';
+import { patchJobDocument } from '@/lib/api/job-store';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { jobId?: string; checkpoint?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload for job checkpoint', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { jobId } = body;
+  const checkpoint = parseJobCheckpoint(body.checkpoint);
+
+  if (!jobId || !checkpoint) {
+    return NextResponse.json({ error: 'jobId and a valid checkpoint are required' }, { status: 400 });
+  }
+
+  try {
+    await patchJobDocument(jobId, { checkpoint });
+    return NextResponse.json({ jobId }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to update job checkpoint', error);
+    return NextResponse.json({ error: 'Failed to update checkpoint' }, { status: 500 });
+  }
+}
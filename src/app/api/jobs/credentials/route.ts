@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { getJobDocument, redeemJobCredentials } from '@/lib/api/job-store';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { jobId?: string };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload for job credentials', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { jobId } = body ?? {};
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Missing jobId' }, { status: 400 });
+  }
+
+  try {
+    const document = await getJobDocument(jobId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const credentials = await redeemJobCredentials(jobId);
+
+    if (!credentials) {
+      return NextResponse.json({ error: 'Credentials already redeemed or expired' }, { status: 410 });
+    }
+
+    return NextResponse.json({ jobId, ...credentials }, { status: 200 });
+  } catch (error) {
+    console.error('Failed to redeem job credentials', error);
+    return NextResponse.json({ error: 'Failed to redeem credentials' }, { status: 500 });
+  }
+}
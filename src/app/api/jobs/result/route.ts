@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { isAuthorizedRequest } from '@/lib/api/auth';
+import { parseJobResult, type JobResult } from '@/lib/api/job-result';
+import { getJobDocument, patchJobDocument } from '@/lib/api/job-store';
+import { recordSubmittedLotRequestUrls } from '@/lib/api/lot-request-url-submissions';
+
+export async function POST(request: NextRequest) {
+  if (!isAuthorizedRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  let body: { jobId?: string; result?: unknown };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload for job result', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { jobId } = body;
+  const result = parseJobResult(body.result);
+
+  if (!jobId || !result) {
+    return NextResponse.json({ error: 'jobId and a valid result are required' }, { status: 400 });
+  }
+
+  try {
+    await patchJobDocument(jobId, { result });
+  } catch (error) {
+    console.error('Failed to update job result', error);
+    return NextResponse.json({ error: 'Failed to update result' }, { status: 500 });
+  }
+
+  try {
+    await recordLotRequestUrlSubmissions(jobId, result);
+  } catch (error) {
+    // 結果の保存は済んでいるので失敗扱いにしない
+    console.error('Failed to record submitted lot request urls', error);
+  }
+
+  return NextResponse.json({ jobId }, { status: 200 });
+}
+
+async function recordLotRequestUrlSubmissions(jobId: string, result: JobResult): Promise<void> {
+  const data = (await getJobDocument(jobId))?.data ?? {};
+  const lotRequestUrls = Array.isArray(data.lotRequestUrls)
+    ? data.lotRequestUrls.filter((url): url is string => typeof url === 'string')
+    : [];
+  if (lotRequestUrls.length === 0 || typeof data.groupId !== 'string' || typeof data.userIdDigest !== 'string') {
+    return;
+  }
+
+  await recordSubmittedLotRequestUrls(data.groupId, data.userIdDigest, lotRequestUrls, result);
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { resolveSeekFacilities } from '@/lib/api/facility-catalogue';
+import { getGroupAccountCredential } from '@/lib/api/group-accounts';
+import { getGroupRepresentativeAccess } from '@/lib/api/group-representative-access';
+import { parseJobCheckpoint } from '@/lib/api/job-checkpoint';
+import { parseJobEntry, type JobEntry } from '@/lib/api/job-result';
+import {
+  CANCELLED_JOB_STATUS,
+  claimJobForResume,
+  createDispatchedJob,
+  createJobId,
+  getJobDocument,
+  isJobOwnedByUser,
+  releaseJobResumeClaim,
+  TERMINAL_FAILURE_STATUS,
+} from '@/lib/api/job-store';
+import { resolveCandidateScoringSettings } from '@/lib/sites/candidate-scoring';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
+import { resolveLotRequestSettings } from '@/lib/sites/lot-request-settings';
+import { resolveLotRequestUrls } from '@/lib/sites/lot-request-urls';
+import { resolveSeekSlotRules } from '@/lib/sites/seek-slot-rules';
+
+export async function POST(request: NextRequest) {
+  let body: { jobId?: string; userId?: string; password?: string; label?: string };
+
+  try {
+    body = await request.json();
+  } catch (error) {
+    console.error('Invalid JSON payload', error);
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const { jobId, label } = body;
+  let { userId, password } = body;
+
+  if (!jobId) {
+    return NextResponse.json({ error: 'Missing jobId' }, { status: 400 });
+  }
+
+  let source: Record<string, unknown>;
+  let sourceUpdateTime: string | undefined;
+
+  try {
+    const document = await getJobDocument(jobId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    source = (document.data ?? {}) as Record<string, unknown>;
+    sourceUpdateTime = document.updateTime;
+  } catch (error) {
+    console.error('Failed to fetch job for resume', error);
+    return NextResponse.json({ error: 'Failed to fetch job' }, { status: 500 });
+  }
+
+  // 実行中（pending / cancelling）のジョブを再開すると、同じチェックポイントで2つのワーカーが同じ枠に申し込んでしまう
+  if (source.status !== TERMINAL_FAILURE_STATUS && source.status !== CANCELLED_JOB_STATUS) {
+    return NextResponse.json({ error: 'Only failed or cancelled jobs can be resumed' }, { status: 409 });
+  }
+
+  if (typeof source.resumedBy === 'string' && source.resumedBy) {
+    return NextResponse.json({ error: 'Job has already been resumed', jobId: source.resumedBy }, { status: 409 });
+  }
+
+  const checkpoint = parseJobCheckpoint(source.checkpoint);
+  const groupId = typeof source.groupId === 'string' ? source.groupId : '';
+
+  if (!checkpoint || !groupId) {
+    return NextResponse.json({ error: 'Job has no checkpoint to resume from' }, { status: 409 });
+  }
+
+  // 登録済みアカウントで動いたジョブは、同じアカウントで再開できる
+  const sourceAccountId = typeof source.accountId === 'string' && source.accountId ? source.accountId : undefined;
+  let accountId: string | undefined;
+  if ((!userId || !password) && sourceAccountId) {
+    try {
+      const access = await getGroupRepresentativeAccess(groupId);
+      if (!access.ok) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
+      }
+
+      const account = await getGroupAccountCredential(groupId, sourceAccountId);
+      if (!account || !account.enabled) {
+        return NextResponse.json({ error: 'Account not found or disabled' }, { status: 404 });
+      }
+
+      userId = account.userId;
+      password = account.password;
+      accountId = account.id;
+    } catch (error) {
+      console.error('Failed to load group account for resume', error);
+      return NextResponse.json({ error: 'Failed to load account' }, { status: 500 });
+    }
+  }
+
+  if (!userId || !password) {
+    return NextResponse.json({ error: 'Missing userId or password' }, { status: 400 });
+  }
+
+  // チェックポイント（申込状況や処理済みの枠）は元ジョブのアカウントのもの
+  if (!isJobOwnedByUser(source, userId)) {
+    return NextResponse.json({ error: 'userId does not match the job to resume' }, { status: 403 });
+  }
+
+  const targetEntries = Array.isArray(source.targetEntries)
+    ? source.targetEntries.map(parseJobEntry).filter((entry): entry is JobEntry => entry !== null)
+    : [];
+
+  const site = resolveFacilitySite(source.siteId);
+
+  const resumedJobId = createJobId();
+
+  try {
+    const claimed = await claimJobForResume(jobId, sourceUpdateTime, resumedJobId);
+    if (!claimed) {
+      return NextResponse.json({ error: 'Job has already been resumed' }, { status: 409 });
+    }
+  } catch (error) {
+    console.error('Failed to claim job for resume', error);
+    return NextResponse.json({ error: 'Failed to resume job' }, { status: 500 });
+  }
+
+  try {
+    await createDispatchedJob({
+      jobId: resumedJobId,
+      userId,
+      password,
+      accountId,
+      entryCount: typeof source.entryCount === 'number' ? source.entryCount : checkpoint.plan.totalEntries,
+      groupId,
+      label: label ? `[resume] ${label}` : '[resume]',
+      message: '中断したところから再開します。',
+      progress: '再開準備中',
+      dryRun: source.dryRun === true,
+      siteId: site.id,
+      lotRequest: resolveLotRequestSettings(source.lotRequest),
+      candidateScoring: resolveCandidateScoringSettings(source.candidateScoring),
+      seekRules: resolveSeekSlotRules(source.seekRules),
+      seekFacilities: resolveSeekFacilities(source.seekFacilities),
+      lotRequestUrls: resolveLotRequestUrls(source.lotRequestUrls, site),
+      targetEntries: targetEntries.length > 0 ? targetEntries : undefined,
+      checkpoint,
+      resumedFrom: jobId,
+    });
+
+    return NextResponse.json({ jobId: resumedJobId }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to resume job', error);
+    // 再開先のジョブができていれば（起動だけ失敗）そちらを再開し直せるので、元ジョブは押さえたままにする
+    try {
+      if (!(await getJobDocument(resumedJobId))) {
+        await releaseJobResumeClaim(jobId);
+      }
+    } catch (releaseError) {
+      console.error('Failed to release resume claim', releaseError);
+    }
+    return NextResponse.json({ error: 'Failed to resume job' }, { status: 500 });
+  }
+}
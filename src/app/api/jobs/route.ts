@@ -1,18 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { checkAccountQuota, type AccountQuotaCheck } from '@/lib/api/account-quotas';
 import { isAuthorizedRequest } from '@/lib/api/auth';
+import { resolveSeekFacilities } from '@/lib/api/facility-catalogue';
+import { getGroupAccountCredential } from '@/lib/api/group-accounts';
+import { getGroupRepresentativeAccess } from '@/lib/api/group-representative-access';
 import {
   createDispatchedJob,
   formatHistoryTimestamp,
   getJobDocument,
   patchJobDocument,
+  readJobUserId,
 } from '@/lib/api/job-store';
+import { DEFAULT_JOB_MODE, parseJobMode } from '@/lib/api/job-mode';
+import { parseJobEntry, type JobEntry } from '@/lib/api/job-result';
+import { listSubmittedLotRequestUrls } from '@/lib/api/lot-request-url-submissions';
+import { getSlotAllocation } from '@/lib/api/slot-allocations';
 import {
   setFirestoreRestDocument,
 } from '@/lib/firebase/firestore-rest';
+import { getGroupDocument } from '@/lib/firebase';
+import { resolveCandidateScoringSettings } from '@/lib/sites/candidate-scoring';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
+import { resolveLotRequestSettings } from '@/lib/sites/lot-request-settings';
+import { resolveLotRequestUrls } from '@/lib/sites/lot-request-urls';
+import { resolveSeekSlotRules } from '@/lib/sites/seek-slot-rules';
 
 export async function POST(request: NextRequest) {
-  let body: { userId?: string; password?: string; entryCount?: number; groupId?: string; label?: string };
+  let body: {
+    userId?: string;
+    password?: string;
+    accountId?: string;
+    entryCount?: number;
+    groupId?: string;
+    label?: string;
+    dryRun?: boolean;
+    entries?: unknown;
+    allocationId?: string;
+    mode?: unknown;
+  };
 
   try {
     body = await request.json();
@@ -21,16 +47,40 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
   }
 
-  const { userId, password, entryCount, groupId, label } = body;
+  const { accountId, entryCount, groupId, label, dryRun, entries, allocationId } = body;
+  let { userId, password } = body;
 
-  if (!userId || !password || entryCount === undefined || !groupId) {
-    return NextResponse.json({ error: 'Missing userId, password, entryCount, or groupId' }, { status: 400 });
+  if (((!userId || !password) && !accountId) || entryCount === undefined || !groupId) {
+    return NextResponse.json({ error: 'Missing userId, password (or accountId), entryCount, or groupId' }, { status: 400 });
   }
 
   if (!Number.isInteger(entryCount)) {
     return NextResponse.json({ error: 'entryCount must be an integer' }, { status: 400 });
   }
 
+  if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+    return NextResponse.json({ error: 'dryRun must be a boolean' }, { status: 400 });
+  }
+
+  const mode = body.mode === undefined ? DEFAULT_JOB_MODE : parseJobMode(body.mode);
+  if (!mode) {
+    return NextResponse.json({ error: 'mode must be lottery or first_come' }, { status: 400 });
+  }
+
+  // 先着予約はその場で空き枠を探すので、枠の指定（再試行）や割り振りとは組み合わせない
+  if (mode === 'first_come' && (entries !== undefined || allocationId !== undefined)) {
+    return NextResponse.json({ error: 'first_come mode cannot be combined with entries or allocationId' }, { status: 400 });
+  }
+
+  let targetEntries: JobEntry[] | undefined;
+  if (entries !== undefined) {
+    const parsedEntries = Array.isArray(entries) ? entries.map(parseJobEntry) : [];
+    if (parsedEntries.length === 0 || parsedEntries.some((entry) => entry === null)) {
+      return NextResponse.json({ error: 'entries must be a non-empty array of entries' }, { status: 400 });
+    }
+    targetEntries = parsedEntries as JobEntry[];
+  }
+
   // try {
   //   const whitelistDoc = await getDoc(doc(db, 'whitelist', userId));
 
@@ -42,18 +92,104 @@ export async function POST(request: NextRequest) {
   //   return NextResponse.json({ error: 'Failed to verify permissions' }, { status: 500 });
   // }
 
+  const group = await getGroupDocument(groupId);
+  if (!group) {
+    return NextResponse.json({ error: 'Group not found' }, { status: 404 });
+  }
+
+  // 登録済みアカウントのパスワードはブラウザに渡さないので、代表者だけがサーバー側で読み出して使える
+  if (accountId) {
+    try {
+      const access = await getGroupRepresentativeAccess(groupId);
+      if (!access.ok) {
+        return NextResponse.json({ error: access.error }, { status: access.status });
+      }
+
+      const account = await getGroupAccountCredential(groupId, accountId);
+      if (!account || !account.enabled) {
+        return NextResponse.json({ error: 'Account not found or disabled' }, { status: 404 });
+      }
+
+      userId = account.userId;
+      password = account.password;
+    } catch (error) {
+      console.error('Failed to load group account for job', error);
+      return NextResponse.json({ error: 'Failed to load account' }, { status: 500 });
+    }
+  }
+
+  if (!userId || !password) {
+    return NextResponse.json({ error: 'Missing userId or password' }, { status: 400 });
+  }
+
+  // 割り振りは代表者リスト＋追加探索のジョブ向けなので、枠を指定した再試行には付けない
+  if (allocationId !== undefined) {
+    if (typeof allocationId !== 'string' || targetEntries) {
+      return NextResponse.json({ error: 'allocationId must be a string and cannot be combined with entries' }, { status: 400 });
+    }
+
+    try {
+      const allocation = await getSlotAllocation(groupId, allocationId);
+      if (!allocation || !allocation.accounts.some((account) => account.userId === userId)) {
+        return NextResponse.json({ error: 'Allocation not found for this account' }, { status: 404 });
+      }
+    } catch (error) {
+      console.error('Failed to load slot allocation for job', error);
+      return NextResponse.json({ error: 'Failed to load slot allocation' }, { status: 500 });
+    }
+  }
+
+  const site = resolveFacilitySite(group.siteId);
+  const requestedEntryCount = targetEntries ? targetEntries.length : entryCount;
+  let quotaCheck: AccountQuotaCheck | null = null;
+
+  // 先着の予約は抽選の申込上限に数えない
+  if (mode === 'lottery') {
+    try {
+      quotaCheck = await checkAccountQuota(groupId, userId, site, requestedEntryCount);
+    } catch (error) {
+      console.error('Failed to check account quota', error);
+      return NextResponse.json({ error: 'Failed to check account quota' }, { status: 500 });
+    }
+  }
+
+  // ドライランは申込を確定しないので枠を使わない
+  if (!dryRun && quotaCheck && quotaCheck.entryCount === 0) {
+    return NextResponse.json(
+      { error: 'Monthly lottery quota exhausted', warning: quotaCheck.warning, quota: quotaCheck.summary },
+      { status: 409 },
+    );
+  }
+
+  // 再試行（entries 指定）は件数を減らすと指定した枠が落ちるので、警告だけ返してそのまま出す
+  const dispatchEntryCount = dryRun || targetEntries || !quotaCheck ? requestedEntryCount : quotaCheck.entryCount;
+
   try {
     const jobId = await createDispatchedJob({
       userId,
       password,
-      entryCount,
+      accountId,
+      entryCount: dispatchEntryCount,
       groupId,
-      label,
+      label: dryRun ? `[dry-run] ${label ?? groupId}` : label,
       message: 'ボブと太郎が今、一生懸命頑張っています。',
       progress: '準備してます',
+      dryRun,
+      mode,
+      siteId: site.id,
+      lotRequest: resolveLotRequestSettings(group.lotRequest),
+      candidateScoring: resolveCandidateScoringSettings(group.candidateScoring),
+      seekRules: resolveSeekSlotRules(group.seekRules),
+      seekFacilities: resolveSeekFacilities(group.seekFacilities),
+      lotRequestUrls: resolveLotRequestUrls(group.urls, site),
+      targetEntries,
+      allocationId,
     });
 
-    return NextResponse.json({ jobId }, { status: 201 });
+    return NextResponse.json(
+      { jobId, entryCount: dispatchEntryCount, quota: quotaCheck?.summary ?? null, warning: quotaCheck?.warning ?? null },
+      { status: 201 },
+    );
   } catch (error) {
     console.error('Failed to create job', error);
     return NextResponse.json({ error: 'Failed to create job' }, { status: 500 });
@@ -78,7 +214,22 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
-    return NextResponse.json({ jobId, ...document.data }, { status: 200 });
+    // 認証情報は /api/jobs/credentials で一度だけ受け取る
+    const data = { ...document.data };
+    delete data.credentials;
+    delete data.userId;
+    delete data.password;
+    delete data.userIdDigest;
+
+    // 同じアカウントで前回までに申し込めたURL。ワーカーは申込済みとして飛ばす
+    const lotRequestUrls = Array.isArray(document.data.lotRequestUrls) ? document.data.lotRequestUrls : [];
+    const { groupId, userIdDigest } = document.data;
+    const submittedLotRequestUrls =
+      lotRequestUrls.length > 0 && typeof groupId === 'string' && typeof userIdDigest === 'string'
+        ? (await listSubmittedLotRequestUrls(groupId, userIdDigest)).filter(url => lotRequestUrls.includes(url))
+        : [];
+
+    return NextResponse.json({ jobId, ...data, submittedLotRequestUrls }, { status: 200 });
   } catch (error) {
     console.error('Failed to fetch job', error);
     return NextResponse.json({ error: 'Failed to fetch job' }, { status: 500 });
@@ -119,9 +270,9 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Job not found' }, { status: 404 });
     }
 
-    const jobData = document.data as { groupId?: string; userId?: string };
+    const jobData = document.data as { groupId?: string };
     groupId = jobData.groupId;
-    jobUserId = jobData.userId;
+    jobUserId = readJobUserId(document.data);
   } catch (error) {
     console.error('Failed to fetch job before update', error);
     return NextResponse.json({ error: 'Failed to fetch job' }, { status: 500 });
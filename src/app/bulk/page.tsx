@@ -1,5 +1,6 @@
-import { BulkConsoleForm } from "@/components/bulk/console-form";
+import { BulkConsoleForm, type BulkAccountOption } from "@/components/bulk/console-form";
 import { RepresentativeDrawer } from "@/components/navigation/representative-drawer";
+import { listGroupAccounts } from "@/lib/api/group-accounts";
 import { ensureValidGroupAccess, isCurrentUserGroupRepresentative } from "@/lib/util/group-access";
 
 const entryCountOptions = Array.from({ length: 20 }, (_, index) => index + 1);
@@ -22,6 +23,12 @@ export default async function BulkPage({ searchParams }: BulkPageProps) {
   const maxEntryOption = entryCountOptions[entryCountOptions.length - 1] ?? 1;
   const defaultEntryCount = Math.max(1, Math.min(representativeCount || 1, maxEntryOption));
   const canShowRepresentativeDrawer = await isCurrentUserGroupRepresentative(group);
+  // 登録済みアカウントで応募できるのは代表者だけ（/api/jobs 側でも確認する）
+  const accounts: BulkAccountOption[] = canShowRepresentativeDrawer
+    ? (await listGroupAccounts(group.id))
+        .filter((account) => account.enabled)
+        .map((account) => ({ id: account.id, displayName: account.displayName, userId: account.userId }))
+    : [];
 
   return (
     <main className="flex min-h-screen items-center justify-center bg-[#e9f4ff] px-6 py-10 text-stone-900 sm:px-12 lg:px-20">
@@ -52,6 +59,7 @@ export default async function BulkPage({ searchParams }: BulkPageProps) {
             entryOptions={entryCountOptions}
             defaultEntryCount={defaultEntryCount}
             groupLabel={groupLabel}
+            accounts={accounts}
           />
         </div>
       </section>
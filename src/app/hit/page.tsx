@@ -1,9 +1,13 @@
 import { redirect } from "next/navigation";
 
 import { WebSessionBridge } from "@/components/auth/web-session-bridge";
+import { AutoConfirmWinsForm } from "@/components/hit/auto-confirm-wins-form";
 import { HitIdsForm } from "@/components/hit/ids-form";
 import { RepresentativeDrawer } from "@/components/navigation/representative-drawer";
-import { decodeGroupIdsForDisplay } from "@/lib/security/group-ids-crypto";
+import { listAccountVerifications } from "@/lib/api/account-verifications";
+import { listGroupAccounts } from "@/lib/api/group-accounts";
+import { decodeHitTargetsFromRawIds } from "@/lib/api/hit-targets";
+import { listWinConfirmations } from "@/lib/api/win-confirmations";
 import { getGroupAccessState } from "@/lib/util/group-access";
 import { buildGroupPath } from "@/lib/navigation/group-paths";
 
@@ -35,7 +39,20 @@ export default async function HitPage({ searchParams }: HitPageProps) {
   const group = accessState.group;
   const pageTitle = group.name ?? "サークル";
 
-  const initialIds = decodeGroupIdsForDisplay(group.ids);
+  const [accounts, verifications, confirmations] = await Promise.all([
+    listGroupAccounts(group.id),
+    listAccountVerifications(group.id),
+    listWinConfirmations(group.id),
+  ]);
+  const registeredUserIds = new Set(accounts.map((account) => account.userId));
+  let legacyRowCount = 0;
+  try {
+    legacyRowCount = decodeHitTargetsFromRawIds(group.id, group.ids).filter(
+      (target) => !registeredUserIds.has(target.userId),
+    ).length;
+  } catch (error) {
+    console.error("Failed to decode legacy group ids", error);
+  }
 
   return (
     <main className="flex min-h-screen items-center justify-center bg-[#e9f4ff] px-6 py-10 text-stone-900 sm:px-12 lg:px-20">
@@ -50,13 +67,23 @@ export default async function HitPage({ searchParams }: HitPageProps) {
           <div className="border-l-4 border-stone-400/70 pl-6">
             <h1 className="text-2xl font-semibold text-stone-900">サークル: {pageTitle}</h1>
             <p className="mt-2 text-sm text-stone-600">
-              抽選状況自動確認用のIDを保存します。毎月11日と23日の9:00頃から起動し9:15までに抽選状況を自動取得します。
+              抽選状況自動確認・一括応募に使うアカウントを登録します。毎月11日と23日の9:00頃から起動し9:15までに抽選状況を自動取得します。
             </p>
           </div>
         </header>
 
-        <div className="rounded-3xl border border-stone-200 bg-white/80 p-8 shadow-sm">
-          <HitIdsForm groupId={group.id} initialValue={initialIds} />
+        <div className="space-y-6 rounded-3xl border border-stone-200 bg-white/80 p-8 shadow-sm">
+          <HitIdsForm
+            groupId={group.id}
+            initialAccounts={accounts}
+            legacyRowCount={legacyRowCount}
+            verifications={verifications}
+          />
+          <AutoConfirmWinsForm
+            groupId={group.id}
+            initialEnabled={group.autoConfirmWins === true}
+            confirmations={confirmations}
+          />
         </div>
       </section>
     </main>
@@ -1,6 +1,7 @@
 import { RepresentativeDrawer } from "@/components/navigation/representative-drawer";
 import { StartJobForm } from "@/components/start-job-form";
 import { ensureValidGroupAccess, isCurrentUserGroupRepresentative } from "@/lib/util/group-access";
+import { buildFacilitySiteUrl, resolveFacilitySite } from "@/lib/sites/facility-sites";
 
 const numbers = Array.from({ length: 20 }, (_, index) => index + 1);
 const DEFAULT_ENTRY_COUNT = 15;
@@ -28,6 +29,7 @@ export default async function HomePage({ searchParams }: HomePageProps) {
   const representativeCount = Array.isArray(group.list) ? group.list.length : 0;
   const defaultEntryCount = resolveDefaultEntryCount(representativeCount);
   const canShowRepresentativeDrawer = await isCurrentUserGroupRepresentative(group);
+  const facilitySite = resolveFacilitySite(group.siteId);
 
   return (
     <main className="flex min-h-screen items-center justify-center bg-[#e9f4ff] px-6 py-10 text-stone-900 sm:px-12 lg:px-20">
@@ -58,6 +60,8 @@ export default async function HomePage({ searchParams }: HomePageProps) {
           defaultEntryCount={defaultEntryCount}
           representativeEntryCount={representativeCount}
           groupLabel={groupLabel}
+          siteLabel={facilitySite.label}
+          requestStatusUrl={buildFacilitySiteUrl(facilitySite, "RequestStatuses/Index?t=0&p=1&s=20")}
         />
       </section>
     </main>
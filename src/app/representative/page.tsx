@@ -3,8 +3,15 @@ import { redirect } from "next/navigation";
 import { WebSessionBridge } from "@/components/auth/web-session-bridge";
 import { RepresentativeDrawer } from "@/components/navigation/representative-drawer";
 import { RepresentativePageClient, type RepresentativeEntry } from "@/components/representative/page-client";
+import { listApplicationSchedules } from "@/lib/api/application-schedules";
 import { getGroupAccessState } from "@/lib/util/group-access";
 import { buildGroupPath } from "@/lib/navigation/group-paths";
+import { resolveCandidateScoringSettings } from "@/lib/sites/candidate-scoring";
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+import { resolveLotRequestSettings } from "@/lib/sites/lot-request-settings";
+import { partitionLotRequestUrls } from "@/lib/sites/lot-request-urls";
+import { resolveSeekSlotRules } from "@/lib/sites/seek-slot-rules";
+import { resolveWinCancelRules } from "@/lib/sites/win-cancel-rules";
 
 type RepresentativePageProps = {
   searchParams?: Promise<{ gp?: string }> | { gp?: string };
@@ -36,6 +43,10 @@ export default async function RepresentativePage({ searchParams }: Representativ
         time: typeof entry.time === "string" ? entry.time : "",
       }))
     : [];
+  const initialSchedules = await listApplicationSchedules(group.id);
+  const site = resolveFacilitySite(group.siteId);
+
+  const lotRequestUrls = partitionLotRequestUrls(group.urls, site);
 
   return (
     <>
@@ -46,6 +57,14 @@ export default async function RepresentativePage({ searchParams }: Representativ
         groupId={group.id}
         groupName={group.name}
         initialEntries={initialEntries}
+        initialSiteId={site.id}
+        initialLotRequest={resolveLotRequestSettings(group.lotRequest)}
+        initialCandidateScoring={resolveCandidateScoringSettings(group.candidateScoring)}
+        initialSeekRules={resolveSeekSlotRules(group.seekRules)}
+        initialSchedules={initialSchedules}
+        initialUrls={lotRequestUrls.urls}
+        initialRejectedUrls={lotRequestUrls.rejected}
+        initialWinCancelRules={resolveWinCancelRules(group.winCancelRules)}
       />
     </>
   );
@@ -4,12 +4,19 @@ import { redirect } from "next/navigation";
 import { WebSessionBridge } from "@/components/auth/web-session-bridge";
 import { RepresentativeDrawer } from "@/components/navigation/representative-drawer";
 import { getStorageBucketName } from "@/lib/firebase/app";
-import { addMonths, formatMonthLabel, getTodayInJst } from "@/lib/date/jst";
+import { addMonths, formatMonthLabel, getDayOfWeek, getTodayInJst } from "@/lib/date/jst";
 import { HitResultsList, type HitResultRowItem } from "@/components/results/hit-results-list";
 import { ResultsImageGallery } from "@/components/results/image-gallery";
 import { getGroupAccessState } from "@/lib/util/group-access";
+import {
+  APPLICATION_HIT_STATUS_LABELS,
+  convertLegacyHitLine,
+  parseApplicationHits,
+  type ApplicationHit,
+} from "@/lib/api/application-hits";
 import { buildGroupPath } from "@/lib/navigation/group-paths";
 import { listFirestoreRestCollection } from "@/lib/firebase/firestore-rest";
+import { buildFacilitySiteUrl, resolveFacilitySite } from "@/lib/sites/facility-sites";
 
 type ResultsPageSearchParams = {
   gp?: string;
@@ -28,7 +35,7 @@ type MonthCursor = {
 type ApplicationImageGroup = {
   createdAtMs: number;
   docId: string;
-  hits: string[];
+  hits: ApplicationHit[];
   imagePaths: string[];
 };
 
@@ -37,6 +44,8 @@ type AggregatedHitRow = HitResultRowItem & {
   sourceTimestampMs: number;
 };
 
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
 const JST_YEAR_MONTH_FORMATTER = new Intl.DateTimeFormat("ja-JP-u-ca-gregory", {
   timeZone: "Asia/Tokyo",
   year: "numeric",
@@ -141,7 +150,10 @@ export default async function ResultsPage({ searchParams }: ResultsPageProps) {
                 <p className="font-semibold text-stone-700">抽選結果</p>
                 <p>合計 {totalHitCount} 行</p>
               </div>
-              <HitResultsList rows={aggregatedHitRows} />
+              <HitResultsList
+                rows={aggregatedHitRows}
+                loginUrl={buildFacilitySiteUrl(resolveFacilitySite(group.siteId), "Login")}
+              />
             </section>
 
             <section className="rounded-3xl border border-stone-200 bg-white/80 p-6 shadow-sm">
@@ -179,8 +191,11 @@ async function getAllApplicationImageGroups(
         return null;
       }
 
+      // タブ区切りの文字列のままの旧データ（POST /api/internal/applications/hits/migrate で移行する前のもの）は読むときに変換する
       const hits = Array.isArray(data?.hits)
-        ? data.hits.filter((value): value is string => typeof value === "string" && value.length > 0)
+        ? parseApplicationHits(
+            data.hits.map((value) => (typeof value === "string" ? convertLegacyHitLine(value, createdAtMs) : value)),
+          )
         : [];
       const imagePaths = Array.isArray(data?.images)
         ? data.images.filter((value): value is string => typeof value === "string" && value.length > 0)
@@ -201,14 +216,11 @@ async function getAllApplicationImageGroups(
 
 function buildAggregatedHitRows(groups: ApplicationImageGroup[]): AggregatedHitRow[] {
   const rows: AggregatedHitRow[] = groups.flatMap((groupItem) =>
-    groupItem.hits.map((line, index) => {
-      const parsed = parseHitLine(line);
-      return {
-        key: `${groupItem.docId}-${index}-${line}`,
-        ...parsed,
-        sourceTimestampMs: groupItem.createdAtMs,
-      };
-    }),
+    groupItem.hits.map((hit, index) => ({
+      key: `${groupItem.docId}-${index}`,
+      ...toHitResultRow(hit),
+      sourceTimestampMs: groupItem.createdAtMs,
+    })),
   );
 
   rows.sort((a, b) => {
@@ -228,7 +240,7 @@ function buildAggregatedHitRows(groups: ApplicationImageGroup[]): AggregatedHitR
     if (byGym !== 0) {
       return byGym;
     }
-    return a.time.localeCompare(b.time, "ja");
+    return a.time.localeCompare(b.time);
   });
 
   return rows;
@@ -245,161 +257,22 @@ function buildResultImageUrls(
   );
 }
 
-function parseHitLine(line: string): Omit<AggregatedHitRow, "key" | "sourceTimestampMs"> {
-  const columns = line.split("\t").map((value) => value.trim());
-  const hasStatusPrefix = columns.length >= 5 && ["HIT", "FIXED"].includes((columns[0] ?? "").toUpperCase());
-
-  const date = hasStatusPrefix ? columns[1] ?? "" : columns[0] ?? "";
-  const time = hasStatusPrefix ? columns[2] ?? "" : columns[1] ?? "";
-  const gymNameSource = hasStatusPrefix ? columns[3] ?? "" : columns[2] ?? "";
-  const roomSource = hasStatusPrefix ? columns[4] ?? "" : columns[3] ?? "";
-  const accountNameSource = hasStatusPrefix ? columns[5] ?? "" : columns[4] ?? "";
-  const accountIdSource = hasStatusPrefix ? columns[6] ?? "" : columns[5] ?? "";
-  const { gymName, room } = normalizeLocationColumns(gymNameSource, roomSource);
-
-  return {
-    date,
-    time,
-    gymName,
-    room,
-    accountName: normalizeAccountName(accountNameSource),
-    accountId: normalizeAccountId(accountIdSource),
-    sortDateMs: parseJapaneseDateLabel(date),
-  };
-}
-
-function isApplicationIdLike(value: string): boolean {
-  return /^\d{8,}-\d+$/.test(value);
-}
-
-function normalizeLocationColumns(gymNameSource: string, roomSource: string): { gymName: string; room: string } {
-  const normalizedGymName = normalizeSpaces(gymNameSource);
-  const normalizedRoom = normalizeSpaces(roomSource);
-
-  // 旧データ互換: gymName列に受付番号だけが入っているケース
-  if (isApplicationIdLike(normalizedGymName) && normalizedRoom) {
-    return { gymName: normalizedRoom, room: normalizedGymName };
-  }
-
-  let locationSource = extractLocationSource(normalizedGymName);
-  let booth = normalizedRoom;
-  if (booth) {
-    locationSource = stripTrailingBooth(locationSource, booth);
-  } else {
-    const split = splitFacilityAndBooth(locationSource);
-    locationSource = split.facility;
-    booth = split.booth;
-  }
+function toHitResultRow(hit: ApplicationHit): Omit<AggregatedHitRow, "key" | "sourceTimestampMs"> {
+  const [year, month, day] = hit.date.split("-").map(Number);
+  const weekday = WEEKDAY_LABELS[getDayOfWeek({ year, month, day })];
 
   return {
-    gymName: locationSource || normalizedRoom || normalizedGymName,
-    room: booth,
+    date: `${month}月${day}日(${weekday})`,
+    time: `${hit.startTime}-${hit.endTime}`,
+    gymName: hit.facility,
+    room: hit.booth,
+    accountName: hit.accountName ?? "",
+    accountId: hit.accountId ?? "",
+    status: hit.status ? APPLICATION_HIT_STATUS_LABELS[hit.status] : "",
+    sortDateMs: Date.UTC(year, month - 1, day),
   };
 }
 
-function extractLocationSource(value: string): string {
-  const normalized = normalizeSpaces(value);
-  const locationMatch = normalized.match(/場所[:：]\s*(.+)$/);
-  if (locationMatch?.[1]) {
-    return normalizeSpaces(locationMatch[1]);
-  }
-
-  const slashParts = normalized.split("/").map(normalizeSpaces).filter(Boolean);
-  if (slashParts.length >= 2) {
-    const [head, ...rest] = slashParts;
-    if (isApplicationIdLike(head)) {
-      return rest.join(" / ");
-    }
-  }
-
-  return normalized;
-}
-
-function splitFacilityAndBooth(locationSource: string): { facility: string; booth: string } {
-  const slashParts = locationSource.split("/").map(normalizeSpaces).filter(Boolean);
-  if (slashParts.length >= 2) {
-    const [facility, ...rest] = slashParts;
-    return {
-      facility,
-      booth: rest.join(" / "),
-    };
-  }
-
-  const tokens = locationSource.split(" ").filter(Boolean);
-  if (tokens.length >= 2) {
-    const boothCandidate = tokens[tokens.length - 1] ?? "";
-    if (isBoothLike(boothCandidate)) {
-      return {
-        facility: tokens.slice(0, -1).join(" "),
-        booth: boothCandidate,
-      };
-    }
-  }
-
-  return { facility: locationSource, booth: "" };
-}
-
-function stripTrailingBooth(locationSource: string, booth: string): string {
-  const escapedBooth = booth.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-  return locationSource.replace(new RegExp(`\\s*${escapedBooth}$`), "").trim() || locationSource;
-}
-
-function isBoothLike(value: string): boolean {
-  return /(体育館|グラウンド|コート|ホール|スタジオ|プール|武道場|会議室|講堂|全面|半面|面)$/.test(value);
-}
-
-function normalizeSpaces(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function normalizeAccountName(value: string): string {
-  const normalized = normalizeSpaces(value);
-  if (!normalized || normalized === "-") {
-    return "";
-  }
-  return normalized;
-}
-
-function normalizeAccountId(value: string): string {
-  const normalized = normalizeSpaces(value);
-  if (!normalized || normalized === "-") {
-    return "";
-  }
-  return normalized;
-}
-
-function parseJapaneseDateLabel(dateText: string): number | null {
-  const fullMatch = dateText.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
-  if (fullMatch) {
-    const year = Number(fullMatch[1]);
-    const month = Number(fullMatch[2]);
-    const day = Number(fullMatch[3]);
-    const date = new Date(year, month - 1, day);
-
-    if (Number.isNaN(date.getTime())) {
-      return null;
-    }
-
-    return date.getTime();
-  }
-
-  const monthDayMatch = dateText.match(/(\d{1,2})月(\d{1,2})日/);
-  if (!monthDayMatch) {
-    return null;
-  }
-
-  const year = getTodayInJst().year;
-  const month = Number(monthDayMatch[1]);
-  const day = Number(monthDayMatch[2]);
-  const date = new Date(year, month - 1, day);
-
-  if (Number.isNaN(date.getTime())) {
-    return null;
-  }
-
-  return date.getTime();
-}
-
 function parseTimestampDocId(docId: string): number | null {
   const trimmed = docId.trim();
   const match = trimmed.match(/^(\d+)(?:[-_].+)?$/);
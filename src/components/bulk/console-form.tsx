@@ -13,14 +13,25 @@ import {
 } from "react";
 import { doc, onSnapshot } from "firebase/firestore";
 
+import { JobResultTable } from "@/components/job-result-table";
+import type { AccountQuotaSummary } from "@/lib/api/account-quotas";
+import { parseJobResult, type JobEntry, type JobResult } from "@/lib/api/job-result";
 import { getFirestoreDb } from "@/lib/firebase";
 
+// パスワードはサーバー側でだけ復号するので、ブラウザには表示用の情報しか渡さない
+export type BulkAccountOption = {
+  id: string;
+  displayName: string;
+  userId: string;
+};
+
 type BulkConsoleFormProps = {
   groupId: string;
   entryOptions: number[];
   defaultEntryCount: number;
   defaultValue?: string;
   groupLabel?: string;
+  accounts?: BulkAccountOption[];
 };
 
 type ParsedEntry = {
@@ -28,6 +39,8 @@ type ParsedEntry = {
   password: string;
 };
 
+type JobCredentialSource = ParsedEntry | { accountId: string };
+
 type ParseResult = {
   entries: ParsedEntry[];
   error?: string;
@@ -48,10 +61,13 @@ type BulkJobItem = {
   elapsedSeconds?: number;
   workflowUrl?: string | null;
   workflowLinkState?: WorkflowLinkState;
+  result?: JobResult | null;
+  quotaWarning?: string | null;
 };
 
 const DEFAULT_PLACEHOLDER = `1行目からいきなりid,passwordの形式で入力してください。下記の感じ↓\n00112233,password123\n44556677,password456`;
 const JOB_TRIGGER_INTERVAL_MS = 10_000;
+const QUOTA_FETCH_DEBOUNCE_MS = 600;
 const WORKFLOW_FETCH_INITIAL_DELAY_MS = 1_800;
 const WORKFLOW_FETCH_MAX_DELAY_MS = 10_000;
 const JOB_LISTEN_INITIAL_DELAY_MS = 2_000;
@@ -62,6 +78,7 @@ const JOB_STATUS_LABELS: Record<string, string> = {
   running: "実行中",
   completed: "完了",
   failed: "失敗",
+  cancelling: "キャンセル中",
   canceled: "キャンセル済み",
   cancelled: "キャンセル済み",
 };
@@ -80,28 +97,57 @@ export function BulkConsoleForm({
   defaultEntryCount,
   defaultValue,
   groupLabel,
+  accounts = [],
 }: BulkConsoleFormProps) {
   const firestore = useMemo(() => getFirestoreDb(), []);
   const jobSubscriptionsRef = useRef<Record<string, () => void>>({});
   const jobRetryTimeoutsRef = useRef<Record<string, NodeJS.Timeout | null>>({});
 
   const [csvText, setCsvText] = useState(defaultValue ?? "");
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>(() => accounts.map((account) => account.id));
   const resolvedDefaultEntryCount = useMemo(() => {
     return sanitizeEntryCount(defaultEntryCount, entryOptions);
   }, [defaultEntryCount, entryOptions]);
   const normalizedGroupLabel = useMemo(() => deriveGroupLabel(groupLabel), [groupLabel]);
   const [entryCount, setEntryCount] = useState(resolvedDefaultEntryCount);
+  const [allocateSlots, setAllocateSlots] = useState(true);
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [jobItems, setJobItems] = useState<BulkJobItem[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [hasStarted, setHasStarted] = useState(false);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const workflowTimeoutsRef = useRef<Record<number, NodeJS.Timeout | null>>({});
+  // 失敗行の再試行用にアカウントごとの認証情報をメモリ上にだけ保持する
+  const credentialsRef = useRef<Record<number, JobCredentialSource>>({});
+  const [quotas, setQuotas] = useState<Record<string, AccountQuotaSummary>>({});
+  // 入力途中の CSV でも ID だけ拾って残り枠を出す
+  const csvUserIds = useMemo(() => extractCsvUserIds(csvText), [csvText]);
+  const quotaUserIdsKey = useMemo(
+    () => [...new Set([...accounts.map((account) => account.userId), ...csvUserIds])].join("\n"),
+    [accounts, csvUserIds],
+  );
 
   useEffect(() => {
     setEntryCount(resolvedDefaultEntryCount);
   }, [resolvedDefaultEntryCount]);
 
+  useEffect(() => {
+    const userIds = quotaUserIdsKey ? quotaUserIdsKey.split("\n") : [];
+    if (userIds.length === 0) {
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      void fetchAccountQuotas(groupId, userIds).then((fetched) => {
+        setQuotas((current) => ({ ...current, ...fetched }));
+      });
+    }, QUOTA_FETCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+    };
+  }, [groupId, quotaUserIdsKey]);
+
   const clearTimer = useCallback(() => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
@@ -263,6 +309,7 @@ export function BulkConsoleForm({
             message?: string | null;
             progress?: string | null;
             createdAt?: { seconds?: number; nanoseconds?: number };
+            result?: unknown;
           };
           const createdAtMs = data?.createdAt ? inferTimestampMs(data.createdAt) : null;
           const status = typeof data.status === "string" ? data.status : null;
@@ -270,6 +317,7 @@ export function BulkConsoleForm({
             jobStatus: status,
             progress: typeof data.progress === "string" ? data.progress : null,
             message: data.message ?? null,
+            result: parseJobResult(data.result),
             localStatus: "listening",
             startedAt: createdAtMs ?? undefined,
             elapsedSeconds:
@@ -328,30 +376,60 @@ export function BulkConsoleForm({
     clearAllWorkflowLinkTimeouts();
     setJobItems([]);
 
-    const parsed = parseCsv(csvText);
+    // 登録済みアカウントがあれば CSV は追加分だけでよい
+    const parsed = csvText.trim() || accounts.length === 0 ? parseCsv(csvText) : { entries: [] };
 
     if (parsed.error) {
       setGlobalError(parsed.error);
       return;
     }
 
-    if (parsed.entries.length === 0) {
+    const selectedAccounts = accounts.filter((account) => selectedAccountIds.includes(account.id));
+
+    if (selectedAccounts.length === 0 && parsed.entries.length === 0) {
       setGlobalError("実行対象のアカウントがありません");
       return;
     }
 
     if (typeof window !== "undefined") {
-      const confirmed = window.confirm("CSVに含まれるアカウントで応募を開始します。よろしいですか？");
+      const confirmed = window.confirm("選択したアカウントで応募を開始します。よろしいですか？");
       if (!confirmed) {
         return;
       }
     }
 
-    const normalizedEntries = parsed.entries.map((entry, index) => ({
-      userId: entry.userId.trim(),
-      password: entry.password.trim(),
-      label: entry.userId.trim() || `アカウント${index + 1}`,
-    }));
+    const normalizedEntries: Array<{ credentials: JobCredentialSource; label: string; userId: string }> = [
+      ...selectedAccounts.map((account) => ({
+        credentials: { accountId: account.id },
+        label: account.displayName,
+        userId: account.userId,
+      })),
+      ...parsed.entries.map((entry, index) => ({
+        credentials: { userId: entry.userId.trim(), password: entry.password.trim() },
+        label: entry.userId.trim() || `アカウント${selectedAccounts.length + index + 1}`,
+        userId: entry.userId.trim(),
+      })),
+    ];
+
+    // 上に並んでいるアカウントほど応募数の少ない枠を先に受け取る
+    let allocationId: string | undefined;
+    if (allocateSlots && normalizedEntries.length > 1) {
+      try {
+        allocationId = await createSlotAllocation(
+          groupId,
+          // /api/jobs は残り枠まで件数を減らすので、割り振りも同じ件数で頼む
+          normalizedEntries.map((entry) => ({
+            userId: entry.userId,
+            entryCount: Math.min(entryCount, quotas[entry.userId]?.remaining ?? entryCount),
+          })),
+        );
+      } catch (allocationError) {
+        console.error("Failed to create slot allocation", allocationError);
+        setGlobalError(allocationError instanceof Error ? allocationError.message : "応募枠の割り振りを準備できませんでした");
+        return;
+      }
+    }
+    credentialsRef.current = Object.fromEntries(normalizedEntries.map((entry, index) => [index, entry.credentials]));
 
     setHasStarted(true);
     setJobItems(
@@ -377,16 +455,17 @@ export function BulkConsoleForm({
         updateJobItem(index, { localStatus: "dispatching" });
 
         try {
-          const jobId = await triggerJob({
-            userId: entry.userId,
-            password: entry.password,
+          const { jobId, warning } = await triggerJob({
+            ...entry.credentials,
             entryCount,
             groupId,
             label: normalizedGroupLabel,
+            allocationId,
           });
 
           updateJobItem(index, {
             jobId,
+            quotaWarning: warning,
             jobStatus: "pending",
             localStatus: "listening",
             progress: "準備中...",
@@ -419,24 +498,132 @@ export function BulkConsoleForm({
     }
   }
 
+  async function handleRetryEntry(entryIndex: number, entry: JobEntry) {
+    const credentials = credentialsRef.current[entryIndex];
+    if (!credentials) {
+      setGlobalError("再試行に必要なアカウント情報がありません。ページを開き直して一括実行してください");
+      return;
+    }
+
+    if (!window.confirm(`${entry.date} ${entry.time} ${entry.gymName} ${entry.room} に再応募します。よろしいですか？`)) {
+      return;
+    }
+
+    updateJobItem(entryIndex, { localStatus: "dispatching", result: null, message: null });
+
+    try {
+      const { jobId, warning } = await triggerJob({
+        ...credentials,
+        entryCount: 1,
+        groupId,
+        label: normalizedGroupLabel,
+        entries: [entry],
+      });
+
+      updateJobItem(entryIndex, {
+        jobId,
+        quotaWarning: warning,
+        jobStatus: "pending",
+        localStatus: "listening",
+        progress: "準備中...",
+        startedAt: null,
+        elapsedSeconds: 0,
+        workflowUrl: null,
+        workflowLinkState: "pending",
+      });
+      subscribeToJob(jobId, entryIndex);
+      scheduleWorkflowLinkFetch(entryIndex);
+    } catch (jobError) {
+      console.error("Failed to retry bulk job entry", jobError);
+      updateJobItem(entryIndex, {
+        localStatus: "error",
+        message: jobError instanceof Error ? jobError.message : "再試行のトリガーに失敗しました",
+      });
+    }
+  }
+
+  async function handleCancelJob(item: BulkJobItem) {
+    if (!item.jobId || !window.confirm(`${item.userLabel} の応募を中止しますか？処理中の枠が終わったところで止まります。`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/jobs/cancel", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId: item.jobId }),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(payload?.error ?? "中止の受付に失敗しました");
+      }
+    } catch (cancelError) {
+      console.error("Failed to cancel bulk job", cancelError);
+      setGlobalError(cancelError instanceof Error ? cancelError.message : "中止の受付に失敗しました");
+    }
+  }
+
   return (
     <form className="space-y-6" onSubmit={handleSubmit}>
       {!hasStarted ? (
         <>
+          {accounts.length > 0 ? (
+            <fieldset className="space-y-2">
+              <legend className="text-sm font-medium text-stone-700">登録済みアカウント</legend>
+              <ul className="space-y-1 rounded-2xl border border-stone-200 bg-white/80 p-3">
+                {accounts.map((account) => (
+                  <li key={account.id}>
+                    <label className="flex items-center gap-2 text-sm text-stone-800">
+                      <input
+                        type="checkbox"
+                        checked={selectedAccountIds.includes(account.id)}
+                        onChange={(event) =>
+                          setSelectedAccountIds((current) =>
+                            event.target.checked
+                              ? [...current, account.id]
+                              : current.filter((accountId) => accountId !== account.id),
+                          )
+                        }
+                        disabled={submitting}
+                      />
+                      {account.displayName}
+                      <span className="text-xs text-stone-500">{account.userId}</span>
+                      {renderQuotaLabel(quotas[account.userId], entryCount)}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </fieldset>
+          ) : null}
+
           <div className="space-y-2">
             <label htmlFor="bulk-csv" className="text-sm font-medium text-stone-700">
-              ID / パスワード CSV
+              {accounts.length > 0 ? "ID / パスワード CSV（登録していないアカウントを追加する場合）" : "ID / パスワード CSV"}
             </label>
             <textarea
               id="bulk-csv"
               name="bulk-csv"
-              className="min-h-[260px] w-full rounded-2xl border border-stone-200 bg-white/80 p-4 text-sm text-stone-900 outline-none transition focus:border-sky-500"
+              className={`${accounts.length > 0 ? "min-h-[120px]" : "min-h-[260px]"} w-full rounded-2xl border border-stone-200 bg-white/80 p-4 text-sm text-stone-900 outline-none transition focus:border-sky-500`}
               placeholder={DEFAULT_PLACEHOLDER}
               value={csvText}
               onChange={(event) => setCsvText(event.target.value)}
-              required
+              required={accounts.length === 0}
               disabled={submitting}
             />
+            {csvUserIds.length > 0 ? (
+              <ul className="space-y-0.5 px-1 text-xs text-stone-600">
+                {csvUserIds.map((userId, index) => (
+                  <li key={`${userId}-${index}`} className="flex items-center gap-2">
+                    <span className="text-stone-500">{index + 1}行目</span>
+                    {userId}
+                    {renderQuotaLabel(quotas[userId], entryCount)}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
           </div>
 
           <div className="space-y-2">
@@ -459,6 +646,22 @@ export function BulkConsoleForm({
             </select>
           </div>
 
+          <label className="flex items-start gap-2 text-sm text-stone-700">
+            <input
+              type="checkbox"
+              checked={allocateSlots}
+              onChange={(event) => setAllocateSlots(event.target.checked)}
+              disabled={submitting}
+              className="mt-1"
+            />
+            <span>
+              追加分の枠をアカウント間で重ならないように割り振る
+              <span className="block text-xs text-stone-500">
+                最初に動いたアカウントがまとめて空き枠を探し、上のアカウントから順に応募数の少ない枠を配ります（2アカウント以上のとき）
+              </span>
+            </span>
+          </label>
+
           <button
             type="submit"
             disabled={submitting}
@@ -491,6 +694,7 @@ export function BulkConsoleForm({
                 ) : null;
               const isCompletedStatus = item.jobStatus?.toLowerCase() === "completed";
               const statusLabelText = isCompletedStatus ? null : renderJobStatusLabel(item);
+              const isCancellable = Boolean(item.jobId) && !isTerminalItem(item) && item.jobStatus !== "cancelling";
 
               return (
                 <li
@@ -506,15 +710,37 @@ export function BulkConsoleForm({
                         {workflowInfo}
                       </span>
                     </div>
-                    {statusLabelText ? (
-                      <span className="text-[11px] text-stone-500">{statusLabelText}</span>
-                    ) : (
-                      <span aria-hidden="true" />
-                    )}
+                    <div className="flex items-center gap-2">
+                      {statusLabelText ? (
+                        <span className="text-[11px] text-stone-500">{statusLabelText}</span>
+                      ) : (
+                        <span aria-hidden="true" />
+                      )}
+                      {isCancellable ? (
+                        <button
+                          type="button"
+                          onClick={() => void handleCancelJob(item)}
+                          className="rounded-full border border-red-300 px-2 py-0.5 text-[11px] font-semibold text-red-600 transition hover:bg-red-50"
+                        >
+                          中止
+                        </button>
+                      ) : null}
+                    </div>
                   </div>
+                  {item.quotaWarning ? <p className="mt-0.5 text-[11px] text-amber-700">{item.quotaWarning}</p> : null}
                   {formattedMessage ? (
                     <p className="mt-0.5 whitespace-pre-line text-[11px] text-stone-500">{formattedMessage}</p>
                   ) : null}
+                  {item.result && isTerminalItem(item) ? (
+                    <div className="mt-2">
+                      <JobResultTable
+                        result={item.result}
+                        jobId={item.jobId}
+                        onRetry={(entry) => void handleRetryEntry(item.entryIndex, entry)}
+                        retryDisabled={submitting}
+                      />
+                    </div>
+                  ) : null}
                 </li>
               );
             })}
@@ -541,6 +767,52 @@ function renderJobStatusLabel(item: BulkJobItem): string {
   return LOCAL_STATUS_LABELS[item.localStatus] ?? item.localStatus;
 }
 
+function renderQuotaLabel(quota: AccountQuotaSummary | undefined, entryCount: number): ReactElement | null {
+  if (!quota) {
+    return null;
+  }
+
+  if (quota.remaining === null) {
+    return <span className="text-xs text-stone-400">残り枠: 未確認</span>;
+  }
+
+  const tone = quota.remaining === 0 ? "text-red-600" : quota.remaining < entryCount ? "text-amber-700" : "text-stone-500";
+  return (
+    <span className={`text-xs ${tone}`}>
+      残り枠: {quota.remaining}/{quota.quota}件（{quota.yearMonth}）
+    </span>
+  );
+}
+
+function extractCsvUserIds(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map((line) => line.split(",")[0]?.trim() ?? "")
+    .filter((userId) => userId.length > 0);
+}
+
+async function fetchAccountQuotas(groupId: string, userIds: string[]): Promise<Record<string, AccountQuotaSummary>> {
+  try {
+    const response = await fetch("/api/groups/quotas", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ groupId, userIds }),
+    });
+
+    if (!response.ok) {
+      return {};
+    }
+
+    const data = (await response.json().catch(() => null)) as { quotas?: AccountQuotaSummary[] } | null;
+    return Object.fromEntries((data?.quotas ?? []).map((quota) => [quota.userId, quota]));
+  } catch (error) {
+    console.error("Failed to fetch account quotas", error);
+    return {};
+  }
+}
+
 function parseCsv(input: string): ParseResult {
   if (!input.trim()) {
     return { entries: [], error: "CSVテキストを入力してください" };
@@ -867,31 +1139,21 @@ function formatElapsedClock(seconds?: number | null): string | null {
   return `${paddedMinutes}:${paddedSeconds}`;
 }
 
-async function triggerJob({
-  userId,
-  password,
-  entryCount,
-  groupId,
-  label,
-}: {
-  userId: string;
-  password: string;
-  entryCount: number;
-  groupId: string;
-  label?: string;
-}): Promise<string> {
+async function triggerJob(
+  params: JobCredentialSource & {
+    entryCount: number;
+    groupId: string;
+    label?: string;
+    entries?: JobEntry[];
+    allocationId?: string;
+  },
+): Promise<{ jobId: string; warning: string | null }> {
   const response = await fetch("/api/jobs", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({
-      userId,
-      password,
-      entryCount,
-      groupId,
-      label,
-    }),
+    body: JSON.stringify(params),
   });
 
   if (!response.ok) {
@@ -899,8 +1161,8 @@ async function triggerJob({
     let errorMessage = "応募のトリガーに失敗しました";
 
     try {
-      const data = JSON.parse(rawBody) as { error?: string };
-      errorMessage = (data.error ?? rawBody) || errorMessage;
+      const data = JSON.parse(rawBody) as { error?: string; warning?: string | null };
+      errorMessage = (data.warning ?? data.error ?? rawBody) || errorMessage;
     } catch {
       if (rawBody) {
         errorMessage = rawBody;
@@ -910,13 +1172,34 @@ async function triggerJob({
     throw new Error(errorMessage);
   }
 
-  const payload = (await response.json().catch(() => null)) as { jobId?: string } | null;
+  const payload = (await response.json().catch(() => null)) as { jobId?: string; warning?: string | null } | null;
 
   if (!payload?.jobId) {
     throw new Error("ジョブIDを取得できませんでした");
   }
 
-  return payload.jobId;
+  return { jobId: payload.jobId, warning: payload.warning ?? null };
+}
+
+async function createSlotAllocation(
+  groupId: string,
+  accounts: Array<{ userId: string; entryCount: number }>,
+): Promise<string> {
+  const response = await fetch("/api/groups/allocations", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ groupId, accounts }),
+  });
+
+  const payload = (await response.json().catch(() => null)) as { allocationId?: string; error?: string } | null;
+
+  if (!response.ok || !payload?.allocationId) {
+    throw new Error(payload?.error ?? "応募枠の割り振りを準備できませんでした");
+  }
+
+  return payload.allocationId;
 }
 
 function wait(durationMs: number): Promise<void> {
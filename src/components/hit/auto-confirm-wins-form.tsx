@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import type { WinConfirmation } from "@/lib/api/win-confirmations";
+import { getFirestoreDb } from "@/lib/firebase";
+
+type AutoConfirmWinsFormProps = {
+  groupId: string;
+  initialEnabled: boolean;
+  confirmations: WinConfirmation[];
+};
+
+export function AutoConfirmWinsForm({ groupId, initialEnabled, confirmations }: AutoConfirmWinsFormProps) {
+  const [enabled, setEnabled] = useState(initialEnabled);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  async function handleToggle(nextEnabled: boolean) {
+    setIsSaving(true);
+    setMessage(null);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        autoConfirmWins: nextEnabled,
+      });
+      setEnabled(nextEnabled);
+      setMessage({ text: nextEnabled ? "当選の自動確定を有効にしました" : "当選の自動確定を無効にしました", isError: false });
+    } catch (saveError) {
+      console.error("Failed to save auto confirm setting", saveError);
+      setMessage({ text: "当選の自動確定の保存に失敗しました", isError: true });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-stone-200 bg-stone-50 px-4 py-4">
+      <label htmlFor="autoConfirmWins" className="flex items-start gap-3 text-sm text-stone-700">
+        <input
+          id="autoConfirmWins"
+          type="checkbox"
+          checked={enabled}
+          disabled={isSaving}
+          onChange={(event) => void handleToggle(event.target.checked)}
+          className="mt-0.5 h-4 w-4 rounded border-stone-300"
+        />
+        <span>
+          当選を自動で当選確定にする
+          <span className="block text-xs text-stone-500">
+            抽選状況の確認のときに、当選を1件ずつサイトで当選確定にします。確定できなかった当選は、期限までに確定するようLINEでお知らせします。
+          </span>
+        </span>
+      </label>
+      {message ? (
+        <p className={`text-center text-sm ${message.isError ? "text-red-600" : "text-stone-700"}`}>{message.text}</p>
+      ) : null}
+
+      {confirmations.length > 0 ? (
+        <ul className="space-y-2 text-xs text-stone-600">
+          {confirmations.map((confirmation) => (
+            <li key={confirmation.key} className="rounded-xl border border-stone-200 bg-white px-3 py-2">
+              <p className="font-semibold text-stone-800">
+                {confirmation.accountName ?? confirmation.key}: 確定 {confirmation.confirmed.length}件 / 未確定{" "}
+                {confirmation.failed.length}件
+                {confirmation.checkedAt
+                  ? `（${new Date(confirmation.checkedAt).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" })}）`
+                  : ""}
+              </p>
+              {confirmation.failed.map((failure) => (
+                <p key={`${failure.date}-${failure.time}-${failure.gymName}-${failure.room}`} className="text-red-600">
+                  {failure.date} {failure.time} {failure.gymName} {failure.room}（期限: {failure.deadline ?? "サイトで確認"}）
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
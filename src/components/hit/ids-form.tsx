@@ -2,49 +2,180 @@
 
 import { type FormEvent, useState } from "react";
 
+import type { AccountVerification } from "@/lib/api/account-verifications";
+import type { GroupAccount } from "@/lib/api/group-accounts";
+
 type HitIdsFormProps = {
   groupId: string;
-  initialValue: string;
+  initialAccounts: GroupAccount[];
+  // groups/{groupId}.ids（旧CSV）に残っている行数。0 なら取り込みボタンを出さない
+  legacyRowCount: number;
+  verifications: AccountVerification[];
+};
+
+type AccountDraft = {
+  displayName: string;
+  userId: string;
+  password: string;
+  owner: string;
+  enabled: boolean;
 };
 
-export function HitIdsForm({ groupId, initialValue }: HitIdsFormProps) {
-  const [value, setValue] = useState(initialValue);
+const EMPTY_DRAFT: AccountDraft = { displayName: "", userId: "", password: "", owner: "", enabled: true };
+
+function formatLastLogin(value: string | null): string {
+  if (!value) {
+    return "未ログイン";
+  }
+  return new Date(value).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" });
+}
+
+function findVerification(verifications: AccountVerification[], account: GroupAccount): AccountVerification | undefined {
+  return verifications.find((verification) => verification.accountId === account.id);
+}
+
+function renderVerification(verification: AccountVerification | undefined) {
+  if (!verification) {
+    return null;
+  }
+
+  const checkedAt = verification.checkedAt ? `（${formatLastLogin(verification.checkedAt)}）` : "";
+  return verification.ok ? (
+    <p className="text-xs text-emerald-700">
+      ログイン確認OK: {verification.accountName ?? "-"}
+      {checkedAt}
+    </p>
+  ) : (
+    <p className="text-xs text-red-600">
+      ログイン確認NG: {verification.error ?? "原因不明"}
+      {checkedAt}
+    </p>
+  );
+}
+
+export function HitIdsForm({ groupId, initialAccounts, legacyRowCount, verifications }: HitIdsFormProps) {
+  const [accounts, setAccounts] = useState(initialAccounts);
+  const [draft, setDraft] = useState<AccountDraft>(EMPTY_DRAFT);
+  const [editingAccountId, setEditingAccountId] = useState<string | null>(null);
   const [status, setStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
   const [message, setMessage] = useState<string | null>(null);
   const [testStatus, setTestStatus] = useState<"idle" | "running" | "success" | "error">("idle");
   const [testMessage, setTestMessage] = useState<string | null>(null);
+  const [verifyStatus, setVerifyStatus] = useState<"idle" | "running" | "success" | "error">("idle");
+  const [verifyMessage, setVerifyMessage] = useState<string | null>(null);
   const resultsHref = `/results?gp=${encodeURIComponent(groupId)}`;
+  const isSaving = status === "saving";
 
-  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
-    event.preventDefault();
+  async function requestAccounts(method: "POST" | "PATCH" | "DELETE", body: Record<string, unknown>, endpoint = "/api/groups/accounts") {
+    const response = await fetch(endpoint, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ groupId, ...body }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => ({ error: "保存に失敗しました" }))) as { error?: string };
+      throw new Error(data.error ?? "保存に失敗しました");
+    }
+
+    return (await response.json().catch(() => ({}))) as Record<string, unknown>;
+  }
+
+  async function reloadAccounts() {
+    const response = await fetch(`/api/groups/accounts?groupId=${encodeURIComponent(groupId)}`);
+    if (response.ok) {
+      const data = (await response.json()) as { accounts?: GroupAccount[] };
+      setAccounts(data.accounts ?? []);
+    }
+  }
+
+  async function runAccountAction(action: () => Promise<string>) {
     setStatus("saving");
     setMessage(null);
 
     try {
-      const response = await fetch("/api/groups/hit", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ groupId, ids: value }),
-      });
-
-      if (!response.ok) {
-        const data = (await response.json().catch(() => ({ error: "保存に失敗しました" }))) as { error?: string };
-        setStatus("error");
-        setMessage(data.error ?? "保存に失敗しました");
-        return;
-      }
-
+      const successMessage = await action();
+      await reloadAccounts();
       setStatus("success");
-      setMessage("保存しました");
+      setMessage(successMessage);
     } catch (error) {
-      console.error("Failed to save ids", error);
+      console.error("Failed to update accounts", error);
       setStatus("error");
-      setMessage("保存に失敗しました。時間を置いて再実行してください。");
+      setMessage(error instanceof Error ? error.message : "保存に失敗しました。時間を置いて再実行してください。");
     }
   }
 
+  async function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+
+    if (!draft.userId.trim() || (!editingAccountId && !draft.password.trim())) {
+      setStatus("error");
+      setMessage("IDとパスワードを入力してください。");
+      return;
+    }
+
+    await runAccountAction(async () => {
+      if (editingAccountId) {
+        await requestAccounts("PATCH", { accountId: editingAccountId, account: draft });
+      } else {
+        await requestAccounts("POST", { account: draft });
+      }
+      setDraft(EMPTY_DRAFT);
+      setEditingAccountId(null);
+      return "保存しました";
+    });
+  }
+
+  function handleEdit(account: GroupAccount) {
+    setEditingAccountId(account.id);
+    setDraft({
+      displayName: account.displayName,
+      userId: account.userId,
+      password: "",
+      owner: account.owner ?? "",
+      enabled: account.enabled,
+    });
+    setMessage(null);
+  }
+
+  function handleCancelEdit() {
+    setEditingAccountId(null);
+    setDraft(EMPTY_DRAFT);
+  }
+
+  async function handleToggleEnabled(account: GroupAccount) {
+    await runAccountAction(async () => {
+      await requestAccounts("PATCH", {
+        accountId: account.id,
+        account: { ...account, enabled: !account.enabled },
+      });
+      return account.enabled ? `${account.displayName} を無効にしました` : `${account.displayName} を有効にしました`;
+    });
+  }
+
+  async function handleDelete(account: GroupAccount) {
+    if (!window.confirm(`${account.displayName}（${account.userId}）を削除しますか？`)) {
+      return;
+    }
+
+    await runAccountAction(async () => {
+      await requestAccounts("DELETE", { accountId: account.id });
+      if (editingAccountId === account.id) {
+        handleCancelEdit();
+      }
+      return `${account.displayName} を削除しました`;
+    });
+  }
+
+  async function handleImport() {
+    await runAccountAction(async () => {
+      const data = await requestAccounts("POST", {}, "/api/groups/accounts/import");
+      return `${Number(data.imported ?? 0)}件のアカウントを取り込みました`;
+    });
+  }
+
   async function handleTestRun() {
     setTestStatus("running");
     setTestMessage(null);
@@ -76,27 +207,173 @@ export function HitIdsForm({ groupId, initialValue }: HitIdsFormProps) {
     }
   }
 
+  async function handleVerifyAccounts() {
+    setVerifyStatus("running");
+    setVerifyMessage(null);
+
+    try {
+      const response = await fetch("/api/hit/verify", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ groupId }),
+      });
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => ({ error: "ログイン確認の開始に失敗しました" }))) as { error?: string };
+        setVerifyStatus("error");
+        setVerifyMessage(data.error ?? "ログイン確認の開始に失敗しました");
+        return;
+      }
+
+      setVerifyStatus("success");
+      setVerifyMessage("ログイン確認を開始しました。数分後にこのページを再読み込みすると結果が表示されます。");
+    } catch (error) {
+      console.error("Failed to trigger account verification", error);
+      setVerifyStatus("error");
+      setVerifyMessage("ログイン確認の開始に失敗しました。時間を置いて再実行してください。");
+    }
+  }
+
   return (
-    <form className="space-y-6" onSubmit={handleSubmit}>
-      <div className="space-y-2">
-        <textarea
-          id="hit-ids"
-          name="hit-ids"
-          className="min-h-[260px] w-full rounded-2xl border border-stone-200 bg-white/80 p-4 text-sm text-stone-900 outline-none transition focus:border-sky-500"
-          placeholder={"1行目からいきなりid,passwordの形式で入力してください。下記の感じ↓\n00112233,password123\n44556677,password456"}
-          value={value}
-          onChange={(event) => setValue(event.target.value)}
-          disabled={status === "saving"}
-        />
-      </div>
+    <div className="space-y-6">
+      {accounts.length === 0 ? (
+        <p className="rounded-2xl border border-dashed border-stone-300 px-4 py-6 text-center text-sm text-stone-500">
+          アカウントが登録されていません。
+        </p>
+      ) : (
+        <ul className="divide-y divide-stone-200 rounded-2xl border border-stone-200 bg-white/80">
+          {accounts.map((account) => (
+            <li key={account.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+              <div className={account.enabled ? "" : "opacity-50"}>
+                <p className="text-sm font-semibold text-stone-900">
+                  {account.displayName}
+                  <span className="ml-2 text-xs font-normal text-stone-500">{account.userId}</span>
+                </p>
+                <p className="text-xs text-stone-500">
+                  {account.owner ? `持ち主: ${account.owner} / ` : ""}最終ログイン: {formatLastLogin(account.lastLoginSucceededAt)}
+                </p>
+                {renderVerification(findVerification(verifications, account))}
+              </div>
+              <div className="flex gap-2 text-xs font-semibold">
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => handleToggleEnabled(account)}
+                  className="rounded-full border border-stone-200 px-3 py-1 text-stone-700 transition hover:border-stone-400 disabled:opacity-60"
+                >
+                  {account.enabled ? "無効にする" : "有効にする"}
+                </button>
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => handleEdit(account)}
+                  className="rounded-full border border-stone-200 px-3 py-1 text-stone-700 transition hover:border-stone-400 disabled:opacity-60"
+                >
+                  編集
+                </button>
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => handleDelete(account)}
+                  className="rounded-full border border-stone-200 px-3 py-1 text-red-600 transition hover:border-red-300 disabled:opacity-60"
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
 
-      <button
-        type="submit"
-        disabled={status === "saving"}
-        className="w-full rounded-2xl border border-sky-900/10 bg-sky-700 py-3 text-sm font-semibold tracking-wide text-white transition hover:bg-sky-800 disabled:cursor-not-allowed disabled:opacity-60"
-      >
-        {status === "saving" ? "保存中..." : "保存"}
-      </button>
+      {accounts.length === 0 && verifications.length > 0 ? (
+        <ul className="space-y-1 rounded-2xl border border-stone-200 bg-white/80 px-4 py-3">
+          {verifications.map((verification) => (
+            <li key={verification.key}>
+              <p className="text-sm text-stone-900">{verification.userId}</p>
+              {renderVerification(verification)}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {legacyRowCount > 0 ? (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50 px-4 py-3 text-xs text-amber-800">
+          <p>以前のCSV形式で保存されたIDが{legacyRowCount}件あります。アカウントとして取り込むと個別に編集できます。</p>
+          <button
+            type="button"
+            disabled={isSaving}
+            onClick={handleImport}
+            className="mt-2 rounded-full border border-amber-300 bg-white px-3 py-1 font-semibold transition hover:border-amber-500 disabled:opacity-60"
+          >
+            CSVから取り込み
+          </button>
+        </div>
+      ) : null}
+
+      <form className="space-y-3 rounded-2xl border border-stone-200 bg-white/80 p-4" onSubmit={handleSubmit}>
+        <p className="text-sm font-semibold text-stone-700">{editingAccountId ? "アカウントを編集" : "アカウントを追加"}</p>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            value={draft.displayName}
+            onChange={(event) => setDraft((current) => ({ ...current, displayName: event.target.value }))}
+            placeholder="表示名（省略するとID）"
+            aria-label="表示名"
+            className="rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-sky-500"
+          />
+          <input
+            value={draft.owner}
+            onChange={(event) => setDraft((current) => ({ ...current, owner: event.target.value }))}
+            placeholder="持ち主（メンバー名）"
+            aria-label="持ち主"
+            className="rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-sky-500"
+          />
+          <input
+            value={draft.userId}
+            onChange={(event) => setDraft((current) => ({ ...current, userId: event.target.value }))}
+            placeholder="ID"
+            aria-label="ID"
+            autoComplete="off"
+            className="rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-sky-500"
+          />
+          <input
+            type="password"
+            value={draft.password}
+            onChange={(event) => setDraft((current) => ({ ...current, password: event.target.value }))}
+            placeholder={editingAccountId ? "パスワード（変更しない場合は空欄）" : "パスワード"}
+            aria-label="パスワード"
+            autoComplete="new-password"
+            className="rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-sky-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-xs text-stone-600">
+          <input
+            type="checkbox"
+            checked={draft.enabled}
+            onChange={(event) => setDraft((current) => ({ ...current, enabled: event.target.checked }))}
+          />
+          抽選状況の確認・一括応募に使う
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="flex-1 rounded-2xl border border-sky-900/10 bg-sky-700 py-3 text-sm font-semibold tracking-wide text-white transition hover:bg-sky-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isSaving ? "保存中..." : "保存"}
+          </button>
+          {editingAccountId ? (
+            <button
+              type="button"
+              onClick={handleCancelEdit}
+              className="rounded-2xl border border-stone-200 px-4 text-sm font-semibold text-stone-700 transition hover:border-stone-400"
+            >
+              キャンセル
+            </button>
+          ) : null}
+        </div>
+      </form>
 
       {message ? (
         <p className={`text-center text-sm ${status === "error" ? "text-red-600" : "text-stone-700"}`}>{message}</p>
@@ -108,12 +385,28 @@ export function HitIdsForm({ groupId, initialValue }: HitIdsFormProps) {
         </p>
         <button
           type="button"
-          disabled={status === "saving" || testStatus === "running"}
+          disabled={isSaving || testStatus === "running"}
           onClick={handleTestRun}
           className="mt-3 w-full rounded-2xl border border-stone-900/10 bg-stone-800 py-3 text-sm font-semibold tracking-wide text-white transition hover:bg-stone-900 disabled:cursor-not-allowed disabled:opacity-60"
         >
           {testStatus === "running" ? "テスト実行中..." : "Hit テスト実行"}
         </button>
+        <p className="mt-4 text-xs text-stone-600">
+          抽選の申込期間の前に、各アカウントでログインできるかだけを確認できます。
+        </p>
+        <button
+          type="button"
+          disabled={isSaving || verifyStatus === "running"}
+          onClick={handleVerifyAccounts}
+          className="mt-3 w-full rounded-2xl border border-stone-300 bg-white py-3 text-sm font-semibold tracking-wide text-stone-800 transition hover:border-stone-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {verifyStatus === "running" ? "確認開始中..." : "ログイン確認を実行"}
+        </button>
+        {verifyMessage ? (
+          <p className={`mt-2 text-center text-sm ${verifyStatus === "error" ? "text-red-600" : "text-stone-700"}`}>
+            {verifyMessage}
+          </p>
+        ) : null}
         {testMessage ? (
           <div className={`mt-2 text-center text-sm ${testStatus === "error" ? "text-red-600" : "text-stone-700"}`}>
             <p>{testMessage}</p>
@@ -128,6 +421,6 @@ export function HitIdsForm({ groupId, initialValue }: HitIdsFormProps) {
           </div>
         ) : null}
       </div>
-    </form>
+    </div>
   );
 }
@@ -0,0 +1,100 @@
+"use client";
+
+import type { JobEntry, JobEntryOutcome, JobResult } from "@/lib/api/job-result";
+
+type JobResultTableProps = {
+  result: JobResult;
+  jobId?: string | null;
+  onRetry?: (entry: JobEntry) => void;
+  retryDisabled?: boolean;
+};
+
+const OUTCOME_LABELS: Record<JobEntryOutcome, string> = {
+  success: "成功",
+  failed: "失敗",
+  skipped: "スキップ",
+  dry_run: "申込予定",
+};
+
+const OUTCOME_CLASSES: Record<JobEntryOutcome, string> = {
+  success: "text-emerald-700",
+  failed: "text-red-600",
+  skipped: "text-stone-500",
+  dry_run: "text-sky-700",
+};
+
+export function JobResultTable({ result, jobId, onRetry, retryDisabled = false }: JobResultTableProps) {
+  const { counts } = result;
+
+  return (
+    <div className="space-y-2 text-left">
+      <p className="text-xs text-stone-600">
+        成功 {counts.success} / 失敗 {counts.failed} / スキップ {counts.skipped} / キャンセル {counts.cancelled}
+        {counts.dryRun > 0 ? ` / 申込予定 ${counts.dryRun}` : ""}
+      </p>
+      {result.entries.length > 0 ? (
+        <div className="overflow-x-auto rounded-2xl border border-stone-200">
+          <table className="w-full text-xs">
+            <thead className="bg-stone-50 text-stone-500">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">結果</th>
+                <th className="px-3 py-2 text-left font-medium">施設</th>
+                <th className="px-3 py-2 text-left font-medium">日時</th>
+                <th className="px-3 py-2 text-left font-medium">理由</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {result.entries.map((row, index) => {
+                const screenshotUrl = buildScreenshotUrl(jobId, row.screenshotPath);
+                return (
+                  <tr
+                    key={`${row.outcome}-${row.entry.gymName}-${row.entry.room}-${row.entry.date}-${row.entry.time}-${index}`}
+                    className="border-t border-stone-100 text-stone-800"
+                  >
+                    <td className={`whitespace-nowrap px-3 py-2 font-semibold ${OUTCOME_CLASSES[row.outcome]}`}>
+                      {OUTCOME_LABELS[row.outcome]}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.entry.gymName} {row.entry.room}
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-2">
+                      {row.entry.date} {row.entry.time}
+                    </td>
+                    <td className="px-3 py-2 text-stone-600">
+                      {row.reason ?? "-"}
+                      {screenshotUrl ? (
+                        <a href={screenshotUrl} target="_blank" rel="noreferrer" className="ml-2 text-sky-700 underline">
+                          画面
+                        </a>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {row.outcome === "failed" && onRetry ? (
+                        <button
+                          type="button"
+                          onClick={() => onRetry(row.entry)}
+                          disabled={retryDisabled}
+                          className="whitespace-nowrap rounded-full border border-sky-500 px-3 py-1 font-semibold text-sky-700 transition hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-50"
+                        >
+                          再試行
+                        </button>
+                      ) : null}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function buildScreenshotUrl(jobId: string | null | undefined, screenshotPath: string | null): string | null {
+  if (!jobId || !screenshotPath) {
+    return null;
+  }
+  return `https://raw.githubusercontent.com/airy-swift/gym-res/${jobId}/playwright/${screenshotPath}`;
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+
+import type { ApplicationSchedule } from "@/lib/api/application-schedules";
+import { DEFAULT_JOB_MODE, type JobMode } from "@/lib/api/job-mode";
+
+type Props = {
+  groupId: string;
+  initialSchedules: ApplicationSchedule[];
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+const DAY_OPTIONS = Array.from({ length: 31 }, (_, index) => index + 1);
+const ENTRY_COUNT_OPTIONS = Array.from({ length: 20 }, (_, index) => index + 1);
+const MODE_LABELS: Record<JobMode, string> = {
+  lottery: "抽選に応募",
+  first_come: "先着で予約（抽選後の空き枠）",
+};
+
+export function ApplicationSchedulesForm({ groupId, initialSchedules, onSaved }: Props) {
+  const [schedules, setSchedules] = useState(initialSchedules);
+  const [dayOfMonth, setDayOfMonth] = useState(2);
+  const [time, setTime] = useState("10:00");
+  const [entryCount, setEntryCount] = useState(15);
+  const [mode, setMode] = useState<JobMode>(DEFAULT_JOB_MODE);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const requestSchedules = async (method: "POST" | "PATCH" | "DELETE", body: Record<string, unknown>) => {
+    const response = await fetch("/api/groups/schedules", {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ groupId, ...body }),
+    });
+
+    if (!response.ok) {
+      const data = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(data?.error ?? "保存に失敗しました");
+    }
+
+    const listResponse = await fetch(`/api/groups/schedules?groupId=${encodeURIComponent(groupId)}`);
+    if (listResponse.ok) {
+      const data = (await listResponse.json()) as { schedules?: ApplicationSchedule[] };
+      setSchedules(data.schedules ?? []);
+    }
+  };
+
+  const runScheduleAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsSaving(true);
+
+    try {
+      await action();
+      onSaved(successMessage);
+    } catch (saveError) {
+      console.error("Failed to save application schedule", saveError);
+      onSaved(saveError instanceof Error ? saveError.message : "自動応募の設定の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    await runScheduleAction(
+      () => requestSchedules("POST", { schedule: { dayOfMonth, time, entryCount, mode, enabled: true } }),
+      "自動応募の予定を追加しました",
+    );
+  };
+
+  const handleToggle = async (schedule: ApplicationSchedule) => {
+    await runScheduleAction(
+      () =>
+        requestSchedules("PATCH", {
+          scheduleId: schedule.id,
+          schedule: { ...schedule, enabled: !schedule.enabled },
+        }),
+      schedule.enabled ? "自動応募を停止しました" : "自動応募を再開しました",
+    );
+  };
+
+  const handleDelete = async (schedule: ApplicationSchedule) => {
+    if (!window.confirm(`毎月${schedule.dayOfMonth}日 ${schedule.time} の自動応募を削除しますか？`)) {
+      return;
+    }
+
+    await runScheduleAction(() => requestSchedules("DELETE", { scheduleId: schedule.id }), "自動応募の予定を削除しました");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">自動応募</p>
+      <p className="text-xs text-stone-500">
+        指定した日時（9:00〜22:59）に、Hit設定で有効にしているすべてのアカウントで抽選に応募します。実行は10分おきに確認するので、最大10分ほど遅れます。
+        先着の予約は、抽選の結果が出た後に残った空き枠をその場で予約します。
+      </p>
+
+      {schedules.length > 0 ? (
+        <ul className="space-y-2">
+          {schedules.map((schedule) => (
+            <li
+              key={schedule.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm"
+            >
+              <div className={schedule.enabled ? "" : "opacity-50"}>
+                <p className="font-semibold text-stone-800">
+                  毎月{schedule.dayOfMonth}日 {schedule.time} / 1アカウント{schedule.entryCount}件 / {MODE_LABELS[schedule.mode]}
+                </p>
+                {schedule.lastRunMonth ? (
+                  <p className={`text-xs ${schedule.lastRunError ? "text-red-600" : "text-stone-500"}`}>
+                    前回 {schedule.lastRunMonth}: ジョブ{schedule.lastRunJobIds.length}件
+                    {schedule.lastRunError ? `（${schedule.lastRunError}）` : ""}
+                  </p>
+                ) : null}
+              </div>
+              <div className="flex gap-2 text-xs font-semibold">
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => void handleToggle(schedule)}
+                  className="rounded-full border border-stone-200 px-3 py-1 text-stone-700 transition hover:border-stone-400 disabled:opacity-60"
+                >
+                  {schedule.enabled ? "停止" : "再開"}
+                </button>
+                <button
+                  type="button"
+                  disabled={isSaving}
+                  onClick={() => void handleDelete(schedule)}
+                  className="rounded-full border border-stone-200 px-3 py-1 text-red-600 transition hover:border-red-300 disabled:opacity-60"
+                >
+                  削除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      <div className="space-y-1">
+        <label htmlFor="scheduleMode" className="text-xs font-medium text-stone-600">
+          実行する内容
+        </label>
+        <select
+          id="scheduleMode"
+          value={mode}
+          onChange={(event) => setMode(event.target.value as JobMode)}
+          className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+        >
+          {(Object.keys(MODE_LABELS) as JobMode[]).map((option) => (
+            <option key={option} value={option}>
+              {MODE_LABELS[option]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <label htmlFor="scheduleDay" className="text-xs font-medium text-stone-600">
+            毎月
+          </label>
+          <select
+            id="scheduleDay"
+            value={dayOfMonth}
+            onChange={(event) => setDayOfMonth(Number(event.target.value))}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          >
+            {DAY_OPTIONS.map((day) => (
+              <option key={day} value={day}>
+                {day}日
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="scheduleTime" className="text-xs font-medium text-stone-600">
+            時刻
+          </label>
+          <input
+            id="scheduleTime"
+            type="time"
+            min="09:00"
+            max="22:59"
+            value={time}
+            onChange={(event) => setTime(event.target.value)}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="scheduleEntryCount" className="text-xs font-medium text-stone-600">
+            1アカウントの件数
+          </label>
+          <select
+            id="scheduleEntryCount"
+            value={entryCount}
+            onChange={(event) => setEntryCount(Number(event.target.value))}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          >
+            {ENTRY_COUNT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="w-full rounded-2xl border border-stone-900/10 bg-stone-800 py-2 text-sm font-semibold text-white transition hover:bg-stone-900 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isSaving ? "保存中..." : "自動応募の予定を追加"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import { getFirestoreDb } from "@/lib/firebase";
+import {
+  CANDIDATE_SCORING_WEIGHT_KEYS,
+  MAX_CANDIDATE_SCORING_WEIGHT,
+  parseCandidateScoringSettings,
+  type CandidateScoringSettings,
+  type CandidateScoringWeights,
+  type RankedCandidate,
+} from "@/lib/sites/candidate-scoring";
+
+type Props = {
+  groupId: string;
+  initialSettings: CandidateScoringSettings;
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+type ScoringPreview = {
+  scoutedAt: string | null;
+  candidates: RankedCandidate[];
+};
+
+const WEIGHT_LABELS: Record<keyof CandidateScoringWeights, string> = {
+  applicants: "応募数が少ない",
+  distance: "施設が近い",
+  weekday: "希望の曜日",
+  evening: "平日の夜（17時以降）",
+  weekend: "土日",
+  spread: "日付をばらけさせる",
+};
+const WEIGHT_OPTIONS = Array.from({ length: MAX_CANDIDATE_SCORING_WEIGHT + 1 }, (_, index) => index);
+const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export function CandidateScoringForm({ groupId, initialSettings, onSaved }: Props) {
+  const [weights, setWeights] = useState(initialSettings.weights);
+  const [preferredWeekdays, setPreferredWeekdays] = useState(initialSettings.preferredWeekdays);
+  const [distancesText, setDistancesText] = useState(() => formatGymDistances(initialSettings));
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [preview, setPreview] = useState<ScoringPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildSettings = (): CandidateScoringSettings | null => {
+    const gymDistancesKm = parseGymDistances(distancesText);
+    if (!gymDistancesKm) {
+      setError("施設までの距離は「施設名,距離(km)」の形で1行ずつ入力してください。");
+      return null;
+    }
+
+    setError(null);
+    return parseCandidateScoringSettings({ weights, preferredWeekdays, gymDistancesKm });
+  };
+
+  const toggleWeekday = (day: number) => {
+    setPreferredWeekdays((current) =>
+      current.includes(day) ? current.filter((value) => value !== day) : [...current, day].sort((lhs, rhs) => lhs - rhs),
+    );
+  };
+
+  const handlePreview = async () => {
+    const settings = buildSettings();
+    if (!settings) {
+      return;
+    }
+
+    setIsPreviewing(true);
+
+    try {
+      const response = await fetch("/api/groups/scoring", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ groupId, settings }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to preview candidate scoring: ${response.status}`);
+      }
+
+      setPreview((await response.json()) as ScoringPreview);
+    } catch (previewError) {
+      console.error("Failed to preview candidate scoring", previewError);
+      onSaved("並び順のプレビューに失敗しました", "error");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const settings = buildSettings();
+    if (!settings) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        candidateScoring: settings,
+      });
+      onSaved("追加分の枠の選び方を保存しました");
+    } catch (saveError) {
+      console.error("Failed to save candidate scoring settings", saveError);
+      onSaved("追加分の枠の選び方の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">追加分の枠の選び方</p>
+      <p className="text-xs text-stone-500">
+        代表者リストより多く応募するときに、空き枠を探して選ぶ基準です。重みが大きい項目ほど優先します（0で使わない）。
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        {CANDIDATE_SCORING_WEIGHT_KEYS.map((key) => (
+          <div key={key} className="space-y-1">
+            <label htmlFor={`candidateScoring-${key}`} className="text-xs font-medium text-stone-600">
+              {WEIGHT_LABELS[key]}
+            </label>
+            <select
+              id={`candidateScoring-${key}`}
+              value={weights[key]}
+              onChange={(event) => setWeights((current) => ({ ...current, [key]: Number(event.target.value) }))}
+              className="w-full rounded-xl border border-stone-200 bg-white px-3 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+            >
+              {WEIGHT_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs font-medium text-stone-600">希望の曜日</p>
+        <div className="flex flex-wrap gap-3">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <label key={label} className="inline-flex items-center gap-1 text-sm text-stone-700">
+              <input type="checkbox" checked={preferredWeekdays.includes(day)} onChange={() => toggleWeekday(day)} />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <label htmlFor="candidateScoringDistances" className="text-xs font-medium text-stone-600">
+          施設までの距離（1行に「施設名,距離(km)」）
+        </label>
+        <textarea
+          id="candidateScoringDistances"
+          value={distancesText}
+          onChange={(event) => setDistancesText(event.target.value)}
+          rows={3}
+          placeholder={"中央体育館,2.5\n北区体育館,8"}
+          className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+        />
+      </div>
+
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center gap-2 rounded-full border border-sky-500 bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSaving ? "保存中..." : "保存"}
+        </button>
+        <button
+          type="button"
+          onClick={handlePreview}
+          disabled={isPreviewing}
+          className="inline-flex items-center gap-2 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm font-semibold text-stone-700 transition hover:border-stone-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isPreviewing ? "並べ替え中..." : "プレビュー"}
+        </button>
+      </div>
+
+      {preview ? (
+        preview.scoutedAt ? (
+          <div className="space-y-1">
+            <p className="text-xs text-stone-500">
+              {new Date(preview.scoutedAt).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" })}{" "}
+              時点の探索結果で並べた上位{preview.candidates.length}件
+            </p>
+            <ol className="space-y-1 text-xs text-stone-700">
+              {preview.candidates.map((candidate, index) => (
+                <li key={`${candidate.entry.gymName}-${candidate.entry.room}-${candidate.entry.date}-${candidate.entry.time}`}>
+                  {index + 1}. {candidate.entry.date} {candidate.entry.time} {candidate.entry.gymName}{" "}
+                  {candidate.entry.room}（応募数 {candidate.count} / 点数 {candidate.score.toFixed(2)}）
+                </li>
+              ))}
+            </ol>
+          </div>
+        ) : (
+          <p className="text-xs text-stone-500">まだ翌月分の探索結果がありません。一度応募を実行すると確認できます。</p>
+        )
+      ) : null}
+    </form>
+  );
+}
+
+function formatGymDistances(settings: CandidateScoringSettings): string {
+  return settings.gymDistancesKm.map((gym) => `${gym.gymName},${gym.km}`).join("\n");
+}
+
+function parseGymDistances(text: string): CandidateScoringSettings["gymDistancesKm"] | null {
+  const gymDistancesKm: CandidateScoringSettings["gymDistancesKm"] = [];
+
+  for (const line of text.split("\n").map((value) => value.trim())) {
+    if (!line) {
+      continue;
+    }
+
+    const separatorIndex = line.lastIndexOf(",");
+    const gymName = separatorIndex > 0 ? line.slice(0, separatorIndex).trim() : "";
+    const kmText = line.slice(separatorIndex + 1).trim();
+    const km = Number(kmText);
+    if (!gymName || !kmText || !Number.isFinite(km) || km < 0) {
+      return null;
+    }
+
+    gymDistancesKm.push({ gymName, km });
+  }
+
+  return gymDistancesKm;
+}
@@ -2,16 +2,24 @@
 
 import { type FormEvent, useState } from "react";
 
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+import { buildLotRequestUrlPrefix } from "@/lib/sites/lot-request-urls";
+
 type GroupUrlsFormProps = {
   groupId: string;
+  siteId: string;
   initialValue: string;
+  // 保存済みだが今のサイトのURLとして読めず、ジョブで使っていないURL
+  rejectedUrls: string[];
 };
 
-export function GroupUrlsForm({ groupId, initialValue }: GroupUrlsFormProps) {
+export function GroupUrlsForm({ groupId, siteId, initialValue, rejectedUrls }: GroupUrlsFormProps) {
   const [value, setValue] = useState(initialValue);
   const [status, setStatus] = useState<"idle" | "saving" | "success" | "error">("idle");
   const [message, setMessage] = useState<string | null>(null);
 
+  const urlPrefix = buildLotRequestUrlPrefix(resolveFacilitySite(siteId));
+
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setStatus("saving");
@@ -22,8 +30,6 @@ export function GroupUrlsForm({ groupId, initialValue }: GroupUrlsFormProps) {
       .map((line) => line.trim())
       .filter((line) => line.length > 0);
 
-    const urlPrefix = "https://yoyaku.harp.lg.jp/sapporo/LotRequests/Insert/";
-
     const hasInvalidUrl = urls.some((url) => !url.startsWith(urlPrefix));
 
     if (hasInvalidUrl) {
@@ -48,6 +54,8 @@ export function GroupUrlsForm({ groupId, initialValue }: GroupUrlsFormProps) {
         return;
       }
 
+      const data = (await response.json()) as { urls: string[] };
+      setValue(data.urls.join("\n"));
       setStatus("success");
       setMessage("保存しました");
     } catch (error) {
@@ -63,16 +71,30 @@ export function GroupUrlsForm({ groupId, initialValue }: GroupUrlsFormProps) {
         <label htmlFor="group-urls" className="block text-sm font-medium text-stone-600">
           抽選応募URLリスト
         </label>
+        <p className="mt-1 text-xs text-stone-500">
+          1行に1つ。登録するとジョブは代表者リストや空き枠の探索を使わず、このURLの抽選申込フォームに直接申し込みます。空にすると通常の探索に戻ります。
+        </p>
         <textarea
           id="group-urls"
           name="group-urls"
           value={value}
           onChange={(event) => setValue(event.target.value)}
-          className="mt-2 min-h-[320px] w-full rounded-3xl border border-stone-200 bg-white/90 p-5 text-sm text-stone-900 shadow-inner outline-none transition focus:border-sky-500"
-          placeholder={'https://yoyaku.harp.lg.jp/sapporo/LotRequests/Insert/xxxxxx/xxx0\nhttps://yoyaku.harp.lg.jp/sapporo/LotRequests/Insert/xxxxxx/xxx1\n...'}
+          className="mt-2 min-h-[160px] w-full rounded-3xl border border-stone-200 bg-white/90 p-5 text-sm text-stone-900 shadow-inner outline-none transition focus:border-sky-500"
+          placeholder={`${urlPrefix}xxxxxx/xxx0\n${urlPrefix}xxxxxx/xxx1\n...`}
         />
       </div>
 
+      {rejectedUrls.length > 0 && status !== "success" ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-xs text-red-700">
+          <p className="font-semibold">次のURLは {urlPrefix} の形ではないため、ジョブで使っていません。直したURLを上の一覧に足して保存してください。</p>
+          <ul className="mt-1 space-y-0.5 break-all">
+            {rejectedUrls.map((url, index) => (
+              <li key={`${index}-${url}`}>{url || "（空）"}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
       <button
         type="submit"
         disabled={status === "saving"}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import { getFirestoreDb } from "@/lib/firebase";
+import {
+  parseLotRequestSettings,
+  type LotRequestExtraField,
+  type LotRequestSettings,
+} from "@/lib/sites/lot-request-settings";
+
+type Props = {
+  groupId: string;
+  initialSettings: LotRequestSettings;
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+export function LotRequestSettingsForm({ groupId, initialSettings, onSaved }: Props) {
+  const [sport, setSport] = useState(initialSettings.sport);
+  const [participants, setParticipants] = useState(String(initialSettings.participants));
+  const [extraFields, setExtraFields] = useState<LotRequestExtraField[]>(initialSettings.extraFields);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExtraFieldChange = (index: number, key: keyof LotRequestExtraField, value: string) => {
+    setExtraFields((current) => current.map((field, i) => (i === index ? { ...field, [key]: value } : field)));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const settings = parseLotRequestSettings({ sport, participants, extraFields });
+
+    if (!settings) {
+      setError("利用目的と利用人数（1以上の整数）を入力してください。");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        lotRequest: settings,
+      });
+      setExtraFields(settings.extraFields);
+      onSaved("申込フォームの設定を保存しました");
+    } catch (saveError) {
+      console.error("Failed to save lot request settings", saveError);
+      onSaved("申込フォームの設定の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">申込フォームの入力内容</p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="lotRequestSport" className="text-xs font-medium text-stone-600">
+            利用目的（種目）
+          </label>
+          <input
+            id="lotRequestSport"
+            value={sport}
+            onChange={(event) => setSport(event.target.value)}
+            placeholder="バドミントン"
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="lotRequestParticipants" className="text-xs font-medium text-stone-600">
+            利用人数
+          </label>
+          <input
+            id="lotRequestParticipants"
+            type="number"
+            min={1}
+            value={participants}
+            onChange={(event) => setParticipants(event.target.value)}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-stone-600">その他の入力項目（申込画面のラベル名と入力値）</p>
+        {extraFields.map((field, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              value={field.label}
+              onChange={(event) => handleExtraFieldChange(index, "label", event.target.value)}
+              placeholder="項目名"
+              aria-label={`項目名${index + 1}`}
+              className="w-1/2 rounded-xl border border-stone-200 bg-white px-3 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+            />
+            <input
+              value={field.value}
+              onChange={(event) => handleExtraFieldChange(index, "value", event.target.value)}
+              placeholder="入力値"
+              aria-label={`入力値${index + 1}`}
+              className="w-1/2 rounded-xl border border-stone-200 bg-white px-3 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+            />
+            <button
+              type="button"
+              onClick={() => setExtraFields((current) => current.filter((_, i) => i !== index))}
+              className="rounded-full border border-stone-200 bg-white/80 p-2 text-stone-600 transition hover:border-red-300 hover:text-red-600"
+              aria-label="削除"
+            >
+              🗑️
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setExtraFields((current) => [...current, { label: "", value: "" }])}
+          className="text-xs font-semibold text-sky-700 hover:text-sky-900"
+        >
+          ➕ 項目を追加
+        </button>
+      </div>
+
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="inline-flex items-center gap-2 rounded-full border border-sky-500 bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isSaving ? "保存中..." : "保存"}
+      </button>
+    </form>
+  );
+}
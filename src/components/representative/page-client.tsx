@@ -4,7 +4,20 @@ import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { ChangeEvent, DragEvent } from "react";
 import { doc, updateDoc } from "firebase/firestore";
 
+import type { ApplicationSchedule } from "@/lib/api/application-schedules";
 import { getFirestoreDb } from "@/lib/firebase";
+import type { CandidateScoringSettings } from "@/lib/sites/candidate-scoring";
+import { FACILITY_SITES } from "@/lib/sites/facility-sites";
+import type { LotRequestSettings } from "@/lib/sites/lot-request-settings";
+import type { SeekSlotRules } from "@/lib/sites/seek-slot-rules";
+import type { WinCancelRules } from "@/lib/sites/win-cancel-rules";
+import { ApplicationSchedulesForm } from "@/components/representative/application-schedules-form";
+import { CandidateScoringForm } from "@/components/representative/candidate-scoring-form";
+import { GroupUrlsForm } from "@/components/representative/group-urls-form";
+import { LotRequestSettingsForm } from "@/components/representative/lot-request-settings-form";
+import { SeekFacilitiesForm } from "@/components/representative/seek-facilities-form";
+import { SeekRulesForm } from "@/components/representative/seek-rules-form";
+import { WinCancellationForm } from "@/components/representative/win-cancellation-form";
 
 const GEMINI_API_KEY = process.env.NEXT_PUBLIC_GEMINI_API_KEY;
 const GEMINI_MODEL = process.env.NEXT_PUBLIC_GEMINI_MODEL ?? "gemini-2.5-flash";
@@ -20,11 +33,31 @@ type Props = {
   groupId: string;
   groupName?: string | null;
   initialEntries?: RepresentativeEntry[];
+  initialSiteId: string;
+  initialLotRequest: LotRequestSettings;
+  initialCandidateScoring: CandidateScoringSettings;
+  initialSeekRules: SeekSlotRules;
+  initialSchedules: ApplicationSchedule[];
+  initialUrls: string[];
+  initialRejectedUrls: string[];
+  initialWinCancelRules: WinCancelRules;
 };
 
 type UploadStatus = "idle" | "uploading" | "success" | "error";
 
-export function RepresentativePageClient({ groupId, groupName, initialEntries = [] }: Props) {
+export function RepresentativePageClient({
+  groupId,
+  groupName,
+  initialEntries = [],
+  initialSiteId,
+  initialLotRequest,
+  initialCandidateScoring,
+  initialSeekRules,
+  initialSchedules,
+  initialUrls,
+  initialRejectedUrls,
+  initialWinCancelRules,
+}: Props) {
   const [status, setStatus] = useState<UploadStatus>("idle");
   const [error, setError] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
@@ -34,6 +67,7 @@ export function RepresentativePageClient({ groupId, groupName, initialEntries =
   const [toast, setToast] = useState<{ message: string; tone: "success" | "error" } | null>(null);
   const [editingEntry, setEditingEntry] = useState<RepresentativeEntry | null>(null);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [siteId, setSiteId] = useState(initialSiteId);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const toastTimeoutRef = useRef<number | null>(null);
   const editingDateInputValue = useMemo(() => convertDisplayDateToInput(editingEntry?.date), [editingEntry?.date]);
@@ -230,6 +264,20 @@ export function RepresentativePageClient({ groupId, groupName, initialEntries =
     handleDialogClose();
   }, [editingEntry, editingIndex, entries, groupId, handleDialogClose, showToast]);
 
+  const handleSiteChange = useCallback(async (nextSiteId: string) => {
+    const previousSiteId = siteId;
+    setSiteId(nextSiteId);
+
+    try {
+      await saveSiteIdToGroup(groupId, nextSiteId);
+      showToast("予約サイトを更新しました");
+    } catch (saveError) {
+      console.error("Failed to update site", saveError);
+      setSiteId(previousSiteId);
+      showToast("予約サイトの更新に失敗しました", "error");
+    }
+  }, [groupId, showToast, siteId]);
+
   const handleEditingFieldChange = useCallback((field: keyof RepresentativeEntry, value: string) => {
     setEditingEntry((prev) => (prev ? { ...prev, [field]: value } : prev));
   }, []);
@@ -276,6 +324,43 @@ export function RepresentativePageClient({ groupId, groupName, initialEntries =
         <p className="text-xs font-semibold uppercase tracking-[0.3em] text-stone-500">Representative</p>
         <h1 className="text-2xl font-semibold text-stone-900">サークル: {groupName ?? groupId}</h1>
 
+        <div className="space-y-2">
+          <label htmlFor="facilitySite" className="text-sm font-medium text-stone-600">
+            予約サイト
+          </label>
+          <select
+            id="facilitySite"
+            value={siteId}
+            onChange={(event) => {
+              void handleSiteChange(event.target.value);
+            }}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-3 text-sm text-stone-900 outline-none transition focus:border-stone-500 focus:bg-white"
+          >
+            {FACILITY_SITES.map((site) => (
+              <option key={site.id} value={site.id}>
+                {site.label} ({site.baseUrl})
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <LotRequestSettingsForm groupId={groupId} initialSettings={initialLotRequest} onSaved={showToast} />
+        <div className="rounded-3xl border border-stone-200 bg-white/70 p-6">
+          <GroupUrlsForm
+            key={siteId}
+            groupId={groupId}
+            siteId={siteId}
+            initialValue={initialUrls.join("\n")}
+            rejectedUrls={siteId === initialSiteId ? initialRejectedUrls : []}
+          />
+        </div>
+        <SeekFacilitiesForm groupId={groupId} onSaved={showToast} />
+        <SeekRulesForm groupId={groupId} initialRules={initialSeekRules} onSaved={showToast} />
+        <CandidateScoringForm groupId={groupId} initialSettings={initialCandidateScoring} onSaved={showToast} />
+
+        <ApplicationSchedulesForm groupId={groupId} initialSchedules={initialSchedules} onSaved={showToast} />
+        <WinCancellationForm groupId={groupId} initialRules={initialWinCancelRules} onSaved={showToast} />
+
         <div className="flex flex-wrap items-center gap-3 text-sm sm:justify-between">
           <div className="flex flex-wrap gap-3">
             <button
@@ -807,3 +892,10 @@ async function saveEntriesToGroup(
   });
   return formattedEntries;
 }
+
+async function saveSiteIdToGroup(groupId: string, siteId: string): Promise<void> {
+  const db = getFirestoreDb();
+  await updateDoc(doc(db, "groups", groupId), {
+    siteId,
+  });
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import type { FacilityCatalogue, FacilityCategory, SeekFacility } from "@/lib/api/facility-catalogue";
+import { getFirestoreDb } from "@/lib/firebase";
+
+type Props = {
+  groupId: string;
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+const CATEGORY_LABELS: Record<FacilityCategory, string> = {
+  gym: "体育館など（月の前半に探索）",
+  school: "学校開放（月の後半に探索）",
+};
+
+export function SeekFacilitiesForm({ groupId, onSaved }: Props) {
+  const [catalogue, setCatalogue] = useState<FacilityCatalogue | null>(null);
+  // 施設コード → 選んだ室場コード
+  const [selectedRooms, setSelectedRooms] = useState<Record<string, string[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadCatalogue = async () => {
+      try {
+        const response = await fetch(`/api/groups/facilities?groupId=${encodeURIComponent(groupId)}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch facility catalogue: ${response.status}`);
+        }
+
+        const data = (await response.json()) as { catalogue: FacilityCatalogue; selected: SeekFacility[] };
+        if (!cancelled) {
+          setCatalogue(data.catalogue);
+          setSelectedRooms(Object.fromEntries(data.selected.map((facility) => [facility.code, facility.rooms])));
+        }
+      } catch (loadError) {
+        console.error("Failed to fetch facility catalogue", loadError);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    void loadCatalogue();
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId]);
+
+  const toggleRoom = (facilityCode: string, roomCode: string) => {
+    setSelectedRooms((current) => {
+      const rooms = current[facilityCode] ?? [];
+      const nextRooms = rooms.includes(roomCode) ? rooms.filter((room) => room !== roomCode) : [...rooms, roomCode];
+      return { ...current, [facilityCode]: nextRooms };
+    });
+  };
+
+  const saveSelection = async (seekFacilities: SeekFacility[], successMessage: string) => {
+    setIsSaving(true);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        seekFacilities,
+      });
+      onSaved(successMessage);
+    } catch (saveError) {
+      console.error("Failed to save seek facilities", saveError);
+      onSaved("探索する施設の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    // 施設一覧の並び順のまま保存する（比較画面にもこの順で並ぶ）
+    const seekFacilities = (catalogue?.facilities ?? []).flatMap((facility): SeekFacility[] => {
+      const rooms = facility.rooms.map((room) => room.code).filter((code) => selectedRooms[facility.code]?.includes(code));
+      return rooms.length > 0 ? [{ code: facility.code, category: facility.category, rooms }] : [];
+    });
+    await saveSelection(seekFacilities, "探索する施設を保存しました");
+  };
+
+  const handleReset = async () => {
+    setSelectedRooms({});
+    await saveSelection([], "探索する施設をサイト既定に戻しました");
+  };
+
+  const facilities = catalogue?.facilities ?? [];
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">探索する施設</p>
+      <p className="text-xs text-stone-500">
+        空き枠の探索で見て回る施設と室場です。どれも選ばない区分はサイト既定の施設を探索します。
+        {catalogue?.refreshedAt
+          ? `（施設一覧の更新: ${new Date(catalogue.refreshedAt).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" })}）`
+          : null}
+      </p>
+
+      {isLoading ? (
+        <p className="text-xs text-stone-500">施設一覧を読み込み中...</p>
+      ) : facilities.length === 0 ? (
+        <p className="text-xs text-stone-500">施設一覧がまだありません。施設一覧の更新ジョブを実行してください。</p>
+      ) : (
+        (Object.keys(CATEGORY_LABELS) as FacilityCategory[]).map((category) => (
+          <div key={category} className="space-y-1">
+            <p className="text-xs font-medium text-stone-600">{CATEGORY_LABELS[category]}</p>
+            <div className="max-h-64 space-y-1 overflow-y-auto rounded-xl border border-stone-200 bg-white px-3 py-2">
+              {facilities
+                .filter((facility) => facility.category === category)
+                .map((facility) => (
+                  <div key={facility.code} className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-stone-700">
+                    <span className="font-medium">{facility.name || facility.code}</span>
+                    {facility.rooms.map((room) => (
+                      <label key={room.code} className="inline-flex items-center gap-1 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={selectedRooms[facility.code]?.includes(room.code) ?? false}
+                          onChange={() => toggleRoom(facility.code, room.code)}
+                        />
+                        {room.name || room.code}
+                      </label>
+                    ))}
+                  </div>
+                ))}
+            </div>
+          </div>
+        ))
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          disabled={isSaving || facilities.length === 0}
+          className="inline-flex items-center gap-2 rounded-full border border-sky-500 bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSaving ? "保存中..." : "保存"}
+        </button>
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={isSaving}
+          className="inline-flex items-center gap-2 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm font-semibold text-stone-700 transition hover:border-stone-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          サイト既定に戻す
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import { getFirestoreDb } from "@/lib/firebase";
+import { parseSeekSlotRules, type SeekSlotRules, type SeekStartHourRange } from "@/lib/sites/seek-slot-rules";
+
+type Props = {
+  groupId: string;
+  initialRules: SeekSlotRules;
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+const HOUR_OPTIONS = Array.from({ length: 25 }, (_, index) => index);
+
+export function SeekRulesForm({ groupId, initialRules, onSaved }: Props) {
+  const [weekdayStartHours, setWeekdayStartHours] = useState(initialRules.weekdayStartHours);
+  const [holidayStartHours, setHolidayStartHours] = useState(initialRules.holidayStartHours);
+  const [excludedBooths, setExcludedBooths] = useState(initialRules.excludedBooths.join("\n"));
+  const [excludedFacilities, setExcludedFacilities] = useState(initialRules.excludedFacilities.join("\n"));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const rules = parseSeekSlotRules({
+      weekdayStartHours,
+      holidayStartHours,
+      excludedBooths: splitLines(excludedBooths),
+      excludedFacilities: splitLines(excludedFacilities),
+    });
+
+    if (!rules) {
+      setError("開始時刻は「から」より「まで」を後にしてください。");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        seekRules: rules,
+      });
+      onSaved("探索する枠の条件を保存しました");
+    } catch (saveError) {
+      console.error("Failed to save seek rules", saveError);
+      onSaved("探索する枠の条件の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">探索する枠の条件</p>
+      <p className="text-xs text-stone-500">
+        追加分の探索と、代表者リストの部分指定（日付だけ等）の枠探しに使います。開始時刻が範囲外の枠と、除外した面・施設の枠は選びません。
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <StartHourRangeField
+          id="seekRulesWeekday"
+          label="平日（祝日を除く月〜金）の開始時刻"
+          value={weekdayStartHours}
+          onChange={setWeekdayStartHours}
+        />
+        <StartHourRangeField
+          id="seekRulesHoliday"
+          label="土日祝の開始時刻"
+          value={holidayStartHours}
+          onChange={setHolidayStartHours}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="seekRulesBooths" className="text-xs font-medium text-stone-600">
+            除外する面（1行に1つ。例: 全面、半面）
+          </label>
+          <textarea
+            id="seekRulesBooths"
+            value={excludedBooths}
+            onChange={(event) => setExcludedBooths(event.target.value)}
+            rows={3}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="seekRulesFacilities" className="text-xs font-medium text-stone-600">
+            除外する施設（1行に1つ。施設名の一部でも可）
+          </label>
+          <textarea
+            id="seekRulesFacilities"
+            value={excludedFacilities}
+            onChange={(event) => setExcludedFacilities(event.target.value)}
+            rows={3}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+      </div>
+
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="inline-flex items-center gap-2 rounded-full border border-sky-500 bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isSaving ? "保存中..." : "保存"}
+      </button>
+    </form>
+  );
+}
+
+function StartHourRangeField({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: SeekStartHourRange;
+  onChange: (value: SeekStartHourRange) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <label htmlFor={`${id}From`} className="text-xs font-medium text-stone-600">
+        {label}
+      </label>
+      <div className="flex items-center gap-2 text-sm text-stone-700">
+        <select
+          id={`${id}From`}
+          value={value.from}
+          onChange={(event) => onChange({ ...value, from: Number(event.target.value) })}
+          className="rounded-xl border border-stone-200 bg-white px-3 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+        >
+          {HOUR_OPTIONS.slice(0, 24).map((hour) => (
+            <option key={hour} value={hour}>
+              {hour}時
+            </option>
+          ))}
+        </select>
+        から
+        <select
+          aria-label={`${label}（まで）`}
+          value={value.to}
+          onChange={(event) => onChange({ ...value, to: Number(event.target.value) })}
+          className="rounded-xl border border-stone-200 bg-white px-3 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+        >
+          {HOUR_OPTIONS.slice(1).map((hour) => (
+            <option key={hour} value={hour}>
+              {hour}時
+            </option>
+          ))}
+        </select>
+        より前
+      </div>
+    </div>
+  );
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split(/[\n,、]/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { doc, updateDoc } from "firebase/firestore";
+
+import type { WinCancellationPlanItem, WinCancellationRun } from "@/lib/api/win-cancellations";
+import { getFirestoreDb } from "@/lib/firebase";
+import { parseWinCancelRules, type WinCancelRules } from "@/lib/sites/win-cancel-rules";
+
+type Props = {
+  groupId: string;
+  initialRules: WinCancelRules;
+  onSaved: (message: string, tone?: "success" | "error") => void;
+};
+
+type PreviewState = {
+  run: WinCancellationRun | null;
+  plan: WinCancellationPlanItem[];
+};
+
+const MAX_PER_DAY_OPTIONS = [1, 2, 3, 4, 5];
+
+export function WinCancellationForm({ groupId, initialRules, onSaved }: Props) {
+  const [maxPerDay, setMaxPerDay] = useState<number | null>(initialRules.maxPerDay);
+  const [dropFacilities, setDropFacilities] = useState(initialRules.dropFacilities.join("\n"));
+  const [preview, setPreview] = useState<PreviewState>({ run: null, plan: [] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  // 増やすとプレビューを読み直す
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPreview = async () => {
+      try {
+        const response = await fetch(`/api/groups/cancellations?groupId=${encodeURIComponent(groupId)}`);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch win cancellation preview: ${response.status}`);
+        }
+
+        const data = (await response.json()) as PreviewState;
+        if (!cancelled) {
+          setPreview({ run: data.run ?? null, plan: data.plan ?? [] });
+        }
+      } catch (loadError) {
+        console.error("Failed to fetch win cancellation preview", loadError);
+      }
+    };
+
+    void loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [groupId, reloadCount]);
+
+  const reloadPreview = () => setReloadCount((count) => count + 1);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const rules = parseWinCancelRules({ maxPerDay, dropFacilities: splitLines(dropFacilities) });
+    if (!rules) {
+      onSaved("取り消す当選の条件が正しくありません", "error");
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const db = getFirestoreDb();
+      await updateDoc(doc(db, "groups", groupId), {
+        winCancelRules: rules,
+      });
+      onSaved("取り消す当選の条件を保存しました");
+      reloadPreview();
+    } catch (saveError) {
+      console.error("Failed to save win cancel rules", saveError);
+      onSaved("取り消す当選の条件の保存に失敗しました", "error");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const requestCancellation = async (endpoint: string, body: Record<string, unknown>, successMessage: string) => {
+    setIsRunning(true);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ groupId, ...body }),
+      });
+
+      if (!response.ok) {
+        const data = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(data?.error ?? "実行に失敗しました");
+      }
+
+      onSaved(successMessage);
+      reloadPreview();
+    } catch (runError) {
+      console.error("Failed to run win cancellation", runError);
+      onSaved(runError instanceof Error ? runError.message : "実行に失敗しました", "error");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleScan = async () => {
+    await requestCancellation(
+      "/api/groups/cancellations",
+      {},
+      "当選の確認を始めました。数分後に「再読み込み」で取り消す予定を確認してください",
+    );
+  };
+
+  const cancelItems = preview.plan.filter((item) => item.action === "cancel");
+  const run = preview.run;
+  const scannedCount = run ? run.accounts.filter((account) => account.scannedAt).length : 0;
+  const canConfirm = run?.status === "scanning" && scannedCount >= run.total && cancelItems.length > 0;
+
+  const handleConfirm = async () => {
+    if (!run || !canConfirm) {
+      return;
+    }
+
+    if (!window.confirm(`当選${cancelItems.length}件をサイト上で取り消します。取り消した当選は元に戻せません。よろしいですか？`)) {
+      return;
+    }
+
+    await requestCancellation(
+      "/api/groups/cancellations/confirm",
+      { runId: run.id, cancelUrls: cancelItems.map((item) => item.detailUrl) },
+      "取り消しを始めました",
+    );
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-3xl border border-stone-200 bg-white/70 p-6">
+      <p className="text-sm font-semibold text-stone-700">余った当選の取り消し</p>
+      <p className="text-xs text-stone-500">
+        Hit設定の全アカウントの当選（翌月分）を読み、条件に合う当選を取り消す予定として表示します。確認の時点では何も取り消しません。内容を確かめてから「取り消しを確定」を押すと、表示した当選だけをサイト上で取り消します。
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label htmlFor="winCancelMaxPerDay" className="text-xs font-medium text-stone-600">
+            1日に残す当選の数（グループ全体）
+          </label>
+          <select
+            id="winCancelMaxPerDay"
+            value={maxPerDay ?? ""}
+            onChange={(event) => setMaxPerDay(event.target.value ? Number(event.target.value) : null)}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          >
+            <option value="">制限しない</option>
+            {MAX_PER_DAY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {option}件まで
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor="winCancelDropFacilities" className="text-xs font-medium text-stone-600">
+            取り消す施設（施設名の一部を1行に1つ）
+          </label>
+          <textarea
+            id="winCancelDropFacilities"
+            value={dropFacilities}
+            onChange={(event) => setDropFacilities(event.target.value)}
+            rows={3}
+            className="w-full rounded-xl border border-stone-200 bg-white px-4 py-2 text-sm text-stone-900 outline-none transition focus:border-stone-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="inline-flex items-center gap-2 rounded-full border border-sky-500 bg-sky-500 px-4 py-2 text-sm font-semibold text-white transition hover:bg-sky-600 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isSaving ? "保存中..." : "条件を保存"}
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleScan()}
+          disabled={isRunning}
+          className="inline-flex items-center gap-2 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm font-semibold text-stone-700 transition hover:border-stone-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          当選を確認（ドライラン）
+        </button>
+        <button
+          type="button"
+          onClick={reloadPreview}
+          disabled={isRunning}
+          className="inline-flex items-center gap-2 rounded-full border border-stone-300 bg-white px-4 py-2 text-sm font-semibold text-stone-700 transition hover:border-stone-500 disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          再読み込み
+        </button>
+      </div>
+
+      {run ? (
+        <div className="space-y-2">
+          <p className="text-xs text-stone-500">
+            {run.status === "confirmed"
+              ? `取り消しを確定しました（${run.cancelUrls.length}件）`
+              : `当選の確認: ${scannedCount}/${run.total}アカウント`}
+            {run.createdAt
+              ? `（確認開始: ${new Date(run.createdAt).toLocaleString("ja-JP", { timeZone: "Asia/Tokyo" })}）`
+              : null}
+          </p>
+          {preview.plan.length > 0 ? (
+            <ul className="space-y-1">
+              {preview.plan.map((item) => (
+                <li
+                  key={item.detailUrl}
+                  className="flex flex-wrap items-center justify-between gap-2 rounded-xl border border-stone-200 bg-white px-4 py-2 text-xs text-stone-700"
+                >
+                  <span>
+                    {item.date} {item.time} {item.gymName} {item.room}
+                    {item.accountName ? ` / ${item.accountName}` : ""}
+                  </span>
+                  <span className={item.action === "cancel" ? "font-semibold text-red-600" : "text-stone-500"}>
+                    {describePlanItem(item, run)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-stone-500">当選はまだ見つかっていません。</p>
+          )}
+          {run.status === "scanning" ? (
+            <button
+              type="button"
+              onClick={() => void handleConfirm()}
+              disabled={isRunning || !canConfirm}
+              className="w-full rounded-2xl border border-red-900/10 bg-red-600 py-2 text-sm font-semibold text-white transition hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {isRunning ? "実行中..." : `取り消しを確定（${cancelItems.length}件）`}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </form>
+  );
+}
+
+function describePlanItem(item: WinCancellationPlanItem, run: WinCancellationRun): string {
+  if (item.action === "keep") {
+    return "残す";
+  }
+
+  if (run.status === "confirmed") {
+    const account = run.accounts.find((candidate) => candidate.key === item.accountKey);
+    if (account?.cancelled.includes(item.detailUrl)) {
+      return "取り消しました";
+    }
+    const failure = account?.failed.find((candidate) => candidate.detailUrl === item.detailUrl);
+    if (failure) {
+      return `取り消しに失敗: ${failure.error}`;
+    }
+    return account?.cancelledAt ? "取り消していません（当選でなくなっていました）" : "取り消し中";
+  }
+
+  return `取り消す予定（${item.reason ?? ""}）`;
+}
+
+function splitLines(value: string): string[] {
+  return value
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
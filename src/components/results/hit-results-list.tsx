@@ -10,15 +10,17 @@ export type HitResultRowItem = {
   room: string;
   accountName: string;
   accountId: string;
+  // 当選 / 当選確定。旧データから移行した行は空
+  status: string;
 };
 
 type HitResultsListProps = {
   rows: HitResultRowItem[];
+  loginUrl: string;
 };
 
-export function HitResultsList({ rows }: HitResultsListProps) {
+export function HitResultsList({ rows, loginUrl }: HitResultsListProps) {
   const [copiedKey, setCopiedKey] = useState<string | null>(null);
-  const LOGIN_URL = "https://yoyaku.harp.lg.jp/sapporo/Login";
 
   const rowMap = useMemo(
     () =>
@@ -49,7 +51,7 @@ export function HitResultsList({ rows }: HitResultsListProps) {
     if (normalizedAccountId) {
       await copyText(normalizedAccountId);
     }
-    window.location.href = LOGIN_URL;
+    window.location.href = loginUrl;
   };
 
   if (rows.length === 0) {
@@ -69,6 +71,7 @@ export function HitResultsList({ rows }: HitResultsListProps) {
               className="min-w-0 flex-1 px-1 py-1 text-left"
             >
               <p className="text-xs font-mono text-stone-800">
+                {row.status ? `[${row.status}] ` : ""}
                 {row.date || "-"} / {row.time || "-"} / {row.gymName || "-"} / {row.room || "-"} / {row.accountName || "-"}
               </p>
             </button>
@@ -4,6 +4,9 @@ import Image from "next/image";
 import { type FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import { doc, getDoc, onSnapshot, type Timestamp } from "firebase/firestore";
 
+import { JobResultTable } from "@/components/job-result-table";
+import { DEFAULT_JOB_MODE, resolveJobMode, type JobMode } from "@/lib/api/job-mode";
+import { parseJobResult, type JobEntry, type JobResult } from "@/lib/api/job-result";
 import { getFirestoreDb } from "@/lib/firebase";
 
 type StartJobFormProps = {
@@ -16,18 +19,47 @@ type StartJobFormProps = {
   bulkCredentialPlaceholder?: string;
   initialBulkCredentialValue?: string;
   groupLabel?: string | null;
+  siteLabel: string;
+  requestStatusUrl: string;
 };
 
 const JOB_CACHE_KEY = "startJobPendingJob";
 const SUBMISSION_WINDOW_MESSAGE = "応募の受付時間は毎日9:00〜22:59です。時間内に操作してください。";
 // Set to a job id to force showing its result for design/debug work.
 const DEBUG_RESULT_JOB_ID = "";
+// cancelling はワーカーが止まるまで実行中として扱う
+const ACTIVE_JOB_STATUSES = new Set(["pending", "cancelling"]);
 
 type JobDocumentData = {
   status?: string;
   message?: string | null;
   progress?: string | null;
   createdAt?: Timestamp | null;
+  dryRun?: boolean;
+  mode?: unknown;
+  result?: unknown;
+  checkpoint?: unknown;
+};
+
+type JobResultState = {
+  jobId: string;
+  status: string;
+  message: string | null;
+  dryRun?: boolean;
+  mode?: JobMode;
+  result?: JobResult | null;
+  resumable?: boolean;
+};
+
+// /api/jobs は entryCount/dryRun/mode/entries、/api/jobs/resume は jobId を使う
+type JobRequestPayload = {
+  userId: string;
+  password: string;
+  entryCount?: number;
+  dryRun?: boolean;
+  mode?: JobMode;
+  entries?: JobEntry[];
+  jobId?: string;
 };
 
 type CachedJobState = {
@@ -49,6 +81,8 @@ export function StartJobForm({
   bulkCredentialPlaceholder,
   initialBulkCredentialValue,
   groupLabel,
+  siteLabel,
+  requestStatusUrl,
 }: StartJobFormProps) {
   const [loginId, setLoginId] = useState("");
   const [password, setPassword] = useState("");
@@ -58,13 +92,15 @@ export function StartJobForm({
   const [entryCount, setEntryCount] = useState(() => {
     return resolveDefaultEntryCount(entryOptions, defaultEntryCount);
   });
+  const [dryRun, setDryRun] = useState(false);
+  const [mode, setMode] = useState<JobMode>(DEFAULT_JOB_MODE);
   const [submitting, setSubmitting] = useState(false);
   const [feedback, setFeedback] = useState<string | null>(null);
   const [isError, setIsError] = useState(false);
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
   const [jobId, setJobId] = useState<string | null>(null);
   const [jobStatus, setJobStatus] = useState<string | null>(null);
-  const [jobResult, setJobResult] = useState<{ status: string; message: string | null } | null>(null);
+  const [jobResult, setJobResult] = useState<JobResultState | null>(null);
   const [jobHtmlUrl, setJobHtmlUrl] = useState<string | null>(null);
   const [jobProgress, setJobProgress] = useState<string | null>(null);
   const [jobDebugImageUrl, setJobDebugImageUrl] = useState<string | null>(null);
@@ -72,8 +108,11 @@ export function StartJobForm({
   const [isInitialized, setIsInitialized] = useState(false);
   const [isSubmissionWindowOpen, setIsSubmissionWindowOpen] = useState(() => isWithinSubmissionWindow());
   const [toast, setToast] = useState<{ message: string; tone: "error" | "info" } | null>(null);
+  const [cancelRequesting, setCancelRequesting] = useState(false);
   const workflowLinkTimeoutRef = useRef<number | null>(null);
   const latestJobIdRef = useRef<string | null>(null);
+  // 失敗行の再試行用。Cookieのパスワードは送信後に消すのでメモリ上にだけ残す
+  const submittedCredentialsRef = useRef<{ userId: string; password: string } | null>(null);
   const jobSnapshotUnsubscribeRef = useRef<null | (() => void)>(null);
   const toastTimeoutRef = useRef<number | null>(null);
 
@@ -127,10 +166,63 @@ export function StartJobForm({
       return;
     }
 
-    if (!window.confirm("抽選に応募しますがよろしいですか？")) {
+    const confirmMessage = dryRun
+      ? "ドライランで実行します。申込確定の直前で停止し、実際の応募は行いません。よろしいですか？"
+      : mode === "first_come"
+        ? "抽選後に残った空き枠を先着で予約します。予約はその場で確定しますがよろしいですか？"
+        : "抽選に応募しますがよろしいですか？";
+    if (!window.confirm(confirmMessage)) {
+      return;
+    }
+
+    await dispatchJob("/api/jobs", { userId: loginId, password, entryCount, dryRun, mode });
+  }
+
+  async function handleRetryEntry(entry: JobEntry) {
+    if (!isSubmissionWindowOpen) {
+      showToast(SUBMISSION_WINDOW_MESSAGE);
+      return;
+    }
+
+    const credentials = submittedCredentialsRef.current ?? (loginId && password ? { userId: loginId, password } : null);
+    if (!credentials) {
+      showToast("再試行するにはID/パスワードをもう一度入力してください");
+      return;
+    }
+
+    const dryRunRetry = jobResult?.dryRun === true;
+    const confirmMessage = `${entry.date} ${entry.time} ${entry.gymName} ${entry.room} に${dryRunRetry ? "ドライランで" : ""}再応募します。よろしいですか？`;
+    if (!window.confirm(confirmMessage)) {
+      return;
+    }
+
+    await dispatchJob("/api/jobs", { ...credentials, entryCount: 1, dryRun: dryRunRetry, entries: [entry] });
+  }
+
+  async function handleResumeJob() {
+    if (!jobResult?.resumable) {
+      return;
+    }
+
+    if (!isSubmissionWindowOpen) {
+      showToast(SUBMISSION_WINDOW_MESSAGE);
+      return;
+    }
+
+    const credentials = submittedCredentialsRef.current ?? (loginId && password ? { userId: loginId, password } : null);
+    if (!credentials) {
+      showToast("再開するにはID/パスワードをもう一度入力してください");
       return;
     }
 
+    if (!window.confirm("中断したところから応募を再開します。よろしいですか？")) {
+      return;
+    }
+
+    await dispatchJob("/api/jobs/resume", { ...credentials, jobId: jobResult.jobId });
+  }
+
+  async function dispatchJob(endpoint: "/api/jobs" | "/api/jobs/resume", payload: JobRequestPayload) {
     setSubmitting(true);
     setFeedback(null);
     setIsError(false);
@@ -144,15 +236,13 @@ export function StartJobForm({
     }
 
     try {
-      const response = await fetch("/api/jobs", {
+      const response = await fetch(endpoint, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          userId: loginId,
-          password,
-          entryCount,
+          ...payload,
           groupId,
           label: normalizedGroupLabel,
         }),
@@ -172,6 +262,9 @@ export function StartJobForm({
 
         setIsError(true);
         setFeedback(errorMessage);
+        if (jobResult) {
+          showToast(errorMessage);
+        }
         return;
       }
 
@@ -188,6 +281,7 @@ export function StartJobForm({
       setJobDebugImageUrl(null);
       setJobStatus("pending");
       setJobResult(null);
+      submittedCredentialsRef.current = { userId: payload.userId, password: payload.password };
       setPassword("");
 
       upsertCachedJobState({ firestoreJobId: data.jobId });
@@ -263,6 +357,39 @@ export function StartJobForm({
     setJobDebugImageUrl(null);
   }
 
+  async function handleCancelJob() {
+    const activeJobId = latestJobIdRef.current;
+    if (!activeJobId || jobStatus === "cancelling") {
+      return;
+    }
+
+    if (!window.confirm("応募を中止しますか？処理中の枠が終わったところで止まります。")) {
+      return;
+    }
+
+    setCancelRequesting(true);
+
+    try {
+      const response = await fetch("/api/jobs/cancel", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ jobId: activeJobId }),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as { error?: string } | null;
+        showToast(payload?.error ?? "中止の受付に失敗しました");
+      }
+    } catch (error) {
+      console.error("Failed to cancel job", error);
+      showToast("中止の受付に失敗しました");
+    } finally {
+      setCancelRequesting(false);
+    }
+  }
+
   function showToast(message: string, tone: "error" | "info" = "error") {
     setToast({ message, tone });
 
@@ -389,8 +516,16 @@ export function StartJobForm({
         setJobStatus(status);
         setJobProgress(progress ?? null);
 
-        if (status && status !== "pending") {
-          setJobResult({ status, message });
+        if (status && !isActiveJobStatus(status)) {
+          setJobResult({
+            jobId,
+            status,
+            message,
+            dryRun: data?.dryRun === true,
+            mode: resolveJobMode(data?.mode),
+            result: parseJobResult(data?.result),
+            resumable: status !== "completed" && data?.checkpoint != null,
+          });
           setJobId(null);
           if (workflowLinkTimeoutRef.current !== null) {
             window.clearTimeout(workflowLinkTimeoutRef.current);
@@ -434,7 +569,7 @@ export function StartJobForm({
   }, [jobResult]);
 
   useEffect(() => {
-    if (!jobId || jobStatus !== "pending") {
+    if (!jobId || !isActiveJobStatus(jobStatus)) {
       return;
     }
 
@@ -442,7 +577,7 @@ export function StartJobForm({
   }, [jobId, jobStatus]);
 
   useEffect(() => {
-    if (!jobId || jobStatus !== "pending" || !jobHtmlUrl) {
+    if (!jobId || !isActiveJobStatus(jobStatus) || !jobHtmlUrl) {
       return;
     }
 
@@ -488,9 +623,9 @@ export function StartJobForm({
         latestJobIdRef.current = cachedJob.firestoreJobId;
         setJobProgress(progress ?? null);
 
-        if (status === "pending") {
+        if (isActiveJobStatus(status)) {
           setJobId(cachedJob.firestoreJobId);
-          setJobStatus("pending");
+          setJobStatus(status);
           setJobResult(null);
 
           if (cachedJob.jobHtmlUrl) {
@@ -501,7 +636,15 @@ export function StartJobForm({
         } else {
           setJobId(null);
           setJobStatus(status);
-          setJobResult({ status, message });
+          setJobResult({
+            jobId: cachedJob.firestoreJobId,
+            status,
+            message,
+            dryRun: data?.dryRun === true,
+            mode: resolveJobMode(data?.mode),
+            result: parseJobResult(data?.result),
+            resumable: status !== "completed" && data?.checkpoint != null,
+          });
           setJobHtmlUrl(cachedJob.jobHtmlUrl ?? null);
         }
       } catch (error) {
@@ -540,7 +683,7 @@ export function StartJobForm({
         const message = data?.message ?? null;
         const progress = typeof data?.progress === "string" ? data?.progress : null;
 
-        if (!status || status === "pending") {
+        if (!status || isActiveJobStatus(status)) {
           console.warn(`[StartJobForm] DEBUG_RESULT_JOB_ID=${DEBUG_RESULT_JOB_ID} has no final status`);
           return;
         }
@@ -553,7 +696,15 @@ export function StartJobForm({
         latestJobIdRef.current = DEBUG_RESULT_JOB_ID;
         setJobId(null);
         setJobStatus(status);
-        setJobResult({ status, message });
+        setJobResult({
+          jobId: DEBUG_RESULT_JOB_ID,
+          status,
+          message,
+          dryRun: data?.dryRun === true,
+          mode: resolveJobMode(data?.mode),
+          result: parseJobResult(data?.result),
+          resumable: status !== "completed" && data?.checkpoint != null,
+        });
         setJobProgress(progress ?? null);
         setJobHtmlUrl(null);
       } catch (error) {
@@ -625,8 +776,18 @@ export function StartJobForm({
     };
   }, [jobResult]);
 
-  const isJobPending = jobStatus === "pending";
+  const isJobPending = isActiveJobStatus(jobStatus);
+  const isJobCancelling = jobStatus === "cancelling";
   const shouldShowForm = !jobResult;
+  const jobResultTable = jobResult?.result ? (
+    <JobResultTable
+      result={jobResult.result}
+      jobId={jobResult.jobId}
+      // 先着の枠は取られていることが多いので、同じ枠の再試行は出さない
+      onRetry={jobResult.mode === "first_come" ? undefined : handleRetryEntry}
+      retryDisabled={submitting}
+    />
+  ) : null;
   const formattedJobResultMessage = jobResult?.message
     ? jobResult.message.replace(/<br\s*\/?\>/gi, "\n")
     : null;
@@ -665,7 +826,7 @@ export function StartJobForm({
                   id="loginId"
                   name="loginId"
                   type="text"
-                  placeholder="札幌公共施設予約システムのログインID"
+                  placeholder={`${siteLabel}公共施設予約システムのログインID`}
                   value={loginId}
                   onChange={(event) => setLoginId(event.target.value)}
                   className="w-full rounded-xl border border-stone-200 bg-white px-4 py-3 text-sm text-stone-900 outline-none transition focus:border-stone-500 focus:bg-white"
@@ -725,6 +886,40 @@ export function StartJobForm({
             </select>
           </div>
 
+          <label htmlFor="firstCome" className="flex items-start gap-3 text-sm text-stone-600">
+            <input
+              id="firstCome"
+              name="firstCome"
+              type="checkbox"
+              checked={mode === "first_come"}
+              onChange={(event) => setMode(event.target.checked ? "first_come" : DEFAULT_JOB_MODE)}
+              className="mt-0.5 h-4 w-4 rounded border-stone-300"
+            />
+            <span>
+              抽選後の空き枠を先着で予約
+              <span className="block text-xs text-stone-500">
+                抽選の結果が出た後に残った空き枠を、探索の条件に合うものから予約します。抽選の応募件数には数えません。
+              </span>
+            </span>
+          </label>
+
+          <label htmlFor="dryRun" className="flex items-start gap-3 text-sm text-stone-600">
+            <input
+              id="dryRun"
+              name="dryRun"
+              type="checkbox"
+              checked={dryRun}
+              onChange={(event) => setDryRun(event.target.checked)}
+              className="mt-0.5 h-4 w-4 rounded border-stone-300"
+            />
+            <span>
+              ドライラン
+              <span className="block text-xs text-stone-500">
+                申込確定の直前で停止し、応募予定の枠だけを確認します。抽選枠は消費しません。
+              </span>
+            </span>
+          </label>
+
           <button
             type="submit"
             disabled={submitting || !isSubmissionWindowOpen}
@@ -749,10 +944,25 @@ export function StartJobForm({
         <div className="space-y-4 rounded-3xl border border-stone-200 bg-white/80 p-8 text-center shadow-sm">
               {jobResult?.status === "completed" ? (
                 <>
-                  <p className="text-lg font-semibold text-stone-900">抽選応募完了！</p>
+                  <p className="text-lg font-semibold text-stone-900">
+                    {jobResult.dryRun
+                      ? "ドライラン完了（応募はしていません）"
+                      : jobResult.mode === "first_come"
+                        ? "先着予約完了！"
+                        : "抽選応募完了！"}
+                  </p>
                   <p className="text-base text-stone-600 whitespace-pre-line">
                     {formattedJobResultMessage ?? "特に言うことないです"}
                   </p>
+                  {jobResultTable}
+                </>
+              ) : jobResult?.status === "cancelled" ? (
+                <>
+                  <p className="text-lg font-semibold text-stone-900">応募を中止しました</p>
+                  <p className="text-base text-stone-600 whitespace-pre-line">
+                    {formattedJobResultMessage ?? "残りの枠は処理していません。"}
+                  </p>
+                  {jobResultTable}
                 </>
               ) : (
                 <>
@@ -760,6 +970,17 @@ export function StartJobForm({
                   <p className="text-base text-stone-600 whitespace-pre-line">
                     {formattedJobResultMessage ?? "何らかのエラーが発生しました。"}
                   </p>
+                  {jobResultTable}
+                  {jobResult?.resumable ? (
+                    <button
+                      type="button"
+                      onClick={handleResumeJob}
+                      disabled={submitting}
+                      className="rounded-full border border-sky-500 px-4 py-2 text-sm font-semibold text-sky-700 transition hover:bg-sky-50 disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      中断したところから再開
+                    </button>
+                  ) : null}
                   {jobDebugImageUrl ? (
                     <div className="mt-4 space-y-2">
                       <p className="text-xs text-stone-500">デバッグスクリーンショット</p>
@@ -797,12 +1018,12 @@ export function StartJobForm({
           )}
             <p className="text-lg">
               <a
-                href={'https://yoyaku.harp.lg.jp/sapporo/RequestStatuses/Index?t=0&p=1&s=20'}
+                href={requestStatusUrl}
                 target="_blank"
                 rel="noreferrer"
                 className="text-sky-700 underline"
               >
-                申し込み状況 (→札幌公共施設予約管理システム)
+                申し込み状況 (→{siteLabel}公共施設予約管理システム)
               </a>
             </p>
         </div>
@@ -835,13 +1056,13 @@ export function StartJobForm({
             </button>
             <span className="mx-auto mb-4 block h-12 w-12 animate-spin rounded-full border-4 border-stone-200 border-t-sky-600" />
             <p className="text-sm font-semibold">
-              応募中...
+              {isJobCancelling ? "中止しています..." : "応募中..."}
               {jobProgress ? (
                 <span className="ml-1 text-xs text-stone-500">({jobProgress})</span>
               ) : null}
             </p>
             <p className="mt-2 text-xs text-stone-700">
-              ページ閉じても実行されるけど応募完了/エラーは分かんなくなるよ！札幌予約管理システムからの応募完了メールに期待して！
+              ページ閉じても実行されるけど応募完了/エラーは分かんなくなるよ！{siteLabel}予約管理システムからの応募完了メールに期待して！
             </p>
             <div className="mt-4 text-xs font-semibold">
               {jobHtmlUrl ? (
@@ -857,6 +1078,14 @@ export function StartJobForm({
                 <span className="text-stone-400">進行状況 (取得中...)</span>
               )}
             </div>
+            <button
+              type="button"
+              onClick={handleCancelJob}
+              disabled={cancelRequesting || isJobCancelling}
+              className="mt-4 rounded-full border border-red-300 px-4 py-1.5 text-xs font-semibold text-red-600 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isJobCancelling ? "中止を受け付けました" : "応募を中止"}
+            </button>
           </div>
         </div>
       ) : null}
@@ -1088,6 +1317,10 @@ function extractGitHubJobId(url: string | null | undefined): string | null {
   return runMatch?.[1] ?? null;
 }
 
+function isActiveJobStatus(status: string | null | undefined): boolean {
+  return status != null && ACTIVE_JOB_STATUSES.has(status);
+}
+
 function isWithinSubmissionWindow(date = new Date()): boolean {
   const jstHour = (date.getUTCHours() + 9 + 24) % 24;
   const jstMinute = date.getUTCMinutes();
@@ -0,0 +1,161 @@
+import { createHash } from "node:crypto";
+
+import { getFirestoreRestDocument, setFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
+import type { FacilitySite } from "@/lib/sites/facility-sites";
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const YEAR_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// groups/{groupId}/accountQuotas/{yearMonth}_{hash(userId)}。CSVで入力したアカウントも数えるので利用者IDで引く
+export type AccountQuotaUsage = {
+  userId: string;
+  // 利用月（抽選の対象月）の YYYY-MM
+  yearMonth: string;
+  used: number;
+  // 申込時に「抽選数が利用制限に該当します」が出た月は件数に関係なく使い切り扱いにする
+  exhausted: boolean;
+  updatedAt: string | null;
+};
+
+export type AccountQuotaReport = {
+  yearMonth: string;
+  used: number;
+  exhausted: boolean;
+};
+
+export type AccountQuotaSummary = {
+  userId: string;
+  yearMonth: string;
+  quota: number;
+  // まだ一度も応募状況を確認していないアカウントは null
+  used: number | null;
+  remaining: number | null;
+};
+
+export type AccountQuotaCheck = {
+  entryCount: number;
+  summary: AccountQuotaSummary;
+  warning: string | null;
+};
+
+function buildQuotaPath(groupId: string, userId: string, yearMonth: string): string {
+  const userKey = createHash("sha256").update(userId).digest("hex").slice(0, 32);
+  return `groups/${groupId}/accountQuotas/${yearMonth}_${userKey}`;
+}
+
+export function parseAccountQuotaReports(value: unknown): AccountQuotaReport[] | null {
+  if (!Array.isArray(value) || value.length === 0) {
+    return null;
+  }
+
+  const reports: AccountQuotaReport[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") {
+      return null;
+    }
+
+    const { yearMonth, used, exhausted } = item as Record<string, unknown>;
+    if (typeof yearMonth !== "string" || !YEAR_MONTH_PATTERN.test(yearMonth)) {
+      return null;
+    }
+    if (typeof used !== "number" || !Number.isInteger(used) || used < 0) {
+      return null;
+    }
+
+    reports.push({ yearMonth, used, exhausted: exhausted === true });
+  }
+
+  return reports;
+}
+
+export async function saveAccountQuotaUsages(
+  groupId: string,
+  userId: string,
+  reports: AccountQuotaReport[],
+): Promise<void> {
+  const now = new Date();
+
+  await Promise.all(
+    reports.map((report) =>
+      setFirestoreRestDocument(buildQuotaPath(groupId, userId, report.yearMonth), {
+        userId,
+        yearMonth: report.yearMonth,
+        used: report.used,
+        exhausted: report.exhausted,
+        updatedAt: now,
+      }),
+    ),
+  );
+}
+
+export async function getAccountQuotaUsage(
+  groupId: string,
+  userId: string,
+  yearMonth: string,
+): Promise<AccountQuotaUsage | null> {
+  const document = await getFirestoreRestDocument(buildQuotaPath(groupId, userId, yearMonth));
+  if (!document) {
+    return null;
+  }
+
+  const { used, exhausted, updatedAt } = document.data;
+  return {
+    userId,
+    yearMonth,
+    used: typeof used === "number" ? used : 0,
+    exhausted: exhausted === true,
+    updatedAt: typeof updatedAt === "string" ? updatedAt : null,
+  };
+}
+
+export async function getAccountQuotaSummary(
+  groupId: string,
+  userId: string,
+  site: FacilitySite,
+  yearMonth = resolveQuotaYearMonth(),
+): Promise<AccountQuotaSummary> {
+  const usage = await getAccountQuotaUsage(groupId, userId, yearMonth);
+  const quota = site.monthlyLotteryQuota;
+
+  if (!usage) {
+    return { userId, yearMonth, quota, used: null, remaining: null };
+  }
+
+  return {
+    userId,
+    yearMonth,
+    quota,
+    used: usage.exhausted ? Math.max(usage.used, quota) : usage.used,
+    remaining: usage.exhausted ? 0 : Math.max(quota - usage.used, 0),
+  };
+}
+
+// 残り枠を超える応募数は残り枠まで減らす。残りが分からないアカウントはそのまま通す
+export async function checkAccountQuota(
+  groupId: string,
+  userId: string,
+  site: FacilitySite,
+  requestedEntryCount: number,
+): Promise<AccountQuotaCheck> {
+  const summary = await getAccountQuotaSummary(groupId, userId, site);
+
+  if (summary.remaining === null || requestedEntryCount <= summary.remaining) {
+    return { entryCount: requestedEntryCount, summary, warning: null };
+  }
+
+  return {
+    entryCount: summary.remaining,
+    summary,
+    warning:
+      summary.remaining === 0
+        ? `${summary.yearMonth} の抽選申込の上限（${summary.quota}件）に達しています`
+        : `${summary.yearMonth} の抽選申込は残り${summary.remaining}件のため、${requestedEntryCount}件から${summary.remaining}件に減らしました`,
+  };
+}
+
+// 抽選は翌月分に出すので、ワーカーの既定の対象月（getNextMonthYearMonth）と同じく JST の翌月を見る
+export function resolveQuotaYearMonth(now = new Date()): string {
+  const jst = new Date(now.getTime() + JST_OFFSET_MS);
+  const next = new Date(Date.UTC(jst.getUTCFullYear(), jst.getUTCMonth() + 1, 1));
+  return `${next.getUTCFullYear()}-${String(next.getUTCMonth() + 1).padStart(2, "0")}`;
+}
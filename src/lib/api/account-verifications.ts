@@ -0,0 +1,79 @@
+import {
+  listFirestoreRestCollection,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+
+// groups/{groupId}/accountVerifications/{key}。key は登録アカウントなら accountId、旧CSVの行なら row-{rowIndex}
+export type AccountVerification = {
+  key: string;
+  userId: string;
+  accountId: string | null;
+  ok: boolean;
+  accountName: string | null;
+  error: string | null;
+  checkedAt: string | null;
+};
+
+export type AccountVerificationInput = {
+  userId: string;
+  accountId?: string | null;
+  rowIndex: number;
+  ok: boolean;
+  accountName?: string | null;
+  error?: string | null;
+};
+
+export function parseAccountVerificationInput(value: unknown): AccountVerificationInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { userId, accountId, rowIndex, ok, accountName, error } = value as Record<string, unknown>;
+  const normalizedUserId = typeof userId === "string" ? userId.trim() : "";
+
+  if (!normalizedUserId || typeof ok !== "boolean" || !Number.isInteger(rowIndex) || (rowIndex as number) < 0) {
+    return null;
+  }
+
+  return {
+    userId: normalizedUserId,
+    accountId: typeof accountId === "string" && accountId.trim() ? accountId.trim() : null,
+    rowIndex: rowIndex as number,
+    ok,
+    accountName: typeof accountName === "string" && accountName.trim() ? accountName.trim() : null,
+    error: typeof error === "string" && error.trim() ? error.trim().slice(0, 500) : null,
+  };
+}
+
+export async function saveAccountVerification(groupId: string, input: AccountVerificationInput): Promise<void> {
+  const key = input.accountId ?? `row-${input.rowIndex}`;
+
+  await setFirestoreRestDocument(`groups/${groupId}/accountVerifications/${key}`, {
+    userId: input.userId,
+    accountId: input.accountId ?? null,
+    ok: input.ok,
+    accountName: input.accountName ?? null,
+    error: input.error ?? null,
+    checkedAt: new Date(),
+  });
+}
+
+export async function listAccountVerifications(groupId: string): Promise<AccountVerification[]> {
+  const documents = await listFirestoreRestCollection(`groups/${groupId}/accountVerifications`);
+  return documents.map(toAccountVerification);
+}
+
+function toAccountVerification(document: FirestoreRestDocument): AccountVerification {
+  const { userId, accountId, ok, accountName, error, checkedAt } = document.data;
+
+  return {
+    key: document.id,
+    userId: typeof userId === "string" ? userId : "",
+    accountId: typeof accountId === "string" && accountId ? accountId : null,
+    ok: ok === true,
+    accountName: typeof accountName === "string" && accountName ? accountName : null,
+    error: typeof error === "string" && error ? error : null,
+    checkedAt: typeof checkedAt === "string" ? checkedAt : null,
+  };
+}
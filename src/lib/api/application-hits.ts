@@ -0,0 +1,234 @@
+// won: 当選、confirmed: 当選確定
+export type ApplicationHitStatus = "won" | "confirmed";
+
+// groups/{groupId}/applications/{applicationId}.hits の1件。playwright/types.ts の ApplicationHit と形を揃えること
+export type ApplicationHit = {
+  // YYYY-MM-DD
+  date: string;
+  // HH:MM
+  startTime: string;
+  endTime: string;
+  facility: string;
+  booth: string;
+  accountName: string | null;
+  accountId: string | null;
+  // 旧データ（タブ区切りの文字列）から移行した行は当選か当選確定かが分からないので null
+  status: ApplicationHitStatus | null;
+};
+
+export const APPLICATION_HIT_STATUS_LABELS: Record<ApplicationHitStatus, string> = {
+  won: "当選",
+  confirmed: "当選確定",
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const TIME_PATTERN = /^([01]\d|2[0-4]):[0-5]\d$/;
+
+export function parseApplicationHit(value: unknown): ApplicationHit | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const { date, startTime, endTime, facility, booth, accountName, accountId, status } = value as Record<string, unknown>;
+  if (
+    typeof date !== "string" ||
+    !ISO_DATE_PATTERN.test(date) ||
+    typeof startTime !== "string" ||
+    !TIME_PATTERN.test(startTime) ||
+    typeof endTime !== "string" ||
+    !TIME_PATTERN.test(endTime) ||
+    typeof facility !== "string" ||
+    !facility.trim()
+  ) {
+    return null;
+  }
+
+  return {
+    date,
+    startTime,
+    endTime,
+    facility: normalizeSpaces(facility),
+    booth: typeof booth === "string" ? normalizeSpaces(booth) : "",
+    accountName: normalizeOptionalString(accountName),
+    accountId: normalizeOptionalString(accountId),
+    status: status === "won" || status === "confirmed" ? status : null,
+  };
+}
+
+// 読めない項目は落とし、同じ内容の行はまとめる
+export function parseApplicationHits(values: unknown[]): ApplicationHit[] {
+  const seen = new Set<string>();
+
+  return values.flatMap((value) => {
+    const hit = parseApplicationHit(value);
+    if (!hit) {
+      return [];
+    }
+
+    const key = JSON.stringify(hit);
+    if (seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [hit];
+  });
+}
+
+// 旧データの「日付\t時間\t施設\t面\tアカウント名\tアカウントID」（先頭に HIT / FIXED が付くものもある）を読む。
+// 日付は「11月7日」のように年がないので、抽選状況を確認した日時（createdAtMs）より後で最も近い年とする
+export function convertLegacyHitLine(line: string, createdAtMs: number): ApplicationHit | null {
+  const columns = line.split("\t").map((value) => value.trim());
+  const prefix = (columns[0] ?? "").toUpperCase();
+  const hasStatusPrefix = columns.length >= 5 && ["HIT", "FIXED"].includes(prefix);
+  const [dateSource = "", timeSource = "", gymNameSource = "", roomSource = "", accountNameSource = "", accountIdSource = ""] =
+    hasStatusPrefix ? columns.slice(1) : columns;
+
+  const date = resolveLegacyDate(dateSource, createdAtMs);
+  const timeRange = parseLegacyTimeRange(timeSource);
+  // 旧データは空の列を "-" で書いていた
+  const { gymName, room } = normalizeLocationColumns(stripPlaceholder(gymNameSource), stripPlaceholder(roomSource));
+  if (!date || !timeRange || !gymName) {
+    return null;
+  }
+
+  return {
+    date,
+    startTime: timeRange.startTime,
+    endTime: timeRange.endTime,
+    facility: gymName,
+    booth: room,
+    accountName: normalizeOptionalString(stripPlaceholder(accountNameSource)),
+    accountId: normalizeOptionalString(stripPlaceholder(accountIdSource)),
+    status: hasStatusPrefix ? (prefix === "FIXED" ? "confirmed" : "won") : null,
+  };
+}
+
+function resolveLegacyDate(value: string, createdAtMs: number): string | null {
+  const normalized = normalizeSpaces(value.normalize("NFKC"));
+  const fullMatch = normalized.match(/(\d{4})年\s*(\d{1,2})月\s*(\d{1,2})日/);
+  if (fullMatch) {
+    return buildIsoDate(Number(fullMatch[1]), Number(fullMatch[2]), Number(fullMatch[3]));
+  }
+
+  const monthDayMatch = normalized.match(/(\d{1,2})月\s*(\d{1,2})日/);
+  if (!monthDayMatch) {
+    return null;
+  }
+
+  const createdAt = new Date(createdAtMs + 9 * 60 * 60 * 1000);
+  const month = Number(monthDayMatch[1]);
+  const year = month < createdAt.getUTCMonth() + 1 ? createdAt.getUTCFullYear() + 1 : createdAt.getUTCFullYear();
+  return buildIsoDate(year, month, Number(monthDayMatch[2]));
+}
+
+function buildIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseLegacyTimeRange(value: string): { startTime: string; endTime: string } | null {
+  const match = value.normalize("NFKC").match(/(\d{1,2}):(\d{2})\s*[~〜～\-－–—]\s*(\d{1,2}):(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const startTime = `${match[1].padStart(2, "0")}:${match[2]}`;
+  const endTime = `${match[3].padStart(2, "0")}:${match[4]}`;
+  return TIME_PATTERN.test(startTime) && TIME_PATTERN.test(endTime) ? { startTime, endTime } : null;
+}
+
+function stripPlaceholder(value: string): string {
+  return value === "-" ? "" : value;
+}
+
+function isApplicationIdLike(value: string): boolean {
+  return /^\d{8,}-\d+$/.test(value);
+}
+
+function normalizeLocationColumns(gymNameSource: string, roomSource: string): { gymName: string; room: string } {
+  const normalizedGymName = normalizeSpaces(gymNameSource);
+  const normalizedRoom = normalizeSpaces(roomSource);
+
+  // 旧データ互換: gymName列に受付番号だけが入っているケース
+  if (isApplicationIdLike(normalizedGymName) && normalizedRoom) {
+    return { gymName: normalizedRoom, room: normalizedGymName };
+  }
+
+  let locationSource = extractLocationSource(normalizedGymName);
+  let booth = normalizedRoom;
+  if (booth) {
+    locationSource = stripTrailingBooth(locationSource, booth);
+  } else {
+    const split = splitFacilityAndBooth(locationSource);
+    locationSource = split.facility;
+    booth = split.booth;
+  }
+
+  return {
+    gymName: locationSource || normalizedRoom || normalizedGymName,
+    room: booth,
+  };
+}
+
+function extractLocationSource(value: string): string {
+  const normalized = normalizeSpaces(value);
+  const locationMatch = normalized.match(/場所[:：]\s*(.+)$/);
+  if (locationMatch?.[1]) {
+    return normalizeSpaces(locationMatch[1]);
+  }
+
+  const slashParts = normalized.split("/").map(normalizeSpaces).filter(Boolean);
+  if (slashParts.length >= 2) {
+    const [head, ...rest] = slashParts;
+    if (isApplicationIdLike(head)) {
+      return rest.join(" / ");
+    }
+  }
+
+  return normalized;
+}
+
+function splitFacilityAndBooth(locationSource: string): { facility: string; booth: string } {
+  const slashParts = locationSource.split("/").map(normalizeSpaces).filter(Boolean);
+  if (slashParts.length >= 2) {
+    const [facility, ...rest] = slashParts;
+    return {
+      facility,
+      booth: rest.join(" / "),
+    };
+  }
+
+  const tokens = locationSource.split(" ").filter(Boolean);
+  if (tokens.length >= 2) {
+    const boothCandidate = tokens[tokens.length - 1] ?? "";
+    if (isBoothLike(boothCandidate)) {
+      return {
+        facility: tokens.slice(0, -1).join(" "),
+        booth: boothCandidate,
+      };
+    }
+  }
+
+  return { facility: locationSource, booth: "" };
+}
+
+function stripTrailingBooth(locationSource: string, booth: string): string {
+  const escapedBooth = booth.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return locationSource.replace(new RegExp(`\\s*${escapedBooth}$`), "").trim() || locationSource;
+}
+
+function isBoothLike(value: string): boolean {
+  return /(体育館|グラウンド|コート|ホール|スタジオ|プール|武道場|会議室|講堂|全面|半面|面)$/.test(value);
+}
+
+function normalizeSpaces(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+function normalizeOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? normalizeSpaces(value) : null;
+}
@@ -0,0 +1,326 @@
+import { randomUUID } from "node:crypto";
+
+import { checkAccountQuota } from "@/lib/api/account-quotas";
+import { resolveSeekFacilities } from "@/lib/api/facility-catalogue";
+import { loadGroupHitTargets } from "@/lib/api/hit-targets";
+import { parseJobMode, resolveJobMode, type JobMode } from "@/lib/api/job-mode";
+import { createDispatchedJob } from "@/lib/api/job-store";
+import {
+  deleteFirestoreRestDocument,
+  listFirestoreRestCollection,
+  patchFirestoreRestDocument,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+import { resolveCandidateScoringSettings } from "@/lib/sites/candidate-scoring";
+import { resolveFacilitySite } from "@/lib/sites/facility-sites";
+import { resolveLotRequestSettings } from "@/lib/sites/lot-request-settings";
+import { resolveLotRequestUrls } from "@/lib/sites/lot-request-urls";
+import { resolveSeekSlotRules } from "@/lib/sites/seek-slot-rules";
+
+export const MAX_SCHEDULED_ENTRY_COUNT = 20;
+// 手動の応募と同じく 9:00〜22:59（JST）の間だけ実行する
+const SCHEDULE_WINDOW_START_MINUTES = 9 * 60;
+const SCHEDULE_WINDOW_END_MINUTES = 22 * 60 + 59;
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+
+// groups/{groupId}/applicationSchedules/{scheduleId}
+export type ApplicationSchedule = {
+  id: string;
+  groupId: string;
+  // その月にない日（31日など）は月末に実行する
+  dayOfMonth: number;
+  // JST の HH:MM
+  time: string;
+  entryCount: number;
+  // 抽選応募か、抽選後の空き枠の先着予約か
+  mode: JobMode;
+  enabled: boolean;
+  // 同じ月に2回実行しないための YYYY-MM
+  lastRunMonth: string | null;
+  lastRunAt: string | null;
+  lastRunJobIds: string[];
+  lastRunError: string | null;
+  createdAt: string | null;
+};
+
+export type ApplicationScheduleInput = {
+  dayOfMonth: number;
+  time: string;
+  entryCount: number;
+  mode: JobMode;
+  enabled: boolean;
+};
+
+export type ScheduledRunResult = {
+  groupId: string;
+  scheduleId: string;
+  jobIds: string[];
+  failedCount: number;
+};
+
+function buildSchedulesPath(groupId: string): string {
+  return `groups/${groupId}/applicationSchedules`;
+}
+
+export function parseApplicationScheduleInput(value: unknown): ApplicationScheduleInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { dayOfMonth, time, entryCount, mode, enabled } = value as Record<string, unknown>;
+  const normalizedMode = mode === undefined ? resolveJobMode(mode) : parseJobMode(mode);
+  const normalizedDay = Number(dayOfMonth);
+  const normalizedEntryCount = Number(entryCount);
+  const minutes = typeof time === "string" ? parseTimeMinutes(time) : null;
+
+  if (!Number.isInteger(normalizedDay) || normalizedDay < 1 || normalizedDay > 31) {
+    return null;
+  }
+
+  if (
+    !Number.isInteger(normalizedEntryCount) ||
+    normalizedEntryCount < 1 ||
+    normalizedEntryCount > MAX_SCHEDULED_ENTRY_COUNT
+  ) {
+    return null;
+  }
+
+  if (minutes === null || minutes < SCHEDULE_WINDOW_START_MINUTES || minutes > SCHEDULE_WINDOW_END_MINUTES) {
+    return null;
+  }
+
+  if (!normalizedMode) {
+    return null;
+  }
+
+  return {
+    dayOfMonth: normalizedDay,
+    time: formatTimeMinutes(minutes),
+    entryCount: normalizedEntryCount,
+    mode: normalizedMode,
+    enabled: enabled !== false,
+  };
+}
+
+export async function listApplicationSchedules(groupId: string): Promise<ApplicationSchedule[]> {
+  const documents = await listFirestoreRestCollection(buildSchedulesPath(groupId));
+  return documents
+    .map((document) => toApplicationSchedule(groupId, document))
+    .sort((left, right) => left.dayOfMonth - right.dayOfMonth || left.time.localeCompare(right.time));
+}
+
+export async function createApplicationSchedule(groupId: string, input: ApplicationScheduleInput): Promise<string> {
+  const scheduleId = randomUUID().replace(/-/g, "");
+  const now = new Date();
+
+  await setFirestoreRestDocument(`${buildSchedulesPath(groupId)}/${scheduleId}`, {
+    ...input,
+    lastRunMonth: null,
+    lastRunAt: null,
+    lastRunJobIds: [],
+    lastRunError: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return scheduleId;
+}
+
+export async function updateApplicationSchedule(
+  groupId: string,
+  scheduleId: string,
+  input: ApplicationScheduleInput,
+): Promise<void> {
+  await patchFirestoreRestDocument(
+    `${buildSchedulesPath(groupId)}/${scheduleId}`,
+    { ...input, updatedAt: new Date() },
+    ["dayOfMonth", "time", "entryCount", "mode", "enabled", "updatedAt"],
+  );
+}
+
+export async function deleteApplicationSchedule(groupId: string, scheduleId: string): Promise<void> {
+  await deleteFirestoreRestDocument(`${buildSchedulesPath(groupId)}/${scheduleId}`);
+}
+
+export function isApplicationScheduleDue(schedule: ApplicationSchedule, now: Date): boolean {
+  const clock = resolveJstClock(now);
+  const scheduledMinutes = parseTimeMinutes(schedule.time);
+
+  if (!schedule.enabled || scheduledMinutes === null || schedule.lastRunMonth === clock.yearMonth) {
+    return false;
+  }
+
+  if (clock.minutes > SCHEDULE_WINDOW_END_MINUTES) {
+    return false;
+  }
+
+  return clock.day === Math.min(schedule.dayOfMonth, clock.daysInMonth) && clock.minutes >= scheduledMinutes;
+}
+
+// 全グループの予定を見て、実行時刻を過ぎたものをグループのアカウントごとにジョブにする
+export async function runDueApplicationSchedules(now = new Date()): Promise<ScheduledRunResult[]> {
+  const results: ScheduledRunResult[] = [];
+  const groupDocuments = await listFirestoreRestCollection("groups");
+
+  for (const groupDocument of groupDocuments) {
+    const scheduleDocuments = await listFirestoreRestCollection(buildSchedulesPath(groupDocument.id));
+
+    for (const scheduleDocument of scheduleDocuments) {
+      const schedule = toApplicationSchedule(groupDocument.id, scheduleDocument);
+      if (!isApplicationScheduleDue(schedule, now)) {
+        continue;
+      }
+
+      const claimed = await claimScheduleRun(scheduleDocument, schedule, now);
+      if (!claimed) {
+        continue;
+      }
+
+      results.push(await dispatchScheduledJobs(groupDocument, schedule));
+    }
+  }
+
+  return results;
+}
+
+// cron が重なっても同じ月に二重で応募しないよう、先に lastRunMonth を書き込んでから実行する
+async function claimScheduleRun(
+  document: FirestoreRestDocument,
+  schedule: ApplicationSchedule,
+  now: Date,
+): Promise<boolean> {
+  try {
+    await patchFirestoreRestDocument(
+      `${buildSchedulesPath(schedule.groupId)}/${schedule.id}`,
+      { lastRunMonth: resolveJstClock(now).yearMonth, lastRunAt: now },
+      ["lastRunMonth", "lastRunAt"],
+      { currentUpdateTime: document.updateTime },
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("FAILED_PRECONDITION")) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function dispatchScheduledJobs(
+  groupDocument: FirestoreRestDocument,
+  schedule: ApplicationSchedule,
+): Promise<ScheduledRunResult> {
+  const groupData = groupDocument.data;
+  const groupName = typeof groupData.name === "string" && groupData.name.trim() ? groupData.name.trim() : groupDocument.id;
+  const jobIds: string[] = [];
+  let failedCount = 0;
+  let lastError: string | null = null;
+
+  try {
+    const targets = await loadGroupHitTargets(groupDocument.id, groupData.ids);
+    if (targets.length === 0) {
+      lastError = "有効なアカウントがありません";
+    }
+
+    const site = resolveFacilitySite(groupData.siteId);
+
+    for (const target of targets) {
+      try {
+        // 先着の予約は抽選の申込上限に数えない
+        const quotaCheck =
+          schedule.mode === "lottery"
+            ? await checkAccountQuota(groupDocument.id, target.userId, site, schedule.entryCount)
+            : null;
+        if (quotaCheck && quotaCheck.entryCount === 0) {
+          lastError = quotaCheck.warning;
+          continue;
+        }
+
+        jobIds.push(
+          await createDispatchedJob({
+            userId: target.userId,
+            password: target.password,
+            accountId: target.accountId,
+            entryCount: quotaCheck?.entryCount ?? schedule.entryCount,
+            groupId: groupDocument.id,
+            label: `[schedule${schedule.mode === "first_come" ? ":first-come" : ""}] ${groupName}`,
+            message: "ボブと太郎が今、一生懸命頑張っています。",
+            progress: "準備してます",
+            mode: schedule.mode,
+            siteId: site.id,
+            lotRequest: resolveLotRequestSettings(groupData.lotRequest),
+            candidateScoring: resolveCandidateScoringSettings(groupData.candidateScoring),
+            seekRules: resolveSeekSlotRules(groupData.seekRules),
+            seekFacilities: resolveSeekFacilities(groupData.seekFacilities),
+            lotRequestUrls: resolveLotRequestUrls(groupData.urls, site),
+          }),
+        );
+      } catch (error) {
+        console.error(`Failed to dispatch scheduled job (${groupDocument.id}/${schedule.id})`, error);
+        failedCount += 1;
+        lastError = error instanceof Error ? error.message : String(error);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to load accounts for scheduled run (${groupDocument.id}/${schedule.id})`, error);
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  await patchFirestoreRestDocument(
+    `${buildSchedulesPath(schedule.groupId)}/${schedule.id}`,
+    { lastRunJobIds: jobIds, lastRunError: lastError },
+    ["lastRunJobIds", "lastRunError"],
+  );
+
+  return { groupId: groupDocument.id, scheduleId: schedule.id, jobIds, failedCount };
+}
+
+function resolveJstClock(now: Date): { yearMonth: string; day: number; daysInMonth: number; minutes: number } {
+  const jst = new Date(now.getTime() + JST_OFFSET_MS);
+  const year = jst.getUTCFullYear();
+  const month = jst.getUTCMonth();
+
+  return {
+    yearMonth: `${year}-${String(month + 1).padStart(2, "0")}`,
+    day: jst.getUTCDate(),
+    daysInMonth: new Date(Date.UTC(year, month + 1, 0)).getUTCDate(),
+    minutes: jst.getUTCHours() * 60 + jst.getUTCMinutes(),
+  };
+}
+
+function parseTimeMinutes(value: string): number | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  return hour < 24 && minute < 60 ? hour * 60 + minute : null;
+}
+
+function formatTimeMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+}
+
+function toApplicationSchedule(groupId: string, document: FirestoreRestDocument): ApplicationSchedule {
+  const { dayOfMonth, time, entryCount, mode, enabled, lastRunMonth, lastRunAt, lastRunJobIds, lastRunError, createdAt } =
+    document.data;
+
+  return {
+    id: document.id,
+    groupId,
+    dayOfMonth: typeof dayOfMonth === "number" ? dayOfMonth : 1,
+    time: typeof time === "string" ? time : "09:00",
+    entryCount: typeof entryCount === "number" ? entryCount : 1,
+    mode: resolveJobMode(mode),
+    enabled: enabled !== false,
+    lastRunMonth: typeof lastRunMonth === "string" ? lastRunMonth : null,
+    lastRunAt: typeof lastRunAt === "string" ? lastRunAt : null,
+    lastRunJobIds: Array.isArray(lastRunJobIds)
+      ? lastRunJobIds.filter((jobId): jobId is string => typeof jobId === "string")
+      : [],
+    lastRunError: typeof lastRunError === "string" ? lastRunError : null,
+    createdAt: typeof createdAt === "string" ? createdAt : null,
+  };
+}
@@ -0,0 +1,111 @@
+import { getFirestoreRestDocument, setFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
+
+const FACILITY_CATEGORIES = ["gym", "school"] as const;
+const CODE_PATTERN = /^[0-9A-Za-z]{1,10}$/;
+const MAX_CATALOGUE_FACILITIES = 500;
+
+// gym=体育館など（月前半に探索）、school=学校開放（月後半に探索）
+export type FacilityCategory = (typeof FACILITY_CATEGORIES)[number];
+
+export type CatalogueRoom = {
+  code: string;
+  name: string;
+};
+
+export type CatalogueFacility = {
+  code: string;
+  name: string;
+  category: FacilityCategory;
+  rooms: CatalogueRoom[];
+};
+
+// facilityCatalogues/{siteId}。施設サイトから読み取った施設・室場の一覧（ワーカーが定期的に更新する）
+export type FacilityCatalogue = {
+  siteId: string;
+  facilities: CatalogueFacility[];
+  refreshedAt: string | null;
+};
+
+// groups/{groupId}.seekFacilities。空き枠探索で比較画面に並べる施設と室場（未設定ならサイト既定の施設）
+export type SeekFacility = {
+  code: string;
+  category: FacilityCategory;
+  rooms: string[];
+};
+
+function isFacilityCategory(value: unknown): value is FacilityCategory {
+  return FACILITY_CATEGORIES.some((category) => category === value);
+}
+
+export function parseCatalogueFacilities(value: unknown): CatalogueFacility[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CATALOGUE_FACILITIES) {
+    return null;
+  }
+
+  const facilities: CatalogueFacility[] = [];
+  for (const item of value) {
+    const { code, name, category, rooms } = (item ?? {}) as Record<string, unknown>;
+    if (typeof code !== "string" || !CODE_PATTERN.test(code) || !isFacilityCategory(category) || !Array.isArray(rooms)) {
+      return null;
+    }
+
+    const parsedRooms: CatalogueRoom[] = [];
+    for (const room of rooms) {
+      const { code: roomCode, name: roomName } = (room ?? {}) as Record<string, unknown>;
+      if (typeof roomCode !== "string" || !CODE_PATTERN.test(roomCode)) {
+        return null;
+      }
+      parsedRooms.push({ code: roomCode, name: typeof roomName === "string" ? roomName.trim() : "" });
+    }
+
+    facilities.push({ code, name: typeof name === "string" ? name.trim() : "", category, rooms: parsedRooms });
+  }
+
+  return facilities;
+}
+
+export function parseSeekFacilities(value: unknown): SeekFacility[] | null {
+  if (!Array.isArray(value) || value.length > MAX_CATALOGUE_FACILITIES) {
+    return null;
+  }
+
+  const facilities: SeekFacility[] = [];
+  for (const item of value) {
+    const { code, category, rooms } = (item ?? {}) as Record<string, unknown>;
+    const roomCodes = Array.isArray(rooms) ? rooms.filter((room): room is string => typeof room === "string") : [];
+
+    if (typeof code !== "string" || !CODE_PATTERN.test(code) || !isFacilityCategory(category)) {
+      return null;
+    }
+    if (roomCodes.length === 0 || roomCodes.some((room) => !CODE_PATTERN.test(room))) {
+      return null;
+    }
+
+    facilities.push({ code, category, rooms: roomCodes });
+  }
+
+  return facilities;
+}
+
+export function resolveSeekFacilities(value: unknown): SeekFacility[] {
+  return parseSeekFacilities(value) ?? [];
+}
+
+export async function getFacilityCatalogue(siteId: string): Promise<FacilityCatalogue> {
+  const document = await getFirestoreRestDocument(`facilityCatalogues/${siteId}`);
+  const { facilities, refreshedAt } = document?.data ?? {};
+
+  return {
+    siteId,
+    facilities: parseCatalogueFacilities(facilities) ?? [],
+    refreshedAt: typeof refreshedAt === "string" ? refreshedAt : null,
+  };
+}
+
+export async function saveFacilityCatalogue(siteId: string, facilities: CatalogueFacility[]): Promise<void> {
+  await setFirestoreRestDocument(`facilityCatalogues/${siteId}`, {
+    siteId,
+    facilities,
+    refreshedAt: new Date(),
+  });
+}
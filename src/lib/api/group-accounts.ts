@@ -0,0 +1,232 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  deleteFirestoreRestDocument,
+  getFirestoreRestDocument,
+  listFirestoreRestCollection,
+  patchFirestoreRestDocument,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+import { decryptGroupIds, encryptGroupIds } from "@/lib/security/group-ids-crypto";
+
+// groups/{groupId}/accounts/{accountId}。パスワードは ids と同じ鍵で暗号化する（鍵ローテーションも共通）
+export type GroupAccount = {
+  id: string;
+  groupId: string;
+  displayName: string;
+  userId: string;
+  owner: string | null;
+  enabled: boolean;
+  lastLoginSucceededAt: string | null;
+  createdAt: string | null;
+};
+
+export type GroupAccountCredential = GroupAccount & {
+  password: string;
+};
+
+export type GroupAccountInput = {
+  displayName: string;
+  userId: string;
+  // 更新時は空なら既存のパスワードを残す
+  password?: string;
+  owner?: string | null;
+  enabled: boolean;
+};
+
+function buildAccountsPath(groupId: string): string {
+  return `groups/${groupId}/accounts`;
+}
+
+export function parseGroupAccountInput(value: unknown): GroupAccountInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { displayName, userId, password, owner, enabled } = value as Record<string, unknown>;
+  const normalizedUserId = typeof userId === "string" ? userId.trim() : "";
+
+  if (!normalizedUserId) {
+    return null;
+  }
+
+  return {
+    displayName: typeof displayName === "string" && displayName.trim() ? displayName.trim() : normalizedUserId,
+    userId: normalizedUserId,
+    password: typeof password === "string" && password.trim() ? password.trim() : undefined,
+    owner: typeof owner === "string" && owner.trim() ? owner.trim() : null,
+    enabled: enabled !== false,
+  };
+}
+
+export async function listGroupAccounts(groupId: string): Promise<GroupAccount[]> {
+  const documents = await listFirestoreRestCollection(buildAccountsPath(groupId));
+  return sortAccounts(documents.map((document) => toGroupAccount(groupId, document)));
+}
+
+// 復号できないアカウントは飛ばさずに例外にする（飛ばすと hit-targets の rowIndex がずれ、鍵の設定ミスにも気付けない）
+export async function listGroupAccountCredentials(
+  groupId: string,
+  options?: { enabledOnly?: boolean },
+): Promise<GroupAccountCredential[]> {
+  const documents = await listFirestoreRestCollection(buildAccountsPath(groupId));
+  const credentials = documents.flatMap((document): GroupAccountCredential[] => {
+    const account = toGroupAccount(groupId, document);
+    if (options?.enabledOnly !== false && !account.enabled) {
+      return [];
+    }
+
+    return [{ ...account, password: requireAccountPassword(document) }];
+  });
+
+  return sortAccounts(credentials);
+}
+
+export async function getGroupAccountCredential(
+  groupId: string,
+  accountId: string,
+): Promise<GroupAccountCredential | null> {
+  const document = await getFirestoreRestDocument(`${buildAccountsPath(groupId)}/${accountId}`);
+  if (!document) {
+    return null;
+  }
+
+  return { ...toGroupAccount(groupId, document), password: requireAccountPassword(document) };
+}
+
+export async function createGroupAccount(groupId: string, input: GroupAccountInput): Promise<string> {
+  if (!input.password) {
+    throw new Error("password is required for a new account");
+  }
+
+  const accountId = randomUUID().replace(/-/g, "");
+  const now = new Date();
+
+  await setFirestoreRestDocument(`${buildAccountsPath(groupId)}/${accountId}`, {
+    displayName: input.displayName,
+    userId: input.userId,
+    password: encryptGroupIds(input.password),
+    owner: input.owner ?? null,
+    enabled: input.enabled,
+    lastLoginSucceededAt: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  return accountId;
+}
+
+// 存在しないアカウントを作ってしまわないよう、無ければ false を返す（パスワード無しの文書ができると一覧の復号が失敗する）
+export async function updateGroupAccount(groupId: string, accountId: string, input: GroupAccountInput): Promise<boolean> {
+  const updates: Record<string, unknown> = {
+    displayName: input.displayName,
+    userId: input.userId,
+    owner: input.owner ?? null,
+    enabled: input.enabled,
+    updatedAt: new Date(),
+  };
+  const updateFields = ["displayName", "userId", "owner", "enabled", "updatedAt"];
+
+  if (input.password) {
+    updates.password = encryptGroupIds(input.password);
+    updateFields.push("password");
+  }
+
+  try {
+    await patchFirestoreRestDocument(`${buildAccountsPath(groupId)}/${accountId}`, updates, updateFields, {
+      mustExist: true,
+    });
+  } catch (error) {
+    if (error instanceof Error && /NOT_FOUND|FAILED_PRECONDITION/.test(error.message)) {
+      return false;
+    }
+    throw error;
+  }
+  return true;
+}
+
+export async function deleteGroupAccount(groupId: string, accountId: string): Promise<void> {
+  await deleteFirestoreRestDocument(`${buildAccountsPath(groupId)}/${accountId}`);
+  // ログイン確認の結果もアカウント単位なので一緒に消す
+  await deleteFirestoreRestDocument(`groups/${groupId}/accountVerifications/${accountId}`);
+}
+
+// PATCH は存在しないドキュメントを作ってしまうので、削除済みのアカウントなら false を返す
+export async function markGroupAccountLoginSucceeded(groupId: string, accountId: string): Promise<boolean> {
+  const accountPath = `${buildAccountsPath(groupId)}/${accountId}`;
+  const document = await getFirestoreRestDocument(accountPath);
+  if (!document) {
+    return false;
+  }
+
+  await patchFirestoreRestDocument(accountPath, { lastLoginSucceededAt: new Date() }, ["lastLoginSucceededAt"], {
+    currentUpdateTime: document.updateTime,
+  });
+  return true;
+}
+
+// groups/{groupId}.ids（旧CSV）の行をアカウントとして取り込む。同じIDが既にあれば飛ばす
+export async function importGroupAccounts(
+  groupId: string,
+  rows: Array<{ userId: string; password: string }>,
+): Promise<number> {
+  const existingUserIds = new Set((await listGroupAccounts(groupId)).map((account) => account.userId));
+  let importedCount = 0;
+
+  for (const row of rows) {
+    if (existingUserIds.has(row.userId)) {
+      continue;
+    }
+
+    await createGroupAccount(groupId, {
+      displayName: row.userId,
+      userId: row.userId,
+      password: row.password,
+      owner: null,
+      enabled: true,
+    });
+    existingUserIds.add(row.userId);
+    importedCount += 1;
+  }
+
+  return importedCount;
+}
+
+function toGroupAccount(groupId: string, document: FirestoreRestDocument): GroupAccount {
+  const { displayName, userId, owner, enabled, lastLoginSucceededAt, createdAt } = document.data;
+  const normalizedUserId = typeof userId === "string" ? userId : "";
+
+  return {
+    id: document.id,
+    groupId,
+    displayName: typeof displayName === "string" && displayName ? displayName : normalizedUserId,
+    userId: normalizedUserId,
+    owner: typeof owner === "string" && owner ? owner : null,
+    enabled: enabled !== false,
+    lastLoginSucceededAt: typeof lastLoginSucceededAt === "string" ? lastLoginSucceededAt : null,
+    createdAt: typeof createdAt === "string" ? createdAt : null,
+  };
+}
+
+function requireAccountPassword(document: FirestoreRestDocument): string {
+  const { password } = document.data;
+  if (typeof password !== "string" || !password) {
+    throw new Error(`Account password is missing (${document.id})`);
+  }
+
+  try {
+    return decryptGroupIds(password);
+  } catch (error) {
+    throw new Error(
+      `Failed to decrypt account password (${document.id}): ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// hit-targets の rowIndex はこの並び順のインデックスなので、作成順で固定する
+function sortAccounts<T extends GroupAccount>(accounts: T[]): T[] {
+  return [...accounts].sort(
+    (left, right) => (left.createdAt ?? "").localeCompare(right.createdAt ?? "") || left.id.localeCompare(right.id),
+  );
+}
@@ -1,9 +1,12 @@
-import { decodeGroupIdsForDisplay } from "@/lib/security/group-ids-crypto";
+import { listGroupAccountCredentials, listGroupAccounts } from "@/lib/api/group-accounts";
+import { decodeGroupIds } from "@/lib/security/group-ids-crypto";
 
 export type HitTarget = {
   groupId: string;
   userId: string;
   password: string;
+  // groups/{groupId}/accounts から読んだ場合のみ
+  accountId?: string;
 };
 
 export type HitTargetDescriptor = {
@@ -26,8 +29,9 @@ export function parseHitTargetCsv(groupId: string, text: string): HitTarget[] {
     });
 }
 
+// 復号できない場合は例外（空として扱うと、そのグループの確認対象が黙って0件になる）
 export function decodeHitTargetsFromRawIds(groupId: string, rawIds: unknown): HitTarget[] {
-  const decodedIds = decodeGroupIdsForDisplay(rawIds);
+  const decodedIds = decodeGroupIds(rawIds);
   if (!decodedIds.trim()) {
     return [];
   }
@@ -48,6 +52,22 @@ export function decodeHitTargetsFromRawIds(groupId: string, rawIds: unknown): Hi
   return uniqueEntries;
 }
 
-export function buildHitTargetDescriptors(groupId: string, rawIds: unknown): HitTargetDescriptor[] {
-  return decodeHitTargetsFromRawIds(groupId, rawIds).map((_, rowIndex) => ({ groupId, rowIndex }));
+// 有効なアカウントを優先し、アカウントのドキュメントが1件も無いグループだけ旧CSV（groups/{groupId}.ids）を使う。
+// 復号の結果で決めると、鍵の設定ミスで古いCSVのアカウントを確認してしまう。復号できないアカウントがあれば例外になる
+export async function loadGroupHitTargets(groupId: string, rawIds: unknown): Promise<HitTarget[]> {
+  const accounts = await listGroupAccounts(groupId);
+  if (accounts.length === 0) {
+    return decodeHitTargetsFromRawIds(groupId, rawIds);
+  }
+
+  return (await listGroupAccountCredentials(groupId)).map(account => ({
+    groupId,
+    userId: account.userId,
+    password: account.password,
+    accountId: account.id,
+  }));
+}
+
+export async function buildHitTargetDescriptors(groupId: string, rawIds: unknown): Promise<HitTargetDescriptor[]> {
+  return (await loadGroupHitTargets(groupId, rawIds)).map((_, rowIndex) => ({ groupId, rowIndex }));
 }
@@ -0,0 +1,85 @@
+import { parseJobEntry, type JobEntry } from '@/lib/api/job-result';
+
+export type JobCheckpointPlan = {
+  entries: JobEntry[];
+  failedEntries: JobEntry[];
+  requestStatusEntries: JobEntry[];
+  totalEntries: number;
+};
+
+export type JobCheckpointEntry = {
+  entry: JobEntry;
+  outcome: 'success' | 'failed' | 'dry_run';
+  reason: string | null;
+  // 失敗時の分類（playwright/entry_failure.ts の EntryFailure）
+  failure: { kind: string; message: string } | null;
+  screenshotPath: string | null;
+};
+
+// ワーカーが組み立てた応募計画と、処理済みの枠。再開時はこれを引き継いで続きから処理する
+export type JobCheckpoint = {
+  plan: JobCheckpointPlan;
+  processed: JobCheckpointEntry[];
+};
+
+const CHECKPOINT_OUTCOMES: JobCheckpointEntry['outcome'][] = ['success', 'failed', 'dry_run'];
+
+export function parseJobCheckpoint(value: unknown): JobCheckpoint | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { plan, processed } = value as Record<string, unknown>;
+  if (!plan || typeof plan !== 'object' || !Array.isArray(processed)) {
+    return null;
+  }
+
+  const planRecord = plan as Record<string, unknown>;
+  const entries = parseEntryList(planRecord.entries);
+  const failedEntries = parseEntryList(planRecord.failedEntries);
+  const requestStatusEntries = parseEntryList(planRecord.requestStatusEntries);
+  const totalEntries = Number(planRecord.totalEntries);
+  if (!entries || !failedEntries || !requestStatusEntries || !Number.isInteger(totalEntries) || totalEntries < 0) {
+    return null;
+  }
+
+  const processedEntries: JobCheckpointEntry[] = [];
+  for (const item of processed) {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+    const { entry, outcome, reason, failure, screenshotPath } = item as Record<string, unknown>;
+    const parsedEntry = parseJobEntry(entry);
+    if (!parsedEntry || !CHECKPOINT_OUTCOMES.includes(outcome as JobCheckpointEntry['outcome'])) {
+      return null;
+    }
+    processedEntries.push({
+      entry: parsedEntry,
+      outcome: outcome as JobCheckpointEntry['outcome'],
+      reason: typeof reason === 'string' ? reason : null,
+      failure: parseFailure(failure),
+      screenshotPath: typeof screenshotPath === 'string' ? screenshotPath : null,
+    });
+  }
+
+  return {
+    plan: { entries, failedEntries, requestStatusEntries, totalEntries },
+    processed: processedEntries,
+  };
+}
+
+function parseFailure(value: unknown): JobCheckpointEntry['failure'] {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const { kind, message } = value as Record<string, unknown>;
+  return typeof kind === 'string' && typeof message === 'string' ? { kind, message } : null;
+}
+
+function parseEntryList(value: unknown): JobEntry[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+  const entries = value.map(parseJobEntry);
+  return entries.some((entry) => entry === null) ? null : (entries as JobEntry[]);
+}
@@ -0,0 +1,15 @@
+const JOB_MODES = ["lottery", "first_come"] as const;
+
+// jobs/{jobId}.mode。lottery=抽選応募（既定）、first_come=抽選後に残った空き枠を先着で予約する（playwright/types.ts の ReservationKind と揃えること）
+export type JobMode = (typeof JOB_MODES)[number];
+
+export const DEFAULT_JOB_MODE: JobMode = "lottery";
+
+export function parseJobMode(value: unknown): JobMode | null {
+  return JOB_MODES.find((mode) => mode === value) ?? null;
+}
+
+// mode がない以前のジョブ・予定は抽選応募
+export function resolveJobMode(value: unknown): JobMode {
+  return parseJobMode(value) ?? DEFAULT_JOB_MODE;
+}
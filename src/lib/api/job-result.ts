@@ -0,0 +1,90 @@
+export type JobEntry = {
+  gymName: string;
+  room: string;
+  date: string;
+  time: string;
+};
+
+export type JobEntryOutcome = 'success' | 'failed' | 'skipped' | 'dry_run';
+
+export type JobResultEntry = {
+  entry: JobEntry;
+  outcome: JobEntryOutcome;
+  reason: string | null;
+  // ジョブブランチの playwright/ 配下に commit されるスクリーンショットのファイル名
+  screenshotPath: string | null;
+};
+
+export type JobResultCounts = {
+  success: number;
+  failed: number;
+  skipped: number;
+  cancelled: number;
+  dryRun: number;
+};
+
+export type JobResult = {
+  counts: JobResultCounts;
+  entries: JobResultEntry[];
+};
+
+const JOB_ENTRY_OUTCOMES: JobEntryOutcome[] = ['success', 'failed', 'skipped', 'dry_run'];
+
+export function parseJobEntry(value: unknown): JobEntry | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { gymName, room, date, time } = value as Record<string, unknown>;
+  if (typeof gymName !== 'string' || typeof room !== 'string' || typeof date !== 'string' || typeof time !== 'string') {
+    return null;
+  }
+
+  return { gymName, room, date, time };
+}
+
+export function parseJobResult(value: unknown): JobResult | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const counts = record.counts as Record<string, unknown> | undefined;
+  if (!counts || typeof counts !== 'object' || !Array.isArray(record.entries)) {
+    return null;
+  }
+
+  const entries: JobResultEntry[] = [];
+  for (const item of record.entries) {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+    const { entry, outcome, reason, screenshotPath } = item as Record<string, unknown>;
+    const parsedEntry = parseJobEntry(entry);
+    if (!parsedEntry || !JOB_ENTRY_OUTCOMES.includes(outcome as JobEntryOutcome)) {
+      return null;
+    }
+    entries.push({
+      entry: parsedEntry,
+      outcome: outcome as JobEntryOutcome,
+      reason: typeof reason === 'string' && reason ? reason : null,
+      screenshotPath: typeof screenshotPath === 'string' && screenshotPath ? screenshotPath : null,
+    });
+  }
+
+  return {
+    counts: {
+      success: toCount(counts.success),
+      failed: toCount(counts.failed),
+      skipped: toCount(counts.skipped),
+      cancelled: toCount(counts.cancelled),
+      dryRun: toCount(counts.dryRun),
+    },
+    entries,
+  };
+}
+
+function toCount(value: unknown): number {
+  const count = Number(value);
+  return Number.isInteger(count) && count >= 0 ? count : 0;
+}
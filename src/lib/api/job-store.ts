@@ -1,56 +1,121 @@
 import { randomUUID } from 'node:crypto';
 
-import { dispatchJobWorkflow } from '@/lib/github/dispatch';
 import {
   getFirestoreRestDocument,
   patchFirestoreRestDocument,
+  queryFirestoreRestCollection,
   setFirestoreRestDocument,
 } from '@/lib/firebase/firestore-rest';
+import type { SeekFacility } from '@/lib/api/facility-catalogue';
+import type { JobCheckpoint } from '@/lib/api/job-checkpoint';
+import type { JobMode } from '@/lib/api/job-mode';
+import type { JobEntry, JobResult } from '@/lib/api/job-result';
+import { getJobRunner } from '@/lib/runner';
+import {
+  digestJobUserId,
+  sealJobCredentials,
+  unsealJobCredentials,
+  type JobCredentials,
+} from '@/lib/security/job-credentials-crypto';
+import type { CandidateScoringSettings } from '@/lib/sites/candidate-scoring';
+import type { LotRequestSettings } from '@/lib/sites/lot-request-settings';
+import type { SeekSlotRules } from '@/lib/sites/seek-slot-rules';
 
 export type CreateJobInput = {
+  // 未指定なら新しく採番する（再開では元ジョブを押さえる時に先に決める）
+  jobId?: string;
   userId: string;
   password: string;
+  // groups/{groupId}/accounts のアカウントから認証情報を読んだ場合
+  accountId?: string;
   entryCount: number;
   groupId: string;
   label?: string;
   message: string;
   progress: string;
+  dryRun?: boolean;
+  // 未指定は抽選応募
+  mode?: JobMode;
+  siteId: string;
+  lotRequest: LotRequestSettings;
+  candidateScoring: CandidateScoringSettings;
+  seekRules: SeekSlotRules;
+  // 未選択（空）ならサイト既定の施設を探索する
+  seekFacilities: SeekFacility[];
+  // 抽選申込フォームのURL（groups/{groupId}.urls）。あれば検索を通らずにこのURLへ直接申し込む
+  lotRequestUrls: string[];
+  // 指定がある場合は代表者リストの代わりにこの枠だけに応募する（失敗行の再試行用）
+  targetEntries?: JobEntry[];
+  // 中断したジョブの続きから処理する場合のチェックポイントと元ジョブID
+  checkpoint?: JobCheckpoint;
+  resumedFrom?: string;
+  // groups/{groupId}/slotAllocations の割り振りに参加する場合。追加分の枠は探索せず割り振られた枠に応募する
+  allocationId?: string;
 };
 
 export type JobPatchInput = {
   status?: string;
   message?: string;
   progress?: string;
+  result?: JobResult;
+  checkpoint?: JobCheckpoint;
   clearCredentials?: boolean;
 };
 
-const CREDENTIAL_FIELD_PATHS = ['userId', 'password'];
+// userId/password は平文で保存していた頃のジョブの分。新しいジョブは credentials（暗号化済み）だけを持つ
+const CREDENTIAL_FIELD_PATHS = ['credentials', 'userId', 'password'];
 const CLEAR_CREDENTIAL_FIELDS = ['updatedAt', ...CREDENTIAL_FIELD_PATHS];
-const TERMINAL_FAILURE_STATUS = 'failed';
+export const TERMINAL_FAILURE_STATUS = 'failed';
+// キャンセル要求中。ワーカーが枠の合間に検知して止まり、ワークフローが cancelled に更新する
+export const CANCELLING_JOB_STATUS = 'cancelling';
+export const CANCELLED_JOB_STATUS = 'cancelled';
 
 export function createJobId(): string {
   return randomUUID().replace(/-/g, '');
 }
 
 export async function createDispatchedJob(input: CreateJobInput): Promise<string> {
-  const jobId = createJobId();
+  const jobId = input.jobId ?? createJobId();
 
   await setFirestoreRestDocument(`jobs/${jobId}`, {
     status: 'pending',
     message: input.message,
     createdAt: new Date(),
     progress: input.progress,
-    userId: input.userId,
-    password: input.password,
+    credentials: sealJobCredentials({ userId: input.userId, password: input.password }),
+    userIdDigest: digestJobUserId(input.userId),
     entryCount: input.entryCount,
     groupId: input.groupId,
+    accountId: input.accountId ?? null,
+    dryRun: input.dryRun === true,
+    mode: input.mode ?? 'lottery',
+    siteId: input.siteId,
+    lotRequest: input.lotRequest,
+    candidateScoring: input.candidateScoring,
+    seekRules: input.seekRules,
+    seekFacilities: input.seekFacilities,
+    lotRequestUrls: input.lotRequestUrls,
+    ...(input.targetEntries ? { targetEntries: input.targetEntries } : {}),
+    ...(input.checkpoint ? { checkpoint: input.checkpoint, resumedFrom: input.resumedFrom ?? null } : {}),
+    ...(input.allocationId ? { allocationId: input.allocationId } : {}),
   });
 
+  const runner = getJobRunner();
+
   try {
-    await dispatchJobWorkflow(jobId, input.label);
+    await runner.dispatchReservationJob({
+      jobId,
+      label: input.label,
+      userId: input.userId,
+      password: input.password,
+      accountId: input.accountId,
+      entryCount: input.entryCount,
+      groupId: input.groupId,
+      siteId: input.siteId,
+    });
   } catch (error) {
     try {
-      await markJobAsFailed(jobId, 'GitHub Actions dispatch failed');
+      await markJobAsFailed(jobId, runner.id === 'local' ? 'Local job runner dispatch failed' : 'GitHub Actions dispatch failed');
     } catch (updateError) {
       console.error('Failed to mark job as failed after dispatch error', updateError);
     }
@@ -64,7 +129,11 @@ export async function getJobDocument(jobId: string) {
   return getFirestoreRestDocument(`jobs/${jobId}`);
 }
 
-export async function patchJobDocument(jobId: string, input: JobPatchInput): Promise<void> {
+export async function patchJobDocument(
+  jobId: string,
+  input: JobPatchInput,
+  options?: { currentUpdateTime?: string },
+): Promise<void> {
   const updates: Record<string, unknown> = {
     updatedAt: new Date(),
   };
@@ -85,17 +154,123 @@ export async function patchJobDocument(jobId: string, input: JobPatchInput): Pro
     updateFields.push('progress');
   }
 
+  if (input.result !== undefined) {
+    updates.result = input.result;
+    updateFields.push('result');
+  }
+
+  if (input.checkpoint !== undefined) {
+    updates.checkpoint = input.checkpoint;
+    updateFields.push('checkpoint');
+  }
+
   if (input.clearCredentials) {
     updateFields.push(...CREDENTIAL_FIELD_PATHS);
   }
 
-  await patchFirestoreRestDocument(`jobs/${jobId}`, updates, updateFields);
+  await patchFirestoreRestDocument(`jobs/${jobId}`, updates, updateFields, options);
 }
 
 export async function clearJobCredentials(jobId: string): Promise<void> {
   await patchFirestoreRestDocument(`jobs/${jobId}`, { updatedAt: new Date() }, CLEAR_CREDENTIAL_FIELDS);
 }
 
+// ワーカーへの受け渡し用。取り出すと同時に削除するので、同じジョブで2回目以降は null になる
+export async function redeemJobCredentials(jobId: string): Promise<JobCredentials | null> {
+  const document = await getJobDocument(jobId);
+  const data = document?.data;
+
+  if (!document || !data) {
+    return null;
+  }
+
+  let credentials: JobCredentials;
+  if (typeof data.credentials === 'string') {
+    credentials = unsealJobCredentials(data.credentials);
+  } else if (typeof data.userId === 'string' && typeof data.password === 'string') {
+    credentials = { userId: data.userId, password: data.password };
+  } else {
+    return null;
+  }
+
+  try {
+    await patchFirestoreRestDocument(`jobs/${jobId}`, { updatedAt: new Date() }, CLEAR_CREDENTIAL_FIELDS, {
+      currentUpdateTime: document.updateTime,
+    });
+  } catch (error) {
+    // 同時に受け取ろうとした別のリクエストが先に削除した
+    if (error instanceof Error && error.message.includes('FAILED_PRECONDITION')) {
+      return null;
+    }
+    throw error;
+  }
+
+  return credentials;
+}
+
+export function readJobUserId(data: Record<string, unknown>): string | undefined {
+  if (typeof data.credentials === 'string') {
+    return unsealJobCredentials(data.credentials).userId;
+  }
+  return typeof data.userId === 'string' ? data.userId : undefined;
+}
+
+// 終わったジョブは認証情報を消しているので userIdDigest で照合する。どちらも無い古いジョブは照合できない
+export function isJobOwnedByUser(data: Record<string, unknown>, userId: string): boolean {
+  const jobUserId = readJobUserId(data);
+  if (jobUserId !== undefined) {
+    return jobUserId === userId;
+  }
+  return typeof data.userIdDigest === 'string' && data.userIdDigest === digestJobUserId(userId);
+}
+
+// ワーカーが起動しなかったジョブなどに残った認証情報を、ステータスに関係なく作成から一定時間で消す
+export async function sweepExpiredJobCredentials(maxAgeMinutes: number, now = new Date()): Promise<string[]> {
+  const cutoff = now.getTime() - maxAgeMinutes * 60_000;
+  // 認証情報が残っているジョブは少ないので、フィールドごとに絞り込んでから作成日時を見る。
+  // createdAt も条件に入れると複合インデックスが要るため、そちらはここで判定する
+  const matches = await Promise.all(
+    CREDENTIAL_FIELD_PATHS.map((field) => queryFirestoreRestCollection('jobs', { field, op: 'IS_NOT_NULL' })),
+  );
+  const documents = [...new Map(matches.flat().map((document) => [document.id, document])).values()];
+  const expiredJobIds = documents
+    .filter(({ data, updateTime }) => {
+      const createdAt = typeof data.createdAt === 'string' ? data.createdAt : updateTime;
+      const createdAtMs = createdAt ? Date.parse(createdAt) : Number.NaN;
+      return !Number.isNaN(createdAtMs) && createdAtMs <= cutoff;
+    })
+    .map(({ id }) => id);
+
+  for (const jobId of expiredJobIds) {
+    await clearJobCredentials(jobId);
+  }
+
+  return expiredJobIds;
+}
+
+// 同じジョブを2回再開すると同じ枠に二重に申し込むので、再開先のジョブIDを書いて押さえる。
+// 読み取り後に他の再開が先に押さえていたら false
+export async function claimJobForResume(jobId: string, updateTime: string | undefined, resumedJobId: string): Promise<boolean> {
+  try {
+    await patchFirestoreRestDocument(
+      `jobs/${jobId}`,
+      { resumedBy: resumedJobId, updatedAt: new Date() },
+      ['resumedBy', 'updatedAt'],
+      { currentUpdateTime: updateTime, mustExist: true },
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof Error && /FAILED_PRECONDITION|NOT_FOUND/.test(error.message)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function releaseJobResumeClaim(jobId: string): Promise<void> {
+  await patchFirestoreRestDocument(`jobs/${jobId}`, { updatedAt: new Date() }, ['resumedBy', 'updatedAt']);
+}
+
 export async function markJobAsFailed(jobId: string, message: string): Promise<void> {
   await patchJobDocument(jobId, {
     status: TERMINAL_FAILURE_STATUS,
@@ -104,6 +279,26 @@ export async function markJobAsFailed(jobId: string, message: string): Promise<v
   });
 }
 
+// 読み取った時点から更新されていたら false（その間に終わったジョブを cancelling に戻さない）
+export async function requestJobCancellation(jobId: string, updateTime: string | undefined): Promise<boolean> {
+  try {
+    await patchJobDocument(
+      jobId,
+      {
+        status: CANCELLING_JOB_STATUS,
+        progress: 'キャンセル中',
+      },
+      { currentUpdateTime: updateTime },
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('FAILED_PRECONDITION')) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 export function formatHistoryTimestamp(date: Date): string {
   const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
   const year = date.getFullYear();
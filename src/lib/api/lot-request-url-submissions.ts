@@ -0,0 +1,56 @@
+import { getFirestoreRestDocument, patchFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
+import type { JobResult } from "@/lib/api/job-result";
+
+// URL指定の枠は日付や時間を持たず、申込状況との重複確認ができない。
+// そのため申し込めたURLをアカウントごとに groups/{groupId}/lotRequestUrlSubmissions/{userIdDigest} に残し、次のジョブでは飛ばす
+const MAX_SUBMITTED_URLS = 200;
+const MAX_RECORD_ATTEMPTS = 3;
+
+function buildSubmissionPath(groupId: string, userIdDigest: string): string {
+  return `groups/${groupId}/lotRequestUrlSubmissions/${userIdDigest}`;
+}
+
+function parseSubmittedUrls(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((url): url is string => typeof url === "string" && url.length > 0) : [];
+}
+
+export async function listSubmittedLotRequestUrls(groupId: string, userIdDigest: string): Promise<string[]> {
+  const document = await getFirestoreRestDocument(buildSubmissionPath(groupId, userIdDigest));
+  return parseSubmittedUrls(document?.data.urls);
+}
+
+// ジョブの結果から、ジョブの lotRequestUrls のうち申込に成功したURLを足す（ドライランは数えない）
+export async function recordSubmittedLotRequestUrls(
+  groupId: string,
+  userIdDigest: string,
+  lotRequestUrls: string[],
+  result: JobResult,
+): Promise<string[]> {
+  const submitted = result.entries
+    .filter(({ outcome, entry }) => outcome === "success" && lotRequestUrls.includes(entry.room))
+    .map(({ entry }) => entry.room);
+  if (submitted.length === 0) {
+    return [];
+  }
+
+  // 同じアカウントのジョブの結果が同時に届いても、読んだ後に更新されていたら読み直して足し直す
+  const path = buildSubmissionPath(groupId, userIdDigest);
+  for (let attempt = 1; attempt <= MAX_RECORD_ATTEMPTS; attempt += 1) {
+    const document = await getFirestoreRestDocument(path);
+    const urls = Array.from(new Set([...parseSubmittedUrls(document?.data.urls), ...submitted])).slice(-MAX_SUBMITTED_URLS);
+    try {
+      await patchFirestoreRestDocument(
+        path,
+        { urls, updatedAt: new Date() },
+        ["urls", "updatedAt"],
+        document?.updateTime ? { currentUpdateTime: document.updateTime } : { mustNotExist: true },
+      );
+      return submitted;
+    } catch (error) {
+      if (!(error instanceof Error && /FAILED_PRECONDITION|ALREADY_EXISTS/.test(error.message)) || attempt === MAX_RECORD_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+  return submitted;
+}
@@ -0,0 +1,131 @@
+import { parseJobEntry, type JobEntry } from "@/lib/api/job-result";
+import { getFirestoreRestDocument, setFirestoreRestDocument } from "@/lib/firebase/firestore-rest";
+
+const DEFAULT_SEEK_LOT_CACHE_TTL_MINUTES = 30;
+const FACILITY_GROUP_KINDS = ["gym", "school"] as const;
+const YEAR_MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const FACILITY_SET_ID_PATTERN = /^[0-9a-f]{12}$/;
+
+// 月の前半は体育館、後半は学校の比較画面を見るので、探索結果もその単位で持つ
+export type SeekLotFacilityGroupKind = (typeof FACILITY_GROUP_KINDS)[number];
+
+export type SeekLotCacheKey = {
+  siteId: string;
+  yearMonth: string;
+  facilityGroupKind: SeekLotFacilityGroupKind;
+  // グループが探索する施設を選んでいる場合の組み合わせID（buildFacilitySetId）。なければサイト既定の施設
+  facilitySetId?: string;
+};
+
+// 抽選の詳細ページで見えた枠と、その時点の応募数
+export type SeekLotCacheCandidate = {
+  entry: JobEntry;
+  count: number;
+};
+
+// seekLotCache/{siteId}_{yearMonth}_{facilityGroupKind}[_{facilitySetId}]。施設サイトの公開情報なのでグループをまたいで共有する
+export type SeekLotCache = SeekLotCacheKey & {
+  candidates: SeekLotCacheCandidate[];
+  scoutedAt: string;
+};
+
+function buildCachePath(key: SeekLotCacheKey): string {
+  const suffix = key.facilitySetId ? `_${key.facilitySetId}` : "";
+  return `seekLotCache/${key.siteId}_${key.yearMonth}_${key.facilityGroupKind}${suffix}`;
+}
+
+export function parseSeekLotCacheKey(value: {
+  siteId?: unknown;
+  yearMonth?: unknown;
+  facilityGroupKind?: unknown;
+  facilitySetId?: unknown;
+}): SeekLotCacheKey | null {
+  const siteId = typeof value.siteId === "string" ? value.siteId.trim() : "";
+  const { yearMonth, facilityGroupKind } = value;
+
+  if (!/^[a-z0-9-]+$/.test(siteId) || typeof yearMonth !== "string" || !YEAR_MONTH_PATTERN.test(yearMonth)) {
+    return null;
+  }
+  if (!FACILITY_GROUP_KINDS.some((kind) => kind === facilityGroupKind)) {
+    return null;
+  }
+
+  const facilitySetId = typeof value.facilitySetId === "string" ? value.facilitySetId : "";
+  if ((value.facilitySetId ?? "") !== facilitySetId || (facilitySetId && !FACILITY_SET_ID_PATTERN.test(facilitySetId))) {
+    return null;
+  }
+
+  return {
+    siteId,
+    yearMonth,
+    facilityGroupKind: facilityGroupKind as SeekLotFacilityGroupKind,
+    ...(facilitySetId ? { facilitySetId } : {}),
+  };
+}
+
+export function parseSeekLotCacheCandidates(value: unknown): SeekLotCacheCandidate[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const candidates: SeekLotCacheCandidate[] = [];
+  for (const item of value) {
+    const { entry, count } = (item ?? {}) as Record<string, unknown>;
+    const parsedEntry = parseJobEntry(entry);
+
+    if (!parsedEntry || typeof count !== "number" || !Number.isFinite(count)) {
+      return null;
+    }
+
+    candidates.push({ entry: parsedEntry, count });
+  }
+
+  return candidates;
+}
+
+// SEEK_LOT_CACHE_TTL_MINUTES=0 でキャッシュを使わない（毎回詳細ページを見る）
+export function resolveSeekLotCacheTtlMinutes(): number {
+  const ttlMinutes = Number(process.env.SEEK_LOT_CACHE_TTL_MINUTES ?? DEFAULT_SEEK_LOT_CACHE_TTL_MINUTES);
+  return Number.isFinite(ttlMinutes) && ttlMinutes > 0 ? ttlMinutes : 0;
+}
+
+export async function getFreshSeekLotCache(key: SeekLotCacheKey, now = new Date()): Promise<SeekLotCache | null> {
+  const ttlMinutes = resolveSeekLotCacheTtlMinutes();
+  if (ttlMinutes === 0) {
+    return null;
+  }
+
+  const cache = await getLatestSeekLotCache(key);
+  if (!cache || now.getTime() - Date.parse(cache.scoutedAt) > ttlMinutes * 60 * 1000) {
+    return null;
+  }
+
+  return cache;
+}
+
+// 期限切れでも最後に探索した結果を返す（代表者画面の並び順プレビュー用）
+export async function getLatestSeekLotCache(key: SeekLotCacheKey): Promise<SeekLotCache | null> {
+  const document = await getFirestoreRestDocument(buildCachePath(key));
+  if (!document) {
+    return null;
+  }
+
+  const { candidates, scoutedAt } = document.data;
+  if (typeof scoutedAt !== "string" || !Number.isFinite(Date.parse(scoutedAt))) {
+    return null;
+  }
+
+  return {
+    ...key,
+    candidates: parseSeekLotCacheCandidates(candidates) ?? [],
+    scoutedAt,
+  };
+}
+
+export async function saveSeekLotCache(key: SeekLotCacheKey, candidates: SeekLotCacheCandidate[]): Promise<void> {
+  await setFirestoreRestDocument(buildCachePath(key), {
+    ...key,
+    candidates,
+    scoutedAt: new Date(),
+  });
+}
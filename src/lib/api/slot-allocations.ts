@@ -0,0 +1,215 @@
+import { randomUUID } from "node:crypto";
+
+import { parseJobEntry, type JobEntry } from "@/lib/api/job-result";
+import {
+  getFirestoreRestDocument,
+  patchFirestoreRestDocument,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+
+export const MAX_ALLOCATION_ACCOUNTS = 50;
+// 探索担当が落ちても planning のまま残らないよう、この時間を過ぎたら待っているワーカーが担当を引き継げる
+const PLANNING_LEASE_MS = 15 * 60 * 1000;
+
+// pending → planning（最初に動いたワーカーが探索を担当）→ ready / failed
+export type SlotAllocationStatus = "pending" | "planning" | "ready" | "failed";
+
+// 配列の並び順がそのまま優先順位（先頭ほど上位の枠を先に取る）
+export type SlotAllocationAccount = {
+  userId: string;
+  entryCount: number;
+};
+
+export type SlotAllocationAssignment = {
+  userId: string;
+  entries: JobEntry[];
+};
+
+// groups/{groupId}/slotAllocations/{allocationId}
+export type SlotAllocation = {
+  id: string;
+  groupId: string;
+  status: SlotAllocationStatus;
+  accounts: SlotAllocationAccount[];
+  assignments: SlotAllocationAssignment[];
+  error: string | null;
+  createdAt: string | null;
+  plannedAt: string | null;
+  // 探索を担当しているワーカーの識別子と担当になった日時。結果を書けるのはこの担当だけ
+  plannerId: string | null;
+  planningStartedAt: string | null;
+};
+
+function buildAllocationPath(groupId: string, allocationId: string): string {
+  return `groups/${groupId}/slotAllocations/${allocationId}`;
+}
+
+export function parseSlotAllocationAccounts(value: unknown): SlotAllocationAccount[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_ALLOCATION_ACCOUNTS) {
+    return null;
+  }
+
+  const accounts: SlotAllocationAccount[] = [];
+  for (const item of value) {
+    const { userId, entryCount } = (item ?? {}) as Record<string, unknown>;
+    const normalizedUserId = typeof userId === "string" ? userId.trim() : "";
+
+    if (!normalizedUserId || typeof entryCount !== "number" || !Number.isInteger(entryCount) || entryCount < 0) {
+      return null;
+    }
+    if (accounts.some((account) => account.userId === normalizedUserId)) {
+      return null;
+    }
+
+    accounts.push({ userId: normalizedUserId, entryCount });
+  }
+
+  return accounts;
+}
+
+export function parseSlotAllocationAssignments(value: unknown): SlotAllocationAssignment[] | null {
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const assignments: SlotAllocationAssignment[] = [];
+  for (const item of value) {
+    const { userId, entries } = (item ?? {}) as Record<string, unknown>;
+    const parsedEntries = Array.isArray(entries) ? entries.map(parseJobEntry) : null;
+
+    if (typeof userId !== "string" || !userId || !parsedEntries || parsedEntries.some((entry) => entry === null)) {
+      return null;
+    }
+
+    assignments.push({ userId, entries: parsedEntries as JobEntry[] });
+  }
+
+  return assignments;
+}
+
+export async function createSlotAllocation(groupId: string, accounts: SlotAllocationAccount[]): Promise<string> {
+  const allocationId = randomUUID().replace(/-/g, "");
+
+  await setFirestoreRestDocument(buildAllocationPath(groupId, allocationId), {
+    status: "pending",
+    accounts,
+    assignments: [],
+    error: null,
+    createdAt: new Date(),
+    plannedAt: null,
+    plannerId: null,
+    planningStartedAt: null,
+  });
+
+  return allocationId;
+}
+
+export async function getSlotAllocation(groupId: string, allocationId: string): Promise<SlotAllocation | null> {
+  const document = await getFirestoreRestDocument(buildAllocationPath(groupId, allocationId));
+  return document ? toSlotAllocation(groupId, document) : null;
+}
+
+// 探索を担当するワーカーを1台に絞る。pending（または担当の期限切れの planning）を書き換えられたワーカーだけ claimed になる
+export async function claimSlotAllocationPlanner(
+  groupId: string,
+  allocationId: string,
+  now = new Date(),
+): Promise<{ claimed: boolean; allocation: SlotAllocation } | null> {
+  const document = await getFirestoreRestDocument(buildAllocationPath(groupId, allocationId));
+  if (!document) {
+    return null;
+  }
+
+  const allocation = toSlotAllocation(groupId, document);
+  if (allocation.status !== "pending" && !isPlanningLeaseExpired(allocation, now)) {
+    return { claimed: false, allocation };
+  }
+
+  const updates = {
+    status: "planning",
+    plannerId: randomUUID().replace(/-/g, ""),
+    planningStartedAt: now,
+  };
+
+  try {
+    await patchFirestoreRestDocument(buildAllocationPath(groupId, allocationId), updates, Object.keys(updates), {
+      currentUpdateTime: document.updateTime,
+    });
+    return {
+      claimed: true,
+      allocation: { ...allocation, ...updates, status: "planning", planningStartedAt: now.toISOString() },
+    };
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("FAILED_PRECONDITION")) {
+      return { claimed: false, allocation };
+    }
+    throw error;
+  }
+}
+
+// 今の担当（plannerId）からの結果だけを書く。担当を引き継がれた後の古いワーカーや、同時に書き込まれた場合は false
+export async function completeSlotAllocation(
+  groupId: string,
+  allocationId: string,
+  plannerId: string,
+  result: { assignments: SlotAllocationAssignment[] } | { error: string },
+): Promise<boolean> {
+  const document = await getFirestoreRestDocument(buildAllocationPath(groupId, allocationId));
+  if (!document) {
+    return false;
+  }
+
+  const allocation = toSlotAllocation(groupId, document);
+  if (allocation.status !== "planning" || allocation.plannerId !== plannerId) {
+    return false;
+  }
+
+  const updates =
+    "error" in result
+      ? { status: "failed", error: result.error, plannedAt: new Date() }
+      : { status: "ready", assignments: result.assignments, error: null, plannedAt: new Date() };
+
+  try {
+    await patchFirestoreRestDocument(buildAllocationPath(groupId, allocationId), updates, Object.keys(updates), {
+      currentUpdateTime: document.updateTime,
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("FAILED_PRECONDITION")) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export function findSlotAllocationEntries(allocation: SlotAllocation, userId: string): JobEntry[] {
+  return allocation.assignments.find((assignment) => assignment.userId === userId)?.entries ?? [];
+}
+
+function isPlanningLeaseExpired(allocation: SlotAllocation, now: Date): boolean {
+  if (allocation.status !== "planning") {
+    return false;
+  }
+
+  // 担当の日時が無い planning は、期限を入れる前に担当になったまま止まったもの
+  const startedAtMs = allocation.planningStartedAt ? Date.parse(allocation.planningStartedAt) : Number.NaN;
+  return Number.isNaN(startedAtMs) || now.getTime() - startedAtMs >= PLANNING_LEASE_MS;
+}
+
+function toSlotAllocation(groupId: string, document: FirestoreRestDocument): SlotAllocation {
+  const { status, accounts, assignments, error, createdAt, plannedAt, plannerId, planningStartedAt } = document.data;
+
+  return {
+    id: document.id,
+    groupId,
+    status: status === "planning" || status === "ready" || status === "failed" ? status : "pending",
+    accounts: parseSlotAllocationAccounts(accounts) ?? [],
+    assignments: parseSlotAllocationAssignments(assignments) ?? [],
+    error: typeof error === "string" ? error : null,
+    createdAt: typeof createdAt === "string" ? createdAt : null,
+    plannedAt: typeof plannedAt === "string" ? plannedAt : null,
+    plannerId: typeof plannerId === "string" && plannerId ? plannerId : null,
+    planningStartedAt: typeof planningStartedAt === "string" ? planningStartedAt : null,
+  };
+}
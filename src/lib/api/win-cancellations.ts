@@ -0,0 +1,300 @@
+import { randomUUID } from "node:crypto";
+
+import {
+  getFirestoreRestDocument,
+  listFirestoreRestCollection,
+  patchFirestoreRestDocument,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+import type { WinCancelRules } from "@/lib/sites/win-cancel-rules";
+
+// scanning: 各アカウントの当選を読んでいる（取り消しはしない）。confirmed: 代表者が確定した枠を取り消している
+export type WinCancellationStatus = "scanning" | "confirmed";
+
+// 申込状況の当選1件。detailUrl（申込の詳細ページ）で枠を見分ける
+export type WinCancellationWin = {
+  gymName: string;
+  room: string;
+  date: string;
+  time: string;
+  detailUrl: string;
+};
+
+// groups/{groupId}/winCancellations/{runId}/accounts/{key}。key は登録アカウントなら accountId、旧CSVの行なら row-{rowIndex}
+export type WinCancellationAccount = {
+  key: string;
+  rowIndex: number;
+  accountName: string | null;
+  wins: WinCancellationWin[];
+  scannedAt: string | null;
+  cancelled: string[];
+  failed: Array<{ detailUrl: string; error: string }>;
+  cancelledAt: string | null;
+};
+
+// groups/{groupId}/winCancellations/{runId}
+export type WinCancellationRun = {
+  id: string;
+  status: WinCancellationStatus;
+  // 当選を読むアカウントの数
+  total: number;
+  cancelUrls: string[];
+  createdAt: string | null;
+  confirmedAt: string | null;
+  accounts: WinCancellationAccount[];
+  // 確定時に、読んだ後で他から確定されていないかを確かめるのに使う
+  updateTime: string | null;
+};
+
+export type WinCancellationPlanItem = WinCancellationWin & {
+  accountKey: string;
+  accountName: string | null;
+  action: "keep" | "cancel";
+  reason: string | null;
+};
+
+export type WinCancellationScanInput = {
+  rowIndex: number;
+  accountId: string | null;
+  accountName: string | null;
+  wins: WinCancellationWin[];
+};
+
+export type WinCancellationResultInput = {
+  rowIndex: number;
+  accountId: string | null;
+  cancelled: string[];
+  failed: Array<{ detailUrl: string; error: string }>;
+};
+
+const MAX_WINS_PER_ACCOUNT = 100;
+
+export async function createWinCancellationRun(groupId: string, total: number): Promise<string> {
+  const runId = randomUUID();
+
+  await setFirestoreRestDocument(`groups/${groupId}/winCancellations/${runId}`, {
+    status: "scanning",
+    total,
+    cancelUrls: [],
+    createdAt: new Date(),
+    confirmedAt: null,
+  });
+
+  return runId;
+}
+
+export async function getWinCancellationRun(groupId: string, runId: string): Promise<WinCancellationRun | null> {
+  const document = await getFirestoreRestDocument(`groups/${groupId}/winCancellations/${runId}`);
+  if (!document) {
+    return null;
+  }
+
+  const accounts = await listFirestoreRestCollection(`groups/${groupId}/winCancellations/${runId}/accounts`);
+  return toWinCancellationRun(document, accounts.map(toWinCancellationAccount));
+}
+
+export async function getLatestWinCancellationRun(groupId: string): Promise<WinCancellationRun | null> {
+  const documents = await listFirestoreRestCollection(`groups/${groupId}/winCancellations`);
+  const latest = documents
+    .map((document) => ({ document, createdAt: typeof document.data.createdAt === "string" ? document.data.createdAt : "" }))
+    .sort((lhs, rhs) => rhs.createdAt.localeCompare(lhs.createdAt))[0];
+
+  return latest ? getWinCancellationRun(groupId, latest.document.id) : null;
+}
+
+// 代表者が見た取り消し予定と同じ枠だけを取り消すため、確定時の URL をそのまま残す。
+// 二重送信や2人の代表者が同時に確定した場合は、後から来た方が false になる
+export async function confirmWinCancellationRun(groupId: string, run: WinCancellationRun, cancelUrls: string[]): Promise<boolean> {
+  try {
+    await patchFirestoreRestDocument(
+      `groups/${groupId}/winCancellations/${run.id}`,
+      { status: "confirmed", cancelUrls, confirmedAt: new Date() },
+      ["status", "cancelUrls", "confirmedAt"],
+      { currentUpdateTime: run.updateTime ?? undefined },
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("FAILED_PRECONDITION")) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export function parseWinCancellationScanInput(value: unknown): WinCancellationScanInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { rowIndex, accountId, accountName, wins } = value as Record<string, unknown>;
+  if (!Number.isInteger(rowIndex) || (rowIndex as number) < 0 || !Array.isArray(wins)) {
+    return null;
+  }
+
+  return {
+    rowIndex: rowIndex as number,
+    accountId: normalizeOptionalString(accountId),
+    accountName: normalizeOptionalString(accountName),
+    wins: wins.flatMap(parseWin).slice(0, MAX_WINS_PER_ACCOUNT),
+  };
+}
+
+export function parseWinCancellationResultInput(value: unknown): WinCancellationResultInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { rowIndex, accountId, cancelled, failed } = value as Record<string, unknown>;
+  if (!Number.isInteger(rowIndex) || (rowIndex as number) < 0 || !Array.isArray(cancelled) || !Array.isArray(failed)) {
+    return null;
+  }
+
+  return {
+    rowIndex: rowIndex as number,
+    accountId: normalizeOptionalString(accountId),
+    cancelled: cancelled.filter((url): url is string => typeof url === "string" && url.length > 0),
+    failed: failed.flatMap((item) => {
+      const { detailUrl, error } = (item ?? {}) as Record<string, unknown>;
+      return typeof detailUrl === "string" && detailUrl
+        ? [{ detailUrl, error: typeof error === "string" ? error.slice(0, 500) : "" }]
+        : [];
+    }),
+  };
+}
+
+export async function saveWinCancellationScan(groupId: string, runId: string, input: WinCancellationScanInput): Promise<void> {
+  await setFirestoreRestDocument(`groups/${groupId}/winCancellations/${runId}/accounts/${resolveAccountKey(input)}`, {
+    rowIndex: input.rowIndex,
+    accountName: input.accountName,
+    wins: input.wins,
+    scannedAt: new Date(),
+    cancelled: [],
+    failed: [],
+    cancelledAt: null,
+  });
+}
+
+export async function saveWinCancellationResult(
+  groupId: string,
+  runId: string,
+  input: WinCancellationResultInput,
+): Promise<void> {
+  await patchFirestoreRestDocument(
+    `groups/${groupId}/winCancellations/${runId}/accounts/${resolveAccountKey(input)}`,
+    { cancelled: input.cancelled, failed: input.failed, cancelledAt: new Date() },
+    ["cancelled", "failed", "cancelledAt"],
+  );
+}
+
+// 取り消す施設の当選を先に外し、残りをグループ全体で日ごとに時刻の早い順から maxPerDay 件まで残す
+export function buildWinCancellationPlan(
+  accounts: WinCancellationAccount[],
+  rules: WinCancelRules,
+): WinCancellationPlanItem[] {
+  const items = accounts
+    .flatMap((account) =>
+      account.wins.map((win) => ({ ...win, accountKey: account.key, accountName: account.accountName })),
+    )
+    .sort(compareWins);
+  const keptPerDay = new Map<string, number>();
+
+  return items.map((item): WinCancellationPlanItem => {
+    const gymName = normalizeName(item.gymName);
+    if (rules.dropFacilities.some((name) => gymName.includes(normalizeName(name)))) {
+      return { ...item, action: "cancel", reason: "取り消す施設" };
+    }
+
+    const dayKey = resolveDayKey(item.date);
+    const kept = keptPerDay.get(dayKey) ?? 0;
+    if (rules.maxPerDay !== null && kept >= rules.maxPerDay) {
+      return { ...item, action: "cancel", reason: `1日${rules.maxPerDay}件を超える分` };
+    }
+
+    keptPerDay.set(dayKey, kept + 1);
+    return { ...item, action: "keep", reason: null };
+  });
+}
+
+function parseWin(value: unknown): WinCancellationWin[] {
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+
+  const { gymName, room, date, time, detailUrl } = value as Record<string, unknown>;
+  if (typeof detailUrl !== "string" || !detailUrl.trim()) {
+    return [];
+  }
+
+  return [
+    {
+      gymName: typeof gymName === "string" ? gymName.trim() : "",
+      room: typeof room === "string" ? room.trim() : "",
+      date: typeof date === "string" ? date.trim() : "",
+      time: typeof time === "string" ? time.trim() : "",
+      detailUrl: detailUrl.trim(),
+    },
+  ];
+}
+
+function resolveAccountKey(input: { accountId: string | null; rowIndex: number }): string {
+  return input.accountId ?? `row-${input.rowIndex}`;
+}
+
+function compareWins(lhs: WinCancellationWin, rhs: WinCancellationWin): number {
+  return (
+    resolveDayKey(lhs.date).localeCompare(resolveDayKey(rhs.date)) ||
+    lhs.time.localeCompare(rhs.time) ||
+    lhs.gymName.localeCompare(rhs.gymName, "ja") ||
+    lhs.room.localeCompare(rhs.room, "ja") ||
+    lhs.detailUrl.localeCompare(rhs.detailUrl)
+  );
+}
+
+// 申込状況の日付は「2026年11月07日(土)」の形
+function resolveDayKey(date: string): string {
+  const match = date.match(/(\d{4})年\s*(\d{1,2})月\s*(\d{1,2})日/);
+  return match ? `${match[1]}-${match[2].padStart(2, "0")}-${match[3].padStart(2, "0")}` : date;
+}
+
+function normalizeName(value: string): string {
+  return value.normalize("NFKC").replace(/\s+/g, "");
+}
+
+function normalizeOptionalString(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+function toWinCancellationRun(document: FirestoreRestDocument, accounts: WinCancellationAccount[]): WinCancellationRun {
+  const { status, total, cancelUrls, createdAt, confirmedAt } = document.data;
+
+  return {
+    id: document.id,
+    status: status === "confirmed" ? "confirmed" : "scanning",
+    total: typeof total === "number" ? total : 0,
+    cancelUrls: Array.isArray(cancelUrls) ? cancelUrls.filter((url): url is string => typeof url === "string") : [],
+    createdAt: typeof createdAt === "string" ? createdAt : null,
+    confirmedAt: typeof confirmedAt === "string" ? confirmedAt : null,
+    accounts: accounts.sort((lhs, rhs) => lhs.rowIndex - rhs.rowIndex),
+    updateTime: document.updateTime ?? null,
+  };
+}
+
+function toWinCancellationAccount(document: FirestoreRestDocument): WinCancellationAccount {
+  const { rowIndex, accountName, wins, scannedAt, cancelled, failed, cancelledAt } = document.data;
+  const failedItems = Array.isArray(failed) ? failed : [];
+
+  return {
+    key: document.id,
+    rowIndex: typeof rowIndex === "number" ? rowIndex : 0,
+    accountName: typeof accountName === "string" && accountName ? accountName : null,
+    wins: Array.isArray(wins) ? wins.flatMap(parseWin) : [],
+    scannedAt: typeof scannedAt === "string" ? scannedAt : null,
+    cancelled: Array.isArray(cancelled) ? cancelled.filter((url): url is string => typeof url === "string") : [],
+    failed: failedItems.flatMap((item) => {
+      const { detailUrl, error } = (item ?? {}) as Record<string, unknown>;
+      return typeof detailUrl === "string" ? [{ detailUrl, error: typeof error === "string" ? error : "" }] : [];
+    }),
+    cancelledAt: typeof cancelledAt === "string" ? cancelledAt : null,
+  };
+}
@@ -0,0 +1,112 @@
+import {
+  listFirestoreRestCollection,
+  setFirestoreRestDocument,
+  type FirestoreRestDocument,
+} from "@/lib/firebase/firestore-rest";
+
+export type WinConfirmationEntry = {
+  gymName: string;
+  room: string;
+  date: string;
+  time: string;
+};
+
+export type WinConfirmationFailure = WinConfirmationEntry & {
+  error: string;
+  // 詳細ページに出ていた確定の期限。読めなかったら null
+  deadline: string | null;
+};
+
+// groups/{groupId}/winConfirmations/{key}。key は登録アカウントなら accountId、旧CSVの行なら row-{rowIndex}。最新の1回分だけ残す
+export type WinConfirmation = {
+  key: string;
+  accountName: string | null;
+  confirmed: WinConfirmationEntry[];
+  failed: WinConfirmationFailure[];
+  checkedAt: string | null;
+};
+
+export type WinConfirmationInput = {
+  rowIndex: number;
+  accountId: string | null;
+  accountName: string | null;
+  confirmed: WinConfirmationEntry[];
+  failed: WinConfirmationFailure[];
+};
+
+export function parseWinConfirmationInput(value: unknown): WinConfirmationInput | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { rowIndex, accountId, accountName, confirmed, failed } = value as Record<string, unknown>;
+  if (!Number.isInteger(rowIndex) || (rowIndex as number) < 0 || !Array.isArray(confirmed) || !Array.isArray(failed)) {
+    return null;
+  }
+
+  return {
+    rowIndex: rowIndex as number,
+    accountId: typeof accountId === "string" && accountId.trim() ? accountId.trim() : null,
+    accountName: typeof accountName === "string" && accountName.trim() ? accountName.trim() : null,
+    confirmed: confirmed.flatMap(parseEntry),
+    failed: failed.flatMap(parseFailure),
+  };
+}
+
+export async function saveWinConfirmation(groupId: string, input: WinConfirmationInput): Promise<void> {
+  const key = input.accountId ?? `row-${input.rowIndex}`;
+
+  await setFirestoreRestDocument(`groups/${groupId}/winConfirmations/${key}`, {
+    accountName: input.accountName,
+    confirmed: input.confirmed,
+    failed: input.failed,
+    checkedAt: new Date(),
+  });
+}
+
+export async function listWinConfirmations(groupId: string): Promise<WinConfirmation[]> {
+  const documents = await listFirestoreRestCollection(`groups/${groupId}/winConfirmations`);
+  return documents.map(toWinConfirmation);
+}
+
+function parseEntry(value: unknown): WinConfirmationEntry[] {
+  if (!value || typeof value !== "object") {
+    return [];
+  }
+
+  const { gymName, room, date, time } = value as Record<string, unknown>;
+  if (typeof gymName !== "string" || typeof date !== "string") {
+    return [];
+  }
+
+  return [
+    {
+      gymName,
+      room: typeof room === "string" ? room : "",
+      date,
+      time: typeof time === "string" ? time : "",
+    },
+  ];
+}
+
+function parseFailure(value: unknown): WinConfirmationFailure[] {
+  const { error, deadline } = (value ?? {}) as Record<string, unknown>;
+
+  return parseEntry(value).map((entry) => ({
+    ...entry,
+    error: typeof error === "string" ? error.slice(0, 500) : "",
+    deadline: typeof deadline === "string" && deadline ? deadline : null,
+  }));
+}
+
+function toWinConfirmation(document: FirestoreRestDocument): WinConfirmation {
+  const { accountName, confirmed, failed, checkedAt } = document.data;
+
+  return {
+    key: document.id,
+    accountName: typeof accountName === "string" && accountName ? accountName : null,
+    confirmed: Array.isArray(confirmed) ? confirmed.flatMap(parseEntry) : [],
+    failed: Array.isArray(failed) ? failed.flatMap(parseFailure) : [],
+    checkedAt: typeof checkedAt === "string" ? checkedAt : null,
+  };
+}
@@ -20,12 +20,24 @@ type FirestoreListResponse = {
   nextPageToken?: string;
 };
 
+type FirestoreRunQueryResponse = {
+  document?: FirestoreDocumentResponse;
+}[];
+
 export type FirestoreRestDocument = {
   id: string;
   data: Record<string, unknown>;
   updateTime?: string;
 };
 
+export type FirestoreRestFilter =
+  | { field: string; op: "IS_NULL" | "IS_NOT_NULL" }
+  | {
+      field: string;
+      op: "EQUAL" | "NOT_EQUAL" | "LESS_THAN" | "LESS_THAN_OR_EQUAL" | "GREATER_THAN" | "GREATER_THAN_OR_EQUAL";
+      value: unknown;
+    };
+
 export async function getFirestoreRestDocument(documentPath: string): Promise<FirestoreRestDocument | null> {
   const response = await fetch(buildFirestoreDocumentUrl(documentPath), {
     cache: "no-store",
@@ -89,15 +101,82 @@ export async function listFirestoreRestCollection(collectionPath: string): Promi
   return documents;
 }
 
+// 条件に合うドキュメントだけを取る（コレクション全体を読まないため）
+export async function queryFirestoreRestCollection(
+  collectionPath: string,
+  filter: FirestoreRestFilter,
+): Promise<FirestoreRestDocument[]> {
+  const segments = collectionPath.split("/");
+  const collectionId = segments.pop() ?? "";
+  const url = buildFirestoreDocumentUrl(segments.join("/"));
+  url.pathname = `${url.pathname.replace(/\/$/, "")}:runQuery`;
+
+  const where =
+    "value" in filter
+      ? {
+          fieldFilter: {
+            field: { fieldPath: filter.field },
+            op: filter.op,
+            value: encodeFirestoreValue(filter.value),
+          },
+        }
+      : {
+          unaryFilter: {
+            field: { fieldPath: filter.field },
+            op: filter.op,
+          },
+        };
+
+  const response = await fetch(url, {
+    method: "POST",
+    cache: "no-store",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId }],
+        where,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Firestore REST query failed: ${response.status} ${errorText}`);
+  }
+
+  const payload = (await response.json()) as FirestoreRunQueryResponse;
+  return payload
+    .flatMap(({ document }) => (document ? [document] : []))
+    .map((document) => ({
+      id: document.name?.split("/").pop() ?? "",
+      data: decodeFirestoreFields(document.fields ?? {}),
+      updateTime: document.updateTime,
+    }))
+    .filter((document) => document.id.length > 0);
+}
+
 export async function patchFirestoreRestDocument(
   documentPath: string,
   data: Record<string, unknown>,
   fieldPaths: string[],
+  options?: { currentUpdateTime?: string; mustExist?: boolean; mustNotExist?: boolean },
 ): Promise<void> {
   const url = buildFirestoreDocumentUrl(documentPath);
   for (const fieldPath of fieldPaths) {
     url.searchParams.append("updateMask.fieldPaths", fieldPath);
   }
+  // 読み取り後に他から更新されていたら FAILED_PRECONDITION で失敗させる
+  if (options?.currentUpdateTime) {
+    url.searchParams.set("currentDocument.updateTime", options.currentUpdateTime);
+  } else if (options?.mustExist) {
+    // PATCH は存在しないドキュメントを作るので、更新だけにしたいときは存在を前提にする（無ければ 404）
+    url.searchParams.set("currentDocument.exists", "true");
+  } else if (options?.mustNotExist) {
+    // 読み取り時に無かったドキュメントを、その間に他が作っていたら上書きしない
+    url.searchParams.set("currentDocument.exists", "false");
+  }
 
   const response = await fetch(url, {
     method: "PATCH",
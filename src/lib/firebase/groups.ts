@@ -29,6 +29,30 @@ export type GroupDocumentData = {
     time?: string;
   }>;
   representatives?: string[];
+  siteId?: string;
+  lotRequest?: {
+    sport?: string;
+    participants?: number;
+    extraFields?: Array<{ label?: string; value?: string }>;
+  };
+  candidateScoring?: {
+    weights?: Record<string, number>;
+    preferredWeekdays?: number[];
+    gymDistancesKm?: Array<{ gymName?: string; km?: number }>;
+  };
+  seekRules?: {
+    weekdayStartHours?: { from?: number; to?: number };
+    holidayStartHours?: { from?: number; to?: number };
+    excludedBooths?: string[];
+    excludedFacilities?: string[];
+  };
+  seekFacilities?: Array<{ code?: string; category?: string; rooms?: string[] }>;
+  // 抽選状況の確認で当選を自動で当選確定にする
+  autoConfirmWins?: boolean;
+  winCancelRules?: {
+    maxPerDay?: number | null;
+    dropFacilities?: string[];
+  };
 } & DocumentData;
 
 export type GroupDocument = GroupDocumentData & {
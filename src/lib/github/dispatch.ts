@@ -1,6 +1,8 @@
 const workflowRepo = process.env.GITHUB_WORKFLOW_REPO;
 const workflowFile = process.env.GITHUB_WORKFLOW_FILE ?? 'trigger-job.yml';
 const hitWorkflowFile = process.env.GITHUB_HIT_WORKFLOW_FILE ?? 'hit-scheduler.yml';
+const verifyAccountsWorkflowFile = process.env.GITHUB_VERIFY_ACCOUNTS_WORKFLOW_FILE ?? 'verify-accounts.yml';
+const winCancellationWorkflowFile = process.env.GITHUB_WIN_CANCELLATION_WORKFLOW_FILE ?? 'cancel-wins.yml';
 const workflowOwner = workflowRepo?.split('/')?.[0];
 const workflowRepoName = workflowRepo?.split('/')?.[1];
 const workflowRef = process.env.GITHUB_WORKFLOW_REF ?? 'main';
@@ -64,6 +66,14 @@ export async function dispatchHitWorkflow(groupId?: string): Promise<void> {
   await dispatchWorkflow(hitWorkflowFile);
 }
 
+export async function dispatchVerifyAccountsWorkflow(groupId: string): Promise<void> {
+  await dispatchWorkflow(verifyAccountsWorkflowFile, { group_id: groupId });
+}
+
+export async function dispatchWinCancellationWorkflow(groupId: string, runId: string): Promise<void> {
+  await dispatchWorkflow(winCancellationWorkflowFile, { group_id: groupId, run_id: runId });
+}
+
 export async function getLatestWorkflowInfo(): Promise<{ actionsUrl?: string; jobUrl?: string }> {
   assertWorkflowConfig();
 
@@ -0,0 +1,26 @@
+import {
+  dispatchHitWorkflow,
+  dispatchJobWorkflow,
+  dispatchVerifyAccountsWorkflow,
+  dispatchWinCancellationWorkflow,
+  getLatestWorkflowInfo,
+} from '@/lib/github/dispatch';
+import type { JobRunner } from '@/lib/runner';
+
+// 認証情報などはワークフロー側が /api/jobs から取得するので jobId だけを渡す
+export const githubJobRunner: JobRunner = {
+  id: 'github',
+  dispatchReservationJob: async ({ jobId, label }) => {
+    await dispatchJobWorkflow(jobId, label);
+  },
+  dispatchHitCheck: async (groupId) => {
+    await dispatchHitWorkflow(groupId);
+  },
+  dispatchAccountVerification: async (groupId) => {
+    await dispatchVerifyAccountsWorkflow(groupId);
+  },
+  dispatchWinCancellation: async (groupId, runId) => {
+    await dispatchWinCancellationWorkflow(groupId, runId);
+  },
+  getLatestRunInfo: () => getLatestWorkflowInfo(),
+};
@@ -0,0 +1,44 @@
+import { githubJobRunner } from '@/lib/runner/github';
+import { localJobRunner } from '@/lib/runner/local';
+
+export type ReservationJobRun = {
+  jobId: string;
+  label?: string;
+  userId: string;
+  password: string;
+  accountId?: string;
+  entryCount: number;
+  groupId: string;
+  siteId: string;
+};
+
+export type LatestRunInfo = {
+  actionsUrl?: string;
+  jobUrl?: string;
+};
+
+// ジョブの実行基盤。既定は GitHub Actions、JOB_RUNNER=local で同じホスト上の子プロセスで実行する
+export type JobRunner = {
+  id: 'github' | 'local';
+  dispatchReservationJob: (run: ReservationJobRun) => Promise<void>;
+  dispatchHitCheck: (groupId?: string) => Promise<void>;
+  // 登録アカウントで1件ずつログインだけ試し、結果を groups/{groupId}/accountVerifications に残す
+  dispatchAccountVerification: (groupId: string) => Promise<void>;
+  // 余った当選の取り消し。runId の状態に応じて当選の読み取りか、確定した枠の取り消しをアカウントごとに行う
+  dispatchWinCancellation: (groupId: string, runId: string) => Promise<void>;
+  getLatestRunInfo: () => Promise<LatestRunInfo>;
+};
+
+export function getJobRunner(): JobRunner {
+  const runnerId = process.env.JOB_RUNNER?.trim().toLowerCase();
+
+  if (runnerId === 'local') {
+    return localJobRunner;
+  }
+
+  if (runnerId && runnerId !== 'github') {
+    console.warn(`Unknown JOB_RUNNER "${runnerId}"; falling back to GitHub Actions.`);
+  }
+
+  return githubJobRunner;
+}
@@ -0,0 +1,176 @@
+import { spawn } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import { loadGroupHitTargets } from '@/lib/api/hit-targets';
+import {
+  CANCELLED_JOB_STATUS,
+  CANCELLING_JOB_STATUS,
+  getJobDocument,
+  patchJobDocument,
+} from '@/lib/api/job-store';
+import { getFirestoreRestDocument } from '@/lib/firebase/firestore-rest';
+import type { JobRunner, ReservationJobRun } from '@/lib/runner';
+import { resolveFacilitySite } from '@/lib/sites/facility-sites';
+
+const playwrightDir = process.env.LOCAL_RUNNER_PLAYWRIGHT_DIR ?? path.join(process.cwd(), 'playwright');
+const LOG_TAIL_LINES = 20;
+
+// log.txt と debug*.png を playwright/ 直下に書き出すので、同じホストでは1件ずつ順番に実行する
+let runQueue: Promise<void> = Promise.resolve();
+
+function enqueue(task: () => Promise<void>): void {
+  runQueue = runQueue.then(task).catch((error) => {
+    console.error('Local job runner task failed', error);
+  });
+}
+
+function resolveWorkerEnv(): Record<string, string> {
+  const apiBaseUrl =
+    process.env.LOCAL_RUNNER_API_BASE_URL ?? process.env.NEXT_PUBLIC_APP_URL ?? `http://localhost:${process.env.PORT ?? '3000'}`;
+  const apiToken = process.env.INTERNAL_API_TOKEN;
+
+  if (!apiToken) {
+    throw new Error('Missing INTERNAL_API_TOKEN environment variable.');
+  }
+
+  return { API_BASE_URL: apiBaseUrl, API_TOKEN: apiToken };
+}
+
+function runPlaywrightScript(
+  script: 'play' | 'hit' | 'verify' | 'cancel',
+  env: Record<string, string>,
+  logPrefix: string,
+): Promise<{ exitCode: number; outputTail: string }> {
+  return new Promise((resolve) => {
+    const outputLines: string[] = [];
+    const child = spawn('npm', ['run', script], {
+      cwd: playwrightDir,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const handleOutput = (chunk: Buffer) => {
+      for (const line of chunk.toString('utf8').split(/\r?\n/)) {
+        if (!line) {
+          continue;
+        }
+        console.log(`${logPrefix} ${line}`);
+        outputLines.push(line);
+        if (outputLines.length > LOG_TAIL_LINES) {
+          outputLines.shift();
+        }
+      }
+    };
+
+    child.stdout.on('data', handleOutput);
+    child.stderr.on('data', handleOutput);
+    child.on('error', (error) => {
+      outputLines.push(error.message);
+      resolve({ exitCode: 1, outputTail: outputLines.join('\n') });
+    });
+    child.on('close', (code) => {
+      resolve({ exitCode: code ?? 1, outputTail: outputLines.join('\n') });
+    });
+  });
+}
+
+// trigger-job.yml の「Update job status」と同じ判定でジョブを終了状態にする
+async function finishReservationJob(jobId: string, exitCode: number, outputTail: string): Promise<void> {
+  const logText = await fs.readFile(path.join(playwrightDir, 'log.txt'), 'utf8').catch(() => null);
+  const message =
+    logText ??
+    (exitCode === 0
+      ? `Local run succeeded.\n\nLast log lines:\n${outputTail}`
+      : `Local run failed (exit code ${exitCode}).\n\nLast log lines:\n${outputTail}`);
+
+  const document = await getJobDocument(jobId);
+  const currentStatus = (document?.data as { status?: unknown } | undefined)?.status;
+  const status =
+    currentStatus === CANCELLING_JOB_STATUS ? CANCELLED_JOB_STATUS : exitCode === 0 ? 'completed' : 'failed';
+
+  await patchJobDocument(jobId, { status, message, clearCredentials: true });
+}
+
+async function runReservationJob(run: ReservationJobRun): Promise<void> {
+  const env = {
+    ...resolveWorkerEnv(),
+    JOB_ID: run.jobId,
+    SERVICE_USER: run.userId,
+    SERVICE_PASS: run.password,
+    PLAYWRIGHT_ACCOUNT_ID: run.accountId ?? '',
+    ENTRY_COUNT: String(run.entryCount),
+    PLAYWRIGHT_GROUP_ID: run.groupId,
+    PLAYWRIGHT_SITE_ID: run.siteId,
+  };
+
+  await fs.rm(path.join(playwrightDir, 'log.txt'), { force: true });
+  const { exitCode, outputTail } = await runPlaywrightScript('play', env, `[local-runner ${run.jobId}]`);
+
+  try {
+    await finishReservationJob(run.jobId, exitCode, outputTail);
+  } catch (error) {
+    console.error(`Failed to update job status after local run (${run.jobId})`, error);
+  }
+}
+
+async function runGroupScript(
+  script: 'hit' | 'verify' | 'cancel',
+  groupId: string,
+  rowIndex: number,
+  env: Record<string, string>,
+): Promise<void> {
+  const { exitCode } = await runPlaywrightScript(script, env, `[local-runner ${script} ${groupId}#${rowIndex}]`);
+  if (exitCode !== 0) {
+    console.error(`Local ${script} run failed (${groupId}#${rowIndex}, exit code ${exitCode})`);
+  }
+}
+
+// hit-worker.yml と同じく、グループのアカウントごとに1回ずつスクリプトを実行する
+async function enqueueGroupScript(
+  script: 'hit' | 'verify' | 'cancel',
+  groupId: string | undefined,
+  extraEnv: Record<string, string> = {},
+): Promise<void> {
+  const normalizedGroupId = typeof groupId === 'string' ? groupId.trim() : '';
+  if (!normalizedGroupId) {
+    throw new Error(`The local job runner needs a groupId for ${script} runs.`);
+  }
+
+  const workerEnv = resolveWorkerEnv();
+  const document = await getFirestoreRestDocument(`groups/${normalizedGroupId}`);
+  if (!document) {
+    throw new Error(`Group not found: ${normalizedGroupId}`);
+  }
+
+  const siteId = resolveFacilitySite(document.data.siteId).id;
+  (await loadGroupHitTargets(normalizedGroupId, document.data.ids)).forEach((target, rowIndex) => {
+    enqueue(() =>
+      runGroupScript(script, normalizedGroupId, rowIndex, {
+        ...workerEnv,
+        PLAYWRIGHT_GROUP_ID: normalizedGroupId,
+        PLAYWRIGHT_ROW_INDEX: String(rowIndex),
+        PLAYWRIGHT_SITE_ID: siteId,
+        PLAYWRIGHT_AUTO_CONFIRM_WINS: document.data.autoConfirmWins === true ? 'true' : 'false',
+        PLAYWRIGHT_ACCOUNT_ID: target.accountId ?? '',
+        SERVICE_USER: target.userId,
+        SERVICE_PASS: target.password,
+        ...extraEnv,
+      }),
+    );
+  });
+}
+
+export const localJobRunner: JobRunner = {
+  id: 'local',
+  dispatchReservationJob: async (run) => {
+    resolveWorkerEnv();
+    enqueue(() => runReservationJob(run));
+  },
+  dispatchHitCheck: (groupId) => enqueueGroupScript('hit', groupId),
+  dispatchAccountVerification: (groupId) => enqueueGroupScript('verify', groupId),
+  dispatchWinCancellation: (groupId, runId) =>
+    enqueueGroupScript('cancel', groupId, { PLAYWRIGHT_CANCEL_RUN_ID: runId }),
+  // ローカル実行には GitHub の実行画面がない
+  getLatestRunInfo: async () => ({}),
+};
@@ -2,24 +2,68 @@ import "server-only";
 
 import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
 
-const GROUP_IDS_CRYPTO_VERSION = "v1";
 const GROUP_IDS_CRYPTO_ALGORITHM = "aes-256-gcm";
 const GROUP_IDS_CRYPTO_IV_LENGTH = 12;
-const GROUP_IDS_FIXED_PASSPHRASE = "gym_reserver_hit_ids_v1_fixed_key";
+const GROUP_IDS_KEY_ID_PATTERN = /^v\d+$/;
+// v1 はリポジトリに固定値で置いていた旧鍵。ソースを見れば誰でも復号できるので、
+// GROUP_IDS_ALLOW_LEGACY_KEY=true のときだけ（再暗号化が終わるまで）復号を受け付ける
+const GROUP_IDS_LEGACY_KEY_ID = "v1";
+const GROUP_IDS_LEGACY_PASSPHRASE = "gym_reserver_hit_ids_v1_fixed_key";
 
-function getGroupIdsEncryptionKey(): Buffer {
-  return createHash("sha256").update(GROUP_IDS_FIXED_PASSPHRASE).digest();
+type GroupIdsKeyring = {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+function deriveKey(secret: string): Buffer {
+  return createHash("sha256").update(secret).digest();
+}
+
+// GROUP_IDS_KEYS="v2:secret,v3:secret" の形式。暗号化には GROUP_IDS_ACTIVE_KEY_ID（未指定なら最後の鍵）を使う
+function loadGroupIdsKeyring(): GroupIdsKeyring {
+  const keys = new Map<string, Buffer>();
+  let lastKeyId: string | null = null;
+
+  for (const item of (process.env.GROUP_IDS_KEYS ?? "").split(",")) {
+    const separatorIndex = item.indexOf(":");
+    const keyId = item.slice(0, separatorIndex).trim();
+    const secret = item.slice(separatorIndex + 1).trim();
+
+    if (separatorIndex < 0 || !secret) {
+      continue;
+    }
+
+    if (!GROUP_IDS_KEY_ID_PATTERN.test(keyId) || keyId === GROUP_IDS_LEGACY_KEY_ID) {
+      throw new Error(`Invalid GROUP_IDS_KEYS key id: ${keyId}`);
+    }
+
+    keys.set(keyId, deriveKey(secret));
+    lastKeyId = keyId;
+  }
+
+  const activeKeyId = process.env.GROUP_IDS_ACTIVE_KEY_ID?.trim() || lastKeyId;
+
+  if (!activeKeyId || activeKeyId === GROUP_IDS_LEGACY_KEY_ID || !keys.has(activeKeyId)) {
+    throw new Error("Missing GROUP_IDS_KEYS environment variable or unknown GROUP_IDS_ACTIVE_KEY_ID.");
+  }
+
+  return { activeKeyId, keys };
+}
+
+export function getActiveGroupIdsKeyId(): string {
+  return loadGroupIdsKeyring().activeKeyId;
 }
 
 export function encryptGroupIds(plainText: string): string {
-  const key = getGroupIdsEncryptionKey();
+  const { activeKeyId, keys } = loadGroupIdsKeyring();
+  const key = keys.get(activeKeyId) as Buffer;
   const iv = randomBytes(GROUP_IDS_CRYPTO_IV_LENGTH);
   const cipher = createCipheriv(GROUP_IDS_CRYPTO_ALGORITHM, key, iv);
   const encryptedBuffer = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
   const authTag = cipher.getAuthTag();
 
   return [
-    GROUP_IDS_CRYPTO_VERSION,
+    activeKeyId,
     iv.toString("base64"),
     authTag.toString("base64"),
     encryptedBuffer.toString("base64"),
@@ -27,13 +71,13 @@ export function encryptGroupIds(plainText: string): string {
 }
 
 export function decryptGroupIds(cipherText: string): string {
-  const [version, ivBase64, tagBase64, payloadBase64] = cipherText.split(".");
+  const [keyId, ivBase64, tagBase64, payloadBase64] = cipherText.split(".");
 
-  if (version !== GROUP_IDS_CRYPTO_VERSION || !ivBase64 || !tagBase64 || !payloadBase64) {
+  if (!keyId || !GROUP_IDS_KEY_ID_PATTERN.test(keyId) || !ivBase64 || !tagBase64 || !payloadBase64) {
     throw new Error("Invalid ids payload format");
   }
 
-  const key = getGroupIdsEncryptionKey();
+  const key = resolveDecryptionKey(keyId);
   const iv = Buffer.from(ivBase64, "base64");
   const authTag = Buffer.from(tagBase64, "base64");
   const encryptedPayload = Buffer.from(payloadBase64, "base64");
@@ -45,25 +89,38 @@ export function decryptGroupIds(cipherText: string): string {
   return decryptedBuffer.toString("utf8");
 }
 
-export function decodeGroupIdsForDisplay(rawValue: unknown): string {
+// 暗号化済みの値なら鍵ID（v1, v2 ...）、平文なら null
+export function readGroupIdsKeyId(rawValue: string): string | null {
+  const parts = rawValue.trim().split(".");
+  return parts.length === 4 && GROUP_IDS_KEY_ID_PATTERN.test(parts[0]) ? parts[0] : null;
+}
+
+// 平文はそのまま返し、暗号化済みで復号できなければ例外にする（v1 が無効のままのデプロイなどを空のCSVとして扱わない）
+export function decodeGroupIds(rawValue: unknown): string {
   if (typeof rawValue !== "string") {
     return "";
   }
 
   const trimmedValue = rawValue.trim();
 
-  if (!trimmedValue) {
-    return "";
+  if (!trimmedValue || !readGroupIdsKeyId(trimmedValue)) {
+    return trimmedValue;
   }
 
-  if (!trimmedValue.startsWith(`${GROUP_IDS_CRYPTO_VERSION}.`)) {
-    return trimmedValue;
+  return decryptGroupIds(trimmedValue);
+}
+
+function resolveDecryptionKey(keyId: string): Buffer {
+  if (keyId === GROUP_IDS_LEGACY_KEY_ID) {
+    if (process.env.GROUP_IDS_ALLOW_LEGACY_KEY?.trim() !== "true") {
+      throw new Error("The legacy v1 group ids key is disabled. Set GROUP_IDS_ALLOW_LEGACY_KEY=true to re-encrypt v1 payloads.");
+    }
+    return deriveKey(GROUP_IDS_LEGACY_PASSPHRASE);
   }
 
-  try {
-    return decryptGroupIds(trimmedValue);
-  } catch (error) {
-    console.error("Failed to decrypt group ids payload", error);
-    return "";
+  const key = loadGroupIdsKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown group ids key id: ${keyId}`);
   }
+  return key;
 }
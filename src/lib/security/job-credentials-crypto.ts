@@ -0,0 +1,68 @@
+import "server-only";
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "node:crypto";
+
+const JOB_CREDENTIALS_CRYPTO_VERSION = "v1";
+const JOB_CREDENTIALS_CRYPTO_ALGORITHM = "aes-256-gcm";
+const JOB_CREDENTIALS_CRYPTO_IV_LENGTH = 12;
+
+export type JobCredentials = {
+  userId: string;
+  password: string;
+};
+
+// group ids と違い固定鍵は使わない。JOB_CREDENTIALS_SECRET が無ければジョブを作らせない
+function getJobCredentialsKey(): Buffer {
+  const secret = process.env.JOB_CREDENTIALS_SECRET?.trim();
+
+  if (!secret) {
+    throw new Error("Missing JOB_CREDENTIALS_SECRET environment variable.");
+  }
+
+  return createHash("sha256").update(secret).digest();
+}
+
+export function sealJobCredentials(credentials: JobCredentials): string {
+  const key = getJobCredentialsKey();
+  const iv = randomBytes(JOB_CREDENTIALS_CRYPTO_IV_LENGTH);
+  const cipher = createCipheriv(JOB_CREDENTIALS_CRYPTO_ALGORITHM, key, iv);
+  const plainText = JSON.stringify({ userId: credentials.userId, password: credentials.password });
+  const encryptedBuffer = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [
+    JOB_CREDENTIALS_CRYPTO_VERSION,
+    iv.toString("base64"),
+    authTag.toString("base64"),
+    encryptedBuffer.toString("base64"),
+  ].join(".");
+}
+
+export function unsealJobCredentials(cipherText: string): JobCredentials {
+  const [version, ivBase64, tagBase64, payloadBase64] = cipherText.split(".");
+
+  if (version !== JOB_CREDENTIALS_CRYPTO_VERSION || !ivBase64 || !tagBase64 || !payloadBase64) {
+    throw new Error("Invalid job credentials payload format");
+  }
+
+  const key = getJobCredentialsKey();
+  const iv = Buffer.from(ivBase64, "base64");
+  const authTag = Buffer.from(tagBase64, "base64");
+  const encryptedPayload = Buffer.from(payloadBase64, "base64");
+  const decipher = createDecipheriv(JOB_CREDENTIALS_CRYPTO_ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  const decryptedBuffer = Buffer.concat([decipher.update(encryptedPayload), decipher.final()]);
+  const parsed = JSON.parse(decryptedBuffer.toString("utf8")) as Partial<JobCredentials>;
+
+  if (typeof parsed.userId !== "string" || typeof parsed.password !== "string") {
+    throw new Error("Invalid job credentials payload");
+  }
+
+  return { userId: parsed.userId, password: parsed.password };
+}
+
+// 認証情報を消したあとも、どのアカウントのジョブかを照合できるように残す値。ログインIDそのものは残さない
+export function digestJobUserId(userId: string): string {
+  return createHmac("sha256", getJobCredentialsKey()).update(userId).digest("base64url");
+}
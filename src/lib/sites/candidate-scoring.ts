@@ -0,0 +1,247 @@
+import {
+  compareEntriesForStableOrder,
+  entriesConflictWithExistingRequest,
+  normalizeDateToIso,
+  normalizeTimeRange,
+  type SlotEntry,
+} from "./slot-entry";
+
+// 追加分の探索で候補の枠を並べる基準。groups/{groupId}.candidateScoring に保存し、ジョブにも写して渡す。
+// ワーカー（playwright/page/seek_lot_compare_page.ts など）と代表者ページのプレビューが同じ計算を使う（import は slot-entry.ts と同じ制約）
+export type CandidateScoringWeights = {
+  // 応募数が少ない
+  applicants: number;
+  // 施設までの距離が近い（gymDistancesKm に書いた施設だけ）
+  distance: number;
+  // preferredWeekdays の曜日
+  weekday: number;
+  // 平日の17時以降
+  evening: number;
+  // 土日（祝日は見ない）
+  weekend: number;
+  // すでに選んだ枠と日付が離れている
+  spread: number;
+};
+
+export type CandidateScoringSettings = {
+  weights: CandidateScoringWeights;
+  // 0=日曜 … 6=土曜
+  preferredWeekdays: number[];
+  gymDistancesKm: Array<{ gymName: string; km: number }>;
+};
+
+export type ScoringCandidate = {
+  entry: SlotEntry;
+  count: number;
+};
+
+export type RankedCandidate = ScoringCandidate & {
+  score: number;
+};
+
+export const CANDIDATE_SCORING_WEIGHT_KEYS = [
+  "applicants",
+  "distance",
+  "weekday",
+  "evening",
+  "weekend",
+  "spread",
+] as const satisfies ReadonlyArray<keyof CandidateScoringWeights>;
+
+export const MAX_CANDIDATE_SCORING_WEIGHT = 5;
+
+// 応募数だけを見る（以前の並び順と同じ）
+export const DEFAULT_CANDIDATE_SCORING_SETTINGS: CandidateScoringSettings = {
+  weights: { applicants: 5, distance: 0, weekday: 0, evening: 0, weekend: 0, spread: 0 },
+  preferredWeekdays: [],
+  gymDistancesKm: [],
+};
+
+const EVENING_START_MINUTES = 17 * 60;
+// これ以上離れていれば「ばらけている」とみなす日数
+const SPREAD_FULL_SCORE_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScoringContext = {
+  settings: CandidateScoringSettings;
+  selected: ScoringCandidate[];
+  maxDistanceKm: number;
+};
+
+// 各基準は 0〜1 を返し、重みを掛けて足したものを点数にする
+type CandidateScorer = (candidate: ScoringCandidate, context: ScoringContext) => number;
+
+const CANDIDATE_SCORERS: Record<keyof CandidateScoringWeights, CandidateScorer> = {
+  applicants: (candidate) => 1 / (1 + Math.max(candidate.count, 0)),
+  distance: (candidate, context) => {
+    const km = findGymDistanceKm(candidate.entry.gymName, context.settings);
+    return km === null ? 0 : context.maxDistanceKm > 0 ? 1 - km / context.maxDistanceKm : 1;
+  },
+  weekday: (candidate, context) => {
+    const day = resolveWeekday(candidate.entry);
+    return day !== null && context.settings.preferredWeekdays.includes(day) ? 1 : 0;
+  },
+  evening: (candidate) => {
+    const day = resolveWeekday(candidate.entry);
+    const startMinutes = normalizeTimeRange(candidate.entry.time)?.startMinutes;
+    return day !== null && day >= 1 && day <= 5 && startMinutes !== undefined && startMinutes >= EVENING_START_MINUTES
+      ? 1
+      : 0;
+  },
+  weekend: (candidate) => {
+    const day = resolveWeekday(candidate.entry);
+    return day === 0 || day === 6 ? 1 : 0;
+  },
+  spread: (candidate, context) => {
+    const time = resolveDateTime(candidate.entry);
+    if (time === null || context.selected.length === 0) {
+      return 1;
+    }
+    const gaps = context.selected.flatMap((selected) => {
+      const selectedTime = resolveDateTime(selected.entry);
+      return selectedTime === null ? [] : [Math.abs(time - selectedTime) / DAY_MS];
+    });
+    return gaps.length === 0 ? 1 : Math.min(Math.min(...gaps), SPREAD_FULL_SCORE_DAYS) / SPREAD_FULL_SCORE_DAYS;
+  },
+};
+
+export function parseCandidateScoringSettings(value: unknown): CandidateScoringSettings | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const rawWeights = (record.weights ?? {}) as Record<string, unknown>;
+  const weights = { ...DEFAULT_CANDIDATE_SCORING_SETTINGS.weights };
+
+  for (const key of CANDIDATE_SCORING_WEIGHT_KEYS) {
+    if (rawWeights[key] === undefined) {
+      continue;
+    }
+    const weight = Number(rawWeights[key]);
+    if (!Number.isFinite(weight) || weight < 0 || weight > MAX_CANDIDATE_SCORING_WEIGHT) {
+      return null;
+    }
+    weights[key] = weight;
+  }
+
+  const preferredWeekdays = Array.isArray(record.preferredWeekdays)
+    ? [
+        ...new Set(
+          record.preferredWeekdays
+            .map(Number)
+            .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6),
+        ),
+      ].sort((lhs, rhs) => lhs - rhs)
+    : [];
+
+  const gymDistancesKm = Array.isArray(record.gymDistancesKm)
+    ? record.gymDistancesKm.flatMap((item): Array<{ gymName: string; km: number }> => {
+        const { gymName, km } = (item ?? {}) as Record<string, unknown>;
+        const normalizedGymName = typeof gymName === "string" ? gymName.trim() : "";
+        const normalizedKm = Number(km);
+        return normalizedGymName && Number.isFinite(normalizedKm) && normalizedKm >= 0
+          ? [{ gymName: normalizedGymName, km: normalizedKm }]
+          : [];
+      })
+    : [];
+
+  return { weights, preferredWeekdays, gymDistancesKm };
+}
+
+export function resolveCandidateScoringSettings(value: unknown): CandidateScoringSettings {
+  return parseCandidateScoringSettings(value) ?? DEFAULT_CANDIDATE_SCORING_SETTINGS;
+}
+
+// 点数の高い枠から1件ずつ選ぶ。spread は選んだ枠によって変わるので毎回計算し直す。
+// conflicts が true を返す枠（選んだ枠と同時に申し込めないもの）は飛ばす。返すのは渡された候補そのもの
+export function selectScoredCandidates<T extends ScoringCandidate>(
+  candidates: T[],
+  desiredCount: number,
+  settings: CandidateScoringSettings,
+  conflicts: (selected: SlotEntry, candidate: SlotEntry) => boolean,
+): T[] {
+  return scoreAndSelect(candidates, desiredCount, settings, conflicts).map(({ candidate }) => candidate);
+}
+
+// 代表者ページのプレビュー用。1アカウントのジョブと同じく、既に選んだ枠と同じ施設・日時の枠は飛ばす
+export function rankCandidates(
+  candidates: ScoringCandidate[],
+  limit: number,
+  settings: CandidateScoringSettings,
+): RankedCandidate[] {
+  return scoreAndSelect(candidates, limit, settings, entriesConflictWithExistingRequest).map(({ candidate, score }) => ({
+    ...candidate,
+    score,
+  }));
+}
+
+function scoreAndSelect<T extends ScoringCandidate>(
+  candidates: T[],
+  desiredCount: number,
+  settings: CandidateScoringSettings,
+  conflicts: (selected: SlotEntry, candidate: SlotEntry) => boolean,
+): Array<{ candidate: T; score: number }> {
+  const remaining = candidates.filter((candidate) => Number.isFinite(candidate.count));
+  const selected: Array<{ candidate: T; score: number }> = [];
+  const maxDistanceKm = Math.max(0, ...settings.gymDistancesKm.map((gym) => gym.km));
+
+  while (selected.length < desiredCount) {
+    const context: ScoringContext = { settings, selected: selected.map(({ candidate }) => candidate), maxDistanceKm };
+    let bestIndex = -1;
+    let bestScore = Number.NEGATIVE_INFINITY;
+
+    remaining.forEach((candidate, index) => {
+      if (context.selected.some((selectedCandidate) => conflicts(selectedCandidate.entry, candidate.entry))) {
+        return;
+      }
+      const score = scoreCandidate(candidate, context);
+      if (score > bestScore || (score === bestScore && compareForTie(candidate, remaining[bestIndex]) < 0)) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    if (bestIndex < 0) {
+      break;
+    }
+    selected.push({ candidate: remaining.splice(bestIndex, 1)[0], score: bestScore });
+  }
+
+  return selected;
+}
+
+function scoreCandidate(candidate: ScoringCandidate, context: ScoringContext): number {
+  return CANDIDATE_SCORING_WEIGHT_KEYS.reduce((total, key) => {
+    const weight = context.settings.weights[key];
+    return weight > 0 ? total + weight * CANDIDATE_SCORERS[key](candidate, context) : total;
+  }, 0);
+}
+
+function compareForTie(lhs: ScoringCandidate, rhs: ScoringCandidate): number {
+  return lhs.count - rhs.count || compareEntriesForStableOrder(lhs.entry, rhs.entry);
+}
+
+function findGymDistanceKm(gymName: string, settings: CandidateScoringSettings): number | null {
+  const normalized = normalizeGymName(gymName);
+  return settings.gymDistancesKm.find((gym) => normalizeGymName(gym.gymName) === normalized)?.km ?? null;
+}
+
+function normalizeGymName(value: string): string {
+  return value.normalize("NFKC").replace(/\s+/g, "");
+}
+
+function resolveDateTime(entry: SlotEntry): number | null {
+  const iso = normalizeDateToIso(entry.date);
+  if (!iso) {
+    return null;
+  }
+  const [year, month, day] = iso.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+// 祝日は見ない（土日だけ）
+function resolveWeekday(entry: SlotEntry): number | null {
+  const time = resolveDateTime(entry);
+  return time === null ? null : new Date(time).getUTCDay();
+}
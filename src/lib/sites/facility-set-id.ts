@@ -0,0 +1,11 @@
+import { createHash } from "node:crypto";
+
+// 探索結果のキャッシュを施設の組み合わせごとに分けるためのID。ワーカー（保存）と代表者ページのプレビュー（読み出し）が同じものを使う。
+// ワーカーは playwright/ の依存だけで動くので、ここには相対パスと Node 標準以外を import しない
+export function buildFacilitySetId(facilities: Array<{ code: string; rooms: string[] }>): string {
+  const canonical = facilities
+    .map((facility) => `${facility.code}:${[...facility.rooms].sort().join(",")}`)
+    .sort()
+    .join("|");
+  return createHash("sha256").update(canonical).digest("hex").slice(0, 12);
+}
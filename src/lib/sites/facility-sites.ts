@@ -0,0 +1,36 @@
+export type FacilitySite = {
+  id: string;
+  label: string;
+  baseUrl: string;
+  // 1アカウントが1か月分（利用月単位）に出せる抽選申込の上限。超えると「抽選数が利用制限に該当します」になる
+  monthlyLotteryQuota: number;
+};
+
+export const DEFAULT_FACILITY_SITE_ID = "sapporo";
+
+// playwright/site.ts の SITE_ADAPTERS と id を揃えること
+export const FACILITY_SITES: FacilitySite[] = [
+  {
+    id: "sapporo",
+    label: "札幌市",
+    baseUrl: "https://yoyaku.harp.lg.jp/sapporo",
+    monthlyLotteryQuota: 20,
+  },
+];
+
+export function isFacilitySiteId(value: unknown): value is string {
+  return typeof value === "string" && FACILITY_SITES.some((site) => site.id === value);
+}
+
+export function resolveFacilitySite(siteId: unknown): FacilitySite {
+  const normalized = typeof siteId === "string" ? siteId.trim() : "";
+  return (
+    FACILITY_SITES.find((site) => site.id === normalized) ??
+    FACILITY_SITES.find((site) => site.id === DEFAULT_FACILITY_SITE_ID) ??
+    FACILITY_SITES[0]
+  );
+}
+
+export function buildFacilitySiteUrl(site: FacilitySite, path: string): string {
+  return `${site.baseUrl}/${path.replace(/^\//, "")}`;
+}
@@ -0,0 +1,52 @@
+// 抽選申込フォーム（LotRequests/Insert）に入力する値。groups/{groupId}.lotRequest に保存する。
+export type LotRequestExtraField = {
+  label: string;
+  value: string;
+};
+
+export type LotRequestSettings = {
+  sport: string;
+  participants: number;
+  // 利用目的・利用人数以外に入力が必要な項目（ラベル名で入力欄を探して値を入れる）
+  extraFields: LotRequestExtraField[];
+};
+
+export const DEFAULT_LOT_REQUEST_SETTINGS: LotRequestSettings = {
+  sport: "バドミントン",
+  participants: 20,
+  extraFields: [],
+};
+
+const MAX_PARTICIPANTS = 999;
+
+export function parseLotRequestSettings(value: unknown): LotRequestSettings | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const sport = typeof record.sport === "string" ? record.sport.trim() : "";
+  const participants = Number(record.participants);
+
+  if (!sport || !Number.isInteger(participants) || participants <= 0 || participants > MAX_PARTICIPANTS) {
+    return null;
+  }
+
+  const extraFields = Array.isArray(record.extraFields)
+    ? record.extraFields.flatMap((field): LotRequestExtraField[] => {
+        if (!field || typeof field !== "object") {
+          return [];
+        }
+        const { label, value: fieldValue } = field as Record<string, unknown>;
+        const normalizedLabel = typeof label === "string" ? label.trim() : "";
+        const normalizedValue = typeof fieldValue === "string" ? fieldValue.trim() : "";
+        return normalizedLabel && normalizedValue ? [{ label: normalizedLabel, value: normalizedValue }] : [];
+      })
+    : [];
+
+  return { sport, participants, extraFields };
+}
+
+export function resolveLotRequestSettings(value: unknown): LotRequestSettings {
+  return parseLotRequestSettings(value) ?? DEFAULT_LOT_REQUEST_SETTINGS;
+}
@@ -0,0 +1,55 @@
+import { buildFacilitySiteUrl, type FacilitySite } from "@/lib/sites/facility-sites";
+
+// groups/{groupId}.urls。抽選申込フォーム（LotRequests/Insert/...）のURLを直接保存しておき、ワーカーは検索や空き状況の画面を通らずに申し込む
+const MAX_LOT_REQUEST_URLS = 50;
+
+export type PartitionedLotRequestUrls = {
+  urls: string[];
+  // 今のサイトの抽選申込フォームのURLとして読めなかったもの
+  rejected: string[];
+};
+
+export function buildLotRequestUrlPrefix(site: FacilitySite): string {
+  return buildFacilitySiteUrl(site, "LotRequests/Insert/");
+}
+
+export function parseLotRequestUrls(value: unknown, site: FacilitySite): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_LOT_REQUEST_URLS) {
+    return null;
+  }
+
+  const { urls, rejected } = partitionLotRequestUrls(value, site);
+  return rejected.length > 0 ? null : urls;
+}
+
+// 1件ずつ確かめ、読めないものは rejected に分ける。1件の誤りで残りのURLまで捨てない
+export function partitionLotRequestUrls(value: unknown, site: FacilitySite): PartitionedLotRequestUrls {
+  if (!Array.isArray(value)) {
+    return { urls: [], rejected: [] };
+  }
+
+  const prefix = buildLotRequestUrlPrefix(site);
+  const urls: string[] = [];
+  const rejected: string[] = [];
+  for (const item of value) {
+    const url = typeof item === "string" ? item.trim() : "";
+    if (!url.startsWith(prefix) || url.length === prefix.length || /\s/.test(url) || urls.length >= MAX_LOT_REQUEST_URLS) {
+      rejected.push(typeof item === "string" ? url : String(item));
+      continue;
+    }
+    if (!urls.includes(url)) {
+      urls.push(url);
+    }
+  }
+
+  return { urls, rejected };
+}
+
+// 保存後にサイトを切り替えた場合など、今のサイトのURLとして読めないものは使わない（ログに残す）
+export function resolveLotRequestUrls(value: unknown, site: FacilitySite): string[] {
+  const { urls, rejected } = partitionLotRequestUrls(value, site);
+  if (rejected.length > 0) {
+    console.warn(`Ignoring ${rejected.length} lot request URLs that are not valid for ${site.id}: ${rejected.join(", ")}`);
+  }
+  return urls;
+}
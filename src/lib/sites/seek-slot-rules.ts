@@ -0,0 +1,137 @@
+import { normalizeDateToIso, normalizeTimeRange, type SlotEntry } from "./slot-entry";
+
+// 空き枠探索で候補にする枠の条件。groups/{groupId}.seekRules に保存し、ジョブにも写して渡す。
+// 判定はワーカー（playwright/seek_slot_rules.ts が祝日の暦を渡して使う）と代表者ページのプレビューで共通。
+// ワーカーは playwright/ の依存だけで動くので、japanese-holidays はここで import せず呼び出し側から受け取る
+export type SeekStartHourRange = {
+  // 開始時刻が from 時以上 to 時未満の枠だけを候補にする
+  from: number;
+  to: number;
+};
+
+export type SeekSlotRules = {
+  // 祝日を除く月〜金
+  weekdayStartHours: SeekStartHourRange;
+  // 土日祝
+  holidayStartHours: SeekStartHourRange;
+  // 「全面」「半面」など、部屋の区分（面）の名前と一致する枠は使わない
+  excludedBooths: string[];
+  // 施設名にこの文字列を含む枠は使わない
+  excludedFacilities: string[];
+};
+
+// 以前の固定ルール（平日は18時以降、全面は使わない）と同じ
+export const DEFAULT_SEEK_SLOT_RULES: SeekSlotRules = {
+  weekdayStartHours: { from: 18, to: 24 },
+  holidayStartHours: { from: 0, to: 24 },
+  excludedBooths: ["全面"],
+  excludedFacilities: [],
+};
+
+// 探索結果のキャッシュはグループをまたいで共有するので、詳細ページでは絞り込まずに全件を集める
+export const UNRESTRICTED_SEEK_SLOT_RULES: SeekSlotRules = {
+  weekdayStartHours: { from: 0, to: 24 },
+  holidayStartHours: { from: 0, to: 24 },
+  excludedBooths: [],
+  excludedFacilities: [],
+};
+
+// japanese-holidays の既定エクスポートをそのまま渡す
+export type HolidayCalendar = {
+  isHoliday(date: Date, furikae?: boolean): unknown;
+};
+
+const MAX_EXCLUDED_NAMES = 50;
+
+export function parseSeekSlotRules(value: unknown): SeekSlotRules | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const weekdayStartHours = parseStartHourRange(record.weekdayStartHours);
+  const holidayStartHours = parseStartHourRange(record.holidayStartHours);
+  const excludedBooths = parseNames(record.excludedBooths);
+  const excludedFacilities = parseNames(record.excludedFacilities);
+
+  if (!weekdayStartHours || !holidayStartHours || !excludedBooths || !excludedFacilities) {
+    return null;
+  }
+
+  return { weekdayStartHours, holidayStartHours, excludedBooths, excludedFacilities };
+}
+
+export function resolveSeekSlotRules(value: unknown): SeekSlotRules {
+  return parseSeekSlotRules(value) ?? DEFAULT_SEEK_SLOT_RULES;
+}
+
+// isoDate は YYYY-MM-DD。祝日（振替休日を含む）は土日と同じ扱い
+export function slotStartMatchesSeekSlotRules(
+  isoDate: string,
+  startHour: number,
+  rules: SeekSlotRules,
+  holidays: HolidayCalendar,
+): boolean {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  const isHoliday = Boolean(holidays.isHoliday(date, true));
+  const isWeekday = !isHoliday && date.getDay() >= 1 && date.getDay() <= 5;
+  const range = isWeekday ? rules.weekdayStartHours : rules.holidayStartHours;
+  return startHour >= range.from && startHour < range.to;
+}
+
+export function boothMatchesSeekSlotRules(boothName: string, rules: SeekSlotRules): boolean {
+  const booth = normalizeName(boothName);
+  return !booth || !rules.excludedBooths.some((name) => normalizeName(name) === booth);
+}
+
+export function facilityMatchesSeekSlotRules(gymName: string, rules: SeekSlotRules): boolean {
+  const normalized = normalizeName(gymName);
+  return !rules.excludedFacilities.some((name) => normalized.includes(normalizeName(name)));
+}
+
+// 探索結果の枠（room は「部屋 / 面」の形）をまとめて判定する
+export function entryMatchesSeekSlotRules(entry: SlotEntry, rules: SeekSlotRules, holidays: HolidayCalendar): boolean {
+  const isoDate = normalizeDateToIso(entry.date);
+  const startMinutes = normalizeTimeRange(entry.time)?.startMinutes;
+  if (
+    isoDate &&
+    startMinutes !== undefined &&
+    !slotStartMatchesSeekSlotRules(isoDate, Math.floor(startMinutes / 60), rules, holidays)
+  ) {
+    return false;
+  }
+
+  const roomParts = entry.room.split(" / ");
+  const boothName = roomParts.length > 1 ? roomParts[roomParts.length - 1] : "";
+  return boothMatchesSeekSlotRules(boothName, rules) && facilityMatchesSeekSlotRules(entry.gymName, rules);
+}
+
+function parseStartHourRange(value: unknown): SeekStartHourRange | null {
+  const { from, to } = (value ?? {}) as Record<string, unknown>;
+  const fromHour = Number(from);
+  const toHour = Number(to);
+
+  if (!Number.isInteger(fromHour) || !Number.isInteger(toHour) || fromHour < 0 || toHour > 24 || fromHour >= toHour) {
+    return null;
+  }
+
+  return { from: fromHour, to: toHour };
+}
+
+function parseNames(value: unknown): string[] | null {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > MAX_EXCLUDED_NAMES) {
+    return null;
+  }
+
+  return [
+    ...new Set(value.filter((name): name is string => typeof name === "string").map((name) => name.trim()).filter(Boolean)),
+  ];
+}
+
+function normalizeName(value: string): string {
+  return value.normalize("NFKC").replace(/\s+/g, "");
+}
@@ -0,0 +1,208 @@
+// 枠（施設・部屋・日付・時間）の日付や時間の読み取りと比較。ワーカー（playwright/entry_utils.ts が再エクスポート）と
+// 代表者ページのプレビューが同じものを使う。ワーカーは playwright/ の依存だけで動くので、ここには相対パスと Node 標準以外を import しない
+export type SlotEntry = {
+  gymName: string;
+  room: string;
+  date: string;
+  time: string;
+};
+
+export type TimeRange = {
+  start: string;
+  end: string;
+  startMinutes: number;
+  endMinutes: number;
+  label: string;
+};
+
+type ParsedTimeSegment = {
+  label: string;
+  minutes: number;
+};
+
+// 「2025年1月5日(日)」「2025/1/5」「2025-01-05」などを YYYY-MM-DD にする
+export function normalizeDateToIso(value?: string | null): string | null {
+  const normalized = (value ?? "").normalize("NFKC").replace(/\s+/g, "").trim();
+
+  if (!normalized) {
+    return null;
+  }
+
+  const japaneseMatch = normalized.match(/^(\d{4})年(\d{1,2})月(\d{1,2})日/);
+  if (japaneseMatch) {
+    return buildIsoDate(japaneseMatch[1], japaneseMatch[2], japaneseMatch[3]);
+  }
+
+  const separatedMatch = normalized.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (separatedMatch) {
+    return buildIsoDate(separatedMatch[1], separatedMatch[2], separatedMatch[3]);
+  }
+
+  return null;
+}
+
+export function normalizeTimeRange(value?: string | null): TimeRange | null {
+  const normalized = (value ?? "")
+    .normalize("NFKC")
+    .replace(/\s+/g, "")
+    .replace(/[〜～−ー－–—]/g, "-")
+    .trim();
+
+  if (!normalized) {
+    return null;
+  }
+
+  const parts = normalized.split("-");
+  if (parts.length !== 2) {
+    return null;
+  }
+
+  const start = parseTimeSegment(parts[0]);
+  const end = parseTimeSegment(parts[1]);
+  if (!start || !end || start.minutes >= end.minutes) {
+    return null;
+  }
+
+  return {
+    start: start.label,
+    end: end.label,
+    startMinutes: start.minutes,
+    endMinutes: end.minutes,
+    label: `${start.label}-${end.label}`,
+  };
+}
+
+export function normalizeComparableText(value?: string | null): string {
+  return (value ?? "").normalize("NFKC").replace(/\s+/g, "").trim();
+}
+
+export function normalizeEntryForComparison(entry: SlotEntry): SlotEntry {
+  return {
+    gymName: normalizeComparableText(entry.gymName),
+    room: normalizeComparableText(entry.room),
+    date: normalizeDateToIso(entry.date) ?? normalizeComparableText(entry.date),
+    time: normalizeTimeRange(entry.time)?.label ?? normalizeComparableText(entry.time),
+  };
+}
+
+export function entriesAreEquivalent(lhs: SlotEntry, rhs: SlotEntry): boolean {
+  return buildFullEntryKey(lhs) === buildFullEntryKey(rhs);
+}
+
+// 1アカウントは同じ施設・日時に2件申し込めない（部屋が違っても同じ枠とみなす）
+export function entriesShareApplicationSlot(lhs: SlotEntry, rhs: SlotEntry): boolean {
+  const lhsKey = buildApplicationSlotKey(lhs);
+  const rhsKey = buildApplicationSlotKey(rhs);
+  return lhsKey !== null && lhsKey === rhsKey;
+}
+
+export function entriesConflictWithExistingRequest(existingRequest: SlotEntry, candidate: SlotEntry): boolean {
+  return entriesShareApplicationSlot(existingRequest, candidate) || entriesAreEquivalent(existingRequest, candidate);
+}
+
+export function compareEntriesForStableOrder(lhs: SlotEntry, rhs: SlotEntry): number {
+  const lhsDate = normalizeDateToIso(lhs.date) ?? "";
+  const rhsDate = normalizeDateToIso(rhs.date) ?? "";
+  const dateDiff = lhsDate.localeCompare(rhsDate, "ja");
+  if (dateDiff !== 0) {
+    return dateDiff;
+  }
+
+  const lhsTime = normalizeTimeRange(lhs.time);
+  const rhsTime = normalizeTimeRange(rhs.time);
+  const timeDiff = (lhsTime?.startMinutes ?? Number.MAX_SAFE_INTEGER) - (rhsTime?.startMinutes ?? Number.MAX_SAFE_INTEGER);
+  if (timeDiff !== 0) {
+    return timeDiff;
+  }
+
+  const gymDiff = normalizeComparableText(lhs.gymName).localeCompare(normalizeComparableText(rhs.gymName), "ja");
+  if (gymDiff !== 0) {
+    return gymDiff;
+  }
+
+  return normalizeComparableText(lhs.room).localeCompare(normalizeComparableText(rhs.room), "ja");
+}
+
+function buildFullEntryKey(entry: SlotEntry): string {
+  const normalized = normalizeEntryForComparison(entry);
+  return [normalized.gymName, normalized.room, normalized.date, normalized.time].join("|");
+}
+
+function buildApplicationSlotKey(entry: SlotEntry): string | null {
+  const normalized = normalizeEntryForComparison(entry);
+  if (!normalized.gymName || !normalized.date || !normalized.time) {
+    return null;
+  }
+  return [normalized.gymName, normalized.date, normalized.time].join("|");
+}
+
+function buildIsoDate(yearValue: string, monthValue: string, dayValue: string): string | null {
+  const year = Number(yearValue);
+  const month = Number(monthValue);
+  const day = Number(dayValue);
+
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+function parseTimeSegment(value?: string): ParsedTimeSegment | null {
+  const segment = value?.trim() ?? "";
+  if (!segment) {
+    return null;
+  }
+
+  const colonMatch = segment.match(/^(\d{1,2}):(\d{2})$/);
+  if (colonMatch) {
+    return buildTimeSegment(colonMatch[1], colonMatch[2]);
+  }
+
+  const japaneseMatch = segment.match(/^(\d{1,2})時(?:(\d{1,2})分?)?$/);
+  if (japaneseMatch) {
+    return buildTimeSegment(japaneseMatch[1], japaneseMatch[2] ?? "00");
+  }
+
+  const compactMatch = segment.match(/^(\d{3,4})$/);
+  if (compactMatch) {
+    const compact = compactMatch[1];
+    const hour = compact.length === 3 ? compact.slice(0, 1) : compact.slice(0, 2);
+    const minute = compact.slice(-2);
+    return buildTimeSegment(hour, minute);
+  }
+
+  const hourOnlyMatch = segment.match(/^(\d{1,2})$/);
+  if (hourOnlyMatch) {
+    return buildTimeSegment(hourOnlyMatch[1], "00");
+  }
+
+  return null;
+}
+
+function buildTimeSegment(hourValue: string, minuteValue: string): ParsedTimeSegment | null {
+  const hour = Number(hourValue);
+  const minute = Number(minuteValue);
+
+  if (
+    !Number.isInteger(hour) ||
+    !Number.isInteger(minute) ||
+    hour < 0 ||
+    hour > 24 ||
+    minute < 0 ||
+    minute > 59 ||
+    (hour === 24 && minute !== 0)
+  ) {
+    return null;
+  }
+
+  return {
+    label: `${hour}:${String(minute).padStart(2, "0")}`,
+    minutes: hour * 60 + minute,
+  };
+}
@@ -0,0 +1,49 @@
+// 当選が余ったときに取り消す枠の条件。groups/{groupId}.winCancelRules に保存する
+export type WinCancelRules = {
+  // グループ全体で1日に残す当選の数。null は数では取り消さない
+  maxPerDay: number | null;
+  // 施設名にこの文字列を含む当選は取り消す
+  dropFacilities: string[];
+};
+
+// 何も取り消さない
+export const DEFAULT_WIN_CANCEL_RULES: WinCancelRules = {
+  maxPerDay: null,
+  dropFacilities: [],
+};
+
+const MAX_PER_DAY_LIMIT = 20;
+const MAX_DROP_FACILITIES = 50;
+
+export function parseWinCancelRules(value: unknown): WinCancelRules | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const { maxPerDay, dropFacilities } = value as Record<string, unknown>;
+  const normalizedMaxPerDay = maxPerDay === null || maxPerDay === undefined ? null : Number(maxPerDay);
+  if (
+    normalizedMaxPerDay !== null &&
+    (!Number.isInteger(normalizedMaxPerDay) || normalizedMaxPerDay < 1 || normalizedMaxPerDay > MAX_PER_DAY_LIMIT)
+  ) {
+    return null;
+  }
+
+  if (dropFacilities !== undefined && !Array.isArray(dropFacilities)) {
+    return null;
+  }
+
+  const names = (dropFacilities ?? [])
+    .filter((name): name is string => typeof name === "string")
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  return {
+    maxPerDay: normalizedMaxPerDay,
+    dropFacilities: [...new Set(names)].slice(0, MAX_DROP_FACILITIES),
+  };
+}
+
+export function resolveWinCancelRules(value: unknown): WinCancelRules {
+  return parseWinCancelRules(value) ?? DEFAULT_WIN_CANCEL_RULES;
+}